@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Routes, Route, Navigate, useLocation, useMatch, useNavigate, useSearchParams } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 
 import Header from './components/Header';
@@ -11,79 +12,228 @@ import SearchFilters from './components/SearchFilters';
 import ToolGrid from './components/ToolGrid';
 import Categories from './components/Categories';
 import FeaturedTools from './components/FeaturedTools';
+import TrendingTools from './components/TrendingTools';
 import Stats from './components/Stats';
 import ToolDetail from './pages/ToolDetail';
 import Dashboard from './pages/Dashboard';
 import Profile from './pages/Profile';
 import SubmitTool from './pages/SubmitTool';
+import AdminModeration from './pages/AdminModeration';
+import AdminReviewReports from './pages/AdminReviewReports';
+import EditTool from './pages/EditTool';
+import CompareTools from './pages/CompareTools';
+import CollectionPage from './pages/CollectionPage';
+import TeamsPage from './pages/TeamsPage';
+import TeamInvitePage from './pages/TeamInvitePage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import CompareTray from './components/CompareTray';
 
-import { FilterState, Tool, User as AppUser } from './types';
+import { FilterState, SubmissionData, Tool, ToolSortKey, User as AppUser } from './types';
 import { useAuthStore } from './store/authStore';
 import { useCategories } from './hooks/useCategories';
-import { Database } from './types/database';
+import { useIsAdmin } from './hooks/useAdmin';
+import { useCollectionSync } from './hooks/useCollections';
+import { useTeamSync } from './hooks/useTeams';
 import { db } from './lib/supabase';
+import { routes, routePatterns } from './lib/routes';
+import { TOOLS_PAGE_SIZE, isToolSortKey } from './lib/catalog';
+import { MIN_CRITERION_RATING } from './lib/reviewCriteria';
+import { getRankingScore } from './lib/ranking';
+import { fromToolInsert, normalizeToolFeatures, toTool, toTools } from './lib/toolMapper';
 import { mockTools } from './data/mockData';
 
-type Page = 'home' | 'tool-detail' | 'dashboard' | 'profile' | 'submit-tool';
+const filterTools = (tools: Tool[], filters: FilterState & { search?: string }) => {
+  let filtered = [...tools];
+  
+  // Category filter
+  if (filters.category && filters.category !== 'all') {
+    filtered = filtered.filter(tool => tool.category === filters.category);
+  }
+  
+  // Pricing filter
+  if (filters.pricing && filters.pricing !== 'all') {
+    filtered = filtered.filter(tool => tool.pricing === filters.pricing);
+  }
+  
+  // Rating filter
+  if (filters.rating && filters.rating > 0) {
+    filtered = filtered.filter(tool => tool.rating >= filters.rating);
+  }
+  
+  // Featured filter
+  if (filters.featured) {
+    filtered = filtered.filter(tool => tool.featured);
+  }
+
+  // Criterion filter
+  const { criterion } = filters;
+  if (criterion && criterion !== 'all') {
+    filtered = filtered.filter(tool => (tool.criteriaRatings?.[criterion] ?? 0) >= MIN_CRITERION_RATING);
+  }
+  
+  // Search filter
+  if (filters.search) {
+    const query = filters.search.toLowerCase();
+    filtered = filtered.filter(tool => 
+      tool.name.toLowerCase().includes(query) || 
+      tool.description.toLowerCase().includes(query) ||
+      tool.tags.some(tag => tag.toLowerCase().includes(query))
+    );
+  }
+  
+  return filtered;
+};
+
+const sortTools = (tools: Tool[], sort: ToolSortKey) => {
+  const sorted = [...tools];
+
+  switch (sort) {
+    case 'ranking':
+      return sorted.sort((a, b) => getRankingScore(b) - getRankingScore(a));
+    case 'trending':
+      return sorted.sort((a, b) =>
+        (b.trendingScore ?? 0) - (a.trendingScore ?? 0) || getRankingScore(b) - getRankingScore(a)
+      );
+    case 'rating':
+      return sorted.sort((a, b) => b.rating - a.rating || b.reviews - a.reviews);
+    case 'reviews_count':
+      return sorted.sort((a, b) => b.reviews - a.reviews);
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    case 'most-liked':
+      // Mock tools carry no like counts; fall back to popularity
+      return sorted.sort((a, b) => b.reviews - a.reviews);
+    case 'newest':
+    default:
+      return sorted.sort((a, b) => new Date(b.addedDate).getTime() - new Date(a.addedDate).getTime());
+  }
+};
 
 export default function App() {
-  const { user: authUser, loading: authLoading, signOut } = useAuthStore();
+  const { user: authUser, loading: authLoading, mfaChallenge, signOut } = useAuthStore();
   const { categories } = useCategories();
+  const { isAdmin, loading: adminLoading } = useIsAdmin();
+  useTeamSync();
+  useCollectionSync();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [tools, setTools] = useState<Tool[]>(mockTools);
-  const [filteredTools, setFilteredTools] = useState<Tool[]>(mockTools);
+  const [totalTools, setTotalTools] = useState(mockTools.length);
+  const [featuredTools, setFeaturedTools] = useState<Tool[]>(mockTools.filter(t => t.featured));
+  const [trendingTools, setTrendingTools] = useState<Tool[]>([]);
   const [toolsLoading, setToolsLoading] = useState(false);
+  const [catalogVersion, setCatalogVersion] = useState(0);
+
+  // Page and sort live in the query string so paged views are linkable
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const sortParam = searchParams.get('sort');
+  const sort: ToolSortKey = isToolSortKey(sortParam) ? sortParam : 'newest';
+
+  // The URL is the source of truth for which tool / category is shown
+  const toolMatch = useMatch(routePatterns.tool);
+  const categoryMatch = useMatch(routePatterns.category);
+  const editToolMatch = useMatch(routePatterns.editTool);
+  const compareMatch = useMatch(routePatterns.compare);
+  const collectionMatch = useMatch(routePatterns.collection);
+  const teamInviteMatch = useMatch(routePatterns.teamInvite);
+  const selectedToolId = toolMatch?.params.toolId;
+  const editToolId = editToolMatch?.params.toolId;
+  const collectionId = collectionMatch?.params.collectionId;
+  const teamInviteToken = teamInviteMatch?.params.token;
+  const selectedCategory = categoryMatch?.params.categoryId || 'all';
 
-  const [currentPage, setCurrentPage] = useState<Page>('home');
   const [selectedTool, setSelectedTool] = useState<Tool | null>(null);
-  const [filters, setFilters] = useState<FilterState>({ category: 'all', pricing: 'all', rating: 0, featured: false });
+  const [selectedToolLoading, setSelectedToolLoading] = useState(false);
+  const [filters, setFilters] = useState<FilterState>({ category: 'all', pricing: 'all', rating: 0, featured: false, criterion: 'all' });
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('all');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [appReady, setAppReady] = useState(false);
   const [showEmailConfirmation, setShowEmailConfirmation] = useState(false);
   const [confirmationToken, setConfirmationToken] = useState<string | null>(null);
 
-  // Load tools from API or mock data
+  // Debounce search so we don't query on every keystroke
   useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const activeFilters = useMemo(
+    () => ({ ...filters, category: selectedCategory }),
+    [filters, selectedCategory]
+  );
+
+  // Load the current catalog page from API or mock data
+  useEffect(() => {
+    let cancelled = false;
+
+    const showMockCatalog = () => {
+      const matching = sortTools(filterTools(mockTools, { ...activeFilters, search: debouncedSearch }), sort);
+      const from = (page - 1) * TOOLS_PAGE_SIZE;
+      setTools(matching.slice(from, from + TOOLS_PAGE_SIZE));
+      setTotalTools(matching.length);
+    };
+
     const loadTools = async () => {
       setToolsLoading(true);
       try {
-        const { data, error } = await db.getTools();
-        if (error || !data || data.length === 0) {
+        // Searches are ranked by relevance; otherwise use the selected sort
+        const { data, count, error } = debouncedSearch
+          ? await db.searchTools(debouncedSearch, { ...activeFilters, page, pageSize: TOOLS_PAGE_SIZE })
+          : await db.getTools({ ...activeFilters, sort, page, pageSize: TOOLS_PAGE_SIZE });
+        if (cancelled) return;
+
+        const isUnfiltered = activeFilters.category === 'all' && activeFilters.pricing === 'all' &&
+          !activeFilters.rating && !activeFilters.featured &&
+          (!activeFilters.criterion || activeFilters.criterion === 'all') && !debouncedSearch;
+
+        if (error || !data || (isUnfiltered && !count)) {
           console.log('Using mock data for tools');
-          setTools(mockTools);
-          setFilteredTools(mockTools);
+          showMockCatalog();
         } else {
-          const transformedTools: Tool[] = data.map((tool: any) => ({
-            id: tool.id,
-            name: tool.name,
-            description: tool.description,
-            category: tool.category,
-            pricing: tool.pricing,
-            rating: tool.rating || 0,
-            reviews: tool.reviews_count || 0,
-            tags: tool.tags || [],
-            image: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400',
-            url: tool.website_url,
-            featured: tool.featured || false,
-            verified: tool.verified || false,
-            addedDate: tool.created_at || new Date().toISOString(),
-            lastUpdated: tool.updated_at || new Date().toISOString()
-          }));
+          const transformedTools = toTools(data);
           setTools(transformedTools);
-          setFilteredTools(transformedTools);
+          setTotalTools(count ?? transformedTools.length);
         }
       } catch (err) {
         console.error('Error loading tools:', err);
-        setTools(mockTools);
-        setFilteredTools(mockTools);
+        if (!cancelled) showMockCatalog();
       } finally {
-        setToolsLoading(false);
+        if (!cancelled) setToolsLoading(false);
       }
     };
 
     loadTools();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [activeFilters, debouncedSearch, sort, page, catalogVersion]);
+
+  // Featured and trending tools are independent of the catalog page being viewed
+  useEffect(() => {
+    const loadFeaturedTools = async () => {
+      const { data, error } = await db.getTools({ featured: true, sort: 'ranking', page: 1, pageSize: 3 });
+      if (error || !data || data.length === 0) {
+        setFeaturedTools(sortTools(mockTools.filter(t => t.featured), 'ranking'));
+        return;
+      }
+      setFeaturedTools(toTools(data));
+    };
+
+    // Mock tools have no activity history, so the section stays hidden without the database
+    const loadTrendingTools = async () => {
+      const { data, error } = await db.getTools({ sort: 'trending', page: 1, pageSize: 6 });
+      if (error || !data) {
+        setTrendingTools([]);
+        return;
+      }
+      setTrendingTools(toTools(data).filter(tool => (tool.trendingScore ?? 0) > 0));
+    };
+
+    loadFeaturedTools();
+    loadTrendingTools();
+  }, [catalogVersion]);
 
   // 🗂️ 1️⃣ Properly transform `authUser` → `User`
   const user: AppUser | null = authUser
@@ -108,9 +258,14 @@ export default function App() {
     if (token && params.get('type') === 'signup') {
       setConfirmationToken(token);
       setShowEmailConfirmation(true);
-      window.history.replaceState({}, document.title, window.location.pathname);
+      navigate(window.location.pathname, { replace: true });
     }
-  }, []);
+  }, [navigate]);
+
+  // 🔐 Finish a sign-in that still needs its second factor, e.g. after a reload
+  useEffect(() => {
+    if (mfaChallenge) setIsAuthModalOpen(true);
+  }, [mfaChallenge]);
 
   // ⏳ 3️⃣ Splash load guard
   useEffect(() => {
@@ -118,131 +273,133 @@ export default function App() {
     return () => clearTimeout(timer);
   }, []);
 
-  // 🔀 4️⃣ Navigation handlers
-  const handleNavigation = (page: Page) => {
-    setCurrentPage(page);
-    if (page === 'home') setSelectedTool(null);
-  };
+  // 🔗 4️⃣ Load the tool referenced by /tools/:toolId
+  useEffect(() => {
+    if (!selectedToolId) {
+      setSelectedTool(null);
+      return;
+    }
 
-  const handleToolClick = async (id: string) => {
-    try {
-      const { data, error } = await db.getTool(id);
-      if (error || !data) {
-        const mockTool = mockTools.find(t => t.id === id);
-        if (mockTool) {
-          setSelectedTool(mockTool);
+    let cancelled = false;
+
+    const loadSelectedTool = async () => {
+      setSelectedToolLoading(true);
+      try {
+        const { data, error } = await db.getTool(selectedToolId);
+        if (cancelled) return;
+
+        const tool = !error && data ? toTool(data) : null;
+        if (tool) {
+          setSelectedTool(tool);
         } else {
-          console.error('Tool not found');
-          return;
+          const mockTool = mockTools.find(t => t.id === selectedToolId);
+          if (!mockTool) {
+            console.error('Tool not found');
+          }
+          setSelectedTool(mockTool || null);
         }
+      } catch (error) {
+        console.error('Error fetching tool:', error);
+        if (!cancelled) setSelectedTool(null);
+      } finally {
+        if (!cancelled) setSelectedToolLoading(false);
+      }
+    };
+
+    loadSelectedTool();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedToolId]);
+
+  // 🔀 5️⃣ Navigation handlers
+  const handleNavigation = (path: string) => {
+    navigate(path);
+  };
+
+  const handleToolClick = (id: string) => {
+    navigate(routes.tool(id));
+  };
+
+  const handleBack = () => {
+    // Go back within the app when we have history, otherwise land on home
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate(routes.home);
+    }
+  };
+
+  // Update page/sort in the query string; anything else resets to page 1
+  const updateCatalogParams = (updates: { page?: number; sort?: ToolSortKey }) => {
+    const next = new URLSearchParams(searchParams);
+    if (updates.page && updates.page > 1) {
+      next.set('page', String(updates.page));
+    } else {
+      next.delete('page');
+    }
+    if (updates.sort) {
+      if (updates.sort === 'newest') {
+        next.delete('sort');
       } else {
-        const tool: Tool = {
-          id: data.id,
-          name: data.name,
-          description: data.description,
-          category: data.category,
-          pricing: data.pricing,
-          rating: data.rating || 0,
-          reviews: data.reviews_count || 0,
-          tags: data.tags || [],
-          image: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400',
-          url: data.website_url,
-          featured: data.featured || false,
-          verified: data.verified || false,
-          addedDate: data.created_at || new Date().toISOString(),
-          lastUpdated: data.updated_at || new Date().toISOString()
-        };
-        setSelectedTool(tool);
+        next.set('sort', updates.sort);
       }
-      setCurrentPage('tool-detail');
-    } catch (error) {
-      console.error('Error fetching tool:', error);
     }
+    setSearchParams(next, { replace: !updates.page });
+  };
+
+  const handlePageChange = (nextPage: number) => {
+    updateCatalogParams({ page: nextPage });
+    document.getElementById('discover')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const handleSortChange = (nextSort: ToolSortKey) => {
+    updateCatalogParams({ sort: nextSort });
   };
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
-    applyFilters({ ...filters, search: query });
+    if (page > 1) updateCatalogParams({});
   };
 
   const handleFilterChange = (newFilters: FilterState) => {
     setFilters(newFilters);
-    applyFilters({ ...newFilters, search: searchQuery });
-  };
-
-  const applyFilters = (filters: FilterState & { search?: string }) => {
-    let filtered = [...tools];
-    
-    // Category filter
-    if (filters.category && filters.category !== 'all') {
-      filtered = filtered.filter(tool => tool.category === filters.category);
-    }
-    
-    // Pricing filter
-    if (filters.pricing && filters.pricing !== 'all') {
-      filtered = filtered.filter(tool => tool.pricing === filters.pricing);
-    }
-    
-    // Rating filter
-    if (filters.rating && filters.rating > 0) {
-      filtered = filtered.filter(tool => tool.rating >= filters.rating);
-    }
-    
-    // Featured filter
-    if (filters.featured) {
-      filtered = filtered.filter(tool => tool.featured);
-    }
-    
-    // Search filter
-    if (filters.search) {
-      const query = filters.search.toLowerCase();
-      filtered = filtered.filter(tool => 
-        tool.name.toLowerCase().includes(query) || 
-        tool.description.toLowerCase().includes(query) ||
-        tool.tags.some(tag => tag.toLowerCase().includes(query))
-      );
+    if (newFilters.category !== selectedCategory) {
+      navigate(routes.category(newFilters.category));
+    } else if (page > 1) {
+      updateCatalogParams({});
     }
-    
-    setFilteredTools(filtered);
   };
 
-  const handleToolSubmit = async (data: Database['public']['Tables']['tools']['Insert']) => {
+  const handleToolSubmit = async (submission: SubmissionData) => {
     if (!user) {
       setIsAuthModalOpen(true);
       return;
     }
     
     try {
-      const { error } = await db.createTool(data);
-      if (error) {
-        throw new Error(error.message || 'Failed to submit tool');
+      const { data: created, error } = await db.createTool(fromToolInsert(submission));
+      if (error || !created) {
+        throw new Error(error?.message || 'Failed to submit tool');
       }
       
+      // The tool exists at this point, so a failure here only loses the extras
+      const features = normalizeToolFeatures(submission.features);
+      const contactEmail = submission.contactEmail.trim();
+      const [featuresResult, contactResult] = await Promise.all([
+        features.length > 0 ? db.setToolFeatures(created.id, features) : null,
+        contactEmail ? db.setToolContact(created.id, contactEmail) : null
+      ]);
+      
       // Refresh tools list
-      const { data: newTools, error: fetchError } = await db.getTools();
-      if (!fetchError && newTools) {
-        const transformedTools: Tool[] = newTools.map((tool: any) => ({
-          id: tool.id,
-          name: tool.name,
-          description: tool.description,
-          category: tool.category,
-          pricing: tool.pricing,
-          rating: tool.rating || 0,
-          reviews: tool.reviews_count || 0,
-          tags: tool.tags || [],
-          image: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400',
-          url: tool.website_url,
-          featured: tool.featured || false,
-          verified: tool.verified || false,
-          addedDate: tool.created_at || new Date().toISOString(),
-          lastUpdated: tool.updated_at || new Date().toISOString()
-        }));
-        setTools(transformedTools);
-        setFilteredTools(transformedTools);
-      }
+      setCatalogVersion(v => v + 1);
       
-      alert('Tool submitted!');
-      handleNavigation('home');
+      if (featuresResult?.error || contactResult?.error) {
+        alert('Tool submitted, but its features or contact email could not be saved. A moderator may ask you for them.');
+      } else {
+        alert('Tool submitted! It will appear once a moderator approves it.');
+      }
+      handleNavigation(routes.home);
     } catch (error) {
       alert(`Error: ${(error as Error).message}`);
     }
@@ -256,87 +413,72 @@ export default function App() {
     );
   }
 
-  // 🧭 5️⃣ Correctly typed pages
-  const renderCurrentPage = () => {
-    switch (currentPage) {
-      case 'tool-detail':
-        return selectedTool ? (
-          <ToolDetail 
-            tool={selectedTool} 
-            onBack={() => handleNavigation('home')}
-            currentUser={user} // ✅ typed properly
-          />
-        ) : <p>Loading...</p>;
-
-      case 'dashboard':
-        return user ? (
-          <Dashboard 
-            user={user} 
-            tools={tools} 
-            onToolClick={handleToolClick} 
-          />
-        ) : <SignInPrompt />;
-
-      case 'profile':
-        return user ? (
-          <Profile 
-            user={user}
-            onUpdateUser={async (updatedUser) => {
-              await db.updateProfile(user.id, {
-                name: updatedUser.name,
-                email: updatedUser.email,
-                avatar_url: updatedUser.avatar
-              });
-            }}
-          />
-        ) : <SignInPrompt />;
-
-      case 'submit-tool':
-        return user ? (
-          <SubmitTool 
-            onSubmit={handleToolSubmit} 
-            user={user} 
-          />
-        ) : <SignInPrompt />;
-
-      default:
-        return (
-          <>
-            <Hero onSearch={handleSearch} onToolClick={handleToolClick} />
-            <Stats />
-            <Categories
-              selectedCategory={selectedCategory}
-              onCategorySelect={cat => {
-                setFilters({ ...filters, category: cat });
-                setSelectedCategory(cat);
-              }}
-              categories={categories}
+  // 🧭 6️⃣ Route elements
+  const homePage = (
+    <>
+      <Hero onSearch={handleSearch} onToolClick={handleToolClick} />
+      <Stats />
+      <Categories
+        selectedCategory={selectedCategory}
+        onCategorySelect={cat => navigate(routes.category(cat))}
+        categories={categories}
+      />
+      {/* Check if tools array exists and has items before filtering */}
+      {featuredTools.length > 0 && (
+        <FeaturedTools tools={featuredTools} />
+      )}
+      {trendingTools.length > 0 && (
+        <TrendingTools tools={trendingTools} onToolClick={handleToolClick} />
+      )}
+      <section id="discover" className="py-16 px-4">
+        <div className="max-w-7xl mx-auto">
+          <motion.div initial={{ opacity: 0, y: 20 }} whileInView={{ opacity: 1, y: 0 }}>
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Discover AI Tools</h2>
+            <SearchFilters 
+              searchQuery={searchQuery}
+              onSearch={handleSearch} 
+              onFilterChange={handleFilterChange} 
+              filters={activeFilters} 
             />
-            {/* Check if tools array exists and has items before filtering */}
-            {tools && tools.length > 0 && (
-              <FeaturedTools tools={tools.filter(t => t && t.featured)} />
-            )}
-            <section className="py-16 px-4">
-              <div className="max-w-7xl mx-auto">
-                <motion.div initial={{ opacity: 0, y: 20 }} whileInView={{ opacity: 1, y: 0 }}>
-                  <h2 className="text-2xl font-bold text-gray-900 mb-6">Discover AI Tools</h2>
-                  <SearchFilters 
-                    onSearch={handleSearch} 
-                    onFilterChange={handleFilterChange} 
-                    filters={filters} 
-                  />
-                  <ToolGrid 
-                    tools={filteredTools} 
-                    loading={toolsLoading} 
-                    onToolClick={handleToolClick} 
-                  />
-                </motion.div>
-              </div>
-            </section>
-          </>
-        );
-    }
-  };
+            <ToolGrid 
+              tools={tools} 
+              loading={toolsLoading} 
+              onToolClick={handleToolClick} 
+              totalCount={totalTools}
+              page={page}
+              pageSize={TOOLS_PAGE_SIZE}
+              onPageChange={handlePageChange}
+              sort={sort}
+              onSortChange={handleSortChange}
+              searchQuery={debouncedSearch}
+            />
+          </motion.div>
+        </div>
+      </section>
+    </>
+  );
+
+  const toolDetailPage = selectedTool && selectedTool.id === selectedToolId ? (
+    <ToolDetail 
+      tool={selectedTool} 
+      onBack={handleBack}
+      currentUser={user} // ✅ typed properly
+      onEditTool={(toolId) => handleNavigation(routes.editTool(toolId))}
+      onToolClick={handleToolClick}
+    />
+  ) : selectedToolLoading ? (
+    <p>Loading...</p>
+  ) : (
+    <div className="min-h-screen flex flex-col items-center justify-center">
+      <p className="mb-4">We couldn't find that tool.</p>
+      <button 
+        onClick={() => navigate(routes.home)} 
+        className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+      >
+        Back to Tools
+      </button>
+    </div>
+  );
 
   const SignInPrompt = () => (
     <div className="min-h-screen flex flex-col items-center justify-center">
@@ -357,16 +499,146 @@ export default function App() {
         onNavigate={handleNavigation}
         onAuthClick={() => setIsAuthModalOpen(true)}
         onLogout={signOut}
-        currentPage={currentPage}
+        currentPath={location.pathname}
+        isAdmin={isAdmin}
       />
 
       <main>
         <AnimatePresence mode="wait">
-          {renderCurrentPage()}
+          <Routes location={location} key={location.pathname}>
+            <Route path={routePatterns.home} element={homePage} />
+            <Route path={routePatterns.category} element={homePage} />
+            <Route path={routePatterns.tool} element={toolDetailPage} />
+            <Route
+              path={routePatterns.dashboard}
+              element={user ? (
+                <Dashboard 
+                  user={user} 
+                  tools={tools} 
+                  onToolClick={handleToolClick} 
+                  onCollectionClick={(id) => handleNavigation(routes.collection(id))}
+                />
+              ) : <SignInPrompt />}
+            />
+            <Route
+              path={routePatterns.profile}
+              element={user ? (
+                <Profile 
+                  user={user}
+                  onUpdateUser={async (updatedUser) => {
+                    await db.updateProfile(user.id, {
+                      name: updatedUser.name,
+                      email: updatedUser.email,
+                      avatar_url: updatedUser.avatar
+                    });
+                  }}
+                />
+              ) : <SignInPrompt />}
+            />
+            <Route
+              path={routePatterns.submitTool}
+              element={user ? (
+                <SubmitTool 
+                  onSubmit={handleToolSubmit} 
+                  user={user} 
+                />
+              ) : <SignInPrompt />}
+            />
+            <Route
+              path={routePatterns.editTool}
+              element={user && editToolId ? (
+                <EditTool
+                  toolId={editToolId}
+                  user={user}
+                  onSaved={(toolId) => {
+                    setCatalogVersion(v => v + 1);
+                    handleNavigation(routes.tool(toolId));
+                  }}
+                />
+              ) : <SignInPrompt />}
+            />
+            <Route
+              path={routePatterns.compare}
+              element={
+                <CompareTools
+                  toolIds={(searchParams.get('tools') || '').split(',').filter(Boolean)}
+                  onToolClick={handleToolClick}
+                  onChangeTools={(toolIds) => handleNavigation(routes.compare(toolIds))}
+                />
+              }
+            />
+            <Route
+              path={routePatterns.collection}
+              element={collectionId ? (
+                <CollectionPage
+                  collectionId={collectionId}
+                  onToolClick={handleToolClick}
+                  onCollectionClick={(id) => handleNavigation(routes.collection(id))}
+                  onDeleted={() => handleNavigation(routes.dashboard)}
+                />
+              ) : <Navigate to={routes.home} replace />}
+            />
+            <Route
+              path={routePatterns.teams}
+              element={user ? (
+                <TeamsPage
+                  user={user}
+                  onToolClick={handleToolClick}
+                  onCollectionClick={(id) => handleNavigation(routes.collection(id))}
+                />
+              ) : <SignInPrompt />}
+            />
+            <Route
+              path={routePatterns.teamInvite}
+              element={teamInviteToken ? (
+                <TeamInvitePage
+                  token={teamInviteToken}
+                  user={user}
+                  onSignIn={() => setIsAuthModalOpen(true)}
+                  onAccepted={() => handleNavigation(routes.teams)}
+                />
+              ) : <Navigate to={routes.home} replace />}
+            />
+            <Route
+              path={routePatterns.resetPassword}
+              element={
+                <ResetPasswordPage
+                  onComplete={() => handleNavigation(routes.dashboard)}
+                  onSignIn={() => setIsAuthModalOpen(true)}
+                  onOpenProfile={() => handleNavigation(routes.profile)}
+                />
+              }
+            />
+            <Route
+              path={routePatterns.adminModeration}
+              element={!user ? <SignInPrompt /> : adminLoading ? (
+                <p>Loading...</p>
+              ) : isAdmin ? (
+                <AdminModeration adminId={user.id} onToolClick={handleToolClick} />
+              ) : (
+                <Navigate to={routes.home} replace />
+              )}
+            />
+            <Route
+              path={routePatterns.adminReviewReports}
+              element={!user ? <SignInPrompt /> : adminLoading ? (
+                <p>Loading...</p>
+              ) : isAdmin ? (
+                <AdminReviewReports onToolClick={handleToolClick} />
+              ) : (
+                <Navigate to={routes.home} replace />
+              )}
+            />
+            <Route path="*" element={<Navigate to={routes.home} replace />} />
+          </Routes>
         </AnimatePresence>
       </main>
 
-      {currentPage === 'home' && <Footer />}
+      {(location.pathname === routes.home || categoryMatch) && <Footer />}
+
+      {!compareMatch && (
+        <CompareTray onCompare={(toolIds) => handleNavigation(routes.compare(toolIds))} />
+      )}
 
       <AuthModal 
         isOpen={isAuthModalOpen} 
@@ -0,0 +1,122 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Monitor, Smartphone, Loader2, LogOut } from 'lucide-react';
+import { auth } from '../lib/supabase';
+import { toUserSession } from '../lib/accountSecurity';
+import { UserSession } from '../types';
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Browsers and devices signed in to the account
+const ActiveSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Session being revoked, or 'others' while signing out every other session
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    const { data, error } = await auth.getSessions();
+    if (error) {
+      toast.error(error.message || 'Failed to load your active sessions');
+    } else {
+      setSessions((data || []).map(toUserSession));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevokingId(session.id);
+    const { error } = await auth.revokeSession(session.id);
+    setRevokingId(null);
+
+    if (error) {
+      toast.error(error.message || 'Failed to sign out that session');
+      return;
+    }
+    setSessions(prev => prev.filter(s => s.id !== session.id));
+    toast.success(`Signed out ${session.device}`);
+  };
+
+  const handleSignOutOthers = async () => {
+    if (!window.confirm('Sign out of every other browser and device?')) return;
+
+    setRevokingId('others');
+    const { error } = await auth.signOutOtherSessions();
+    setRevokingId(null);
+
+    if (error) {
+      toast.error(error.message || 'Failed to sign out other devices');
+      return;
+    }
+    toast.success('Signed out of all other devices');
+    loadSessions();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 text-primary-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const hasOtherSessions = sessions.some(session => !session.isCurrent);
+
+  return (
+    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+      {sessions.map(session => {
+        const DeviceIcon = /iOS|Android/.test(session.device) ? Smartphone : Monitor;
+        return (
+          <div key={session.id} className="flex items-center justify-between gap-4 p-4">
+            <div className="flex items-center space-x-3 min-w-0">
+              <DeviceIcon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900">
+                  {session.device}
+                  {session.isCurrent && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded-full">
+                      This device
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500 truncate">
+                  {session.ip && `${session.ip} · `}
+                  Last active {formatDateTime(session.lastActiveAt)} · Signed in {formatDateTime(session.createdAt)}
+                </div>
+              </div>
+            </div>
+            {!session.isCurrent && (
+              <button
+                onClick={() => handleRevoke(session)}
+                disabled={!!revokingId}
+                className="flex-shrink-0 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                {revokingId === session.id ? 'Signing out...' : 'Sign out'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {hasOtherSessions && (
+        <div className="p-4">
+          <button
+            onClick={handleSignOutOthers}
+            disabled={!!revokingId}
+            className="flex items-center space-x-2 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            <LogOut className="h-4 w-4" />
+            <span>{revokingId === 'others' ? 'Signing out...' : 'Sign out all other devices'}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import {
+  Bookmark,
+  BookmarkMinus,
+  Heart,
+  HeartOff,
+  MessageCircle,
+  MessageSquareX,
+  Star,
+  TrendingUp,
+  Loader2
+} from 'lucide-react';
+import { ActivityEvent, ActivityEventType } from '../types';
+import { ACTIVITY_DESCRIPTIONS } from '../lib/activity';
+
+const ACTIVITY_ICONS: Record<ActivityEventType, { icon: React.ElementType; className: string }> = {
+  bookmark_added: { icon: Bookmark, className: 'bg-blue-100 text-blue-600' },
+  bookmark_removed: { icon: BookmarkMinus, className: 'bg-gray-100 text-gray-500' },
+  like_added: { icon: Heart, className: 'bg-red-100 text-red-600' },
+  like_removed: { icon: HeartOff, className: 'bg-gray-100 text-gray-500' },
+  review_created: { icon: MessageCircle, className: 'bg-green-100 text-green-600' },
+  review_updated: { icon: MessageCircle, className: 'bg-green-100 text-green-600' },
+  review_deleted: { icon: MessageSquareX, className: 'bg-gray-100 text-gray-500' }
+};
+
+interface ActivityLogProps {
+  events: ActivityEvent[];
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onToolClick: (toolId: string) => void;
+}
+
+const ActivityLog: React.FC<ActivityLogProps> = ({
+  events,
+  loading,
+  loadingMore,
+  hasMore,
+  onLoadMore,
+  onToolClick
+}) => {
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-primary-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <TrendingUp className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">No activity in this period</h3>
+        <p className="text-gray-600">Bookmarks, likes and reviews you make will show up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {events.map((event, index) => {
+        const { icon: Icon, className } = ACTIVITY_ICONS[event.type];
+        return (
+          <motion.div
+            key={event.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: Math.min(index, 10) * 0.05 }}
+            className="flex items-center space-x-4 p-4 border border-gray-200 rounded-lg"
+          >
+            <div className={`p-2 rounded-full ${className}`}>
+              <Icon className="h-4 w-4" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-gray-900">
+                You {ACTIVITY_DESCRIPTIONS[event.type]}{' '}
+                {event.toolId ? (
+                  <button
+                    onClick={() => onToolClick(event.toolId!)}
+                    className="font-semibold hover:text-primary-600 transition-colors"
+                  >
+                    {event.toolName}
+                  </button>
+                ) : (
+                  <span className="font-semibold">{event.toolName}</span>
+                )}
+                {event.rating && event.type !== 'review_deleted' && (
+                  <span className="inline-flex items-center ml-2 text-sm text-gray-600">
+                    <Star className="h-3.5 w-3.5 text-yellow-400 fill-current mr-0.5" />
+                    {event.rating}
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-gray-500">
+                {new Date(event.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+              </p>
+            </div>
+          </motion.div>
+        );
+      })}
+
+      {hasMore && (
+        <div className="text-center pt-2">
+          <button
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityLog;
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { FolderPlus, Check, Plus, Lock, Link2, Globe, Users } from 'lucide-react';
+import { useCollectionStore } from '../store/collectionStore';
+import { useBookmarkContext } from '../contexts/BookmarkContext';
+import { MAX_COLLECTION_NAME_LENGTH } from '../lib/collections';
+import { CollectionVisibility } from '../types';
+
+interface AddToCollectionMenuProps {
+  toolId: string;
+  // 'overlay' sits on top of an image (tool detail header), 'inline' in a card footer
+  variant?: 'overlay' | 'inline';
+}
+
+const VISIBILITY_ICONS: Record<CollectionVisibility, React.ElementType> = {
+  private: Lock,
+  unlisted: Link2,
+  public: Globe
+};
+
+// Lists the user's collections with a checkmark on those holding the tool
+const AddToCollectionMenu: React.FC<AddToCollectionMenuProps> = ({ toolId, variant = 'inline' }) => {
+  const collections = useCollectionStore(state => state.collections);
+  const toggleTool = useCollectionStore(state => state.toggleTool);
+  const createCollection = useCollectionStore(state => state.createCollection);
+  const { isBookmarked, toggleBookmark } = useBookmarkContext();
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const inCollectionCount = collections.filter(collection =>
+    collection.isDefault ? isBookmarked(toolId) : collection.toolIds.includes(toolId)
+  ).length;
+
+  const handleToggle = async (collectionId: string, isDefault: boolean) => {
+    // "Saved" is the bookmark list; the database keeps the two in sync
+    const { error } = isDefault
+      ? await toggleBookmark(toolId)
+      : await toggleTool(collectionId, toolId);
+
+    if (error) {
+      toast.error(error.message || 'Failed to update collection');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    setCreating(true);
+    const { data, error } = await createCollection({ name: newName, visibility: 'private' });
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to create collection');
+    } else {
+      const { error: addError } = await toggleTool(data.id, toolId);
+      if (addError) {
+        toast.error(addError.message);
+      } else {
+        toast.success(`Added to ${data.name}`);
+      }
+      setNewName('');
+    }
+    setCreating(false);
+  };
+
+  const buttonClass = variant === 'overlay'
+    ? `p-3 rounded-full backdrop-blur-md border transition-colors ${
+        inCollectionCount > 0
+          ? 'bg-primary-600 text-white border-primary-600'
+          : 'bg-white/80 text-gray-600 border-white/20 hover:bg-white'
+      }`
+    : `p-2 rounded-lg transition-colors ${
+        inCollectionCount > 0
+          ? 'text-primary-600 bg-primary-50'
+          : 'text-gray-400 hover:text-primary-600 hover:bg-primary-50'
+      }`;
+
+  return (
+    <div ref={menuRef} className="relative" onClick={(e) => e.stopPropagation()}>
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-haspopup="menu"
+        className={buttonClass}
+        title="Add to collection"
+      >
+        <FolderPlus className={variant === 'overlay' ? 'h-5 w-5' : 'h-4 w-4'} />
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: variant === 'overlay' ? -10 : 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: variant === 'overlay' ? -10 : 10 }}
+            role="menu"
+            className={`absolute right-0 z-20 w-64 bg-white border border-gray-200 rounded-xl shadow-lg p-2 ${
+              variant === 'overlay' ? 'top-full mt-2' : 'bottom-full mb-2'
+            }`}
+          >
+            <p className="px-2 py-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+              Add to collection
+            </p>
+
+            <div className="max-h-48 overflow-y-auto">
+              {collections.length === 0 && (
+                <p className="px-2 py-2 text-sm text-gray-500">No collections yet</p>
+              )}
+              {collections.map(collection => {
+                const included = collection.isDefault
+                  ? isBookmarked(toolId)
+                  : collection.toolIds.includes(toolId);
+                // Team collections are marked as such rather than by visibility
+                const VisibilityIcon = collection.organizationId ? Users : VISIBILITY_ICONS[collection.visibility];
+
+                return (
+                  <button
+                    key={collection.id}
+                    role="menuitemcheckbox"
+                    aria-checked={included}
+                    onClick={() => handleToggle(collection.id, collection.isDefault)}
+                    className="w-full flex items-center space-x-2 px-2 py-2 rounded-lg text-left text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    <span className={`flex items-center justify-center w-4 h-4 rounded border flex-shrink-0 ${
+                      included ? 'bg-primary-600 border-primary-600 text-white' : 'border-gray-300'
+                    }`}>
+                      {included && <Check className="h-3 w-3" />}
+                    </span>
+                    <span className="flex-1 truncate">{collection.name}</span>
+                    <VisibilityIcon className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" />
+                  </button>
+                );
+              })}
+            </div>
+
+            <form onSubmit={handleCreate} className="flex items-center space-x-2 border-t border-gray-100 mt-2 pt-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                maxLength={MAX_COLLECTION_NAME_LENGTH}
+                placeholder="New collection"
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+              <button
+                type="submit"
+                disabled={creating || !newName.trim()}
+                className="p-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Create collection"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default AddToCollectionMenu;
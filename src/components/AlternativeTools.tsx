@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bookmark, Star, Loader2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useBookmarkContext } from '../contexts/BookmarkContext';
+import { ToolRecommendation } from '../utils/recommendations';
+
+interface AlternativeToolsProps {
+  alternatives: ToolRecommendation[];
+  loading: boolean;
+  onToolClick?: (toolId: string) => void;
+}
+
+const AlternativeTools: React.FC<AlternativeToolsProps> = ({ alternatives, loading, onToolClick }) => {
+  const { user } = useAuth();
+  const { isBookmarked, toggleBookmark } = useBookmarkContext();
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const handleBookmark = async (toolId: string) => {
+    setSavingId(toolId);
+    await toggleBookmark(toolId);
+    setSavingId(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-500">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        <span>Finding alternatives...</span>
+      </div>
+    );
+  }
+
+  if (alternatives.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-6xl mb-4">🔄</div>
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">No alternatives yet</h3>
+        <p className="text-gray-600">We couldn't find tools in the same category or with shared tags.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {alternatives.map(({ tool, score, reasons }, index) => {
+        const saved = isBookmarked(tool.id);
+
+        return (
+          <motion.div
+            key={tool.id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className="flex items-start space-x-4 p-4 border border-gray-200 rounded-xl hover:border-primary-200 transition-colors"
+          >
+            <img
+              src={tool.media?.logo || tool.image}
+              alt=""
+              className="w-14 h-14 rounded-lg object-cover border border-gray-200 flex-shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() => onToolClick?.(tool.id)}
+                  className="text-lg font-semibold text-gray-900 hover:text-primary-600 transition-colors text-left truncate"
+                >
+                  {tool.name}
+                </button>
+                <span className="text-xs font-medium text-primary-700 bg-primary-50 px-2 py-1 rounded-full flex-shrink-0">
+                  {Math.round(score * 100)}% match
+                </span>
+              </div>
+              <p className="text-sm text-gray-600 line-clamp-2 mb-2">{tool.description}</p>
+              <div className="flex flex-wrap gap-1">
+                {reasons.map((reason) => (
+                  <span key={reason} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs">
+                    {reason}
+                  </span>
+                ))}
+              </div>
+              <div className="flex items-center mt-2 text-sm text-gray-500">
+                <Star className="h-4 w-4 text-yellow-400 fill-current mr-1" />
+                <span>{tool.rating.toFixed(1)}</span>
+                <span className="mx-2">·</span>
+                <span className="capitalize">{tool.pricing}</span>
+              </div>
+            </div>
+            {user && (
+              <button
+                onClick={() => handleBookmark(tool.id)}
+                disabled={savingId === tool.id}
+                className={`p-2 rounded-full border transition-colors flex-shrink-0 ${
+                  saved
+                    ? 'bg-primary-600 text-white border-primary-600'
+                    : 'text-gray-500 border-gray-200 hover:text-primary-600 hover:border-primary-300'
+                } ${savingId === tool.id ? 'opacity-50 cursor-not-allowed' : ''}`}
+                aria-label={saved ? `Remove ${tool.name} from bookmarks` : `Bookmark ${tool.name}`}
+              >
+                <Bookmark className="h-5 w-5" fill={saved ? 'currentColor' : 'none'} />
+              </button>
+            )}
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AlternativeTools;
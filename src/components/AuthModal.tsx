@@ -1,8 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Mail, Lock, User as UserIcon, Eye, EyeOff, AlertCircle } from 'lucide-react';
+import { X, Mail, Lock, User as UserIcon, Eye, EyeOff, AlertCircle, ShieldCheck } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useAuthStore } from '../store/authStore';
+import { TOTP_CODE_LENGTH } from '../lib/mfa';
 
 interface AuthModalProps {
   isOpen: boolean;
@@ -22,12 +23,27 @@ interface ValidationErrors {
 }
 
 const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
-  const { user, loading, initialized, signIn, signUp } = useAuthStore();
+  const {
+    user,
+    loading,
+    initialized,
+    mfaChallenge,
+    signIn,
+    signUp,
+    requestPasswordReset,
+    verifyMfa,
+    redeemRecoveryCode,
+    cancelMfaChallenge,
+  } = useAuthStore();
   const [isLogin, setIsLogin] = useState(true);
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [userEmail, setUserEmail] = useState('');
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [resetEmailSent, setResetEmailSent] = useState(false);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [formData, setFormData] = useState<FormData>({
     name: '',
@@ -123,7 +139,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
       if (isLogin) {
         const loadingToast = toast.loading('Signing you in...');
         
-        const { error } = await signIn(formData.email, formData.password);
+        const { error, mfaRequired } = await signIn(formData.email, formData.password);
         
         toast.dismiss(loadingToast);
         
@@ -147,6 +163,10 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
             toast.error(errorMessage);
             setErrors({ email: ' ', password: ' ' }); // Show field errors without text
           }
+        } else if (mfaRequired) {
+          // The two-step verification view takes over from here
+          setMfaCode('');
+          setUseRecoveryCode(false);
         } else {
           toast.success('Welcome back!');
           handleClose();
@@ -197,6 +217,71 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+    
+    const emailError = validateEmail(formData.email);
+    if (emailError) {
+      setErrors({ email: emailError });
+      return;
+    }
+    
+    setIsSubmitting(true);
+    setErrors({});
+    
+    const { error } = await requestPasswordReset(formData.email);
+    
+    if (!isMountedRef.current) return;
+    setIsSubmitting(false);
+    
+    if (error) {
+      toast.error(error.message?.toLowerCase().includes('rate limit')
+        ? 'Too many reset requests. Please wait a few minutes and try again.'
+        : error.message || 'Failed to send reset link');
+      return;
+    }
+    
+    setUserEmail(formData.email);
+    setResetEmailSent(true);
+  };
+  
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting || !mfaCode.trim()) return;
+    
+    setIsSubmitting(true);
+    
+    const { error } = useRecoveryCode
+      ? await redeemRecoveryCode(mfaCode)
+      : await verifyMfa(mfaCode.replace(/\s/g, ''));
+    
+    if (!isMountedRef.current) return;
+    setIsSubmitting(false);
+    
+    if (error) {
+      toast.error(error.message?.toLowerCase().includes('invalid')
+        ? 'That code is not valid. Please try again.'
+        : error.message || 'Failed to verify your code');
+      setMfaCode('');
+      return;
+    }
+    
+    if (useRecoveryCode) {
+      toast.success('Signed in. Two-factor authentication is now off - turn it back on from your profile.', { duration: 8000 });
+    } else {
+      toast.success('Welcome back!');
+    }
+    handleClose();
+  };
+  
+  const showSignIn = () => {
+    setShowForgotPassword(false);
+    setResetEmailSent(false);
+    setIsLogin(true);
+    setErrors({});
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     
@@ -221,6 +306,13 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
       return;
     }
     
+    // Leaving the two-step check abandons the half-finished sign-in. Read
+    // from the store, as this can run from a handler that started before
+    // the check was passed.
+    if (useAuthStore.getState().mfaChallenge) {
+      cancelMfaChallenge();
+    }
+    
     isMountedRef.current = false;
     onClose();
     
@@ -230,6 +322,10 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
       setErrors({});
       setIsLogin(true);
       setShowConfirmation(false);
+      setShowForgotPassword(false);
+      setResetEmailSent(false);
+      setMfaCode('');
+      setUseRecoveryCode(false);
       setUserEmail('');
       setShowPassword(false);
       setIsSubmitting(false);
@@ -275,11 +371,23 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
 
             <div className="text-center mb-8">
               <h2 className="text-3xl font-bold text-gray-900 mb-2">
-                {showConfirmation ? 'Check Your Email' : (isLogin ? 'Welcome Back' : 'Join AIventory')}
+                {mfaChallenge
+                  ? 'Two-Step Verification'
+                  : showConfirmation || resetEmailSent
+                  ? 'Check Your Email'
+                  : showForgotPassword ? 'Reset Password' : (isLogin ? 'Welcome Back' : 'Join AIventory')}
               </h2>
               <p className="text-gray-600">
-                {showConfirmation
+                {mfaChallenge
+                  ? (useRecoveryCode
+                    ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication'
+                    : 'Enter the 6-digit code from your authenticator app')
+                  : showConfirmation
                   ? `We've sent a confirmation link to ${userEmail}. Please check your email and click the link to activate your account.`
+                  : resetEmailSent
+                  ? `If an account exists for ${userEmail}, we've sent it a link to choose a new password.`
+                  : showForgotPassword
+                  ? "Enter your account's email address and we'll send you a link to reset your password"
                   : (isLogin 
                     ? 'Sign in to access your personalized AI tool collection'
                     : 'Create an account to start discovering and saving AI tools'
@@ -288,7 +396,69 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
               </p>
             </div>
 
-            {showConfirmation ? (
+            {mfaChallenge ? (
+              <div className="space-y-6">
+                <form onSubmit={handleMfaSubmit} className="space-y-6">
+                  <div className="relative">
+                    <ShieldCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                    {useRecoveryCode ? (
+                      <input
+                        type="text"
+                        value={mfaCode}
+                        onChange={(e) => setMfaCode(e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 font-mono disabled:opacity-50"
+                        placeholder="xxxxx-xxxxx"
+                        autoComplete="off"
+                        autoFocus
+                        required
+                        disabled={isSubmitting}
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={mfaCode}
+                        onChange={(e) => setMfaCode(e.target.value.replace(/\D/g, '').slice(0, TOTP_CODE_LENGTH))}
+                        className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 font-mono tracking-widest disabled:opacity-50"
+                        placeholder="123456"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        required
+                        disabled={isSubmitting}
+                      />
+                    )}
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || (!useRecoveryCode && mfaCode.length !== TOTP_CODE_LENGTH)}
+                    className="w-full py-3 rounded-lg font-semibold bg-primary-600 hover:bg-primary-700 text-white transition-colors disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Verifying...' : 'Verify'}
+                  </button>
+                </form>
+
+                <div className="flex justify-between text-sm">
+                  <button
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setMfaCode('');
+                    }}
+                    className="text-primary-600 hover:text-primary-700 transition-colors disabled:opacity-50"
+                    disabled={isSubmitting}
+                  >
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                  </button>
+                  <button
+                    onClick={handleClose}
+                    className="text-gray-500 hover:text-gray-700 transition-colors disabled:opacity-50"
+                    disabled={isSubmitting}
+                  >
+                    Cancel sign in
+                  </button>
+                </div>
+              </div>
+            ) : showConfirmation ? (
               <div className="space-y-6">
                 <div className="text-center p-6 bg-green-50 border border-green-200 rounded-lg">
                   <Mail className="h-12 w-12 text-green-600 mx-auto mb-4" />
@@ -326,6 +496,73 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
                   </motion.button>
                 </div>
               </div>
+            ) : showForgotPassword ? (
+              <div className="space-y-6">
+                {resetEmailSent ? (
+                  <div className="text-center p-6 bg-green-50 border border-green-200 rounded-lg">
+                    <Mail className="h-12 w-12 text-green-600 mx-auto mb-4" />
+                    <p className="text-sm text-green-700">
+                      The link expires in an hour. Check your spam folder if it doesn't arrive.
+                    </p>
+                  </div>
+                ) : (
+                  <form onSubmit={handleForgotPassword} className="space-y-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Email Address
+                      </label>
+                      <div className="relative">
+                        <Mail className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 ${
+                          errors.email ? 'text-red-400' : 'text-gray-400'
+                        }`} />
+                        <input
+                          type="email"
+                          name="email"
+                          value={formData.email}
+                          onChange={handleInputChange}
+                          className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 transition-colors ${
+                            errors.email 
+                              ? 'border-red-300 focus:ring-red-500 focus:border-red-500' 
+                              : 'border-gray-300 focus:ring-primary-500 focus:border-primary-500'
+                          } disabled:opacity-50 disabled:cursor-not-allowed`}
+                          placeholder="Enter your email"
+                          required
+                          autoFocus
+                          disabled={isSubmitting}
+                        />
+                      </div>
+                      {errors.email && (
+                        <motion.p
+                          initial={{ opacity: 0, y: -5 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className="mt-1 text-sm text-red-600 flex items-center"
+                        >
+                          <AlertCircle className="h-4 w-4 mr-1" />
+                          {errors.email}
+                        </motion.p>
+                      )}
+                    </div>
+
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="w-full py-3 rounded-lg font-semibold bg-primary-600 hover:bg-primary-700 text-white transition-colors disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Sending...' : 'Send Reset Link'}
+                    </button>
+                  </form>
+                )}
+
+                <div className="text-center">
+                  <button
+                    onClick={showSignIn}
+                    className="text-primary-600 hover:text-primary-700 font-semibold transition-colors disabled:opacity-50"
+                    disabled={isSubmitting}
+                  >
+                    Back to Sign In
+                  </button>
+                </div>
+              </div>
             ) : (
               <>
                 <form onSubmit={handleSubmit} className="space-y-6">
@@ -402,9 +639,24 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Password
-                    </label>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-gray-700">
+                        Password
+                      </label>
+                      {isLogin && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setShowForgotPassword(true);
+                            setErrors({});
+                          }}
+                          className="text-sm text-primary-600 hover:text-primary-700 transition-colors disabled:opacity-50"
+                          disabled={isSubmitting}
+                        >
+                          Forgot password?
+                        </button>
+                      )}
+                    </div>
                     <div className="relative">
                       <Lock className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 ${
                         errors.password ? 'text-red-400' : 'text-gray-400'
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { X, StickyNote, Pencil } from 'lucide-react';
+import { BookmarkDetails, BookmarkStatus } from '../types';
+import {
+  BOOKMARK_STATUS_OPTIONS,
+  MAX_BOOKMARK_NOTES_LENGTH,
+  MAX_BOOKMARK_TAGS,
+  MAX_BOOKMARK_TAG_LENGTH,
+  normalizeBookmarkTag
+} from '../lib/bookmarkLog';
+
+export interface BookmarkDetailsUpdate {
+  notes?: string | null;
+  tags?: string[];
+  status?: BookmarkStatus | null;
+}
+
+interface BookmarkEvaluationProps {
+  details?: BookmarkDetails;
+  onSave: (updates: BookmarkDetailsUpdate) => Promise<{ error: Error | null }>;
+}
+
+// Inline editor for the private status, tags and notes on a bookmark
+const BookmarkEvaluation: React.FC<BookmarkEvaluationProps> = ({ details, onSave }) => {
+  const [tagDraft, setTagDraft] = useState('');
+  const [editingNotes, setEditingNotes] = useState(false);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const tags = details?.tags || [];
+
+  const save = async (updates: BookmarkDetailsUpdate) => {
+    setSaving(true);
+    const { error } = await onSave(updates);
+    setSaving(false);
+    if (error) toast.error(error.message || 'Failed to save');
+    return !error;
+  };
+
+  const handleStatus = (status: BookmarkStatus) => {
+    // Clicking the current status clears it
+    save({ status: details?.status === status ? null : status });
+  };
+
+  const handleAddTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeBookmarkTag(tagDraft);
+    if (!tag) return;
+
+    if (tags.includes(tag)) {
+      setTagDraft('');
+      return;
+    }
+    if (tags.length >= MAX_BOOKMARK_TAGS) {
+      toast.error(`Up to ${MAX_BOOKMARK_TAGS} tags per bookmark`);
+      return;
+    }
+    if (await save({ tags: [...tags, tag] })) setTagDraft('');
+  };
+
+  const startEditingNotes = () => {
+    setNotesDraft(details?.notes || '');
+    setEditingNotes(true);
+  };
+
+  const handleSaveNotes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await save({ notes: notesDraft.trim() || null })) setEditingNotes(false);
+  };
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-2">
+        {BOOKMARK_STATUS_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => handleStatus(option.value)}
+            disabled={saving}
+            aria-pressed={details?.status === option.value}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-50 ${
+              details?.status === option.value
+                ? option.badgeClass
+                : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center space-x-1 px-2 py-0.5 bg-primary-50 text-primary-700 rounded-full text-xs"
+          >
+            <span>#{tag}</span>
+            <button
+              onClick={() => save({ tags: tags.filter(t => t !== tag) })}
+              disabled={saving}
+              className="hover:text-primary-900"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {tags.length < MAX_BOOKMARK_TAGS && (
+          <form onSubmit={handleAddTag}>
+            <input
+              type="text"
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              maxLength={MAX_BOOKMARK_TAG_LENGTH + 1}
+              placeholder="+ tag"
+              aria-label="Add tag"
+              className="w-20 px-2 py-0.5 text-xs border border-dashed border-gray-300 rounded-full focus:w-32 focus:outline-none focus:border-primary-500 transition-all"
+            />
+          </form>
+        )}
+      </div>
+
+      {editingNotes ? (
+        <form onSubmit={handleSaveNotes} className="space-y-2">
+          <textarea
+            value={notesDraft}
+            onChange={(e) => setNotesDraft(e.target.value)}
+            maxLength={MAX_BOOKMARK_NOTES_LENGTH}
+            rows={3}
+            autoFocus
+            placeholder="What did you try it for? How did it go?"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setEditingNotes(false)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      ) : details?.notes ? (
+        <button
+          onClick={startEditingNotes}
+          className="group/notes w-full flex items-start space-x-2 p-2 bg-gray-50 rounded-lg text-left text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+          title="Edit note"
+        >
+          <p className="flex-1 whitespace-pre-line line-clamp-3">{details.notes}</p>
+          <Pencil className="h-3.5 w-3.5 text-gray-400 flex-shrink-0 mt-0.5 opacity-0 group-hover/notes:opacity-100" />
+        </button>
+      ) : (
+        <button
+          onClick={startEditingNotes}
+          className="flex items-center space-x-1 text-sm text-gray-500 hover:text-primary-600 transition-colors"
+        >
+          <StickyNote className="h-4 w-4" />
+          <span>Add a private note</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BookmarkEvaluation;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { AlertCircle } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { MIN_PASSWORD_LENGTH, REAUTHENTICATION_CODE_LENGTH } from '../lib/accountSecurity';
+
+interface ChangePasswordFormProps {
+  onDone: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+// Asks for the current password, then for the code emailed to the user,
+// before setting a new one
+const ChangePasswordForm: React.FC<ChangePasswordFormProps> = ({ onDone }) => {
+  const requestPasswordChange = useAuthStore(state => state.requestPasswordChange);
+  const changePassword = useAuthStore(state => state.changePassword);
+  const [form, setForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm({ ...form, [e.target.name]: e.target.value });
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`New password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (form.newPassword !== form.confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+    if (form.newPassword === form.currentPassword) {
+      setError('Choose a password different from your current one');
+      return;
+    }
+
+    setSaving(true);
+
+    if (!codeSent) {
+      const { error: requestError } = await requestPasswordChange(form.currentPassword);
+      setSaving(false);
+
+      if (requestError) {
+        setError(requestError.message || 'Failed to change password');
+        return;
+      }
+
+      setCodeSent(true);
+      toast.success('We emailed you a verification code');
+      return;
+    }
+
+    const { error: changeError } = await changePassword(form.newPassword, code);
+    setSaving(false);
+
+    if (changeError) {
+      setError(changeError.message || 'Failed to change password');
+      return;
+    }
+
+    toast.success('Password changed');
+    onDone();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-4 border border-gray-200 rounded-lg">
+      {codeSent ? (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Code from the email we just sent you</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value.replace(/\D/g, '').slice(0, REAUTHENTICATION_CODE_LENGTH));
+              setError('');
+            }}
+            autoComplete="one-time-code"
+            placeholder="123456"
+            required
+            autoFocus
+            className={`${inputClassName} font-mono tracking-widest`}
+          />
+        </div>
+      ) : (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+            <input
+              type="password"
+              name="currentPassword"
+              value={form.currentPassword}
+              onChange={handleChange}
+              autoComplete="current-password"
+              required
+              autoFocus
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">New password</label>
+            <input
+              type="password"
+              name="newPassword"
+              value={form.newPassword}
+              onChange={handleChange}
+              autoComplete="new-password"
+              minLength={MIN_PASSWORD_LENGTH}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Confirm new password</label>
+            <input
+              type="password"
+              name="confirmPassword"
+              value={form.confirmPassword}
+              onChange={handleChange}
+              autoComplete="new-password"
+              required
+              className={inputClassName}
+            />
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : codeSent ? 'Change Password' : 'Continue'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ChangePasswordForm;
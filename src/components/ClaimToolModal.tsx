@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { X, Globe, Code, Copy, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { ToolClaim, ToolClaimMethod } from '../types';
+
+interface ClaimToolModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  toolName: string;
+  websiteUrl: string;
+  claim: ToolClaim | null;
+  working: boolean;
+  onStartClaim: (method: ToolClaimMethod) => Promise<{ error: { message: string } | null }>;
+  onVerify: () => Promise<{ verified: boolean; reason?: string }>;
+}
+
+// Must match TOKEN_PREFIX in the verify-tool-claim edge function
+const TOKEN_PREFIX = 'aiventory-verification';
+
+const METHODS: { id: ToolClaimMethod; label: string; description: string; icon: typeof Globe }[] = [
+  { id: 'dns', label: 'DNS TXT record', description: 'Add a TXT record to your domain', icon: Globe },
+  { id: 'meta', label: 'HTML meta tag', description: 'Add a tag to your homepage <head>', icon: Code }
+];
+
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+const ClaimToolModal: React.FC<ClaimToolModalProps> = ({
+  isOpen,
+  onClose,
+  toolName,
+  websiteUrl,
+  claim,
+  working,
+  onStartClaim,
+  onVerify
+}) => {
+  const [method, setMethod] = useState<ToolClaimMethod>('dns');
+
+  // A failed (expired) claim is replaced by starting a new one
+  const openClaim = claim && claim.status === 'pending' ? claim : null;
+  const hostname = getHostname(websiteUrl);
+  const snippet = openClaim
+    ? openClaim.method === 'dns'
+      ? `${TOKEN_PREFIX}=${openClaim.token}`
+      : `<meta name="${TOKEN_PREFIX}" content="${openClaim.token}">`
+    : '';
+
+  const handleStart = async () => {
+    const { error } = await onStartClaim(method);
+    if (error) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleVerify = async () => {
+    const { verified, reason } = await onVerify();
+    if (verified) {
+      toast.success(`You now manage ${toolName}`);
+      onClose();
+    } else {
+      toast.error(reason || 'Verification failed');
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Could not copy; select the text instead');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative bg-white rounded-2xl shadow-2xl w-full max-w-lg p-8"
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Claim {toolName}</h2>
+            <p className="text-gray-600 mb-6">
+              Prove you control <span className="font-medium text-gray-900">{hostname}</span> to manage this listing.
+            </p>
+
+            {!openClaim ? (
+              <div className="space-y-4">
+                {METHODS.map(({ id, label, description, icon: Icon }) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => setMethod(id)}
+                    className={`w-full flex items-center space-x-3 p-4 border-2 rounded-xl text-left transition-colors ${
+                      method === id ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <Icon className="h-6 w-6 text-primary-600 flex-shrink-0" />
+                    <div>
+                      <div className="font-medium text-gray-900">{label}</div>
+                      <div className="text-sm text-gray-500">{description}</div>
+                    </div>
+                  </button>
+                ))}
+
+                {claim?.status === 'failed' && (
+                  <p className="text-sm text-gray-500">Your previous claim expired. Starting again gives you a new token.</p>
+                )}
+
+                <button
+                  onClick={handleStart}
+                  disabled={working}
+                  className="w-full flex items-center justify-center space-x-2 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {working && <Loader2 className="h-5 w-5 animate-spin" />}
+                  <span>Get Verification Token</span>
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-700">
+                  {openClaim.method === 'dns'
+                    ? <>Add this <span className="font-medium">TXT record</span> to {hostname}:</>
+                    : <>Add this tag inside the <code>&lt;head&gt;</code> of {websiteUrl}:</>}
+                </p>
+                <div className="flex items-center space-x-2">
+                  <code className="flex-1 block px-3 py-2 bg-gray-100 rounded-lg text-sm text-gray-800 break-all">
+                    {snippet}
+                  </code>
+                  <button
+                    onClick={handleCopy}
+                    className="p-2 text-gray-500 hover:text-primary-600 transition-colors"
+                    aria-label="Copy verification snippet"
+                  >
+                    <Copy className="h-5 w-5" />
+                  </button>
+                </div>
+                {openClaim.method === 'dns' && (
+                  <p className="text-xs text-gray-500">DNS changes can take a while to show up. You can check again at any time within 7 days.</p>
+                )}
+
+                {openClaim.failureReason && (
+                  <div className="flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>{openClaim.failureReason}</span>
+                  </div>
+                )}
+
+                <button
+                  onClick={handleVerify}
+                  disabled={working}
+                  className="w-full flex items-center justify-center space-x-2 bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {working ? <Loader2 className="h-5 w-5 animate-spin" /> : <CheckCircle className="h-5 w-5" />}
+                  <span>{openClaim.lastCheckedAt ? 'Check Again' : 'Verify'}</span>
+                </button>
+              </div>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ClaimToolModal;
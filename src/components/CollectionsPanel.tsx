@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { FolderOpen, Plus, Lock, Link2, Globe, Bookmark, Users } from 'lucide-react';
+import { useCollectionStore } from '../store/collectionStore';
+import { useTeamStore } from '../store/teamStore';
+import {
+  COLLECTION_VISIBILITY_OPTIONS,
+  MAX_COLLECTION_NAME_LENGTH,
+  MAX_COLLECTION_DESCRIPTION_LENGTH,
+  getVisibilityLabel
+} from '../lib/collections';
+import { CollectionVisibility } from '../types';
+
+interface CollectionsPanelProps {
+  onCollectionClick: (collectionId: string) => void;
+}
+
+const VISIBILITY_ICONS: Record<CollectionVisibility, React.ElementType> = {
+  private: Lock,
+  unlisted: Link2,
+  public: Globe
+};
+
+const CollectionsPanel: React.FC<CollectionsPanelProps> = ({ onCollectionClick }) => {
+  const { collections, loading, createCollection } = useCollectionStore();
+  const organizations = useTeamStore(state => state.organizations);
+  const [showForm, setShowForm] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState({
+    name: '',
+    description: '',
+    visibility: 'private' as CollectionVisibility,
+    organizationId: ''
+  });
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+
+    setCreating(true);
+    const { data, error } = await createCollection(draft);
+    setCreating(false);
+
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to create collection');
+      return;
+    }
+    setDraft({ name: '', description: '', visibility: 'private', organizationId: '' });
+    setShowForm(false);
+    toast.success(`Created ${data.name}`);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-gray-600">Group tools into named lists and share them with a link.</p>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
+        >
+          <Plus className="h-4 w-4" />
+          <span>New Collection</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <motion.form
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          onSubmit={handleCreate}
+          className="mb-6 p-4 border border-gray-200 rounded-xl space-y-3"
+        >
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            maxLength={MAX_COLLECTION_NAME_LENGTH}
+            placeholder="Name, e.g. Video stack"
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <textarea
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            maxLength={MAX_COLLECTION_DESCRIPTION_LENGTH}
+            placeholder="Description (optional)"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="flex flex-col sm:flex-row gap-3">
+              {organizations.length > 0 && (
+                <select
+                  value={draft.organizationId}
+                  onChange={(e) => setDraft({ ...draft, organizationId: e.target.value })}
+                  className="py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  aria-label="Share with"
+                >
+                  <option value="">Just me</option>
+                  {organizations.map(org => (
+                    <option key={org.id} value={org.id}>Shared with {org.name}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={draft.visibility}
+                onChange={(e) => setDraft({ ...draft, visibility: e.target.value as CollectionVisibility })}
+                className="py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                {COLLECTION_VISIBILITY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label} – {option.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={creating || !draft.name.trim()}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </motion.form>
+      )}
+
+      {loading && collections.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          <span className="ml-3 text-gray-600">Loading your collections...</span>
+        </div>
+      ) : collections.length === 0 ? (
+        <div className="text-center py-12">
+          <FolderOpen className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No collections yet</h3>
+          <p className="text-gray-600">Bookmarked tools land in "Saved"; create more collections to organize them.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {collections.map((collection, index) => {
+            const VisibilityIcon = VISIBILITY_ICONS[collection.visibility];
+            const team = organizations.find(org => org.id === collection.organizationId);
+
+            return (
+              <motion.button
+                key={collection.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                onClick={() => onCollectionClick(collection.id)}
+                className="p-5 border border-gray-200 rounded-xl hover:border-primary-300 hover:shadow-md transition-all text-left"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    {collection.isDefault && <Bookmark className="h-4 w-4 text-primary-600 flex-shrink-0" />}
+                    <h3 className="font-semibold text-gray-900 truncate">{collection.name}</h3>
+                  </div>
+                  <span className="flex items-center space-x-1 text-xs text-gray-500 flex-shrink-0">
+                    <VisibilityIcon className="h-3 w-3" />
+                    <span>{getVisibilityLabel(collection.visibility)}</span>
+                  </span>
+                </div>
+                {collection.description && (
+                  <p className="text-sm text-gray-600 line-clamp-2 mb-2">{collection.description}</p>
+                )}
+                <p className="text-sm text-gray-500">
+                  {collection.toolIds.length} {collection.toolIds.length === 1 ? 'tool' : 'tools'}
+                </p>
+                {team && (
+                  <p className="flex items-center space-x-1 text-xs text-primary-700 mt-2">
+                    <Users className="h-3 w-3" />
+                    <span className="truncate">{team.name}</span>
+                  </p>
+                )}
+              </motion.button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionsPanel;
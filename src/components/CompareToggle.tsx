@@ -0,0 +1,42 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Columns3 } from 'lucide-react';
+import { Tool } from '../types';
+import { useCompareStore, MAX_COMPARE_TOOLS } from '../store/compareStore';
+
+interface CompareToggleProps {
+  tool: Tool;
+}
+
+// Adds a tool to (or removes it from) the comparison tray
+const CompareToggle: React.FC<CompareToggleProps> = ({ tool }) => {
+  const isComparing = useCompareStore(state => state.items.some(item => item.id === tool.id));
+  const toggleCompare = useCompareStore(state => state.toggle);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!toggleCompare(tool)) {
+      toast.error(`You can compare up to ${MAX_COMPARE_TOOLS} tools`);
+    }
+  };
+
+  return (
+    <motion.button
+      whileHover={{ scale: 1.05 }}
+      whileTap={{ scale: 0.95 }}
+      onClick={handleClick}
+      aria-pressed={isComparing}
+      className={`p-2 rounded-lg transition-colors ${
+        isComparing
+          ? 'text-primary-600 bg-primary-50'
+          : 'text-gray-400 hover:text-primary-600 hover:bg-primary-50'
+      }`}
+      title={isComparing ? 'Remove from comparison' : 'Compare'}
+    >
+      <Columns3 className="h-4 w-4" />
+    </motion.button>
+  );
+};
+
+export default CompareToggle;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Columns3 } from 'lucide-react';
+import { useCompareStore, MAX_COMPARE_TOOLS } from '../store/compareStore';
+
+interface CompareTrayProps {
+  onCompare: (toolIds: string[]) => void;
+}
+
+const CompareTray: React.FC<CompareTrayProps> = ({ onCompare }) => {
+  const { items, remove, clear } = useCompareStore();
+
+  return (
+    <AnimatePresence>
+      {items.length > 0 && (
+        <motion.div
+          initial={{ y: 100, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 100, opacity: 0 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl"
+        >
+          <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 p-4 flex items-center gap-4">
+            <div className="flex items-center gap-2 flex-1 min-w-0 overflow-x-auto">
+              {items.map(item => (
+                <div
+                  key={item.id}
+                  className="flex items-center space-x-2 pl-1 pr-2 py-1 bg-gray-100 rounded-full flex-shrink-0"
+                >
+                  <img src={item.image} alt="" className="w-7 h-7 rounded-full object-cover" />
+                  <span className="text-sm font-medium text-gray-800 max-w-[8rem] truncate">{item.name}</span>
+                  <button
+                    onClick={() => remove(item.id)}
+                    className="text-gray-400 hover:text-red-600 transition-colors"
+                    aria-label={`Remove ${item.name} from comparison`}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              {Array.from({ length: MAX_COMPARE_TOOLS - items.length }).map((_, index) => (
+                <div
+                  key={index}
+                  className="w-9 h-9 rounded-full border-2 border-dashed border-gray-200 flex-shrink-0"
+                />
+              ))}
+            </div>
+
+            <button
+              onClick={clear}
+              className="text-sm text-gray-500 hover:text-gray-700 transition-colors flex-shrink-0"
+            >
+              Clear
+            </button>
+            <button
+              onClick={() => onCompare(items.map(item => item.id))}
+              disabled={items.length < 2}
+              title={items.length < 2 ? 'Add at least two tools to compare' : undefined}
+              className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+            >
+              <Columns3 className="h-4 w-4" />
+              <span>Compare ({items.length})</span>
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CompareTray;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Download } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { buildAccountExport, DATA_EXPORT_FORMATS, DataExportFormat } from '../lib/dataExport';
+import { downloadFile } from '../lib/bookmarkLog';
+
+// Downloads a copy of everything stored for the account
+const DataExport: React.FC = () => {
+  const user = useAuthStore(state => state.user);
+  const [format, setFormat] = useState<DataExportFormat>('zip');
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!user) return;
+
+    setExporting(true);
+    try {
+      const { filename, content, type } = await buildAccountExport(user.id, format);
+      downloadFile(filename, content, type);
+      toast.success('Your data is downloading');
+    } catch (error) {
+      console.error('Failed to export account data:', error);
+      toast.error((error as Error).message || 'Failed to export your data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="font-medium text-gray-900">Download Data</div>
+      <div className="text-sm text-gray-500 mb-3">
+        Your profile, bookmarks, reviews, likes, collections and activity
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as DataExportFormat)}
+          disabled={exporting}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        >
+          {DATA_EXPORT_FORMATS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          <span>{exporting ? 'Preparing...' : 'Download'}</span>
+        </button>
+        <span className="text-sm text-gray-500">
+          {DATA_EXPORT_FORMATS.find(option => option.value === format)?.description}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default DataExport;
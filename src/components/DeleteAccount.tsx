@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { AlertCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import { auth } from '../lib/supabase';
+import { sendAccountDeletionEmail } from '../lib/email';
+import { ACCOUNT_DELETION_GRACE_DAYS } from '../lib/dataExport';
+import { routes } from '../lib/routes';
+import { useAuthStore } from '../store/authStore';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString(undefined, { dateStyle: 'long' });
+
+// Schedules the account for deletion after a grace period, or cancels it
+const DeleteAccount: React.FC = () => {
+  const user = useAuthStore(state => state.user);
+  // When the account will be deleted, if that has been asked for
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const loadDeletion = async () => {
+      const { data } = await auth.getAccountDeletion();
+      setScheduledFor(data?.scheduled_for ?? null);
+      setLoading(false);
+    };
+    loadDeletion();
+  }, []);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setBusy(true);
+    const { data, error: requestError } = await auth.requestAccountDeletion(password);
+
+    if (requestError || !data) {
+      setBusy(false);
+      setError(requestError?.message || 'Your password is incorrect');
+      return;
+    }
+
+    // The deletion is scheduled even if the email fails
+    if (user.email) {
+      await sendAccountDeletionEmail({
+        to: user.email,
+        name: user.user_metadata?.name,
+        scheduledFor: data,
+        profileUrl: `${window.location.origin}${routes.profile}`
+      });
+    }
+
+    setBusy(false);
+    setScheduledFor(data);
+    setShowForm(false);
+    setPassword('');
+    toast.success(`Your account will be deleted on ${formatDate(data)}`);
+  };
+
+  const handleCancel = async () => {
+    setBusy(true);
+    const { error: cancelError } = await auth.cancelAccountDeletion();
+    setBusy(false);
+
+    if (cancelError) {
+      toast.error(cancelError.message || 'Failed to cancel the deletion');
+      return;
+    }
+    setScheduledFor(null);
+    toast.success('Your account will not be deleted');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 text-primary-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (scheduledFor) {
+    return (
+      <div className="flex items-start justify-between gap-4 p-4 border border-red-200 bg-red-50 rounded-lg">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <div className="font-medium text-red-700">Account scheduled for deletion</div>
+            <div className="text-sm text-red-600">
+              Your account and data will be deleted on {formatDate(scheduledFor)}.
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={handleCancel}
+          disabled={busy}
+          className="flex-shrink-0 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+        >
+          {busy ? 'Cancelling...' : 'Cancel Deletion'}
+        </button>
+      </div>
+    );
+  }
+
+  if (!showForm) {
+    return (
+      <button
+        onClick={() => setShowForm(true)}
+        className="w-full text-left p-4 border border-red-200 rounded-lg hover:bg-red-50 transition-colors text-red-600"
+      >
+        <div className="font-medium">Delete Account</div>
+        <div className="text-sm text-red-500">Permanently delete your account and data</div>
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleRequest} className="space-y-3 p-4 border border-red-200 rounded-lg">
+      <div className="font-medium text-red-600">Delete Account</div>
+      <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1">
+        <li>
+          Your account is deleted {ACCOUNT_DELETION_GRACE_DAYS} days from now. Until then you can sign in and
+          cancel.
+        </li>
+        <li>Your profile, bookmarks, likes, collections and avatar are removed.</li>
+        <li>Your reviews and the tools you submitted stay up without your name.</li>
+        <li>
+          Team collections you created stay with the team. If you are a team's only owner, its longest-standing
+          admin or member becomes owner; a team with no other members is deleted.
+        </li>
+      </ul>
+      <p className="text-sm text-gray-600">Download your data first if you want to keep a copy.</p>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => {
+            setPassword(e.target.value);
+            setError('');
+          }}
+          autoComplete="current-password"
+          required
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => {
+            setShowForm(false);
+            setPassword('');
+            setError('');
+          }}
+          className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={busy || !password}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {busy ? 'Scheduling...' : 'Delete My Account'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default DeleteAccount;
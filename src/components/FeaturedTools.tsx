@@ -66,9 +66,18 @@ const FeaturedTools: React.FC<FeaturedToolsProps> = ({ tools }) => {
 
               <div className="p-8">
                 <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-2xl font-bold text-gray-900 group-hover:text-primary-600 transition-colors">
-                    {tool.name}
-                  </h3>
+                  <div className="flex items-center space-x-3 min-w-0">
+                    {tool.media?.logo && (
+                      <img
+                        src={tool.media.logo}
+                        alt=""
+                        className="w-12 h-12 rounded-xl object-cover border border-gray-200 bg-white flex-shrink-0"
+                      />
+                    )}
+                    <h3 className="text-2xl font-bold text-gray-900 group-hover:text-primary-600 transition-colors">
+                      {tool.name}
+                    </h3>
+                  </div>
                   <div className="flex items-center space-x-1 bg-gray-100 px-3 py-1 rounded-full">
                     <Star className="h-4 w-4 text-yellow-400 fill-current" />
                     <span className="font-semibold text-gray-900 text-sm">{tool.rating}</span>
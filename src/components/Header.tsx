@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Brain, Menu, X, User, BookOpen, Star, Plus, Home, BarChart3 } from 'lucide-react';
+import { Brain, Menu, X, User, BookOpen, Star, Plus, Home, BarChart3, ShieldCheck, Flag, Users } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
+import { routes } from '../lib/routes';
 
 interface HeaderProps {
   currentUser: any | null;
-  onNavigate: (page: 'home' | 'dashboard' | 'profile' | 'submit-tool') => void;
+  onNavigate: (path: string) => void;
   onAuthClick: () => void;
   onLogout: () => void;
-  currentPage: string;
+  currentPath: string;
+  isAdmin?: boolean;
 }
 
 const Header: React.FC<HeaderProps> = ({ 
@@ -16,15 +18,19 @@ const Header: React.FC<HeaderProps> = ({
   onNavigate, 
   onAuthClick, 
   onLogout,
-  currentPage 
+  currentPath,
+  isAdmin = false
 }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
   const { loading, initialized } = useAuthStore();
 
   const navigationItems = [
-    { id: 'home', label: 'Discover', icon: Home },
-    ...(currentUser ? [{ id: 'submit-tool', label: 'Submit Tool', icon: Plus }] : []),
+    { id: 'home', path: routes.home, label: 'Discover', icon: Home },
+    ...(currentUser ? [{ id: 'submit-tool', path: routes.submitTool, label: 'Submit Tool', icon: Plus }] : []),
+    ...(currentUser ? [{ id: 'teams', path: routes.teams, label: 'Teams', icon: Users }] : []),
+    ...(currentUser && isAdmin ? [{ id: 'moderation', path: routes.adminModeration, label: 'Moderation', icon: ShieldCheck }] : []),
+    ...(currentUser && isAdmin ? [{ id: 'review-reports', path: routes.adminReviewReports, label: 'Reports', icon: Flag }] : []),
   ];
 
   return (
@@ -36,7 +42,7 @@ const Header: React.FC<HeaderProps> = ({
             initial={{ opacity: 0, x: -20 }}
             animate={{ opacity: 1, x: 0 }}
             className="flex items-center space-x-3 cursor-pointer"
-            onClick={() => onNavigate('home')}
+            onClick={() => onNavigate(routes.home)}
           >
             <div className="relative">
               <Brain className="h-8 w-8 text-primary-600" />
@@ -55,9 +61,9 @@ const Header: React.FC<HeaderProps> = ({
             {navigationItems.map((item) => (
               <button
                 key={item.id}
-                onClick={() => onNavigate(item.id as any)}
+                onClick={() => onNavigate(item.path)}
                 className={`flex items-center space-x-2 font-medium transition-colors ${
-                  currentPage === item.id
+                  currentPath === item.path
                     ? 'text-primary-600'
                     : 'text-gray-700 hover:text-primary-600'
                 }`}
@@ -96,7 +102,7 @@ const Header: React.FC<HeaderProps> = ({
                   >
                     <button
                       onClick={() => {
-                        onNavigate('dashboard');
+                        onNavigate(routes.dashboard);
                         setIsProfileMenuOpen(false);
                       }}
                       className="flex items-center space-x-2 w-full px-4 py-2 text-left hover:bg-gray-50 transition-colors"
@@ -106,7 +112,7 @@ const Header: React.FC<HeaderProps> = ({
                     </button>
                     <button
                       onClick={() => {
-                        onNavigate('profile');
+                        onNavigate(routes.profile);
                         setIsProfileMenuOpen(false);
                       }}
                       className="flex items-center space-x-2 w-full px-4 py-2 text-left hover:bg-gray-50 transition-colors"
@@ -116,7 +122,7 @@ const Header: React.FC<HeaderProps> = ({
                     </button>
                     <button
                       onClick={() => {
-                        onNavigate('submit-tool');
+                        onNavigate(routes.submitTool);
                         setIsProfileMenuOpen(false);
                       }}
                       className="flex items-center space-x-2 w-full px-4 py-2 text-left hover:bg-gray-50 transition-colors"
@@ -171,11 +177,11 @@ const Header: React.FC<HeaderProps> = ({
                 <button
                   key={item.id}
                   onClick={() => {
-                    onNavigate(item.id as any);
+                    onNavigate(item.path);
                     setIsMenuOpen(false);
                   }}
                   className={`flex items-center space-x-2 font-medium ${
-                    currentPage === item.id
+                    currentPath === item.path
                       ? 'text-primary-600'
                       : 'text-gray-700 hover:text-primary-600'
                   }`}
@@ -200,7 +206,7 @@ const Header: React.FC<HeaderProps> = ({
                     </div>
                     <button
                       onClick={() => {
-                        onNavigate('dashboard');
+                        onNavigate(routes.dashboard);
                         setIsMenuOpen(false);
                       }}
                       className="flex items-center space-x-2 w-full text-left text-gray-700 hover:text-primary-600"
@@ -210,7 +216,7 @@ const Header: React.FC<HeaderProps> = ({
                     </button>
                     <button
                       onClick={() => {
-                        onNavigate('profile');
+                        onNavigate(routes.profile);
                         setIsMenuOpen(false);
                       }}
                       className="flex items-center space-x-2 w-full text-left text-gray-700 hover:text-primary-600"
@@ -220,7 +226,7 @@ const Header: React.FC<HeaderProps> = ({
                     </button>
                     <button
                       onClick={() => {
-                        onNavigate('submit-tool');
+                        onNavigate(routes.submitTool);
                         setIsMenuOpen(false);
                       }}
                       className="flex items-center space-x-2 w-full text-left text-gray-700 hover:text-primary-600"
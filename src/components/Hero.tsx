@@ -2,8 +2,10 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Search, Sparkles, Zap, Globe, X } from 'lucide-react';
 import { db } from '../lib/supabase';
+import { toTools } from '../lib/toolMapper';
 import { Tool } from '../types';
 import ToolCard from './ToolCard';
+import HighlightedText from './HighlightedText';
 
 interface HeroProps {
   onSearch?: (query: string) => void;
@@ -13,6 +15,7 @@ interface HeroProps {
 const Hero: React.FC<HeroProps> = ({ onSearch, onToolClick }) => {
   const [query, setQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Tool[]>([]);
+  const [searchTotal, setSearchTotal] = useState(0);
   const [suggestions, setSuggestions] = useState<Tool[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
@@ -28,25 +31,9 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onToolClick }) => {
       }
 
       try {
-        const { data, error } = await db.getTools({ search: searchQuery });
+        const { data, error } = await db.searchTools(searchQuery, { pageSize: 5 });
         if (!error && data) {
-          const transformedTools: Tool[] = data.slice(0, 5).map((tool: any) => ({
-            id: tool.id,
-            name: tool.name,
-            description: tool.description,
-            category: tool.category,
-            pricing: tool.pricing,
-            rating: tool.rating || 0,
-            reviews: tool.reviews_count || 0,
-            tags: tool.tags || [],
-            image: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400',
-            url: tool.website_url,
-            featured: tool.featured || false,
-            verified: tool.verified || false,
-            addedDate: tool.created_at || new Date().toISOString(),
-            lastUpdated: tool.updated_at || new Date().toISOString()
-          }));
-          setSuggestions(transformedTools);
+          setSuggestions(toTools(data));
           setShowSuggestions(true);
         }
       } catch (error) {
@@ -71,25 +58,11 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onToolClick }) => {
     setShowSuggestions(false);
 
     try {
-      const { data, error } = await db.getTools({ search: query });
+      const { data, count, error } = await db.searchTools(query, { pageSize: 24 });
       if (!error && data) {
-        const transformedTools: Tool[] = data.map((tool: any) => ({
-          id: tool.id,
-          name: tool.name,
-          description: tool.description,
-          category: tool.category,
-          pricing: tool.pricing,
-          rating: tool.rating || 0,
-          reviews: tool.reviews_count || 0,
-          tags: tool.tags || [],
-          image: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400',
-          url: tool.website_url,
-          featured: tool.featured || false,
-          verified: tool.verified || false,
-          addedDate: tool.created_at || new Date().toISOString(),
-          lastUpdated: tool.updated_at || new Date().toISOString()
-        }));
+        const transformedTools = toTools(data);
         setSearchResults(transformedTools);
+        setSearchTotal(count ?? transformedTools.length);
         setShowResults(true);
         
         // Call parent search handler if provided
@@ -117,6 +90,7 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onToolClick }) => {
   const clearSearch = () => {
     setQuery('');
     setSearchResults([]);
+    setSearchTotal(0);
     setSuggestions([]);
     setShowResults(false);
     setShowSuggestions(false);
@@ -219,8 +193,12 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onToolClick }) => {
                           onClick={() => handleSuggestionClick(tool)}
                           className="w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors border-b border-gray-100 last:border-b-0 first:rounded-t-xl last:rounded-b-xl"
                         >
-                          <div className="font-medium text-gray-900">{tool.name}</div>
-                          <div className="text-sm text-gray-600 truncate">{tool.description}</div>
+                          <div className="font-medium text-gray-900">
+                            <HighlightedText text={tool.highlight?.name || tool.name} />
+                          </div>
+                          <div className="text-sm text-gray-600 truncate">
+                            <HighlightedText text={tool.highlight?.description || tool.description} />
+                          </div>
                           <div className="flex items-center gap-2 mt-1">
                             <span className="text-xs bg-primary-100 text-primary-700 px-2 py-1 rounded">
                               {tool.category}
@@ -267,7 +245,7 @@ const Hero: React.FC<HeroProps> = ({ onSearch, onToolClick }) => {
                       Search Results for "{query}"
                     </h2>
                     <p className="text-gray-600">
-                      Found {searchResults.length} tool{searchResults.length !== 1 ? 's' : ''}
+                      Found {searchTotal} tool{searchTotal !== 1 ? 's' : ''}
                     </p>
                   </div>
                   <button
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  // Text with matches wrapped in <mark>…</mark>, as returned by db.searchTools
+  text: string;
+  className?: string;
+}
+
+// Split on the markers and render plain text nodes, so snippets are never
+// injected as HTML even if the underlying tool text contains markup.
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+};
+
+export default HighlightedText;
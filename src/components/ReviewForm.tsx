@@ -1,9 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Send, Edit3, Trash2, X } from 'lucide-react';
+import { Send, Edit3, Trash2, X, ChevronDown } from 'lucide-react';
 import { StarRating } from './StarRating';
 import { useReviews } from '../hooks/useReviews';
 import { useAuth } from '../hooks/useAuth';
+import { CriteriaRatings } from '../types';
+import {
+  REVIEW_CRITERIA,
+  MAX_PROS_CONS,
+  MAX_USE_CASE_LENGTH,
+  toCriteriaRatings
+} from '../lib/reviewCriteria';
+
+// Pros and cons are entered one per line
+const toLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
 
 interface ReviewFormProps {
   toolId: string;
@@ -23,29 +33,46 @@ export const ReviewForm: React.FC<ReviewFormProps> = ({
   
   const [rating, setRating] = useState(0);
   const [comment, setComment] = useState('');
+  const [criteria, setCriteria] = useState<CriteriaRatings>({});
+  const [pros, setPros] = useState('');
+  const [cons, setCons] = useState('');
+  const [useCase, setUseCase] = useState('');
+  const [showDetails, setShowDetails] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  const [errors, setErrors] = useState<{ rating?: string; comment?: string }>({});
+  const [errors, setErrors] = useState<{ rating?: string; comment?: string; details?: string }>({});
 
   // Initialize form with existing review data when editing
   useEffect(() => {
     if (userReview && isEditing) {
       setRating(userReview.rating);
       setComment(userReview.comment);
+      setCriteria(toCriteriaRatings(userReview));
+      setPros((userReview.pros || []).join('\n'));
+      setCons((userReview.cons || []).join('\n'));
+      setUseCase(userReview.use_case || '');
     } else {
       setRating(0);
       setComment('');
+      setCriteria({});
+      setPros('');
+      setCons('');
+      setUseCase('');
     }
     setErrors({});
   }, [userReview, isEditing]);
 
   const validateForm = () => {
-    const newErrors: { rating?: string; comment?: string } = {};
+    const newErrors: { rating?: string; comment?: string; details?: string } = {};
     
     if (rating === 0) {
       newErrors.rating = 'Please select a rating';
     }
     
+    if (toLines(pros).length > MAX_PROS_CONS || toLines(cons).length > MAX_PROS_CONS) {
+      newErrors.details = `List up to ${MAX_PROS_CONS} pros and ${MAX_PROS_CONS} cons`;
+    }
+
     if (!comment.trim()) {
       newErrors.comment = 'Please write a review';
     } else if (comment.trim().length < 10) {
@@ -63,16 +90,23 @@ export const ReviewForm: React.FC<ReviewFormProps> = ({
     
     if (!validateForm()) return;
     
+    const details = { criteria, pros: toLines(pros), cons: toLines(cons), useCase };
+
     try {
       if (isEditing && userReview) {
-        await updateReview(rating, comment.trim());
+        await updateReview(rating, comment.trim(), details);
       } else {
-        await submitReview(rating, comment.trim());
+        await submitReview(rating, comment.trim(), details);
       }
       
       // Reset form
       setRating(0);
       setComment('');
+      setCriteria({});
+      setPros('');
+      setCons('');
+      setUseCase('');
+      setShowDetails(false);
       setIsEditing(false);
       setErrors({});
       
@@ -255,6 +289,87 @@ export const ReviewForm: React.FC<ReviewFormProps> = ({
           </div>
         </div>
         
+        {/* Optional details */}
+        <div className="mb-4">
+          <button
+            type="button"
+            onClick={() => setShowDetails(!showDetails)}
+            className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <ChevronDown className={`w-4 h-4 transition-transform ${showDetails ? 'rotate-180' : ''}`} />
+            Rate specific aspects, pros and cons (optional)
+          </button>
+
+          {showDetails && (
+            <div className="mt-3 space-y-4">
+              <div className="space-y-2">
+                {REVIEW_CRITERIA.map(({ value, label }) => (
+                  <div key={value} className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-gray-700">{label}</span>
+                    <div className="flex items-center gap-2">
+                      <StarRating
+                        rating={criteria[value] || 0}
+                        onRatingChange={(criterionRating) => setCriteria(prev => ({ ...prev, [value]: criterionRating }))}
+                        size="sm"
+                      />
+                      {criteria[value] ? (
+                        <button
+                          type="button"
+                          onClick={() => setCriteria(prev => ({ ...prev, [value]: undefined }))}
+                          className="text-gray-400 hover:text-gray-600"
+                          aria-label={`Clear ${label} rating`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      ) : (
+                        <span className="w-3" />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Pros</label>
+                  <textarea
+                    value={pros}
+                    onChange={(e) => setPros(e.target.value)}
+                    placeholder="One per line"
+                    rows={3}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cons</label>
+                  <textarea
+                    value={cons}
+                    onChange={(e) => setCons(e.target.value)}
+                    placeholder="One per line"
+                    rows={3}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                  />
+                </div>
+              </div>
+              {errors.details && (
+                <p className="text-red-600 text-xs">{errors.details}</p>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">What did you use it for?</label>
+                <input
+                  type="text"
+                  value={useCase}
+                  onChange={(e) => setUseCase(e.target.value)}
+                  placeholder="e.g. Drafting marketing copy for a small team"
+                  maxLength={MAX_USE_CASE_LENGTH}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Submit button */}
         <div className="flex gap-3 justify-end">
           {isEditing && (
@@ -1,36 +1,70 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronDown, Filter, Clock, Star, ThumbsUp } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ChevronDown, Filter, Clock, Star, ThumbsUp, ThumbsDown, Flag, EyeOff, MessageSquare, History, Plus, Minus, Target } from 'lucide-react';
 import { StarRating } from './StarRating';
+import { useAuthStore } from '../store/authStore';
+import { REVIEW_REPORT_REASONS, MAX_REPORT_DETAILS_LENGTH } from '../lib/reviewReports';
+import { REVIEW_CRITERIA, criterionColumn, toCriteriaRatings } from '../lib/reviewCriteria';
+import { ReviewReportReason } from '../types';
 import { useReviews } from '../hooks/useReviews';
 import { Review } from '../hooks/useReviews';
 
 interface ReviewListProps {
   toolId: string;
+  // Used in the email sent when a maker responds
+  toolName?: string;
   className?: string;
   showTitle?: boolean;
   maxReviews?: number;
 }
 
-type SortOption = 'newest' | 'oldest' | 'highest' | 'lowest';
+type SortOption = 'newest' | 'oldest' | 'highest' | 'lowest' | 'most_helpful';
 
 const SORT_OPTIONS = [
   { value: 'newest' as SortOption, label: 'Newest First', icon: Clock },
+  { value: 'most_helpful' as SortOption, label: 'Most Helpful', icon: ThumbsUp },
   { value: 'highest' as SortOption, label: 'Highest Rated', icon: Star },
   { value: 'lowest' as SortOption, label: 'Lowest Rated', icon: Star },
   { value: 'oldest' as SortOption, label: 'Oldest First', icon: Clock },
 ];
 
+// Matches the review_responses.body check constraint
+const MAX_RESPONSE_LENGTH = 2000;
+
 export const ReviewList: React.FC<ReviewListProps> = ({
   toolId,
+  toolName,
   className = '',
   showTitle = true,
   maxReviews
 }) => {
-  const { reviews, loading } = useReviews(toolId);
+  const { user } = useAuthStore();
+  const {
+    reviews,
+    loading,
+    userVotes,
+    votingId,
+    voteOnReview,
+    reportedIds,
+    reportReview,
+    canRespond,
+    submitting,
+    saveResponse,
+    deleteResponse
+  } = useReviews(toolId);
   const [sortBy, setSortBy] = useState<SortOption>('newest');
   const [showSortDropdown, setShowSortDropdown] = useState(false);
   const [showAllReviews, setShowAllReviews] = useState(false);
+  // Review whose report form is open
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportReason, setReportReason] = useState<ReviewReportReason | null>(null);
+  const [reportDetails, setReportDetails] = useState('');
+  const [submittingReport, setSubmittingReport] = useState(false);
+  // Review whose maker response is being written or edited
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [responseText, setResponseText] = useState('');
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
 
   // Sort reviews based on selected option
   const sortedAndFilteredReviews = React.useMemo(() => {
@@ -45,6 +79,12 @@ export const ReviewList: React.FC<ReviewListProps> = ({
         return sorted.sort((a, b) => b.rating - a.rating);
       case 'lowest':
         return sorted.sort((a, b) => a.rating - b.rating);
+      case 'most_helpful':
+        return sorted.sort((a, b) =>
+          b.helpful_count - a.helpful_count ||
+          a.not_helpful_count - b.not_helpful_count ||
+          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        );
       default:
         return sorted;
     }
@@ -67,6 +107,71 @@ export const ReviewList: React.FC<ReviewListProps> = ({
     return date.toLocaleDateString();
   };
 
+  const handleVote = async (reviewId: string, isHelpful: boolean) => {
+    if (!user) {
+      toast.error('Sign in to vote on reviews');
+      return;
+    }
+
+    try {
+      await voteOnReview(reviewId, isHelpful);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save your vote');
+    }
+  };
+
+  const openReportForm = (reviewId: string) => {
+    if (!user) {
+      toast.error('Sign in to report reviews');
+      return;
+    }
+
+    setReportingId(reportingId === reviewId ? null : reviewId);
+    setReportReason(null);
+    setReportDetails('');
+  };
+
+  const handleReport = async (reviewId: string) => {
+    if (!reportReason) return;
+
+    try {
+      setSubmittingReport(true);
+      await reportReview(reviewId, reportReason, reportDetails);
+      toast.success('Thanks, our moderators will take a look');
+      setReportingId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to report review');
+    } finally {
+      setSubmittingReport(false);
+    }
+  };
+
+  const openResponseForm = (review: Review) => {
+    setRespondingId(review.id);
+    setResponseText(review.response?.body || '');
+  };
+
+  const handleSaveResponse = async (reviewId: string) => {
+    try {
+      await saveResponse(reviewId, responseText, toolName);
+      toast.success('Response published');
+      setRespondingId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save response');
+    }
+  };
+
+  const handleDeleteResponse = async (reviewId: string) => {
+    if (!window.confirm('Delete your response to this review?')) return;
+
+    try {
+      await deleteResponse(reviewId);
+      toast.success('Response deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete response');
+    }
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -221,18 +326,267 @@ export const ReviewList: React.FC<ReviewListProps> = ({
                         )}
                       </div>
                     </div>
+
+                    {review.user_id !== user?.id && (
+                      reportedIds.has(review.id) ? (
+                        <span className="flex items-center gap-1 text-xs text-gray-400">
+                          <Flag className="w-3.5 h-3.5" />
+                          Reported
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => openReportForm(review.id)}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                          aria-label="Report review"
+                          title="Report review"
+                        >
+                          <Flag className="w-4 h-4" />
+                        </button>
+                      )
+                    )}
                   </div>
+
+                  {review.status === 'hidden' && review.user_id === user?.id && (
+                    <div className="flex items-center gap-2 mb-2 px-3 py-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">
+                      <EyeOff className="w-4 h-4 flex-shrink-0" />
+                      <span>Your review was reported and is hidden while our moderators look at it.</span>
+                    </div>
+                  )}
                   
                   {/* Comment */}
                   <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">
                     {review.comment}
                   </p>
+
+                  {/* Structured details */}
+                  {review.use_case && (
+                    <p className="flex items-center gap-1 mt-2 text-sm text-gray-500">
+                      <Target className="w-4 h-4" />
+                      Used for: {review.use_case}
+                    </p>
+                  )}
+                  {Object.keys(toCriteriaRatings(review)).length > 0 && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-600">
+                      {REVIEW_CRITERIA.map(({ value, label }) => {
+                        const criterionRating = review[criterionColumn(value)];
+                        return criterionRating ? (
+                          <span key={value}>
+                            {label}: <span className="font-medium text-gray-900">{criterionRating}/5</span>
+                          </span>
+                        ) : null;
+                      })}
+                    </div>
+                  )}
+                  {((review.pros?.length ?? 0) > 0 || (review.cons?.length ?? 0) > 0) && (
+                    <div className="grid sm:grid-cols-2 gap-2 mt-3 text-sm">
+                      {(review.pros?.length ?? 0) > 0 && (
+                        <ul className="space-y-1">
+                          {review.pros!.map((pro) => (
+                            <li key={pro} className="flex items-start gap-1 text-green-700">
+                              <Plus className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                              {pro}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {(review.cons?.length ?? 0) > 0 && (
+                        <ul className="space-y-1">
+                          {review.cons!.map((con) => (
+                            <li key={con} className="flex items-start gap-1 text-red-700">
+                              <Minus className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                              {con}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                   
-                  {/* Helpful count (if available) */}
-                  {review.helpful_count > 0 && (
-                    <div className="flex items-center gap-1 mt-3 text-sm text-gray-500">
-                      <ThumbsUp className="w-4 h-4" />
-                      <span>{review.helpful_count} found this helpful</span>
+                  {/* Helpful votes */}
+                  <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-gray-500">
+                    {review.helpful_count > 0 && (
+                      <span className="flex items-center gap-1">
+                        <ThumbsUp className="w-4 h-4" />
+                        {review.helpful_count} found this helpful
+                      </span>
+                    )}
+                    {review.user_id !== user?.id && (
+                      <div className="flex items-center gap-2">
+                        <span>Was this helpful?</span>
+                        {[true, false].map((isHelpful) => {
+                          const Icon = isHelpful ? ThumbsUp : ThumbsDown;
+                          const active = userVotes[review.id] === isHelpful;
+                          return (
+                            <button
+                              key={String(isHelpful)}
+                              onClick={() => handleVote(review.id, isHelpful)}
+                              disabled={votingId === review.id}
+                              aria-pressed={active}
+                              className={`flex items-center gap-1 px-2 py-1 border rounded-md transition-colors disabled:opacity-50 ${
+                                active
+                                  ? 'bg-blue-50 border-blue-200 text-blue-700'
+                                  : 'border-gray-200 hover:border-gray-300 hover:text-gray-700'
+                              }`}
+                            >
+                              <Icon className="w-3.5 h-3.5" fill={active ? 'currentColor' : 'none'} />
+                              {isHelpful ? 'Yes' : 'No'}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Maker response */}
+                  {review.response && respondingId !== review.id && (
+                    <div className="mt-4 ml-2 pl-4 border-l-2 border-blue-200">
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <div className="flex items-center gap-2 text-sm">
+                          <MessageSquare className="w-4 h-4 text-blue-600" />
+                          <span className="font-medium text-gray-900">Response from the maker</span>
+                          <span className="text-gray-500">{formatDate(review.response.created_at)}</span>
+                          {review.response.revisions.length > 0 && (
+                            <button
+                              onClick={() => setHistoryOpenId(historyOpenId === review.id ? null : review.id)}
+                              className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600"
+                            >
+                              <History className="w-3 h-3" />
+                              edited
+                            </button>
+                          )}
+                        </div>
+                        {canRespond && (
+                          <div className="flex items-center gap-3 text-xs">
+                            <button
+                              onClick={() => openResponseForm(review)}
+                              className="text-blue-600 hover:text-blue-700"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => handleDeleteResponse(review.id)}
+                              disabled={submitting}
+                              className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.response.body}</p>
+
+                      {historyOpenId === review.id && (
+                        <div className="mt-3 space-y-2">
+                          <p className="text-xs font-medium text-gray-500">Earlier versions</p>
+                          {review.response.revisions.map((revision) => (
+                            <div key={revision.id} className="text-xs text-gray-500 bg-gray-50 rounded px-3 py-2">
+                              <span className="block mb-1 text-gray-400">
+                                {new Date(revision.created_at).toLocaleString()}
+                              </span>
+                              <span className="whitespace-pre-wrap">{revision.body}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {canRespond && !review.response && respondingId !== review.id && (
+                    <button
+                      onClick={() => openResponseForm(review)}
+                      className="flex items-center gap-1 mt-3 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      <MessageSquare className="w-4 h-4" />
+                      Respond as maker
+                    </button>
+                  )}
+
+                  {respondingId === review.id && (
+                    <div className="mt-4 ml-2 pl-4 border-l-2 border-blue-200">
+                      <textarea
+                        value={responseText}
+                        onChange={(e) => setResponseText(e.target.value)}
+                        rows={3}
+                        maxLength={MAX_RESPONSE_LENGTH}
+                        placeholder="Write a public response to this review"
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        autoFocus
+                      />
+                      <div className="flex items-center justify-between mt-2">
+                        <span className="text-xs text-gray-400">
+                          {review.response ? 'Earlier versions stay visible in the edit history' : 'The reviewer will be notified by email'}
+                        </span>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => setRespondingId(null)}
+                            disabled={submitting}
+                            className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleSaveResponse(review.id)}
+                            disabled={submitting || !responseText.trim() || responseText.trim() === review.response?.body}
+                            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                          >
+                            {submitting ? 'Saving...' : review.response ? 'Update Response' : 'Post Response'}
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Report form */}
+                  {reportingId === review.id && (
+                    <div className="mt-4 pt-4 border-t border-gray-100">
+                      <p className="text-sm font-medium text-gray-900 mb-2">Why are you reporting this review?</p>
+                      <div className="grid sm:grid-cols-2 gap-2 mb-3">
+                        {REVIEW_REPORT_REASONS.map((option) => (
+                          <label
+                            key={option.value}
+                            className={`flex items-start gap-2 p-2 border rounded-md cursor-pointer transition-colors ${
+                              reportReason === option.value ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:border-gray-300'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name={`report-reason-${review.id}`}
+                              value={option.value}
+                              checked={reportReason === option.value}
+                              onChange={() => setReportReason(option.value)}
+                              className="mt-1"
+                            />
+                            <span>
+                              <span className="block text-sm text-gray-900">{option.label}</span>
+                              <span className="block text-xs text-gray-500">{option.description}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                      <textarea
+                        value={reportDetails}
+                        onChange={(e) => setReportDetails(e.target.value)}
+                        rows={2}
+                        maxLength={MAX_REPORT_DETAILS_LENGTH}
+                        placeholder="Anything else the moderators should know? (optional)"
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <div className="flex justify-end gap-2 mt-2">
+                        <button
+                          onClick={() => setReportingId(null)}
+                          disabled={submittingReport}
+                          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleReport(review.id)}
+                          disabled={!reportReason || submittingReport}
+                          className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          {submittingReport ? 'Reporting...' : 'Report Review'}
+                        </button>
+                      </div>
                     </div>
                   )}
                 </div>
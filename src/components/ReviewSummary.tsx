@@ -1,12 +1,13 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Star, Users } from 'lucide-react';
+import { Star, Users, MessageSquare } from 'lucide-react';
 import { StarRating, CompactStarRating } from './StarRating';
 import { useReviews } from '../hooks/useReviews';
+import { REVIEW_CRITERIA } from '../lib/reviewCriteria';
 
 interface ReviewSummaryProps {
   toolId: string;
-  variant?: 'default' | 'compact' | 'detailed';
+  variant?: 'default' | 'compact' | 'detailed' | 'distribution';
   className?: string;
   showReviewCount?: boolean;
 }
@@ -58,7 +59,7 @@ export const ReviewSummary: React.FC<ReviewSummaryProps> = ({
     );
   }
 
-  const { averageRating, totalReviews, ratingDistribution } = reviewSummary;
+  const { averageRating, totalReviews, ratingDistribution, responseRate, criteriaAverages } = reviewSummary;
 
   // Compact variant for tool cards
   if (variant === 'compact') {
@@ -100,6 +101,33 @@ export const ReviewSummary: React.FC<ReviewSummaryProps> = ({
     );
   }
 
+  // Distribution bars only, narrow enough for comparison columns
+  if (variant === 'distribution') {
+    return (
+      <div className={`space-y-1 ${className}`}>
+        {[5, 4, 3, 2, 1].map((rating) => {
+          const count = ratingDistribution[rating] || 0;
+          const percentage = totalReviews > 0 ? (count / totalReviews) * 100 : 0;
+
+          return (
+            <div key={rating} className="flex items-center gap-2">
+              <span className="text-xs text-gray-600 w-3">{rating}</span>
+              <div className="flex-1 bg-gray-200 rounded-full h-2">
+                <motion.div
+                  className="bg-yellow-400 h-2 rounded-full"
+                  initial={{ width: 0 }}
+                  animate={{ width: `${percentage}%` }}
+                  transition={{ duration: 0.8, delay: rating * 0.1 }}
+                />
+              </div>
+              <span className="text-xs text-gray-500 w-6 text-right">{count}</span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
   // Detailed variant with rating distribution
   return (
     <motion.div 
@@ -118,6 +146,13 @@ export const ReviewSummary: React.FC<ReviewSummaryProps> = ({
             <Users className="w-4 h-4" />
             {totalReviews} {totalReviews === 1 ? 'review' : 'reviews'}
           </div>
+          <div
+            className="text-xs text-gray-500 mt-1 flex items-center justify-center gap-1"
+            title="Share of reviews the maker responded to"
+          >
+            <MessageSquare className="w-3 h-3" />
+            {Math.round(responseRate * 100)}% maker response rate
+          </div>
         </div>
 
         {/* Rating distribution */}
@@ -153,6 +188,34 @@ export const ReviewSummary: React.FC<ReviewSummaryProps> = ({
           </div>
         </div>
       </div>
+
+      {/* Criterion breakdown (only criteria someone rated) */}
+      {Object.keys(criteriaAverages).length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <h4 className="font-medium text-gray-900 mb-3">Rating Breakdown</h4>
+          <div className="grid sm:grid-cols-2 gap-x-6 gap-y-2">
+            {REVIEW_CRITERIA.map(({ value, label }) => {
+              const average = criteriaAverages[value];
+              if (average === undefined) return null;
+
+              return (
+                <div key={value} className="flex items-center gap-3">
+                  <span className="text-sm text-gray-600 w-32 flex-shrink-0">{label}</span>
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <motion.div
+                      className="bg-blue-500 h-2 rounded-full"
+                      initial={{ width: 0 }}
+                      animate={{ width: `${(average / 5) * 100}%` }}
+                      transition={{ duration: 0.8 }}
+                    />
+                  </div>
+                  <span className="text-sm text-gray-700 w-8 text-right">{average.toFixed(1)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </motion.div>
   );
 };
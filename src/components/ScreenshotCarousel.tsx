@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface ScreenshotCarouselProps {
+  screenshots: string[];
+  toolName: string;
+}
+
+const ScreenshotCarousel: React.FC<ScreenshotCarouselProps> = ({ screenshots, toolName }) => {
+  const [current, setCurrent] = useState(0);
+
+  if (screenshots.length === 0) return null;
+
+  // Guard against the list shrinking underneath us
+  const index = Math.min(current, screenshots.length - 1);
+
+  const goTo = (next: number) => {
+    setCurrent((next + screenshots.length) % screenshots.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') goTo(index - 1);
+    if (e.key === 'ArrowRight') goTo(index + 1);
+  };
+
+  return (
+    <div
+      className="space-y-3 focus:outline-none"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-roledescription="carousel"
+      aria-label={`${toolName} screenshots`}
+    >
+      <div className="relative aspect-video bg-gray-100 rounded-xl overflow-hidden">
+        <AnimatePresence mode="wait">
+          <motion.img
+            key={screenshots[index]}
+            src={screenshots[index]}
+            alt={`${toolName} screenshot ${index + 1} of ${screenshots.length}`}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="w-full h-full object-contain"
+          />
+        </AnimatePresence>
+
+        {screenshots.length > 1 && (
+          <>
+            <button
+              type="button"
+              onClick={() => goTo(index - 1)}
+              className="absolute left-3 top-1/2 -translate-y-1/2 p-2 bg-white/90 rounded-full shadow hover:bg-white transition-colors"
+              aria-label="Previous screenshot"
+            >
+              <ChevronLeft className="h-5 w-5 text-gray-700" />
+            </button>
+            <button
+              type="button"
+              onClick={() => goTo(index + 1)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-white/90 rounded-full shadow hover:bg-white transition-colors"
+              aria-label="Next screenshot"
+            >
+              <ChevronRight className="h-5 w-5 text-gray-700" />
+            </button>
+            <div className="absolute bottom-3 right-3 px-2 py-1 bg-black/60 text-white text-xs rounded-full">
+              {index + 1} / {screenshots.length}
+            </div>
+          </>
+        )}
+      </div>
+
+      {screenshots.length > 1 && (
+        <div className="flex space-x-2 overflow-x-auto pb-1">
+          {screenshots.map((url, i) => (
+            <button
+              key={url}
+              type="button"
+              onClick={() => goTo(i)}
+              className={`flex-shrink-0 w-20 h-12 rounded-lg overflow-hidden border-2 transition-colors ${
+                i === index ? 'border-primary-500' : 'border-transparent opacity-70 hover:opacity-100'
+              }`}
+              aria-label={`Show screenshot ${i + 1}`}
+              aria-current={i === index}
+            >
+              <img src={url} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScreenshotCarousel;
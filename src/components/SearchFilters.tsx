@@ -2,14 +2,16 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Search, Filter, Star, DollarSign, Sparkles } from 'lucide-react';
 import { FilterState } from '../types';
+import { REVIEW_CRITERIA, MIN_CRITERION_RATING, isReviewCriterion } from '../lib/reviewCriteria';
 
 interface SearchFiltersProps {
+  searchQuery?: string;
   onSearch: (query: string) => void;
   onFilterChange: (filters: FilterState) => void;
   filters: FilterState;
 }
 
-const SearchFilters: React.FC<SearchFiltersProps> = ({ onSearch, onFilterChange, filters }) => {
+const SearchFilters: React.FC<SearchFiltersProps> = ({ searchQuery, onSearch, onFilterChange, filters }) => {
   const categories = [
     { value: 'all', label: 'All Categories' },
     { value: 'text-generation', label: 'Text Generation' },
@@ -45,6 +47,7 @@ const SearchFilters: React.FC<SearchFiltersProps> = ({ onSearch, onFilterChange,
               type="text"
               placeholder="Search AI tools, categories, or use cases..."
               className="w-full pl-12 pr-4 py-3 border border-gray-200 rounded-xl focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-100 transition-all"
+              value={searchQuery}
               onChange={(e) => onSearch(e.target.value)}
             />
           </div>
@@ -96,6 +99,25 @@ const SearchFilters: React.FC<SearchFiltersProps> = ({ onSearch, onFilterChange,
             </select>
           </div>
 
+          {/* Criterion Filter */}
+          <div className="min-w-[180px]">
+            <select
+              value={filters.criterion || 'all'}
+              onChange={(e) => onFilterChange({
+                ...filters,
+                criterion: isReviewCriterion(e.target.value) ? e.target.value : 'all'
+              })}
+              className="w-full py-3 px-4 border border-gray-200 rounded-xl focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-100 transition-all bg-white"
+            >
+              <option value="all">Any Strength</option>
+              {REVIEW_CRITERIA.map(criterion => (
+                <option key={criterion.value} value={criterion.value}>
+                  {criterion.label} {MIN_CRITERION_RATING}+
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Featured Toggle */}
           <div className="flex items-center">
             <label className="flex items-center space-x-3 cursor-pointer">
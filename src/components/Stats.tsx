@@ -1,39 +1,87 @@
-import React from 'react';
-import { motion } from 'framer-motion';
-import { Brain, Users, Star, Zap } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, animate, useInView } from 'framer-motion';
+import { Brain, Users, Star, Zap, Heart } from 'lucide-react';
+import { optimizedStatsOps } from '../lib/supabaseOptimized';
+import { PlatformStats } from '../types';
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+
+// Counts up from zero the first time it scrolls into view
+const AnimatedCounter: React.FC<{ value: number }> = ({ value }) => {
+  const ref = useRef<HTMLSpanElement>(null);
+  const inView = useInView(ref, { once: true });
+  const [display, setDisplay] = useState(0);
+
+  useEffect(() => {
+    if (!inView) return;
+
+    const controls = animate(0, value, {
+      duration: 1.5,
+      ease: 'easeOut',
+      onUpdate: latest => setDisplay(Math.round(latest))
+    });
+    return () => controls.stop();
+  }, [inView, value]);
+
+  return <span ref={ref}>{compactNumber.format(display)}</span>;
+};
 
 const Stats: React.FC = () => {
+  const [platformStats, setPlatformStats] = useState<PlatformStats | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    optimizedStatsOps.getPlatformStats()
+      .then(({ data }) => {
+        if (!cancelled) setPlatformStats(data);
+      })
+      .catch(error => {
+        console.error('Failed to load platform stats:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const stats = [
     {
       icon: Brain,
-      value: '2,500+',
+      value: platformStats?.toolCount,
       label: 'AI Tools',
       color: 'text-primary-600'
     },
     {
       icon: Users,
-      value: '50K+',
+      value: platformStats?.activeUsers,
       label: 'Active Users',
       color: 'text-accent-600'
     },
     {
       icon: Star,
-      value: '95K+',
+      value: platformStats?.reviewCount,
       label: 'Reviews',
       color: 'text-yellow-600'
     },
     {
       icon: Zap,
-      value: '100+',
+      value: platformStats?.newToolsThisWeek,
       label: 'New Tools/Week',
       color: 'text-green-600'
+    },
+    {
+      icon: Heart,
+      value: platformStats?.likeCount,
+      label: 'Likes',
+      color: 'text-red-500'
     }
   ];
 
   return (
     <section className="py-16 px-4 bg-white border-b border-gray-100">
       <div className="max-w-7xl mx-auto">
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-8">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-8">
           {stats.map((stat, index) => (
             <motion.div
               key={index}
@@ -46,7 +94,7 @@ const Stats: React.FC = () => {
                 <stat.icon className="h-8 w-8" />
               </div>
               <div className="text-3xl font-bold text-gray-900 mb-2">
-                {stat.value}
+                {stat.value === undefined ? '—' : <AnimatedCounter value={stat.value} />}
               </div>
               <div className="text-gray-600 font-medium">
                 {stat.label}
@@ -59,4 +107,4 @@ const Stats: React.FC = () => {
   );
 };
 
-export default Stats;
\ No newline at end of file
+export default Stats;
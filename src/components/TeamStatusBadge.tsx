@@ -0,0 +1,44 @@
+import React from 'react';
+import { CheckCircle2, FlaskConical, Ban } from 'lucide-react';
+import { useTeamStore } from '../store/teamStore';
+import { getToolStatusOption } from '../lib/teams';
+import { ToolApprovalStatus } from '../types';
+
+interface TeamStatusBadgeProps {
+  toolId: string;
+  size?: 'sm' | 'md';
+}
+
+const STATUS_ICONS: Record<ToolApprovalStatus, React.ElementType> = {
+  approved: CheckCircle2,
+  evaluating: FlaskConical,
+  banned: Ban
+};
+
+// The active team's verdict on a tool; renders nothing for non-members
+// and for tools the team has not rated
+const TeamStatusBadge: React.FC<TeamStatusBadgeProps> = ({ toolId, size = 'sm' }) => {
+  const status = useTeamStore(state => state.toolStatuses[toolId]);
+  const teamName = useTeamStore(state =>
+    state.organizations.find(org => org.id === state.activeOrganizationId)?.name
+  );
+
+  if (!status) return null;
+
+  const option = getToolStatusOption(status);
+  const Icon = STATUS_ICONS[status];
+
+  return (
+    <div
+      className={`flex items-center space-x-1 rounded-full font-medium border ${option.badgeClass} ${
+        size === 'md' ? 'px-3 py-1 text-sm' : 'px-2 py-1 text-xs'
+      }`}
+      title={teamName ? `${teamName}: ${option.label}` : option.label}
+    >
+      <Icon className={size === 'md' ? 'h-4 w-4' : 'h-3 w-3'} />
+      <span>{option.label}</span>
+    </div>
+  );
+};
+
+export default TeamStatusBadge;
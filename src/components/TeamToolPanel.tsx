@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Users, Trash2 } from 'lucide-react';
+import { useTeamStore } from '../store/teamStore';
+import { db } from '../lib/supabase';
+import {
+  MAX_TEAM_NOTE_LENGTH,
+  TOOL_APPROVAL_STATUS_OPTIONS,
+  getToolStatusOption,
+  isOrganizationAdmin,
+  toTeamToolNote
+} from '../lib/teams';
+import { TeamToolNote, ToolApprovalStatus } from '../types';
+
+interface TeamToolPanelProps {
+  toolId: string;
+  userId: string;
+}
+
+// Tool detail sidebar card with the active team's status and internal notes.
+// Renders nothing for users who are not in a team.
+const TeamToolPanel: React.FC<TeamToolPanelProps> = ({ toolId, userId }) => {
+  const organizations = useTeamStore(state => state.organizations);
+  const activeOrganizationId = useTeamStore(state => state.activeOrganizationId);
+  const setActiveOrganization = useTeamStore(state => state.setActiveOrganization);
+  const status = useTeamStore(state => state.toolStatuses[toolId]);
+  const setToolStatus = useTeamStore(state => state.setToolStatus);
+  const [notes, setNotes] = useState<TeamToolNote[]>([]);
+  const [notesLoading, setNotesLoading] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const organization = organizations.find(org => org.id === activeOrganizationId);
+  const canManage = isOrganizationAdmin(organization?.role);
+
+  useEffect(() => {
+    setNotes([]);
+    if (!activeOrganizationId) return;
+
+    let cancelled = false;
+    setNotesLoading(true);
+    db.getOrganizationToolNotes(activeOrganizationId, toolId).then(({ data }) => {
+      if (cancelled) return;
+      setNotes((data || []).map(toTeamToolNote));
+      setNotesLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeOrganizationId, toolId]);
+
+  if (!organization) return null;
+
+  const handleStatusChange = async (value: string) => {
+    const { error } = await setToolStatus(toolId, value ? value as ToolApprovalStatus : null);
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success(value ? `Marked as ${getToolStatusOption(value as ToolApprovalStatus).label.toLowerCase()}` : 'Status cleared');
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setSaving(true);
+    const { data, error } = await db.createOrganizationToolNote({
+      organization_id: organization.id,
+      tool_id: toolId,
+      user_id: userId,
+      content: draft.trim()
+    });
+    setSaving(false);
+
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to add note');
+      return;
+    }
+    setNotes([...notes, toTeamToolNote(data)]);
+    setDraft('');
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    const { error } = await db.deleteOrganizationToolNote(noteId);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setNotes(notes.filter(note => note.id !== noteId));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+      className="bg-white rounded-2xl shadow-lg p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Users className="h-5 w-5 text-primary-600 flex-shrink-0" />
+          {organizations.length > 1 ? (
+            <select
+              value={organization.id}
+              onChange={(e) => setActiveOrganization(e.target.value)}
+              className="min-w-0 py-1 px-2 border border-gray-300 rounded-lg text-sm font-semibold focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              aria-label="Team"
+            >
+              {organizations.map(org => (
+                <option key={org.id} value={org.id}>{org.name}</option>
+              ))}
+            </select>
+          ) : (
+            <h3 className="text-lg font-semibold text-gray-900 truncate">{organization.name}</h3>
+          )}
+        </div>
+        <span className="text-xs text-gray-500 flex-shrink-0">Team only</span>
+      </div>
+
+      <div className="mb-4">
+        <div className="text-sm text-gray-500 mb-1">Status</div>
+        {canManage ? (
+          <select
+            value={status || ''}
+            onChange={(e) => handleStatusChange(e.target.value)}
+            className="w-full py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">No status</option>
+            {TOOL_APPROVAL_STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        ) : status ? (
+          <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium border ${getToolStatusOption(status).badgeClass}`}>
+            {getToolStatusOption(status).label}
+          </span>
+        ) : (
+          <p className="text-sm text-gray-600">Your team has not reviewed this tool yet.</p>
+        )}
+      </div>
+
+      <div className="text-sm text-gray-500 mb-2">Notes</div>
+      {notesLoading ? (
+        <p className="text-sm text-gray-500 mb-3">Loading notes...</p>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-gray-600 mb-3">No notes yet. Share how your team uses this tool.</p>
+      ) : (
+        <ul className="space-y-3 mb-3 max-h-72 overflow-y-auto">
+          {notes.map(note => (
+            <li key={note.id} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-start justify-between space-x-2">
+                <p className="text-sm text-gray-800 whitespace-pre-line break-words min-w-0">{note.content}</p>
+                {(note.userId === userId || canManage) && (
+                  <button
+                    onClick={() => handleDeleteNote(note.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors flex-shrink-0"
+                    aria-label="Delete note"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {note.authorName || 'A teammate'} · {new Date(note.createdAt).toLocaleDateString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAddNote} className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_TEAM_NOTE_LENGTH}
+          placeholder="Add a note for your team"
+          rows={2}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+        <button
+          type="submit"
+          disabled={saving || !draft.trim()}
+          className="w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {saving ? 'Adding...' : 'Add Note'}
+        </button>
+      </form>
+    </motion.div>
+  );
+};
+
+export default TeamToolPanel;
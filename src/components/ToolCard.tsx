@@ -17,6 +17,11 @@ import { useBookmarkContext } from '../contexts/BookmarkContext';
 import { useLikes } from '../hooks/useLikes';
 import { ReviewSummary } from './ReviewSummary';
 import { LikeButton } from './LikeButton';
+import HighlightedText from './HighlightedText';
+import { DEFAULT_TOOL_IMAGE } from '../lib/toolMapper';
+import CompareToggle from './CompareToggle';
+import AddToCollectionMenu from './AddToCollectionMenu';
+import TeamStatusBadge from './TeamStatusBadge';
 
 interface ToolCardProps {
   tool: Tool;
@@ -116,7 +121,7 @@ const ToolCard: React.FC<ToolCardProps> = ({
             className={`w-full h-full object-cover group-hover:scale-105 transition-transform duration-300`}
             onError={(e) => {
               const target = e.target as HTMLImageElement;
-              target.src = 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400';
+              target.src = DEFAULT_TOOL_IMAGE;
             }}
           />
         </div>
@@ -168,6 +173,7 @@ const ToolCard: React.FC<ToolCardProps> = ({
               <span>Verified</span>
             </div>
           )}
+          {user && <TeamStatusBadge toolId={tool.id} />}
         </div>
 
         {/* Pricing Badge */}
@@ -181,9 +187,18 @@ const ToolCard: React.FC<ToolCardProps> = ({
       {/* Content */}
       <div className={`${isGridView ? 'p-6' : 'p-4 flex-grow'}`}>
         <div className={`flex ${isGridView ? 'items-start' : 'items-center'} justify-between mb-3`}>
-          <h3 className="text-xl font-bold text-gray-900 group-hover:text-primary-600 transition-colors">
-            {tool.name}
-          </h3>
+          <div className="flex items-center space-x-3 min-w-0">
+            {tool.media?.logo && (
+              <img
+                src={tool.media.logo}
+                alt=""
+                className="w-10 h-10 rounded-lg object-cover border border-gray-200 bg-white flex-shrink-0"
+              />
+            )}
+            <h3 className="text-xl font-bold text-gray-900 group-hover:text-primary-600 transition-colors">
+              {tool.highlight ? <HighlightedText text={tool.highlight.name} /> : tool.name}
+            </h3>
+          </div>
           <ReviewSummary 
             toolId={tool.id} 
             variant="compact" 
@@ -192,7 +207,9 @@ const ToolCard: React.FC<ToolCardProps> = ({
         </div>
 
         <p className="text-gray-600 mb-4 line-clamp-2 leading-relaxed">
-          {tool.description || 'No description available'}
+          {tool.highlight
+            ? <HighlightedText text={tool.highlight.description} />
+            : tool.description || 'No description available'}
         </p>
 
         {/* Tags */}
@@ -227,6 +244,10 @@ const ToolCard: React.FC<ToolCardProps> = ({
               size="sm"
               variant="minimal"
             />
+
+            <CompareToggle tool={tool} />
+
+            {user && <AddToCollectionMenu toolId={tool.id} />}
             
             <motion.button
               whileHover={{ scale: 1.05 }}
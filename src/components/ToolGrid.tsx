@@ -1,63 +1,183 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
 import ToolCard from './ToolCard';
-import { Tool } from '../types';
+import { Tool, ToolSortKey } from '../types';
+import { TOOL_SORT_OPTIONS } from '../lib/catalog';
 
 interface ToolGridProps {
   tools: Tool[];
   loading: boolean;
   onToolClick?: (toolId: string) => void;
+  // Server-side pagination (omit to render a plain grid)
+  totalCount?: number;
+  page?: number;
+  pageSize?: number;
+  onPageChange?: (page: number) => void;
+  sort?: ToolSortKey;
+  onSortChange?: (sort: ToolSortKey) => void;
+  // Active search; results are ordered by relevance instead of `sort`
+  searchQuery?: string;
 }
 
-const ToolGrid: React.FC<ToolGridProps> = ({ tools, loading, onToolClick }) => {
+// Page numbers to show, with null marking a gap ("…")
+const getPageNumbers = (page: number, totalPages: number): (number | null)[] => {
+  if (totalPages <= 7) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1);
+  }
+
+  const pages = new Set([1, totalPages, page - 1, page, page + 1]);
+  const sorted = [...pages].filter(p => p >= 1 && p <= totalPages).sort((a, b) => a - b);
+
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+};
+
+const ToolGrid: React.FC<ToolGridProps> = ({
+  tools,
+  loading,
+  onToolClick,
+  totalCount,
+  page = 1,
+  pageSize,
+  onPageChange,
+  sort,
+  onSortChange,
+  searchQuery
+}) => {
+  const total = totalCount ?? tools.length;
+  const totalPages = pageSize ? Math.max(1, Math.ceil(total / pageSize)) : 1;
+  const firstShown = pageSize ? (page - 1) * pageSize + 1 : 1;
+  const lastShown = Math.min(firstShown + tools.length - 1, total);
+
+  const toolbar = onSortChange && (
+    <div className="flex flex-col sm:flex-row items-center justify-between mb-6 gap-4">
+      <p className="text-sm text-gray-600">
+        {loading
+          ? 'Loading tools...'
+          : total === 0
+            ? 'No tools to show'
+            : `Showing ${firstShown}–${lastShown} of ${total} tools`}
+        {searchQuery && !loading && total > 0 && ` matching “${searchQuery}”`}
+      </p>
+      {searchQuery ? (
+        <span className="text-sm text-gray-600">Sorted by relevance</span>
+      ) : (
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>Sort by</span>
+          <select
+            value={sort}
+            onChange={(e) => onSortChange(e.target.value as ToolSortKey)}
+            className="py-2 px-3 border border-gray-200 rounded-lg focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-100 bg-white"
+          >
+            {TOOL_SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+
+  const pagination = onPageChange && totalPages > 1 && (
+    <nav className="flex items-center justify-center space-x-2 mt-12" aria-label="Pagination">
+      <button
+        onClick={() => onPageChange(page - 1)}
+        disabled={page <= 1 || loading}
+        className="p-2 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        aria-label="Previous page"
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </button>
+      {getPageNumbers(page, totalPages).map((pageNumber, index) =>
+        pageNumber === null ? (
+          <span key={`gap-${index}`} className="px-2 text-gray-400">…</span>
+        ) : (
+          <button
+            key={pageNumber}
+            onClick={() => onPageChange(pageNumber)}
+            disabled={loading}
+            aria-current={pageNumber === page ? 'page' : undefined}
+            className={`min-w-[2.5rem] px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+              pageNumber === page
+                ? 'bg-primary-600 text-white border-primary-600'
+                : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {pageNumber}
+          </button>
+        )
+      )}
+      <button
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= totalPages || loading}
+        className="p-2 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        aria-label="Next page"
+      >
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    </nav>
+  );
+
   if (loading) {
     return (
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {[...Array(6)].map((_, i) => (
-          <div key={i} className="bg-white rounded-xl p-6 shadow-sm animate-pulse">
-            <div className="w-full h-48 bg-gray-200 rounded-lg mb-4"></div>
-            <div className="h-4 bg-gray-200 rounded mb-2"></div>
-            <div className="h-3 bg-gray-200 rounded w-3/4 mb-4"></div>
-            <div className="flex justify-between items-center">
-              <div className="h-3 bg-gray-200 rounded w-1/4"></div>
-              <div className="h-3 bg-gray-200 rounded w-1/4"></div>
+      <>
+        {toolbar}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="bg-white rounded-xl p-6 shadow-sm animate-pulse">
+              <div className="w-full h-48 bg-gray-200 rounded-lg mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded w-3/4 mb-4"></div>
+              <div className="flex justify-between items-center">
+                <div className="h-3 bg-gray-200 rounded w-1/4"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/4"></div>
+              </div>
             </div>
-          </div>
-        ))}
-      </div>
+          ))}
+        </div>
+      </>
     );
   }
 
   if (tools.length === 0) {
     return (
-      <motion.div
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        className="text-center py-16"
-      >
-        <div className="text-6xl mb-4">🤖</div>
-        <h3 className="text-2xl font-semibold text-gray-900 mb-2">No tools found</h3>
-        <p className="text-gray-600 mb-6">Try adjusting your search criteria or filters</p>
-        <button className="bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors">
-          Clear Filters
-        </button>
-      </motion.div>
+      <>
+        {toolbar}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="text-center py-16"
+        >
+          <div className="text-6xl mb-4">🤖</div>
+          <h3 className="text-2xl font-semibold text-gray-900 mb-2">No tools found</h3>
+          <p className="text-gray-600 mb-6">Try adjusting your search criteria or filters</p>
+          <button className="bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors">
+            Clear Filters
+          </button>
+        </motion.div>
+      </>
     );
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-      {tools.map((tool, index) => (
-        <motion.div
-          key={tool.id}
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.5, delay: index * 0.1 }}
-        >
-          <ToolCard tool={tool} onToolClick={onToolClick} />
-        </motion.div>
-      ))}
-    </div>
+    <>
+      {toolbar}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {tools.map((tool, index) => (
+          <motion.div
+            key={tool.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: index * 0.1 }}
+          >
+            <ToolCard tool={tool} onToolClick={onToolClick} />
+          </motion.div>
+        ))}
+      </div>
+      {pagination}
+    </>
   );
 };
 
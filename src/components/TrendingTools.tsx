@@ -0,0 +1,62 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Star, TrendingUp } from 'lucide-react';
+import { Tool } from '../types';
+
+interface TrendingToolsProps {
+  tools: Tool[];
+  onToolClick: (id: string) => void;
+}
+
+const TrendingTools: React.FC<TrendingToolsProps> = ({ tools, onToolClick }) => {
+  return (
+    <section className="py-16 px-4">
+      <div className="max-w-7xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+          className="flex items-center space-x-3 mb-8"
+        >
+          <div className="p-2 bg-orange-100 rounded-xl">
+            <TrendingUp className="h-6 w-6 text-orange-600" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Trending this week</h2>
+            <p className="text-gray-600">Tools the community has been liking, saving and reviewing lately</p>
+          </div>
+        </motion.div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {tools.map((tool, index) => (
+            <motion.button
+              key={tool.id}
+              initial={{ opacity: 0, y: 20 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.4, delay: index * 0.05 }}
+              onClick={() => onToolClick(tool.id)}
+              className="flex items-center space-x-4 p-4 bg-white rounded-2xl border border-gray-100 shadow-sm hover:shadow-md hover:border-primary-200 transition-all text-left"
+            >
+              <span className="text-2xl font-bold text-gray-300 w-6 flex-shrink-0">{index + 1}</span>
+              <img
+                src={tool.media?.logo || tool.image}
+                alt=""
+                className="w-12 h-12 rounded-xl object-cover border border-gray-200 flex-shrink-0"
+              />
+              <div className="min-w-0 flex-1">
+                <h3 className="font-semibold text-gray-900 truncate">{tool.name}</h3>
+                <p className="text-sm text-gray-500 truncate">{tool.category}</p>
+              </div>
+              <div className="flex items-center space-x-1 text-sm text-gray-700 flex-shrink-0">
+                <Star className="h-4 w-4 text-yellow-400 fill-current" />
+                <span>{tool.rating.toFixed(1)}</span>
+              </div>
+            </motion.button>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default TrendingTools;
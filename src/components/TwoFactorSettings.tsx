@@ -0,0 +1,405 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Factor } from '@supabase/supabase-js';
+import { AlertCircle, Copy, Download, Loader2, ShieldCheck } from 'lucide-react';
+import { auth } from '../lib/supabase';
+import { downloadFile } from '../lib/bookmarkLog';
+import { generateRecoveryCodes, recoveryCodesToText, TOTP_CODE_LENGTH } from '../lib/mfa';
+import { useAuthStore } from '../store/authStore';
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+// 'regenerate' and 'disable' ask for a current code (and for 'disable' the password) first
+type Step = 'idle' | 'enroll' | 'codes' | 'regenerate' | 'disable';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+// Turns TOTP two-factor authentication on and off and manages its recovery codes
+const TwoFactorSettings: React.FC = () => {
+  const { user, refreshSession } = useAuthStore();
+  const [factor, setFactor] = useState<Factor | null>(null);
+  const [codeCount, setCodeCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [step, setStep] = useState<Step>('idle');
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    const [{ data: factors, error: factorsError }, { data: count }] = await Promise.all([
+      auth.listFactors(),
+      auth.getRecoveryCodeCount()
+    ]);
+    if (factorsError) {
+      toast.error(factorsError.message || 'Failed to load your two-factor settings');
+    } else {
+      setFactor(factors?.totp[0] ?? null);
+    }
+    setCodeCount(count);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const resetForm = (nextStep: Step) => {
+    setStep(nextStep);
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  const saveNewRecoveryCodes = async () => {
+    const codes = generateRecoveryCodes();
+    const { error: saveError } = await auth.saveRecoveryCodes(codes);
+    if (saveError) {
+      toast.error(saveError.message || 'Failed to save your recovery codes');
+      return false;
+    }
+    setRecoveryCodes(codes);
+    setCodeCount(codes.length);
+    return true;
+  };
+
+  const handleStartEnroll = async () => {
+    setBusy(true);
+
+    // A setup that was abandoned part way leaves an unverified factor behind
+    const { data: factors } = await auth.listFactors();
+    for (const stale of factors?.all.filter(f => f.factor_type === 'totp' && f.status === 'unverified') ?? []) {
+      await auth.unenrollFactor(stale.id);
+    }
+
+    const { data, error: enrollError } = await auth.enrollTotp('Authenticator app');
+    setBusy(false);
+
+    if (enrollError || !data) {
+      toast.error(enrollError?.message || 'Failed to start two-factor setup');
+      return;
+    }
+    setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+    resetForm('enroll');
+  };
+
+  const handleCancelEnroll = async () => {
+    if (enrollment) {
+      await auth.unenrollFactor(enrollment.factorId);
+    }
+    setEnrollment(null);
+    resetForm('idle');
+  };
+
+  const handleVerifyEnroll = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    setBusy(true);
+    const { error: verifyError } = await auth.verifyTotp(enrollment.factorId, code);
+    if (verifyError) {
+      setBusy(false);
+      setError('That code is not valid. Check your authenticator app and try again.');
+      return;
+    }
+
+    // The factor is verified by now; stay on this step so the user can try
+    // again, or cancel, which removes the factor rather than leave it without codes
+    const saved = await saveNewRecoveryCodes();
+    setBusy(false);
+    if (!saved) {
+      setCode('');
+      setError('Your recovery codes could not be saved. Enter a new code to try again, or cancel to leave two-factor off.');
+      return;
+    }
+
+    setEnrollment(null);
+    resetForm('codes');
+    toast.success('Two-factor authentication is on');
+    loadStatus();
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!factor) return;
+
+    setBusy(true);
+    const { error: verifyError } = await auth.verifyTotp(factor.id, code);
+    if (verifyError) {
+      setBusy(false);
+      setError('That code is not valid');
+      return;
+    }
+
+    const saved = await saveNewRecoveryCodes();
+    setBusy(false);
+    if (saved) {
+      resetForm('codes');
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!factor) return;
+
+    setBusy(true);
+    const { data: passwordOk, error: passwordError } = await auth.verifyPassword(password);
+    if (passwordError || !passwordOk) {
+      setBusy(false);
+      setError(passwordError?.message || 'Your password is incorrect');
+      return;
+    }
+
+    const { error: verifyError } = await auth.verifyTotp(factor.id, code);
+    if (verifyError) {
+      setBusy(false);
+      setError('That code is not valid');
+      return;
+    }
+
+    await auth.saveRecoveryCodes([]);
+    const { error: unenrollError } = await auth.unenrollFactor(factor.id);
+    setBusy(false);
+
+    if (unenrollError) {
+      setError(unenrollError.message || 'Failed to turn off two-factor authentication');
+      return;
+    }
+
+    resetForm('idle');
+    toast.success('Two-factor authentication is off');
+    // Picks up the factor list without the removed factor
+    await refreshSession();
+    loadStatus();
+  };
+
+  const handleDownloadCodes = () => {
+    downloadFile('aiventory-recovery-codes.txt', recoveryCodesToText(recoveryCodes, user?.email), 'text/plain');
+  };
+
+  const handleCopyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy to the clipboard');
+    }
+  };
+
+  const codeInput = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Code from your authenticator app</label>
+      <input
+        type="text"
+        inputMode="numeric"
+        value={code}
+        onChange={(e) => {
+          setCode(e.target.value.replace(/\D/g, '').slice(0, TOTP_CODE_LENGTH));
+          setError('');
+        }}
+        autoComplete="one-time-code"
+        placeholder="123456"
+        required
+        className={`${inputClassName} font-mono tracking-widest`}
+      />
+    </div>
+  );
+
+  const errorMessage = error && (
+    <p className="text-sm text-red-600 flex items-center">
+      <AlertCircle className="h-4 w-4 mr-1" />
+      {error}
+    </p>
+  );
+
+  const formButtons = (submitLabel: string, onCancel: () => void, danger = false) => (
+    <div className="flex justify-end space-x-2">
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+      >
+        Cancel
+      </button>
+      <button
+        type="submit"
+        disabled={busy || code.length !== TOTP_CODE_LENGTH}
+        className={`px-4 py-2 text-white rounded-lg transition-colors font-medium disabled:opacity-50 ${
+          danger ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+        }`}
+      >
+        {busy ? 'Checking...' : submitLabel}
+      </button>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 text-primary-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (step === 'enroll' && enrollment) {
+    return (
+      <form onSubmit={handleVerifyEnroll} className="space-y-4 p-4 border border-gray-200 rounded-lg">
+        <div className="font-medium text-gray-900">Set up your authenticator app</div>
+        <p className="text-sm text-gray-500">
+          Scan this QR code with an app such as Google Authenticator, 1Password or Authy, then enter the
+          6-digit code it shows.
+        </p>
+        <div className="flex flex-col sm:flex-row items-center gap-4">
+          <img src={enrollment.qrCode} alt="Two-factor QR code" className="h-40 w-40 border border-gray-200 rounded-lg" />
+          <div className="text-sm text-gray-500 min-w-0">
+            Can't scan it? Enter this key instead:
+            <code className="block mt-1 px-2 py-1 bg-gray-100 rounded text-gray-900 break-all">{enrollment.secret}</code>
+          </div>
+        </div>
+        {codeInput}
+        {errorMessage}
+        {formButtons('Turn On', handleCancelEnroll)}
+      </form>
+    );
+  }
+
+  if (step === 'codes') {
+    return (
+      <div className="space-y-4 p-4 border border-green-200 bg-green-50 rounded-lg">
+        <div className="font-medium text-gray-900">Save your recovery codes</div>
+        <p className="text-sm text-gray-600">
+          If you lose your authenticator app, one of these codes signs you in and turns two-factor
+          authentication off. They won't be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 p-3 bg-white border border-gray-200 rounded-lg font-mono text-sm text-gray-900">
+          {recoveryCodes.map(recoveryCode => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex flex-wrap justify-between gap-2">
+          <div className="flex space-x-2">
+            <button
+              onClick={handleDownloadCodes}
+              className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-50 transition-colors"
+            >
+              <Download className="h-4 w-4" />
+              <span>Download</span>
+            </button>
+            <button
+              onClick={handleCopyCodes}
+              className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-50 transition-colors"
+            >
+              <Copy className="h-4 w-4" />
+              <span>Copy</span>
+            </button>
+          </div>
+          <button
+            onClick={() => {
+              setRecoveryCodes([]);
+              resetForm('idle');
+            }}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
+          >
+            I've saved them
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (factor && step === 'regenerate') {
+    return (
+      <form onSubmit={handleRegenerate} className="space-y-3 p-4 border border-gray-200 rounded-lg">
+        <div className="font-medium text-gray-900">New recovery codes</div>
+        <p className="text-sm text-gray-500">Your current recovery codes will stop working.</p>
+        {codeInput}
+        {errorMessage}
+        {formButtons('Generate Codes', () => resetForm('idle'))}
+      </form>
+    );
+  }
+
+  if (factor && step === 'disable') {
+    return (
+      <form onSubmit={handleDisable} className="space-y-3 p-4 border border-gray-200 rounded-lg">
+        <div className="font-medium text-gray-900">Turn off two-factor authentication</div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => {
+              setPassword(e.target.value);
+              setError('');
+            }}
+            autoComplete="current-password"
+            required
+            autoFocus
+            className={inputClassName}
+          />
+        </div>
+        {codeInput}
+        {errorMessage}
+        {formButtons('Turn Off', () => resetForm('idle'), true)}
+      </form>
+    );
+  }
+
+  if (!factor) {
+    return (
+      <button
+        onClick={handleStartEnroll}
+        disabled={busy}
+        className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+      >
+        <div className="font-medium text-gray-900">Two-Factor Authentication</div>
+        <div className="text-sm text-gray-500">
+          {busy ? 'Starting setup...' : 'Add an extra layer of security with an authenticator app'}
+        </div>
+      </button>
+    );
+  }
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <ShieldCheck className="h-5 w-5 text-green-600 flex-shrink-0" />
+          <div>
+            <div className="font-medium text-gray-900">
+              Two-Factor Authentication
+              <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded-full">On</span>
+            </div>
+            <div className="text-sm text-gray-500">
+              On since {new Date(factor.created_at).toLocaleDateString()} ·{' '}
+              {codeCount > 0 ? `${codeCount} recovery codes saved` : 'No recovery codes saved'}
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-shrink-0 space-x-3 text-sm">
+          <button
+            onClick={() => resetForm('regenerate')}
+            className="text-primary-600 hover:text-primary-700"
+          >
+            New recovery codes
+          </button>
+          <button
+            onClick={() => resetForm('disable')}
+            className="text-red-600 hover:text-red-700"
+          >
+            Turn off
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { MessageCircle, MessageSquare, ThumbsUp, EyeOff, Pencil, Trash2, Loader2 } from 'lucide-react';
+import StarRating from './StarRating';
+import { useUserReviews, UserReview, UserReviewSort } from '../hooks/useReviews';
+
+interface UserReviewsPanelProps {
+  onToolClick: (toolId: string) => void;
+}
+
+const SORT_OPTIONS: { value: UserReviewSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'highest_rated', label: 'Highest rated' },
+  { value: 'lowest_rated', label: 'Lowest rated' },
+  { value: 'most_helpful', label: 'Most helpful' }
+];
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const UserReviewsPanel: React.FC<UserReviewsPanelProps> = ({ onToolClick }) => {
+  const { reviews, loading, savingId, sortBy, setSortBy, updateReview, deleteReview } = useUserReviews();
+  // Review being edited inline
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ rating: 0, comment: '' });
+  const [draftError, setDraftError] = useState('');
+
+  const startEditing = (review: UserReview) => {
+    setDraft({ rating: review.rating, comment: review.comment });
+    setDraftError('');
+    setEditingId(review.id);
+  };
+
+  const handleSave = async (e: React.FormEvent, reviewId: string) => {
+    e.preventDefault();
+
+    // Same rules as the review form on the tool page
+    const comment = draft.comment.trim();
+    if (draft.rating < 1) {
+      setDraftError('Please select a rating');
+      return;
+    }
+    if (comment.length < 10) {
+      setDraftError('Review must be at least 10 characters long');
+      return;
+    }
+    if (comment.length > 1000) {
+      setDraftError('Review must be less than 1000 characters');
+      return;
+    }
+
+    try {
+      await updateReview(reviewId, draft.rating, comment);
+      setEditingId(null);
+      toast.success('Review updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update review');
+    }
+  };
+
+  const handleDelete = async (review: UserReview) => {
+    if (!window.confirm(`Delete your review of ${review.tool?.name || 'this tool'}?`)) return;
+
+    try {
+      await deleteReview(review.id);
+      toast.success('Review deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete review');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-primary-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (reviews.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <MessageCircle className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">No reviews yet</h3>
+        <p className="text-gray-600">Reviews you write on tool pages will appear here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-gray-600">
+          {reviews.length} {reviews.length === 1 ? 'review' : 'reviews'}
+        </p>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as UserReviewSort)}
+          className="py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          aria-label="Sort reviews"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-4">
+        {reviews.map((review, index) => (
+          <motion.div
+            key={review.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: Math.min(index, 10) * 0.05 }}
+            className="p-4 border border-gray-200 rounded-lg"
+          >
+            <div className="flex items-start space-x-4">
+              {review.tool && (
+                <button onClick={() => onToolClick(review.tool!.id)} className="flex-shrink-0">
+                  <img
+                    src={review.tool.image}
+                    alt={review.tool.name}
+                    className="w-12 h-12 rounded-lg object-cover"
+                  />
+                </button>
+              )}
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    {review.tool ? (
+                      <button
+                        onClick={() => onToolClick(review.tool!.id)}
+                        className="font-semibold text-gray-900 hover:text-primary-600 transition-colors"
+                      >
+                        {review.tool.name}
+                      </button>
+                    ) : (
+                      <span className="font-semibold text-gray-500">Deleted tool</span>
+                    )}
+                    <p className="text-sm text-gray-500">
+                      {formatDate(review.created_at)}
+                      {review.updated_at !== review.created_at && ` · edited ${formatDate(review.updated_at)}`}
+                    </p>
+                  </div>
+
+                  {editingId !== review.id && (
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => startEditing(review)}
+                        disabled={savingId === review.id}
+                        className="p-2 text-gray-400 hover:text-primary-600 transition-colors disabled:opacity-50"
+                        aria-label="Edit review"
+                        title="Edit review"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(review)}
+                        disabled={savingId === review.id}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                        aria-label="Delete review"
+                        title="Delete review"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {review.status === 'hidden' && (
+                  <div className="flex items-center gap-2 mt-2 px-3 py-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">
+                    <EyeOff className="w-4 h-4 flex-shrink-0" />
+                    <span>Your review was reported and is hidden while our moderators look at it.</span>
+                  </div>
+                )}
+
+                {editingId === review.id ? (
+                  <form onSubmit={(e) => handleSave(e, review.id)} className="mt-3 space-y-3">
+                    <StarRating
+                      rating={draft.rating}
+                      onRatingChange={(rating) => setDraft({ ...draft, rating })}
+                    />
+                    <div>
+                      <textarea
+                        value={draft.comment}
+                        onChange={(e) => setDraft({ ...draft, comment: e.target.value })}
+                        rows={4}
+                        maxLength={1000}
+                        autoFocus
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <div className="flex justify-between text-xs">
+                        <span className="text-red-600">{draftError}</span>
+                        <span className="text-gray-500">{draft.comment.length}/1000</span>
+                      </div>
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={savingId === review.id}
+                        className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                      >
+                        {savingId === review.id ? 'Saving...' : 'Save'}
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <>
+                    <StarRating rating={review.rating} readonly size="sm" className="mt-2" />
+                    <p className="mt-2 text-gray-700 leading-relaxed whitespace-pre-wrap">{review.comment}</p>
+                  </>
+                )}
+
+                <div className="flex items-center gap-1 mt-3 text-sm text-gray-500">
+                  <ThumbsUp className="w-4 h-4" />
+                  {review.helpful_count === 1 ? '1 person' : `${review.helpful_count} people`} found this helpful
+                </div>
+
+                {review.response && (
+                  <div className="mt-4 ml-2 pl-4 border-l-2 border-blue-200">
+                    <div className="flex items-center gap-2 mb-1 text-sm">
+                      <MessageSquare className="w-4 h-4 text-blue-600" />
+                      <span className="font-medium text-gray-900">Response from the maker</span>
+                      <span className="text-gray-500">{formatDate(review.response.created_at)}</span>
+                    </div>
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.response.body}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UserReviewsPanel;
@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { db } from '../lib/supabase';
+import { toTools } from '../lib/toolMapper';
+import { subscribeToTable } from '../lib/realtime';
 import { useAuthContext } from './AuthContext';
 import { Tool } from '../types';
 
@@ -48,6 +50,10 @@ export const BookmarkProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [initialized, setInitialized] = useState(false);
+  // Bookmark id -> tool id, to resolve realtime deletes (they only carry the id)
+  const bookmarkToolIds = useRef(new Map<string, string>());
+  const bookmarkedToolsRef = useRef(bookmarkedTools);
+  bookmarkedToolsRef.current = bookmarkedTools;
 
   const BATCH_SIZE = 8;
 
@@ -97,6 +103,7 @@ export const BookmarkProvider: React.FC<{ children: ReactNode }> = ({ children }
         }
         
         const toolIds = data?.map(b => b.tool_id) || [];
+        bookmarkToolIds.current = new Map(data?.map((b: { id: string; tool_id: string }) => [b.id, b.tool_id]));
         
         // Update cache
         bookmarkCache = {
@@ -141,16 +148,7 @@ export const BookmarkProvider: React.FC<{ children: ReactNode }> = ({ children }
         throw fetchError;
       }
       
-      const rawTools = data?.map(bookmark => bookmark.tools).filter(Boolean).flat() || [];
-      // Map raw tools to ensure all required Tool properties are present
-      const tools = rawTools.map((tool: any) => ({
-        ...tool,
-        reviews: tool.reviews || [],
-        image: tool.image || '',
-        url: tool.website_url || tool.url || '',
-        addedDate: tool.created_at || '',
-        lastUpdated: tool.updated_at || ''
-      })) as Tool[];
+      const tools = toTools(data?.map(bookmark => bookmark.tools).flat());
       setBookmarksWithTools(tools);
       setHasMoreBookmarks(tools.length > BATCH_SIZE);
       setDisplayedBookmarks(tools.slice(0, BATCH_SIZE));
@@ -307,6 +305,48 @@ export const BookmarkProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   }, [user?.id, fetchBookmarks]);
 
+  // Apply bookmarks added or removed in other tabs and on other devices.
+  // Our own optimistic toggles are already in state, so their echoes are no-ops.
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const userId = user.id;
+
+    const applyChange = (toolId: string, added: boolean) => {
+      if (bookmarkedToolsRef.current.includes(toolId) === added) return;
+
+      setBookmarkedTools(prev => (added ? [...prev, toolId] : prev.filter(id => id !== toolId)));
+      if (bookmarkCache && bookmarkCache.userId === userId) {
+        bookmarkCache.data = added
+          ? [...bookmarkCache.data, toolId]
+          : bookmarkCache.data.filter(id => id !== toolId);
+      }
+
+      window.dispatchEvent(new CustomEvent('bookmarksChanged', {
+        detail: { action: added ? 'added' : 'removed', toolId }
+      }));
+    };
+
+    return subscribeToTable('bookmarks', change => {
+      if (change.eventType === 'DELETE') {
+        const bookmarkId = change.old.id;
+        const toolId = bookmarkId && bookmarkToolIds.current.get(bookmarkId);
+        if (!bookmarkId || !toolId) return;
+
+        bookmarkToolIds.current.delete(bookmarkId);
+        applyChange(toolId, false);
+        return;
+      }
+
+      if (change.new.user_id !== userId) return;
+
+      bookmarkToolIds.current.set(change.new.id, change.new.tool_id);
+      if (change.eventType === 'INSERT') {
+        applyChange(change.new.tool_id, true);
+      }
+    });
+  }, [user?.id]);
+
   // Prefetch on user login (after a short delay)
   useEffect(() => {
     if (user?.id && !initialized) {
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ActivityEvent, ActivityStats } from '../types';
+import { db } from '../lib/supabase';
+import {
+  ACTIVITY_PAGE_SIZE,
+  ActivityRange,
+  EMPTY_ACTIVITY_STATS,
+  toActivityEvent,
+  toActivityStats
+} from '../lib/activity';
+
+/**
+ * A user's activity log and the Dashboard counts for a date range. Events
+ * are loaded a page at a time; both reload when the range changes or the
+ * user's bookmarks change.
+ */
+export const useActivity = (userId: string | undefined, range: ActivityRange) => {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [stats, setStats] = useState<ActivityStats>(EMPTY_ACTIVITY_STATS);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const { since, until } = range;
+
+  useEffect(() => {
+    if (!userId) {
+      setEvents([]);
+      setStats(EMPTY_ACTIVITY_STATS);
+      setTotal(0);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const [activityResult, statsResult] = await Promise.all([
+        db.getUserActivity(userId, { since, until, pageSize: ACTIVITY_PAGE_SIZE }),
+        db.getUserActivityStats(userId, { since, until })
+      ]);
+      if (cancelled) return;
+
+      setEvents((activityResult.data || []).map(toActivityEvent));
+      setTotal(activityResult.count || 0);
+      setPage(1);
+      setStats(toActivityStats(statsResult.data?.[0]));
+      setLoading(false);
+    };
+
+    load();
+    window.addEventListener('bookmarksChanged', load);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('bookmarksChanged', load);
+    };
+  }, [userId, since, until]);
+
+  const loadMore = useCallback(async () => {
+    if (!userId || loadingMore) return;
+
+    setLoadingMore(true);
+    const { data } = await db.getUserActivity(userId, {
+      since,
+      until,
+      page: page + 1,
+      pageSize: ACTIVITY_PAGE_SIZE
+    });
+    setLoadingMore(false);
+    if (!data) return;
+
+    // Events logged since the first page can shift rows across pages
+    setEvents(prev => {
+      const seen = new Set(prev.map(event => event.id));
+      return [...prev, ...data.map(toActivityEvent).filter(event => !seen.has(event.id))];
+    });
+    setPage(page + 1);
+  }, [userId, since, until, page, loadingMore]);
+
+  return {
+    events,
+    stats,
+    loading,
+    loadingMore,
+    hasMore: events.length < total,
+    loadMore
+  };
+};
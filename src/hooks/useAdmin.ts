@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { db } from '../lib/supabase';
+
+/**
+ * Whether the signed-in user has the admin role.
+ * Only used to show admin UI; the database enforces access with RLS.
+ */
+export const useIsAdmin = () => {
+  const { user, initialized } = useAuthStore();
+  const userId = user?.id;
+  // The role as last loaded, and for which user
+  const [role, setRole] = useState<{ userId: string; isAdmin: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const checkRole = async () => {
+      const { data, error } = await db.getProfile(userId);
+      if (cancelled) return;
+
+      if (error) {
+        console.warn('Admin: Could not load profile role:', error);
+      }
+      setRole({ userId, isAdmin: data?.role === 'admin' });
+    };
+
+    checkRole();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Still loading until auth has initialised and the current user's role is
+  // in, so admin routes don't redirect away while an admin is signing in
+  const roleLoaded = !!userId && role?.userId === userId;
+  const loading = !initialized || (!!userId && !roleLoaded);
+
+  return { isAdmin: roleLoaded && !!role?.isAdmin, loading };
+};
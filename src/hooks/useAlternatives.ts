@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { Tool } from '../types';
+import { db } from '../lib/supabase';
+import { toTools } from '../lib/toolMapper';
+import { recommendSimilarTools, ToolRecommendation } from '../utils/recommendations';
+import { mockTools } from '../data/mockData';
+
+/**
+ * Top-N alternatives to a tool. The database narrows the candidates by
+ * category and tags; the recommendation module ranks and explains them.
+ */
+export const useAlternatives = (tool: Tool, limit: number = 5) => {
+  const [alternatives, setAlternatives] = useState<ToolRecommendation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = await db.getSimilarTools(tool.id);
+      if (cancelled) return;
+
+      // Mock tools (no database) are compared against the mock catalog
+      const candidates = error || !data ? mockTools : toTools(data);
+      setAlternatives(recommendSimilarTools(tool, candidates, { limit }));
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [tool, limit]);
+
+  return { alternatives, loading };
+};
@@ -3,6 +3,7 @@ import { Tool } from '../types';
 import { useAuth } from './useAuth';
 import { useBookmarkContext } from '../contexts/BookmarkContext';
 import { db } from '../lib/supabase';
+import { toTools } from '../lib/toolMapper';
 import { Database } from '../types/database';
 import {
   BookmarkSuggestion,
@@ -50,28 +51,7 @@ export const useBookmarkSuggestion = (): UseBookmarkSuggestionReturn => {
       const { data: bookmarkData } = await db.getBookmarks(user.id);
       
       if (bookmarkData) {
-        const tools = bookmarkData
-          .filter(bookmark => bookmark.tools) // Filter out bookmarks without tool data
-          .map(bookmark => {
-            // Type assertion to handle Supabase's nested object structure
-            const tool = bookmark.tools as any;
-            return {
-              id: tool?.id || '',
-              name: tool?.name || '',
-              description: tool?.description || '',
-              category: tool?.category || '',
-              pricing: tool?.pricing || 'free',
-              rating: tool?.rating || 0,
-              reviews: tool?.reviews_count || 0,
-              tags: tool?.tags || [],
-              image: '', // Will be handled by image system
-              url: tool?.website_url || '',
-              featured: tool?.featured || false,
-              verified: tool?.verified || false,
-              addedDate: tool?.created_at || new Date().toISOString(),
-              lastUpdated: tool?.updated_at || new Date().toISOString()
-            };
-          }) as Tool[];
+        const tools = toTools(bookmarkData.map(bookmark => bookmark.tools));
         
         setBookmarkedTools(tools);
       }
@@ -103,24 +83,7 @@ export const useBookmarkSuggestion = (): UseBookmarkSuggestionReturn => {
           return tool;
         });
         
-        const tools = (await Promise.all(toolPromises))
-          .filter(Boolean)
-          .map(tool => ({
-            id: tool.id,
-            name: tool.name,
-            description: tool.description,
-            category: tool.category,
-            pricing: tool.pricing,
-            rating: tool.rating,
-            reviews: tool.reviews_count,
-            tags: tool.tags,
-            image: '', // Will be handled by image system
-            url: tool.website_url,
-            featured: tool.featured,
-            verified: tool.verified,
-            addedDate: tool.created_at,
-            lastUpdated: tool.updated_at
-          })) as Tool[];
+        const tools = toTools((await Promise.all(toolPromises)).filter(Boolean));
         
         setReviewedTools(tools);
       }
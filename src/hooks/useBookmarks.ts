@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuthStore } from '../store/authStore';
 import { supabase } from '../lib/supabase';
+import { toTools } from '../lib/toolMapper';
 import { ensureValidSession } from '../store/authStore';
 import { Tool } from '../types';
 
@@ -87,6 +88,9 @@ export const useBookmarks = () => {
             reviews_count,
             tags,
             website_url,
+            logo_url,
+            cover_image_url,
+            screenshot_urls,
             featured,
             verified,
             created_at,
@@ -101,27 +105,8 @@ export const useBookmarks = () => {
       }
       
       // Transform the data to match the Tool interface
-      const tools = data
-        ?.filter(bookmark => bookmark.tools) // Filter out any bookmarks without tool data
-        .map(bookmark => {
-          const tool = bookmark.tools;
-          return {
-            id: tool.id,
-            name: tool.name,
-            description: tool.description,
-            category: tool.category,
-            pricing: tool.pricing,
-            rating: tool.rating || 0,
-            reviews: tool.reviews_count || 0,
-            tags: tool.tags || [],
-            image: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400', // Placeholder
-            url: tool.website_url,
-            featured: tool.featured || false,
-            verified: tool.verified || false,
-            addedDate: tool.created_at,
-            lastUpdated: tool.updated_at
-          };
-        }) as Tool[] || [];
+      // Bookmarks whose tool is missing or malformed are dropped by the mapper
+      const tools = toTools(data?.map(bookmark => bookmark.tools));
       
       setBookmarksWithToolsCache(tools);
       console.log(`✅ Loaded ${tools.length} bookmarks with tool data`);
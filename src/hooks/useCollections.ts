@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { useCollectionStore } from '../store/collectionStore';
+import { useTeamStore } from '../store/teamStore';
+import { useBookmarkContext } from '../contexts/BookmarkContext';
+
+// Loads the signed-in user's collections (and their teams') and keeps "Saved"
+// in step with bookmarks.
+// Mount once, near the top of the app.
+export const useCollectionSync = () => {
+  const { user } = useAuthStore();
+  const { bookmarkedTools } = useBookmarkContext();
+  const organizations = useTeamStore(state => state.organizations);
+  const load = useCollectionStore(state => state.load);
+  const reset = useCollectionStore(state => state.reset);
+  const syncDefaultCollection = useCollectionStore(state => state.syncDefaultCollection);
+
+  // A stable key so the effect only re-runs when team membership changes
+  const organizationKey = organizations.map(org => org.id).join(',');
+
+  useEffect(() => {
+    if (user?.id) {
+      load(user.id, organizationKey ? organizationKey.split(',') : []);
+    } else {
+      reset();
+    }
+  }, [user?.id, organizationKey, load, reset]);
+
+  useEffect(() => {
+    syncDefaultCollection(bookmarkedTools);
+  }, [bookmarkedTools, syncDefaultCollection]);
+};
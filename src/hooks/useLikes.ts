@@ -1,6 +1,7 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuthStore } from '../store/authStore';
 import { db, supabase } from '../lib/supabase';
+import { subscribeToTable, REALTIME_SYNC_DELAY } from '../lib/realtime';
 import { isValidUUID } from '../utils/uuidValidation';
 
 export interface LikeData {
@@ -13,6 +14,9 @@ export const useLikes = (toolId: string) => {
   const [likeData, setLikeData] = useState<LikeData>({ like_count: 0, user_liked: false });
   const [loading, setLoading] = useState(false);
   const [toggling, setToggling] = useState(false);
+  // Read by the realtime listener without resubscribing on every change
+  const togglingRef = useRef(toggling);
+  togglingRef.current = toggling;
   
   // Debug logging for invalid toolId
   React.useEffect(() => {
@@ -252,6 +256,47 @@ export const useLikes = (toolId: string) => {
     }
   }, [loadLikes, toolId]);
 
+  // Pick up likes from other users and other tabs
+  useEffect(() => {
+    if (!isValidUUID(toolId)) return;
+
+    let syncTimer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+    // Deletes only carry the like id, so they are matched against this tool's likes
+    const likeIds = new Set<string>();
+
+    const unsubscribe = subscribeToTable('likes', change => {
+      if (change.eventType === 'DELETE') {
+        if (!change.old.id || !likeIds.delete(change.old.id)) return;
+      } else if (change.new.tool_id !== toolId) {
+        return;
+      } else {
+        likeIds.add(change.new.id);
+      }
+
+      clearTimeout(syncTimer);
+      syncTimer = setTimeout(async () => {
+        // A toggle in flight replaces the optimistic count with the server's own
+        if (togglingRef.current) return;
+
+        const { data } = await db.getToolLikes(toolId, user?.id);
+        if (data && !togglingRef.current) {
+          setLikeData(data);
+        }
+      }, REALTIME_SYNC_DELAY);
+    });
+
+    db.getToolLikeIds(toolId).then(({ data }) => {
+      if (!cancelled) data?.forEach(like => likeIds.add(like.id));
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(syncTimer);
+      unsubscribe();
+    };
+  }, [toolId, user?.id]);
+
   // Listen for auth changes to reload likes
   useEffect(() => {
     if (user) {
@@ -1,4 +1,5 @@
 import { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
 
 interface UseRequireAuthOptions {
@@ -8,26 +9,29 @@ interface UseRequireAuthOptions {
 
 /**
  * Hook to require authentication for protected routes
- * Redirects to login page if user is not authenticated
+ * Redirects to `redirectTo` if user is not authenticated, remembering
+ * the page they tried to open in `location.state.from`
  */
 export const useRequireAuth = (options: UseRequireAuthOptions = {}) => {
   const { redirectTo = '/', onAuthorized } = options;
   const { user, loading, initialized, isAuthenticated } = useAuthStore();
+  const navigate = useNavigate();
+  const location = useLocation();
   
   useEffect(() => {
     // Only check after auth is initialized and not loading
     if (!initialized || loading) return;
     
     if (!isAuthenticated()) {
-      // Redirect to login page if not authenticated
-      window.location.href = redirectTo;
+      // Redirect without reloading the app
+      navigate(redirectTo, { replace: true, state: { from: location.pathname } });
     } else if (onAuthorized) {
       // Call onAuthorized callback if provided
       onAuthorized();
     }
-  }, [user, loading, initialized, redirectTo, onAuthorized, isAuthenticated]);
+  }, [user, loading, initialized, redirectTo, onAuthorized, isAuthenticated, navigate, location.pathname]);
   
   return { user, loading, initialized, isAuthenticated: isAuthenticated() };
 };
 
-export default useRequireAuth;
\ No newline at end of file
+export default useRequireAuth;
@@ -1,29 +1,88 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { db, supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import { isValidUUID } from '../utils/uuidValidation';
+import { CriteriaRatings, ReviewDetails, ReviewReportReason } from '../types';
+import { REVIEW_CRITERIA, criterionColumn, toReviewDetailColumns } from '../lib/reviewCriteria';
+import { sendReviewResponseEmail } from '../lib/email';
+import { subscribeToTable, subscribeToHiddenReviews, REALTIME_SYNC_DELAY } from '../lib/realtime';
+import { DEFAULT_TOOL_IMAGE } from '../lib/toolMapper';
 
 export interface Review {
   id: string;
-  user_id: string;
+  // NULL once the author's account is deleted
+  user_id: string | null;
   tool_id: string;
   rating: number;
   comment: string;
   helpful_count: number;
+  not_helpful_count: number;
+  // Hidden reviews are only returned to their author (and admins)
+  status: 'published' | 'hidden';
   created_at: string;
   updated_at: string;
   profiles: {
     name: string;
     avatar_url?: string;
   };
+  response: ReviewResponse | null;
+  // Optional structured details
+  ease_of_use_rating?: number | null;
+  output_quality_rating?: number | null;
+  value_rating?: number | null;
+  support_rating?: number | null;
+  documentation_rating?: number | null;
+  pros?: string[];
+  cons?: string[];
+  use_case?: string | null;
+}
+
+// A tool owner's public reply; revisions are earlier versions, oldest first
+export interface ReviewResponse {
+  id: string;
+  body: string;
+  responder_id: string | null;
+  created_at: string;
+  updated_at: string;
+  responder?: { name: string } | null;
+  revisions: { id: string; body: string; created_at: string }[];
 }
 
 export interface ReviewSummary {
   averageRating: number;
   totalReviews: number;
   ratingDistribution: { [key: number]: number };
+  // Share of reviews the maker responded to (0-1)
+  responseRate: number;
+  // Average per criterion over the reviews that rated it
+  criteriaAverages: CriteriaRatings;
+}
+
+// A review on the author's dashboard, with the tool it is about
+export interface UserReview extends Omit<Review, 'profiles'> {
+  tool: { id: string; name: string; image: string } | null;
 }
 
+export type UserReviewSort = 'newest' | 'oldest' | 'highest_rated' | 'lowest_rated' | 'most_helpful';
+
+type ReviewResponseRow = Omit<ReviewResponse, 'revisions'> & {
+  review_response_revisions?: ReviewResponse['revisions'];
+};
+
+// The one-to-one embed may come back as an object or a single-item array
+const toReviewResponse = (value: ReviewResponseRow | ReviewResponseRow[] | null | undefined): ReviewResponse | null => {
+  const row = Array.isArray(value) ? value[0] : value;
+  if (!row) return null;
+
+  const { review_response_revisions, ...response } = row;
+  return {
+    ...response,
+    revisions: [...(review_response_revisions || [])].sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    )
+  };
+};
+
 export const useReviews = (toolId: string) => {
   const { user } = useAuthStore();
   const [reviews, setReviews] = useState<Review[]>([]);
@@ -31,13 +90,20 @@ export const useReviews = (toolId: string) => {
   const [submitting, setSubmitting] = useState(false);
   const [userReview, setUserReview] = useState<Review | null>(null);
   const [sortBy, setSortBy] = useState<'newest' | 'highest_rated'>('newest');
+  // The signed-in user's votes, keyed by review id (true = helpful)
+  const [userVotes, setUserVotes] = useState<Record<string, boolean>>({});
+  const [votingId, setVotingId] = useState<string | null>(null);
+  // Reviews the signed-in user has already reported
+  const [reportedIds, setReportedIds] = useState<Set<string>>(new Set());
+  // Owners of the tool can respond to its reviews
+  const [canRespond, setCanRespond] = useState(false);
 
-  // Load reviews for the tool
-  const loadReviews = useCallback(async () => {
+  // Load reviews for the tool; silent reloads keep the current list on screen
+  const loadReviews = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
     if (!toolId) return;
 
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       
       // For non-UUID tool IDs (mock data), return mock reviews
       if (!isValidUUID(toolId)) {
@@ -49,6 +115,9 @@ export const useReviews = (toolId: string) => {
           rating: 4 + Math.random(),
           comment: `This is a mock review ${i + 1} for testing purposes.`,
           helpful_count: Math.floor(Math.random() * 10),
+          not_helpful_count: Math.floor(Math.random() * 3),
+          status: 'published' as const,
+          response: null,
           created_at: new Date(Date.now() - i * 86400000).toISOString(),
           updated_at: new Date(Date.now() - i * 86400000).toISOString(),
           profiles: {
@@ -67,6 +136,9 @@ export const useReviews = (toolId: string) => {
             rating: 4.5,
             comment: "This is my mock review for testing purposes.",
             helpful_count: 3,
+            not_helpful_count: 0,
+            status: 'published' as const,
+            response: null,
             created_at: new Date(Date.now() - 86400000).toISOString(),
             updated_at: new Date(Date.now() - 86400000).toISOString(),
             profiles: {
@@ -96,13 +168,32 @@ export const useReviews = (toolId: string) => {
         return;
       }
 
-      const reviewsData = data || [];
+      const reviewsData: Review[] = (data || []).map(
+        ({ review_responses, ...review }: Review & { review_responses?: ReviewResponseRow | ReviewResponseRow[] }) => ({
+          ...review,
+          response: toReviewResponse(review_responses)
+        })
+      );
       setReviews(reviewsData);
 
-      // Find user's review if logged in
+      // Find user's review and votes if logged in
       if (user) {
         const userReviewData = reviewsData.find(review => review.user_id === user.id);
         setUserReview(userReviewData || null);
+
+        const reviewIds = reviewsData.map(review => review.id);
+        const [{ data: votes }, { data: reports }, { data: isOwner }] = await Promise.all([
+          db.getReviewVotes(user.id, reviewIds),
+          db.getReviewReports(user.id, reviewIds),
+          db.isToolOwner(toolId, user.id)
+        ]);
+        setUserVotes(Object.fromEntries((votes || []).map(vote => [vote.review_id, vote.is_helpful])));
+        setReportedIds(new Set((reports || []).map(report => report.review_id)));
+        setCanRespond(!!isOwner);
+      } else {
+        setUserVotes({});
+        setReportedIds(new Set());
+        setCanRespond(false);
       }
     } catch (error) {
       console.error('Exception loading reviews:', error);
@@ -112,7 +203,7 @@ export const useReviews = (toolId: string) => {
   }, [toolId, user]);
 
   // Submit or update a review
-  const submitReview = async (rating: number, comment: string) => {
+  const submitReview = async (rating: number, comment: string, details?: ReviewDetails) => {
     if (!user) {
       throw new Error('User must be logged in to submit a review');
     }
@@ -127,6 +218,10 @@ export const useReviews = (toolId: string) => {
         rating,
         comment,
         helpful_count: 0,
+        not_helpful_count: 0,
+        status: 'published' as const,
+        response: null,
+        ...(details && toReviewDetailColumns(details)),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         profiles: {
@@ -154,7 +249,8 @@ export const useReviews = (toolId: string) => {
         user_id: user.id,
         tool_id: toolId,
         rating,
-        comment
+        comment,
+        ...(details && toReviewDetailColumns(details))
       };
 
       const { data, error } = await db.createReview(reviewData);
@@ -176,7 +272,7 @@ export const useReviews = (toolId: string) => {
   };
 
   // Update existing review
-  const updateReview = async (rating: number, comment: string) => {
+  const updateReview = async (rating: number, comment: string, details?: ReviewDetails) => {
     if (!user || !userReview) {
       throw new Error('No existing review to update');
     }
@@ -188,6 +284,7 @@ export const useReviews = (toolId: string) => {
         ...userReview,
         rating,
         comment,
+        ...(details && toReviewDetailColumns(details)),
         updated_at: new Date().toISOString()
       };
       
@@ -211,6 +308,7 @@ export const useReviews = (toolId: string) => {
       const { data, error } = await db.updateReview(userReview.id, {
         rating,
         comment,
+        ...(details && toReviewDetailColumns(details)),
         updated_at: new Date().toISOString()
       });
       
@@ -271,29 +369,205 @@ export const useReviews = (toolId: string) => {
     }
   };
 
+  // Vote a review helpful or not helpful. Repeating the same vote removes it.
+  const voteOnReview = async (reviewId: string, isHelpful: boolean) => {
+    if (!user) {
+      throw new Error('User must be logged in to vote on a review');
+    }
+
+    const review = reviews.find(r => r.id === reviewId);
+    if (!review || review.user_id === user.id) {
+      throw new Error('You cannot vote on your own review');
+    }
+
+    const previousVote = userVotes[reviewId];
+    const nextVote = previousVote === isHelpful ? undefined : isHelpful;
+
+    // Apply locally first; the database trigger recomputes the real counts
+    const applyVote = (from: boolean | undefined, to: boolean | undefined) => {
+      setUserVotes(prev => {
+        const next = { ...prev };
+        if (to === undefined) {
+          delete next[reviewId];
+        } else {
+          next[reviewId] = to;
+        }
+        return next;
+      });
+      setReviews(prev => prev.map(r => {
+        if (r.id !== reviewId) return r;
+        return {
+          ...r,
+          helpful_count: r.helpful_count - (from === true ? 1 : 0) + (to === true ? 1 : 0),
+          not_helpful_count: r.not_helpful_count - (from === false ? 1 : 0) + (to === false ? 1 : 0)
+        };
+      }));
+    };
+
+    applyVote(previousVote, nextVote);
+
+    // For mock reviews, keep the vote local
+    if (!isValidUUID(toolId) || !isValidUUID(reviewId)) {
+      console.log('Simulating review vote for mock data:', reviewId);
+      return { success: true };
+    }
+
+    try {
+      setVotingId(reviewId);
+
+      const { error } = nextVote === undefined
+        ? await db.removeReviewVote(reviewId, user.id)
+        : await db.voteOnReview(reviewId, user.id, nextVote);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to save your vote');
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error voting on review:', error);
+      applyVote(nextVote, previousVote);
+      throw error;
+    } finally {
+      setVotingId(null);
+    }
+  };
+
+  // Report a review to the moderators (once per user and review)
+  const reportReview = async (reviewId: string, reason: ReviewReportReason, details?: string) => {
+    if (!user) {
+      throw new Error('User must be logged in to report a review');
+    }
+
+    // For mock reviews, just remember the report locally
+    if (!isValidUUID(toolId) || !isValidUUID(reviewId)) {
+      console.log('Simulating review report for mock data:', reviewId);
+      setReportedIds(prev => new Set(prev).add(reviewId));
+      return { success: true };
+    }
+
+    const { error } = await db.reportReview(reviewId, user.id, reason, details);
+    if (error) {
+      throw new Error(error.message || 'Failed to report review');
+    }
+
+    setReportedIds(prev => new Set(prev).add(reviewId));
+    return { success: true };
+  };
+
+  // Post or edit the maker response to a review. The reviewer is emailed
+  // when a response is first posted, not on later edits.
+  const saveResponse = async (reviewId: string, body: string, toolName?: string) => {
+    if (!user || !canRespond) {
+      throw new Error('Only the tool\'s owners can respond to reviews');
+    }
+
+    const review = reviews.find(r => r.id === reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    try {
+      setSubmitting(true);
+
+      if (review.response) {
+        const { error } = await db.updateReviewResponse(review.response.id, body);
+        if (error) {
+          throw new Error(error.message || 'Failed to update response');
+        }
+      } else {
+        const { error } = await db.createReviewResponse(reviewId, user.id, body);
+        if (error) {
+          throw new Error(error.message || 'Failed to post response');
+        }
+
+        // The response is saved even if the email fails
+        const { data: reviewer } = review.user_id ? await db.getProfile(review.user_id) : { data: null };
+        if (reviewer?.email) {
+          await sendReviewResponseEmail({
+            to: reviewer.email,
+            reviewerName: reviewer.name,
+            toolName: toolName || 'A tool you reviewed',
+            response: body
+          });
+        }
+      }
+
+      await loadReviews();
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving review response:', error);
+      throw error;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const deleteResponse = async (reviewId: string) => {
+    const response = reviews.find(r => r.id === reviewId)?.response;
+    if (!user || !response) {
+      throw new Error('No response to delete');
+    }
+
+    try {
+      setSubmitting(true);
+
+      const { error } = await db.deleteReviewResponse(response.id);
+      if (error) {
+        throw new Error(error.message || 'Failed to delete response');
+      }
+
+      await loadReviews();
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting review response:', error);
+      throw error;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   // Calculate review summary
   const getReviewSummary = useCallback((): ReviewSummary => {
-    if (reviews.length === 0) {
+    // An author's hidden review is shown to them but doesn't count
+    const published = reviews.filter(review => review.status !== 'hidden');
+
+    if (published.length === 0) {
       return {
         averageRating: 0,
         totalReviews: 0,
-        ratingDistribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
+        ratingDistribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+        responseRate: 0,
+        criteriaAverages: {}
       };
     }
 
-    const totalRating = reviews.reduce((sum, review) => sum + review.rating, 0);
-    const averageRating = totalRating / reviews.length;
+    const totalRating = published.reduce((sum, review) => sum + review.rating, 0);
+    const averageRating = totalRating / published.length;
     
-    const ratingDistribution = reviews.reduce((dist, review) => {
+    const ratingDistribution = published.reduce((dist, review) => {
       const roundedRating = Math.round(review.rating);
       dist[roundedRating] = (dist[roundedRating] || 0) + 1;
       return dist;
     }, { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 } as { [key: number]: number });
 
+    const criteriaAverages: CriteriaRatings = {};
+    for (const { value } of REVIEW_CRITERIA) {
+      const rated = published.flatMap(review => {
+        const criterionRating = review[criterionColumn(value)];
+        return criterionRating ? [criterionRating] : [];
+      });
+      if (rated.length > 0) {
+        criteriaAverages[value] = Math.round((rated.reduce((sum, r) => sum + r, 0) / rated.length) * 10) / 10;
+      }
+    }
+
     return {
       averageRating: Math.round(averageRating * 10) / 10, // Round to 1 decimal
-      totalReviews: reviews.length,
-      ratingDistribution
+      totalReviews: published.length,
+      ratingDistribution,
+      responseRate: published.filter(review => review.response).length / published.length,
+      criteriaAverages
     };
   }, [reviews]);
 
@@ -316,6 +590,70 @@ export const useReviews = (toolId: string) => {
     loadReviews();
   }, [loadReviews]);
 
+  // Read by the realtime listener without resubscribing on every change
+  const reviewIdsRef = useRef(new Set<string>());
+  const votingIdRef = useRef(votingId);
+  reviewIdsRef.current = new Set(reviews.map(review => review.id));
+  votingIdRef.current = votingId;
+
+  // Pick up reviews and vote counts from other users and other tabs
+  useEffect(() => {
+    if (!isValidUUID(toolId)) return;
+
+    let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleReload = () => {
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => loadReviews({ silent: true }), REALTIME_SYNC_DELAY);
+    };
+
+    const unsubscribe = subscribeToTable('reviews', change => {
+      if (change.eventType === 'DELETE') {
+        // Deletes only carry the review id
+        const { id } = change.old;
+        if (!id || !reviewIdsRef.current.has(id)) return;
+
+        setReviews(prev => prev.filter(review => review.id !== id));
+        setUserReview(prev => (prev?.id === id ? null : prev));
+        return;
+      }
+
+      const row = change.new;
+      if (row.tool_id !== toolId) return;
+
+      // New reviews need their author and response, which only a reload brings
+      if (change.eventType === 'INSERT' || !reviewIdsRef.current.has(row.id)) {
+        scheduleReload();
+        return;
+      }
+
+      // Keep the optimistic counts of a vote that is still being saved
+      const merge = (review: Review): Review => ({
+        ...review,
+        ...row,
+        ...(votingIdRef.current === row.id && {
+          helpful_count: review.helpful_count,
+          not_helpful_count: review.not_helpful_count
+        })
+      } as Review);
+
+      setReviews(prev => prev.map(review => (review.id === row.id ? merge(review) : review)));
+      setUserReview(prev => (prev?.id === row.id ? merge(prev) : prev));
+    });
+
+    // The author and admins still see a hidden review, so let a reload decide
+    const unsubscribeHidden = subscribeToHiddenReviews(review => {
+      if (review.tool_id === toolId && reviewIdsRef.current.has(review.id)) {
+        scheduleReload();
+      }
+    });
+
+    return () => {
+      clearTimeout(reloadTimer);
+      unsubscribe();
+      unsubscribeHidden();
+    };
+  }, [toolId, loadReviews]);
+
   return {
     reviews: sortedReviews(),
     loading,
@@ -328,7 +666,148 @@ export const useReviews = (toolId: string) => {
     submitReview,
     updateReview,
     deleteReview,
+    userVotes,
+    votingId,
+    voteOnReview,
+    reportedIds,
+    reportReview,
+    canRespond,
+    saveResponse,
+    deleteResponse,
     getReviewSummary,
     refetch: loadReviews
   };
-};
\ No newline at end of file
+};
+
+type UserReviewRow = Omit<UserReview, 'tool' | 'response'> & {
+  tools: { id: string; name: string; logo_url: string | null; cover_image_url: string | null } | null;
+  review_responses?: ReviewResponseRow | ReviewResponseRow[];
+};
+
+const toUserReview = ({ tools, review_responses, ...review }: UserReviewRow): UserReview => ({
+  ...review,
+  tool: tools
+    ? { id: tools.id, name: tools.name, image: tools.cover_image_url || tools.logo_url || DEFAULT_TOOL_IMAGE }
+    : null,
+  response: toReviewResponse(review_responses)
+});
+
+const USER_REVIEW_SORTS: Record<UserReviewSort, (a: UserReview, b: UserReview) => number> = {
+  newest: (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+  oldest: (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  highest_rated: (a, b) => b.rating - a.rating,
+  lowest_rated: (a, b) => a.rating - b.rating,
+  most_helpful: (a, b) => b.helpful_count - a.helpful_count
+};
+
+// The signed-in user's own reviews across all tools, for the Dashboard
+export const useUserReviews = () => {
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const [reviews, setReviews] = useState<UserReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Review being saved or deleted
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<UserReviewSort>('newest');
+
+  const loadReviews = useCallback(async () => {
+    if (!userId) {
+      setReviews([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await db.getUserReviews(userId);
+    if (error) {
+      console.error('Error loading user reviews:', error);
+    } else {
+      setReviews((data || []).map(toUserReview));
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  // Only the rating and text are edited here; structured details stay as they are
+  const updateReview = async (reviewId: string, rating: number, comment: string) => {
+    try {
+      setSavingId(reviewId);
+
+      const updatedAt = new Date().toISOString();
+      const { error } = await db.updateReview(reviewId, { rating, comment, updated_at: updatedAt });
+      if (error) {
+        throw new Error(error.message || 'Failed to update review');
+      }
+
+      setReviews(prev => prev.map(review => (
+        review.id === reviewId ? { ...review, rating, comment, updated_at: updatedAt } : review
+      )));
+      return { success: true };
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const deleteReview = async (reviewId: string) => {
+    try {
+      setSavingId(reviewId);
+
+      const { error } = await db.deleteReview(reviewId);
+      if (error) {
+        throw new Error(error.message || 'Failed to delete review');
+      }
+
+      setReviews(prev => prev.filter(review => review.id !== reviewId));
+      return { success: true };
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Helpful counts, moderation and reviews written in other tabs
+  useEffect(() => {
+    if (!userId) return;
+
+    let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = subscribeToTable('reviews', change => {
+      if (change.eventType === 'DELETE') {
+        const { id } = change.old;
+        if (id) setReviews(prev => prev.filter(review => review.id !== id));
+        return;
+      }
+
+      const row = change.new;
+      if (row.user_id !== userId) return;
+
+      if (change.eventType === 'INSERT') {
+        clearTimeout(reloadTimer);
+        reloadTimer = setTimeout(loadReviews, REALTIME_SYNC_DELAY);
+        return;
+      }
+
+      setReviews(prev => prev.map(review => (review.id === row.id ? { ...review, ...row } as UserReview : review)));
+    });
+
+    return () => {
+      clearTimeout(reloadTimer);
+      unsubscribe();
+    };
+  }, [userId, loadReviews]);
+
+  const sortedReviews = useMemo(() => [...reviews].sort(USER_REVIEW_SORTS[sortBy]), [reviews, sortBy]);
+
+  return {
+    reviews: sortedReviews,
+    loading,
+    savingId,
+    sortBy,
+    setSortBy,
+    updateReview,
+    deleteReview,
+    refetch: loadReviews
+  };
+};
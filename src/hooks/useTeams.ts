@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { useTeamStore } from '../store/teamStore';
+
+// Loads the signed-in user's teams and the active team's tool statuses.
+// Mount once, near the top of the app.
+export const useTeamSync = () => {
+  const { user } = useAuthStore();
+  const load = useTeamStore(state => state.load);
+  const reset = useTeamStore(state => state.reset);
+
+  useEffect(() => {
+    if (user?.id) {
+      load(user.id);
+    } else {
+      reset();
+    }
+  }, [user?.id, load, reset]);
+};
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { db } from '../lib/supabase';
+import { ToolClaim, ToolClaimMethod } from '../types';
+import { Database } from '../types/database';
+
+type ClaimRow = Database['public']['Tables']['tool_claims']['Row'];
+
+const toClaim = (row: ClaimRow): ToolClaim => ({
+  id: row.id,
+  toolId: row.tool_id,
+  method: row.method,
+  token: row.token,
+  status: row.status,
+  failureReason: row.failure_reason,
+  lastCheckedAt: row.last_checked_at
+});
+
+/**
+ * Whether the signed-in user owns a tool, plus their claim on it if they don't.
+ * Ownership gates the edit UI only; RLS decides what can actually be changed.
+ */
+export const useToolOwnership = (toolId: string) => {
+  const { user } = useAuthStore();
+  const [isOwner, setIsOwner] = useState(false);
+  const [claim, setClaim] = useState<ToolClaim | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    setIsOwner(false);
+    setClaim(null);
+
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const [ownerResult, claimResult] = await Promise.all([
+        db.isToolOwner(toolId, user.id),
+        db.getToolClaim(toolId, user.id)
+      ]);
+      if (cancelled) return;
+
+      setIsOwner(ownerResult.data);
+      setClaim(claimResult.data ? toClaim(claimResult.data) : null);
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [toolId, user]);
+
+  const startClaim = useCallback(async (method: ToolClaimMethod) => {
+    if (!user) {
+      return { error: { message: 'Sign in to claim this tool' } };
+    }
+
+    setWorking(true);
+    const { data, error } = await db.createToolClaim(toolId, user.id, method);
+    setWorking(false);
+
+    if (error || !data) {
+      return { error: error || { message: 'Failed to start tool claim' } };
+    }
+
+    setClaim(toClaim(data));
+    return { error: null };
+  }, [toolId, user]);
+
+  const verifyClaim = useCallback(async () => {
+    if (!user || !claim) {
+      return { verified: false, reason: 'No claim to verify' };
+    }
+
+    setWorking(true);
+    const { data, error } = await db.verifyToolClaim(claim.id);
+
+    if (error || !data) {
+      setWorking(false);
+      return { verified: false, reason: error?.message || 'Verification failed' };
+    }
+
+    if (data.verified) {
+      setIsOwner(true);
+      setClaim({ ...claim, status: 'verified', failureReason: null });
+    } else {
+      // The function records the failure (and may expire the claim); reload it
+      const { data: latest } = await db.getToolClaim(toolId, user.id);
+      if (latest) setClaim(toClaim(latest));
+    }
+
+    setWorking(false);
+    return { verified: data.verified, reason: data.reason };
+  }, [claim, toolId, user]);
+
+  return { isOwner, claim, loading, working, startClaim, verifyClaim };
+};
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { db } from '../lib/supabase';
 import { Tool, FilterState } from '../types';
 import { mockTools } from '../data/mockData';
+import { toTool, toTools, fromToolInsert, ToolInsertInput } from '../lib/toolMapper';
+import { MIN_CRITERION_RATING } from '../lib/reviewCriteria';
 
 export const useTools = () => {
   const [tools, setTools] = useState<Tool[]>(mockTools); // Start with mock data
@@ -36,22 +38,7 @@ export const useTools = () => {
       }
 
       // Transform Supabase data to our Tool interface
-      const transformedTools: Tool[] = (data || []).map((tool: any) => ({
-        id: tool.id,
-        name: tool.name,
-        description: tool.description,
-        category: tool.category,
-        pricing: tool.pricing,
-        rating: tool.rating || 0,
-        reviews: tool.reviews_count || 0,
-        tags: tool.tags || [],
-        image: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400',
-        url: tool.website_url,
-        featured: tool.featured || false,
-        verified: tool.verified || false,
-        addedDate: tool.created_at ? tool.created_at.split('T')[0] : new Date().toISOString().split('T')[0],
-        lastUpdated: tool.updated_at ? tool.updated_at.split('T')[0] : new Date().toISOString().split('T')[0]
-      }));
+      const transformedTools = toTools(data);
 
       console.log('Tools: Loaded from Supabase:', transformedTools.length);
 
@@ -106,6 +93,12 @@ export const useTools = () => {
         return false;
       }
 
+      // Criterion filter
+      if (filters.criterion && filters.criterion !== 'all' &&
+        (tool.criteriaRatings?.[filters.criterion] ?? 0) < MIN_CRITERION_RATING) {
+        return false;
+      }
+
       // Search filter
       if (filters.search) {
         const searchTerm = filters.search.toLowerCase();
@@ -125,30 +118,14 @@ export const useTools = () => {
       
       // Try Supabase first without aggressive timeout
       const { data, error } = await db.getTool(id);
+      const transformedTool = !error && data ? toTool(data) : null;
       
-      if (error || !data) {
+      if (!transformedTool) {
         console.log('Tools: Tool not found in Supabase, checking mock data');
         const mockTool = mockTools.find(tool => tool.id === id);
         return mockTool || null;
       }
 
-      const transformedTool: Tool = {
-        id: data.id,
-        name: data.name,
-        description: data.description,
-        category: data.category,
-        pricing: data.pricing,
-        rating: data.rating || 0,
-        reviews: data.reviews_count || 0,
-        tags: data.tags || [],
-        image: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400',
-        url: data.website_url,
-        featured: data.featured || false,
-        verified: data.verified || false,
-        addedDate: data.created_at ? data.created_at.split('T')[0] : new Date().toISOString().split('T')[0],
-        lastUpdated: data.updated_at ? data.updated_at.split('T')[0] : new Date().toISOString().split('T')[0]
-      };
-
       console.log('Tools: Tool loaded from Supabase:', transformedTool);
       return transformedTool;
     } catch (err) {
@@ -158,35 +135,12 @@ export const useTools = () => {
     }
   };
 
-  const createTool = async (toolData: any) => {
+  const createTool = async (toolData: ToolInsertInput) => {
     try {
       console.log('Tools: Creating tool:', toolData);
       
-      // Validate required fields
-      if (!toolData.name || !toolData.description || !toolData.category) {
-        throw new Error('Missing required fields: name, description, or category');
-      }
-      
-      const website_url = toolData.website_url || toolData.url;
-      if (!website_url) {
-        throw new Error('Website URL is required');
-      }
-      
-      const toolPayload = {
-        name: toolData.name.trim(),
-        description: toolData.description.trim(),
-        category: toolData.category,
-        pricing: toolData.pricing,
-        tags: toolData.tags || [],
-        // image_url field removed from database schema
-        website_url: website_url.trim(),
-        rating: toolData.rating || 0,
-        reviews_count: toolData.reviews_count || 0,
-        featured: toolData.featured || false,
-        verified: toolData.verified || false
-      };
-      
-  
+      // Validates required fields and throws with a readable message
+      const toolPayload = fromToolInsert(toolData);
 
       const { data, error } = await db.createTool(toolPayload);
 
@@ -0,0 +1,49 @@
+import { Database } from '../types/database';
+import { UserSession } from '../types';
+
+type UserSessionRow = Database['public']['Functions']['get_user_sessions']['Returns'][number];
+
+// Matches the sign up form and the Supabase Auth default
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Length of the emailed code that confirms a password change; otp_length in
+// supabase/config.toml
+export const REAUTHENTICATION_CODE_LENGTH = 6;
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+// "Chrome on macOS" from a user agent string; order matters above, since
+// e.g. Edge also reports Chrome and Safari
+export const describeUserAgent = (userAgent?: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+};
+
+export const toUserSession = (row: UserSessionRow): UserSession => ({
+  id: row.id,
+  device: describeUserAgent(row.user_agent),
+  ip: row.ip ?? undefined,
+  createdAt: row.created_at,
+  lastActiveAt: row.refreshed_at,
+  isCurrent: row.is_current
+});
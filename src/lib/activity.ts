@@ -0,0 +1,83 @@
+import { Database } from '../types/database';
+import { ActivityEvent, ActivityEventType, ActivityStats } from '../types';
+
+type ActivityEventRow = Database['public']['Tables']['activity_events']['Row'];
+type ActivityStatsRow = Database['public']['Functions']['get_user_activity_stats']['Returns'][number];
+
+export const ACTIVITY_PAGE_SIZE = 20;
+
+export type ActivityRangeKey = '7d' | '30d' | '90d' | '365d' | 'all' | 'custom';
+
+export interface ActivityRange {
+  since?: string;
+  until?: string;
+}
+
+export const ACTIVITY_RANGE_OPTIONS: { value: ActivityRangeKey; label: string; days?: number }[] = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+  { value: '365d', label: 'Last 12 months', days: 365 },
+  { value: 'all', label: 'All time' },
+  { value: 'custom', label: 'Custom range' }
+];
+
+// Custom ranges are whole local days: "from" is inclusive and so is "to",
+// so the query runs until the start of the following day
+export const getActivityRange = (key: ActivityRangeKey, custom?: { from: string; to: string }): ActivityRange => {
+  if (key === 'custom') {
+    const range: ActivityRange = {};
+    if (custom?.from) range.since = new Date(`${custom.from}T00:00:00`).toISOString();
+    if (custom?.to) {
+      const until = new Date(`${custom.to}T00:00:00`);
+      until.setDate(until.getDate() + 1);
+      range.until = until.toISOString();
+    }
+    return range;
+  }
+
+  const days = ACTIVITY_RANGE_OPTIONS.find(option => option.value === key)?.days;
+  if (!days) return {};
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  since.setHours(0, 0, 0, 0);
+  return { since: since.toISOString() };
+};
+
+export const ACTIVITY_DESCRIPTIONS: Record<ActivityEventType, string> = {
+  bookmark_added: 'bookmarked',
+  bookmark_removed: 'removed the bookmark on',
+  like_added: 'liked',
+  like_removed: 'unliked',
+  review_created: 'reviewed',
+  review_updated: 'updated your review of',
+  review_deleted: 'deleted your review of'
+};
+
+export const EMPTY_ACTIVITY_STATS: ActivityStats = {
+  bookmarksAdded: 0,
+  reviewsWritten: 0,
+  toolsLiked: 0,
+  daysActive: 0
+};
+
+export const toActivityEvent = (row: ActivityEventRow): ActivityEvent => ({
+  id: row.id,
+  type: row.event_type,
+  toolId: row.tool_id ?? undefined,
+  toolName: row.tool_name,
+  rating: typeof row.details?.rating === 'number' ? row.details.rating : undefined,
+  createdAt: row.created_at
+});
+
+// bigint counts can arrive as strings from PostgREST
+export const toActivityStats = (row: ActivityStatsRow | undefined): ActivityStats =>
+  row
+    ? {
+        bookmarksAdded: Number(row.bookmarks_added) || 0,
+        reviewsWritten: Number(row.reviews_written) || 0,
+        toolsLiked: Number(row.tools_liked) || 0,
+        daysActive: Number(row.days_active) || 0
+      }
+    : EMPTY_ACTIVITY_STATS;
@@ -0,0 +1,88 @@
+import { Database } from '../types/database';
+import { BookmarkDetails, BookmarkStatus, Tool } from '../types';
+
+type BookmarkRow = Pick<
+  Database['public']['Tables']['bookmarks']['Row'],
+  'tool_id' | 'notes' | 'tags' | 'status' | 'created_at' | 'updated_at'
+>;
+
+// Mirrors the CHECK constraints in the bookmark notes migration
+export const MAX_BOOKMARK_NOTES_LENGTH = 2000;
+export const MAX_BOOKMARK_TAGS = 10;
+export const MAX_BOOKMARK_TAG_LENGTH = 30;
+
+export const BOOKMARK_STATUS_OPTIONS: { value: BookmarkStatus; label: string; badgeClass: string }[] = [
+  { value: 'trying', label: 'Trying', badgeClass: 'bg-blue-100 text-blue-800 border-blue-200' },
+  { value: 'using', label: 'Using', badgeClass: 'bg-green-100 text-green-800 border-green-200' },
+  { value: 'abandoned', label: 'Abandoned', badgeClass: 'bg-gray-100 text-gray-700 border-gray-200' }
+];
+
+export const getBookmarkStatusOption = (status: BookmarkStatus) =>
+  BOOKMARK_STATUS_OPTIONS.find(option => option.value === status) ?? BOOKMARK_STATUS_OPTIONS[0];
+
+// Tags are stored lowercase with single spaces, e.g. " Video  Editing" -> "video editing"
+export const normalizeBookmarkTag = (tag: string) =>
+  tag.trim().replace(/^#/, '').replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_BOOKMARK_TAG_LENGTH);
+
+export const toBookmarkDetails = (row: BookmarkRow): BookmarkDetails => ({
+  toolId: row.tool_id,
+  notes: row.notes ?? undefined,
+  tags: row.tags || [],
+  status: row.status ?? undefined,
+  bookmarkedAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// Search covers the tool itself plus the user's notes and tags;
+// "#tag" only matches tags
+export const matchesBookmarkSearch = (tool: Tool, details: BookmarkDetails | undefined, query: string) => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return true;
+
+  if (normalized.startsWith('#')) {
+    const tag = normalizeBookmarkTag(normalized);
+    return !!details?.tags.some(t => t.includes(tag));
+  }
+
+  return [
+    tool.name,
+    tool.description || '',
+    details?.notes || '',
+    ...(details?.tags || [])
+  ].some(text => text.toLowerCase().includes(normalized));
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per bookmark: the tool plus the user's evaluation of it
+export const bookmarkLogToCsv = (entries: { tool: Tool; details?: BookmarkDetails }[]) => {
+  const header = ['Tool', 'Website', 'Category', 'Pricing', 'Status', 'Tags', 'Notes', 'Bookmarked', 'Updated'];
+  const rows = entries.map(({ tool, details }) => [
+    tool.name,
+    tool.url,
+    tool.category,
+    tool.pricing,
+    details?.status ? getBookmarkStatusOption(details.status).label : '',
+    (details?.tags || []).join('; '),
+    details?.notes || '',
+    details?.bookmarkedAt?.split('T')[0] || '',
+    details?.updatedAt?.split('T')[0] || ''
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+// Save generated content as a file in the browser
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
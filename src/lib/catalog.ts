@@ -0,0 +1,17 @@
+import { ToolSortKey } from '../types';
+
+// Tools shown per catalog page
+export const TOOLS_PAGE_SIZE = 12;
+
+export const TOOL_SORT_OPTIONS: { value: ToolSortKey; label: string }[] = [
+  { value: 'ranking', label: 'Top Ranked' },
+  { value: 'trending', label: 'Trending' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'rating', label: 'Highest Rated' },
+  { value: 'reviews_count', label: 'Most Reviewed' },
+  { value: 'most-liked', label: 'Most Liked' },
+  { value: 'name', label: 'Name (A–Z)' },
+];
+
+export const isToolSortKey = (value: string | null): value is ToolSortKey =>
+  TOOL_SORT_OPTIONS.some(option => option.value === value);
@@ -0,0 +1,36 @@
+import { Database } from '../types/database';
+import { Collection, CollectionVisibility } from '../types';
+
+type CollectionRow = Database['public']['Tables']['collections']['Row'];
+type CollectionItemRow = Pick<Database['public']['Tables']['collection_items']['Row'], 'tool_id' | 'position'>;
+
+// Mirrors the CHECK constraints in the collections migration
+export const MAX_COLLECTION_NAME_LENGTH = 80;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+
+export const COLLECTION_VISIBILITY_OPTIONS: { value: CollectionVisibility; label: string; description: string }[] = [
+  { value: 'private', label: 'Private', description: 'Only you can see it' },
+  { value: 'unlisted', label: 'Unlisted', description: 'Anyone with the link can see it' },
+  { value: 'public', label: 'Public', description: 'Anyone can see it, and it is listed on your other collections' }
+];
+
+export const getVisibilityLabel = (visibility: CollectionVisibility) =>
+  COLLECTION_VISIBILITY_OPTIONS.find(option => option.value === visibility)?.label ?? visibility;
+
+export const toCollection = (
+  row: CollectionRow & { collection_items?: CollectionItemRow[] | null; owner?: { name: string | null } | null }
+): Collection => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  description: row.description ?? undefined,
+  visibility: row.visibility,
+  isDefault: row.is_default,
+  toolIds: [...(row.collection_items || [])]
+    .sort((a, b) => a.position - b.position)
+    .map(item => item.tool_id),
+  ownerName: row.owner?.name ?? undefined,
+  organizationId: row.organization_id ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
@@ -0,0 +1,102 @@
+import { auth, supabase } from './supabase';
+import { createZip } from './zip';
+
+export type DataExportFormat = 'json' | 'zip';
+
+export const DATA_EXPORT_FORMATS: { value: DataExportFormat; label: string; description: string }[] = [
+  { value: 'zip', label: 'ZIP', description: 'Your data as JSON plus the avatar images you uploaded' },
+  { value: 'json', label: 'JSON', description: 'Your data only; avatar images are linked' }
+];
+
+// Days between asking for deletion and the account being removed; matches
+// request_account_deletion() in the account deletion migration
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+interface ExportedFile {
+  bucket: 'avatars';
+  path: string;
+  url: string;
+  size?: number;
+  contentType?: string;
+  uploadedAt?: string;
+}
+
+const LIST_LIMIT = 1000;
+
+// Every file under "<user id>/", subfolders included: the same files the
+// purge-deleted-accounts function removes. Folders come back from list()
+// without an id.
+const listAvatarFiles = async (userId: string): Promise<ExportedFile[]> => {
+  const files: ExportedFile[] = [];
+  const folders = [userId];
+
+  while (folders.length > 0) {
+    const folder = folders.pop()!;
+    for (let offset = 0; ; offset += LIST_LIMIT) {
+      const { data, error } = await supabase.storage.from('avatars').list(folder, { limit: LIST_LIMIT, offset });
+      if (error) {
+        throw new Error(`Failed to list your files: ${error.message}`);
+      }
+
+      for (const entry of data ?? []) {
+        const path = `${folder}/${entry.name}`;
+        if (!entry.id) {
+          folders.push(path);
+          continue;
+        }
+        files.push({
+          bucket: 'avatars',
+          path,
+          url: supabase.storage.from('avatars').getPublicUrl(path).data.publicUrl,
+          size: entry.metadata?.size,
+          contentType: entry.metadata?.mimetype,
+          uploadedAt: entry.created_at
+        });
+      }
+
+      if ((data ?? []).length < LIST_LIMIT) break;
+    }
+  }
+
+  return files;
+};
+
+/**
+ * Build the user's data export: profile, bookmarks, reviews, likes,
+ * collections, activity and uploaded avatars. Returns what downloadFile needs.
+ */
+export const buildAccountExport = async (userId: string, format: DataExportFormat) => {
+  const { data, error } = await auth.exportUserData();
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to export your account data');
+  }
+
+  const files = await listAvatarFiles(userId);
+  const exportedAt = new Date();
+  const exportData = { exported_at: exportedAt.toISOString(), ...data, files };
+  const basename = `aiventory-export-${exportedAt.toISOString().split('T')[0]}`;
+
+  if (format === 'json') {
+    return {
+      filename: `${basename}.json`,
+      content: JSON.stringify(exportData, null, 2),
+      type: 'application/json'
+    };
+  }
+
+  const encoder = new TextEncoder();
+  const entries = [{ name: 'data.json', data: encoder.encode(JSON.stringify(exportData, null, 2)) }];
+  for (const file of files) {
+    const { data: blob, error: downloadError } = await supabase.storage.from('avatars').download(file.path);
+    if (downloadError || !blob) {
+      throw new Error(`Failed to download ${file.path}`);
+    }
+    entries.push({ name: `avatars/${file.path.slice(userId.length + 1)}`, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  return {
+    filename: `${basename}.zip`,
+    content: createZip(entries, exportedAt),
+    type: 'application/zip'
+  };
+};
@@ -1,6 +1,6 @@
 // Email utilities for AIventory
 // Note: Email confirmations are now handled automatically by Supabase Auth
-// This file contains utility functions for potential future email notifications
+// Custom notifications go through the `send-email` edge function
 
 /**
  * Email confirmation is now handled automatically by Supabase Auth.
@@ -11,6 +11,8 @@
  * 4. For production: configure SMTP in Supabase Dashboard if needed
  */
 
+import { supabase } from './supabase';
+
 // Utility function to get email confirmation status
 export const getEmailConfirmationStatus = (user: any) => {
   return {
@@ -28,5 +30,159 @@ export const resendConfirmationEmail = async (email: string) => {
   // You can implement this using supabase.auth.resend() if needed
 };
 
-// Future: Custom notification emails can be added here
-// For now, all authentication emails are handled by Supabase automatically
\ No newline at end of file
+// Escape user-provided text before it goes into an email body
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Send a transactional email through the `send-email` edge function
+ */
+export const sendEmail = async (to: string, subject: string, html: string) => {
+  const { error } = await supabase.functions.invoke('send-email', {
+    body: { to, subject, html }
+  });
+
+  if (error) {
+    console.error('Email: send-email function failed:', error);
+    return { error: { message: 'Failed to send email' } };
+  }
+
+  return { error: null };
+};
+
+/**
+ * Tell a submitter their tool was rejected or needs changes, with the reason
+ */
+export const sendModerationEmail = async (params: {
+  to: string;
+  submitterName?: string;
+  toolName: string;
+  decision: 'rejected' | 'changes_requested';
+  reason: string;
+}) => {
+  const name = escapeHtml(params.submitterName || 'there');
+  const toolName = escapeHtml(params.toolName);
+  const reason = escapeHtml(params.reason).replace(/\n/g, '<br />');
+
+  const subject = params.decision === 'rejected'
+    ? `Your submission "${params.toolName}" was not approved`
+    : `Changes requested for "${params.toolName}"`;
+
+  const intro = params.decision === 'rejected'
+    ? `Thanks for submitting <strong>${toolName}</strong> to AIventory. After review, we weren't able to approve it.`
+    : `Thanks for submitting <strong>${toolName}</strong> to AIventory. It's almost ready, but our reviewers asked for a few changes first.`;
+
+  const html = `
+    <p>Hi ${name},</p>
+    <p>${intro}</p>
+    <p><strong>Reviewer notes:</strong></p>
+    <blockquote style="border-left: 3px solid #e5e7eb; margin: 0; padding-left: 12px; color: #374151;">${reason}</blockquote>
+    <p>— The AIventory team</p>
+  `;
+
+  return sendEmail(params.to, subject, html);
+};
+
+/**
+ * Warn a reviewer that one of their reviews broke the community guidelines
+ */
+export const sendReviewWarningEmail = async (params: {
+  to: string;
+  authorName?: string;
+  toolName: string;
+  reason: string;
+}) => {
+  const name = escapeHtml(params.authorName || 'there');
+  const toolName = escapeHtml(params.toolName);
+  const reason = escapeHtml(params.reason).replace(/\n/g, '<br />');
+
+  const html = `
+    <p>Hi ${name},</p>
+    <p>Your review of <strong>${toolName}</strong> on AIventory was reported by other users, and our moderators found that it doesn't follow our community guidelines.</p>
+    <p><strong>Moderator notes:</strong></p>
+    <blockquote style="border-left: 3px solid #e5e7eb; margin: 0; padding-left: 12px; color: #374151;">${reason}</blockquote>
+    <p>Please keep reviews honest, on topic and respectful. Repeated warnings may lead to your reviews being removed.</p>
+    <p>— The AIventory team</p>
+  `;
+
+  return sendEmail(params.to, `About your review of "${params.toolName}"`, html);
+};
+
+/**
+ * Let a reviewer know the tool's maker responded to their review
+ */
+export const sendReviewResponseEmail = async (params: {
+  to: string;
+  reviewerName?: string;
+  toolName: string;
+  response: string;
+}) => {
+  const name = escapeHtml(params.reviewerName || 'there');
+  const toolName = escapeHtml(params.toolName);
+  const response = escapeHtml(params.response).replace(/\n/g, '<br />');
+
+  const html = `
+    <p>Hi ${name},</p>
+    <p>The team behind <strong>${toolName}</strong> responded to your review on AIventory:</p>
+    <blockquote style="border-left: 3px solid #e5e7eb; margin: 0; padding-left: 12px; color: #374151;">${response}</blockquote>
+    <p>— The AIventory team</p>
+  `;
+
+  return sendEmail(params.to, `${params.toolName} responded to your review`, html);
+};
+
+/**
+ * Invite someone to join a team, with a link to accept
+ */
+export const sendTeamInviteEmail = async (params: {
+  to: string;
+  inviterName?: string;
+  organizationName: string;
+  role: 'admin' | 'member';
+  acceptUrl: string;
+}) => {
+  const inviter = escapeHtml(params.inviterName || 'A teammate');
+  const organizationName = escapeHtml(params.organizationName);
+  const acceptUrl = escapeHtml(params.acceptUrl);
+  const role = params.role === 'admin' ? 'an admin' : 'a member';
+
+  const html = `
+    <p>Hi there,</p>
+    <p>${inviter} invited you to join <strong>${organizationName}</strong> on AIventory as ${role}. Teams share their tool stack, collections and notes.</p>
+    <p><a href="${acceptUrl}">Accept the invite</a></p>
+    <p>Sign in with this email address to accept. The invite expires in 14 days.</p>
+    <p>— The AIventory team</p>
+  `;
+
+  return sendEmail(params.to, `Join ${params.organizationName} on AIventory`, html);
+};
+
+/**
+ * Confirm that an account is scheduled for deletion and how to keep it
+ */
+export const sendAccountDeletionEmail = async (params: {
+  to: string;
+  name?: string;
+  scheduledFor: string;
+  profileUrl: string;
+}) => {
+  const name = escapeHtml(params.name || 'there');
+  const profileUrl = escapeHtml(params.profileUrl);
+  const deletionDate = new Date(params.scheduledFor).toLocaleDateString(undefined, { dateStyle: 'long' });
+
+  const html = `
+    <p>Hi ${name},</p>
+    <p>We received a request to delete your AIventory account. It will be deleted on <strong>${deletionDate}</strong>.</p>
+    <p>Your profile, bookmarks, likes, collections and uploaded images will be removed. Reviews you wrote stay up without your name.</p>
+    <p>Changed your mind? <a href="${profileUrl}">Sign in and cancel the deletion</a> from the Security tab of your profile before then.</p>
+    <p>If you didn't ask for this, sign in and cancel the deletion, then change your password.</p>
+    <p>— The AIventory team</p>
+  `;
+
+  return sendEmail(params.to, 'Your AIventory account is scheduled for deletion', html);
+};
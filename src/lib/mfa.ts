@@ -0,0 +1,52 @@
+import { Session } from '@supabase/supabase-js';
+
+export const TOTP_CODE_LENGTH = 6;
+export const RECOVERY_CODE_COUNT = 10;
+
+// 32 characters without look-alikes (no l, o, 0 or 1), so a random byte
+// maps onto it without bias
+const RECOVERY_CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+// Ten "xxxxx-xxxxx" codes, 50 random bits each
+export const generateRecoveryCodes = (count: number = RECOVERY_CODE_COUNT) =>
+  Array.from({ length: count }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(10));
+    const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte & 31]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+
+// Accepts codes typed with spaces, without the dash or in capitals
+export const normalizeRecoveryCode = (code: string) => {
+  const chars = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return chars.length === 10 ? `${chars.slice(0, 5)}-${chars.slice(5)}` : chars;
+};
+
+export const recoveryCodesToText = (codes: string[], email?: string) =>
+  [
+    `AIventory two-factor recovery codes${email ? ` for ${email}` : ''}`,
+    `Generated ${new Date().toLocaleString()}`,
+    '',
+    'Each code turns off two-factor authentication once, so you can sign in',
+    'without your authenticator app. Keep them somewhere safe.',
+    '',
+    ...codes
+  ].join('\n');
+
+// The assurance level is a claim in the access token
+const getSessionAal = (session: Session) => {
+  try {
+    const payload = session.access_token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return (JSON.parse(atob(payload)) as { aal?: string }).aal;
+  } catch {
+    return undefined;
+  }
+};
+
+// The verified TOTP factor still to be checked for this session, if any.
+// Worked out from the session alone, since auth state listeners must not
+// call back into Supabase Auth.
+export const getPendingMfaFactorId = (session: Session): string | null => {
+  const factor = session.user.factors?.find(f => f.factor_type === 'totp' && f.status === 'verified');
+  if (!factor) return null;
+  return getSessionAal(session) === 'aal2' ? null : factor.id;
+};
@@ -0,0 +1,20 @@
+import { Tool } from '../types';
+
+// Mirrors compute_tool_ranking() in the tool_ranking migration
+export const RANKING_PRIOR_WEIGHT = 10;
+export const RANKING_PRIOR_MEAN = 3.5;
+
+// Weekly activity needed to call a tool trending (a like is 1, a bookmark 2, a review 3)
+export const TRENDING_MIN_SCORE = 10;
+
+/**
+ * Rating pulled towards the prior until a tool has enough reviews,
+ * so one 5-star review does not beat thousands at 4.7
+ */
+export const bayesianRating = (tool: Pick<Tool, 'rating' | 'reviews'>, priorMean: number = RANKING_PRIOR_MEAN) =>
+  (RANKING_PRIOR_WEIGHT * priorMean + tool.rating * tool.reviews) / (RANKING_PRIOR_WEIGHT + tool.reviews);
+
+// The stored score when there is one; mock tools only get the Bayesian part
+export const getRankingScore = (tool: Tool) => tool.rankingScore ?? bayesianRating(tool);
+
+export const isToolTrending = (tool: Tool) => (tool.trendingScore ?? 0) >= TRENDING_MIN_SCORE;
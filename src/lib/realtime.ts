@@ -0,0 +1,129 @@
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { cacheUtils } from './supabaseOptimized';
+import { Database } from '../types/database';
+
+type Tables = Database['public']['Tables'];
+
+// Bursts of changes (a vote storm, a bulk delete) are folded into one refetch
+export const REALTIME_SYNC_DELAY = 500;
+
+export type RealtimeTable = 'likes' | 'reviews' | 'bookmarks';
+export type RealtimeChange<T extends RealtimeTable> = RealtimePostgresChangesPayload<Tables[T]['Row']>;
+type RealtimeListener<T extends RealtimeTable> = (change: RealtimeChange<T>) => void;
+
+interface TableSubscription {
+  channel: RealtimeChannel;
+  listeners: Set<RealtimeListener<RealtimeTable>>;
+}
+
+// One channel per table, shared by every listener on the page
+const subscriptions = new Map<RealtimeTable, TableSubscription>();
+
+// QueryCache keys that go stale with a change. Deletes only carry the row id,
+// so they invalidate every key the table can affect.
+const staleCacheKeys = (table: RealtimeTable, change: RealtimeChange<RealtimeTable>): string[] => {
+  const row = change.eventType === 'DELETE' ? null : change.new;
+
+  switch (table) {
+    case 'bookmarks':
+      return row
+        ? [`bookmarks-light-${row.user_id}`, `bookmarks-full-${row.user_id}`, `bookmark-ids-${row.user_id}`]
+        : ['bookmark'];
+    case 'reviews':
+      return row
+        ? [`reviews-${row.user_id}`, `tool-${row.tool_id}`, 'tools-', 'platform-stats']
+        : ['reviews-', 'tool', 'platform-stats'];
+    case 'likes':
+      return ['platform-stats'];
+  }
+};
+
+const openChannel = (table: RealtimeTable): TableSubscription => {
+  const listeners = new Set<RealtimeListener<RealtimeTable>>();
+
+  const channel = supabase
+    .channel(`realtime:${table}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table }, (change: RealtimeChange<RealtimeTable>) => {
+      staleCacheKeys(table, change).forEach(cacheUtils.invalidate);
+      listeners.forEach(listener => listener(change));
+    })
+    .subscribe(status => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.warn(`Realtime: ${table} channel ${status}`);
+      }
+    });
+
+  return { channel, listeners };
+};
+
+/**
+ * Listen for inserts, updates and deletes on a table.
+ * Returns a function that removes the listener; the channel is closed with the last one.
+ */
+export const subscribeToTable = <T extends RealtimeTable>(table: T, listener: RealtimeListener<T>) => {
+  let subscription = subscriptions.get(table);
+  if (!subscription) {
+    subscription = openChannel(table);
+    subscriptions.set(table, subscription);
+  }
+
+  const tableListener = listener as RealtimeListener<RealtimeTable>;
+  subscription.listeners.add(tableListener);
+
+  return () => {
+    const current = subscriptions.get(table);
+    if (!current) return;
+
+    current.listeners.delete(tableListener);
+    if (current.listeners.size === 0) {
+      subscriptions.delete(table);
+      supabase.removeChannel(current.channel);
+    }
+  };
+};
+
+export interface HiddenReview {
+  id: string;
+  tool_id: string;
+}
+
+type HiddenReviewListener = (review: HiddenReview) => void;
+
+// Hidden reviews fail the reviews SELECT policy, so their update never reaches
+// most clients; the database broadcasts them on this topic instead
+let moderationSubscription: { channel: RealtimeChannel; listeners: Set<HiddenReviewListener> } | null = null;
+
+/**
+ * Listen for reviews that stop being published (hidden by reports or moderation).
+ * Returns a function that removes the listener; the channel is closed with the last one.
+ */
+export const subscribeToHiddenReviews = (listener: HiddenReviewListener) => {
+  if (!moderationSubscription) {
+    const listeners = new Set<HiddenReviewListener>();
+    const channel = supabase
+      .channel('review-moderation')
+      .on('broadcast', { event: 'review_hidden' }, ({ payload }) => {
+        const review = payload as HiddenReview;
+        [`tool-${review.tool_id}`, 'tools-', 'reviews-', 'platform-stats'].forEach(cacheUtils.invalidate);
+        listeners.forEach(current => current(review));
+      })
+      .subscribe(status => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.warn(`Realtime: review moderation channel ${status}`);
+        }
+      });
+    moderationSubscription = { channel, listeners };
+  }
+
+  const { listeners } = moderationSubscription;
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && moderationSubscription) {
+      supabase.removeChannel(moderationSubscription.channel);
+      moderationSubscription = null;
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { CriteriaRatings, ReviewCriterion, ReviewDetails } from '../types';
+import { Database } from '../types/database';
+
+type ReviewRow = Database['public']['Tables']['reviews']['Row'];
+type ToolRow = Database['public']['Tables']['tools']['Row'];
+
+// Matches the reviews_pros_cons_max and use_case check constraints
+export const MAX_PROS_CONS = 5;
+export const MAX_PRO_CON_LENGTH = 100;
+export const MAX_USE_CASE_LENGTH = 200;
+
+// The criterion filter keeps tools averaging at least this much (see search_tools)
+export const MIN_CRITERION_RATING = 4;
+
+export const REVIEW_CRITERIA: { value: ReviewCriterion; label: string }[] = [
+  { value: 'ease_of_use', label: 'Ease of use' },
+  { value: 'output_quality', label: 'Output quality' },
+  { value: 'value', label: 'Value for money' },
+  { value: 'support', label: 'Support' },
+  { value: 'documentation', label: 'Documentation' }
+];
+
+// Same column name on reviews (1-5) and tools (average)
+export const criterionColumn = (criterion: ReviewCriterion) =>
+  `${criterion}_rating` as const;
+
+export const isReviewCriterion = (value: unknown): value is ReviewCriterion =>
+  REVIEW_CRITERIA.some(option => option.value === value);
+
+// Reads whichever criterion columns are set on a review or tool row
+export const toCriteriaRatings = (
+  row: Partial<Pick<ReviewRow | ToolRow, ReturnType<typeof criterionColumn>>>
+): CriteriaRatings => {
+  const ratings: CriteriaRatings = {};
+  for (const { value } of REVIEW_CRITERIA) {
+    const rating = row[criterionColumn(value)];
+    if (rating !== null && rating !== undefined) {
+      ratings[value] = Number(rating);
+    }
+  }
+  return ratings;
+};
+
+const cleanList = (items: string[]) =>
+  items
+    .map(item => item.trim().slice(0, MAX_PRO_CON_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_PROS_CONS);
+
+// Review columns for the optional details; unrated criteria are cleared
+export const toReviewDetailColumns = (details: ReviewDetails) => ({
+  ...Object.fromEntries(
+    REVIEW_CRITERIA.map(({ value }) => [criterionColumn(value), details.criteria[value] || null])
+  ) as Record<ReturnType<typeof criterionColumn>, number | null>,
+  pros: cleanList(details.pros),
+  cons: cleanList(details.cons),
+  use_case: details.useCase.trim().slice(0, MAX_USE_CASE_LENGTH) || null
+});
@@ -0,0 +1,29 @@
+import { ReviewModerationAction, ReviewReportReason } from '../types';
+
+// Open reports from distinct users before a review is hidden (see hide_reported_review)
+export const REVIEW_HIDE_THRESHOLD = 3;
+
+// Matches the review_reports.details check constraint
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+export const REVIEW_REPORT_REASONS: { value: ReviewReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Advertising, links or repeated content' },
+  { value: 'abuse', label: 'Abusive or harassing', description: 'Insults, threats or hate speech' },
+  { value: 'off_topic', label: 'Off topic', description: 'Not about this tool' },
+  { value: 'conflict_of_interest', label: 'Conflict of interest', description: 'Written by the maker or a competitor' },
+  { value: 'misinformation', label: 'Misleading', description: 'False claims about the tool' },
+  { value: 'other', label: 'Something else', description: 'Tell us more below' }
+];
+
+export const getReportReasonLabel = (reason: ReviewReportReason) =>
+  REVIEW_REPORT_REASONS.find(option => option.value === reason)?.label || reason;
+
+// Audit log wording: "<admin> restored a review by <author>"
+const MODERATION_ACTION_PHRASES: Record<ReviewModerationAction, string> = {
+  restore: 'restored a review by',
+  delete: 'deleted a review by',
+  warn: 'warned'
+};
+
+export const describeModerationAction = (action: ReviewModerationAction) =>
+  MODERATION_ACTION_PHRASES[action];
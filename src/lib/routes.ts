@@ -0,0 +1,36 @@
+// Central place for app URLs so components never hand-build paths
+export const routes = {
+  home: '/',
+  tool: (toolId: string) => `/tools/${encodeURIComponent(toolId)}`,
+  editTool: (toolId: string) => `/tools/${encodeURIComponent(toolId)}/edit`,
+  category: (categoryId: string) =>
+    categoryId === 'all' ? '/' : `/category/${encodeURIComponent(categoryId)}`,
+  dashboard: '/dashboard',
+  profile: '/profile',
+  submitTool: '/submit',
+  adminModeration: '/admin/moderation',
+  adminReviewReports: '/admin/reviews',
+  compare: (toolIds: string[]) => `/compare?tools=${toolIds.map(encodeURIComponent).join(',')}`,
+  collection: (collectionId: string) => `/collections/${encodeURIComponent(collectionId)}`,
+  teams: '/teams',
+  teamInvite: (token: string) => `/invites/${encodeURIComponent(token)}`,
+  resetPassword: '/reset-password',
+} as const;
+
+// Route patterns used by <Routes> and useMatch
+export const routePatterns = {
+  home: '/',
+  tool: '/tools/:toolId',
+  editTool: '/tools/:toolId/edit',
+  category: '/category/:categoryId',
+  dashboard: '/dashboard',
+  profile: '/profile',
+  submitTool: '/submit',
+  adminModeration: '/admin/moderation',
+  adminReviewReports: '/admin/reviews',
+  compare: '/compare',
+  collection: '/collections/:collectionId',
+  teams: '/teams',
+  teamInvite: '/invites/:token',
+  resetPassword: '/reset-password',
+} as const;
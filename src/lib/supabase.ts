@@ -1,6 +1,8 @@
 import { createClient, Session } from '@supabase/supabase-js';
 import { Database } from '../types/database';
 import { isValidUUID } from '../utils/uuidValidation';
+import { criterionColumn, MIN_CRITERION_RATING } from './reviewCriteria';
+import { ActivityEventType, OrganizationRole, ReviewCriterion, ReviewModerationAction, ReviewReportReason, ToolApprovalStatus, ToolClaimMethod, ToolSortKey, ToolStatus } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -316,6 +318,324 @@ export const auth = {
     }
   },
 
+  // Sends a link to routes.resetPassword; Supabase signs the user in from it
+  requestPasswordReset: async (email: string, redirectTo: string) => {
+    try {
+      console.log('Auth: Requesting password reset');
+      const { data, error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo });
+      console.log('Auth: Password reset request result:', { error: error?.message });
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: Password reset request exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Network error while requesting a password reset. Please try again.' }
+      };
+    }
+  },
+
+  // The nonce is the code sent by reauthenticate(); a password reset link
+  // signs the user in afresh, so completing a reset does not need one
+  updatePassword: async (password: string, nonce?: string) => {
+    try {
+      console.log('Auth: Updating password');
+      const { data, error } = await supabase.auth.updateUser({ password, nonce });
+      console.log('Auth: Password update result:', { success: !!data.user, error: error?.message });
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: Password update exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Network error while updating your password. Please try again.' }
+      };
+    }
+  },
+
+  // Emails the signed-in user a code that updatePassword() takes as its nonce
+  reauthenticate: async () => {
+    try {
+      console.log('Auth: Sending reauthentication code');
+      const { error } = await supabase.auth.reauthenticate();
+      console.log('Auth: Reauthentication code result:', { error: error?.message });
+      return { error };
+    } catch (err) {
+      console.error('Auth: Reauthentication exception:', err);
+      return {
+        error: { message: 'Network error while sending your verification code. Please try again.' }
+      };
+    }
+  },
+
+  // Checks the signed-in user's current password without starting a new session
+  verifyPassword: async (password: string) => {
+    try {
+      const { data, error } = await supabase.rpc('verify_user_password', { password });
+      if (error) {
+        console.error('Auth: Password check error:', error);
+        return { data: false, error };
+      }
+      return { data: !!data, error: null };
+    } catch (err) {
+      console.error('Auth: Password check exception:', err);
+      return { 
+        data: false, 
+        error: { message: 'Network error while checking your password. Please try again.' }
+      };
+    }
+  },
+
+  getSessions: async () => {
+    try {
+      console.log('Auth: Getting active sessions');
+      const { data, error } = await supabase.rpc('get_user_sessions');
+      if (error) {
+        console.error('Auth: Sessions query error:', error);
+      }
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: Sessions query exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to load your active sessions' }
+      };
+    }
+  },
+
+  revokeSession: async (sessionId: string) => {
+    try {
+      console.log('Auth: Revoking session:', sessionId);
+      
+      if (!isValidUUID(sessionId)) {
+        return { error: { message: 'Invalid session ID format' } };
+      }
+      
+      const { error } = await supabase.rpc('revoke_user_session', { session_id: sessionId });
+      if (error) {
+        console.error('Auth: Session revoke error:', error);
+      }
+      return { error };
+    } catch (err) {
+      console.error('Auth: Session revoke exception:', err);
+      return { 
+        error: { message: 'Network error while signing out that session. Please try again.' }
+      };
+    }
+  },
+
+  // Ends every session except this one
+  signOutOtherSessions: async () => {
+    try {
+      console.log('Auth: Signing out other sessions');
+      const { error } = await supabase.auth.signOut({ scope: 'others' });
+      if (error) {
+        console.error('Auth: Sign out others error:', error);
+      }
+      return { error };
+    } catch (err) {
+      console.error('Auth: Sign out others exception:', err);
+      return { 
+        error: { message: 'Network error while signing out other devices. Please try again.' }
+      };
+    }
+  },
+
+  // Two-factor (TOTP) factors are kept by Supabase Auth
+  listFactors: async () => {
+    try {
+      console.log('Auth: Listing two-factor factors');
+      const { data, error } = await supabase.auth.mfa.listFactors();
+      if (error) {
+        console.error('Auth: Factor list error:', error);
+      }
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: Factor list exception:', err);
+      return {
+        data: null,
+        error: { message: 'Failed to load your two-factor settings' }
+      };
+    }
+  },
+
+  // Returns the QR code (an SVG data URL) and secret to show until the first code is verified
+  enrollTotp: async (friendlyName: string) => {
+    try {
+      console.log('Auth: Enrolling TOTP factor');
+      const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName });
+      if (error) {
+        console.error('Auth: TOTP enroll error:', error);
+      }
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: TOTP enroll exception:', err);
+      return {
+        data: null,
+        error: { message: 'Network error while setting up two-factor authentication. Please try again.' }
+      };
+    }
+  },
+
+  // Verifying a code also raises the session to aal2
+  verifyTotp: async (factorId: string, code: string) => {
+    try {
+      console.log('Auth: Verifying TOTP code');
+      const { data, error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+      console.log('Auth: TOTP verification result:', { success: !!data, error: error?.message });
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: TOTP verification exception:', err);
+      return {
+        data: null,
+        error: { message: 'Network error while checking your code. Please try again.' }
+      };
+    }
+  },
+
+  unenrollFactor: async (factorId: string) => {
+    try {
+      console.log('Auth: Removing factor:', factorId);
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+      if (error) {
+        console.error('Auth: Factor removal error:', error);
+      }
+      return { error };
+    } catch (err) {
+      console.error('Auth: Factor removal exception:', err);
+      return {
+        error: { message: 'Network error while turning off two-factor authentication. Please try again.' }
+      };
+    }
+  },
+
+  // Replaces the stored recovery codes; an empty list removes them. Needs an aal2 session
+  saveRecoveryCodes: async (codes: string[]) => {
+    try {
+      console.log('Auth: Saving recovery codes');
+      const { error } = await supabase.rpc('set_mfa_recovery_codes', { codes });
+      if (error) {
+        console.error('Auth: Recovery code save error:', error);
+      }
+      return { error };
+    } catch (err) {
+      console.error('Auth: Recovery code save exception:', err);
+      return {
+        error: { message: 'Network error while saving your recovery codes. Please try again.' }
+      };
+    }
+  },
+
+  getRecoveryCodeCount: async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_mfa_recovery_code_count');
+      if (error) {
+        console.error('Auth: Recovery code count error:', error);
+      }
+      return { data: data ?? 0, error };
+    } catch (err) {
+      console.error('Auth: Recovery code count exception:', err);
+      return {
+        data: 0,
+        error: { message: 'Failed to load your recovery codes' }
+      };
+    }
+  },
+
+  // Checked by the redeem-mfa-recovery-code edge function, which turns two-factor off
+  redeemRecoveryCode: async (code: string) => {
+    try {
+      console.log('Auth: Redeeming recovery code');
+      const { data, error } = await supabase.functions.invoke<{ recovered: boolean; reason?: string }>(
+        'redeem-mfa-recovery-code',
+        { body: { code } }
+      );
+
+      if (error || !data) {
+        console.error('Auth: Recovery code redeem error:', error);
+        throw error;
+      }
+
+      return { data, error: null };
+    } catch (err) {
+      console.error('Auth: Recovery code redeem exception:', err);
+      return {
+        data: null,
+        error: { message: 'Failed to check your recovery code' }
+      };
+    }
+  },
+
+  // Account data: everything the user owns as one JSON document
+  exportUserData: async () => {
+    try {
+      console.log('Auth: Exporting account data');
+      const { data, error } = await supabase.rpc('export_user_data');
+      if (error) {
+        console.error('Auth: Account export error:', error);
+      }
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: Account export exception:', err);
+      return {
+        data: null,
+        error: { message: 'Failed to export your account data' }
+      };
+    }
+  },
+
+  // The pending deletion request, if the account is scheduled for deletion
+  getAccountDeletion: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('account_deletion_requests')
+        .select('requested_at, scheduled_for')
+        .maybeSingle();
+      if (error) {
+        console.error('Auth: Deletion request query error:', error);
+      }
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: Deletion request query exception:', err);
+      return {
+        data: null,
+        error: { message: 'Failed to load your account status' }
+      };
+    }
+  },
+
+  // Checks the password again and returns when the account will be deleted
+  requestAccountDeletion: async (password: string) => {
+    try {
+      console.log('Auth: Requesting account deletion');
+      const { data, error } = await supabase.rpc('request_account_deletion', { password });
+      if (error) {
+        console.error('Auth: Account deletion request error:', error);
+      }
+      return { data, error };
+    } catch (err) {
+      console.error('Auth: Account deletion request exception:', err);
+      return {
+        data: null,
+        error: { message: 'Network error while scheduling your account deletion. Please try again.' }
+      };
+    }
+  },
+
+  cancelAccountDeletion: async () => {
+    try {
+      console.log('Auth: Cancelling account deletion');
+      const { error } = await supabase.rpc('cancel_account_deletion');
+      if (error) {
+        console.error('Auth: Account deletion cancel error:', error);
+      }
+      return { error };
+    } catch (err) {
+      console.error('Auth: Account deletion cancel exception:', err);
+      return {
+        error: { message: 'Network error while cancelling your account deletion. Please try again.' }
+      };
+    }
+  },
+
   verifyOtp: async (params: { token_hash: string; type: string }) => {
     try {
       console.log('Auth: Verifying OTP token');
@@ -335,6 +655,25 @@ export const auth = {
   }
 };
 
+type ToolColumn = keyof Database['public']['Tables']['tools']['Row'];
+
+// Column ordering behind each catalog sort key
+const TOOL_SORT_COLUMNS: Record<ToolSortKey, { column: ToolColumn; ascending: boolean }[]> = {
+  ranking: [{ column: 'ranking_score', ascending: false }],
+  trending: [
+    { column: 'trending_score', ascending: false },
+    { column: 'ranking_score', ascending: false }
+  ],
+  newest: [{ column: 'created_at', ascending: false }],
+  rating: [
+    { column: 'rating', ascending: false },
+    { column: 'reviews_count', ascending: false }
+  ],
+  reviews_count: [{ column: 'reviews_count', ascending: false }],
+  'most-liked': [{ column: 'likes_count', ascending: false }],
+  name: [{ column: 'name', ascending: true }]
+};
+
 // Enhanced database functions with proper error handling and UUID validation
 export const db = {
   // Expose the supabase client for direct access
@@ -346,15 +685,26 @@ export const db = {
     pricing?: string;
     rating?: number;
     featured?: boolean;
+    criterion?: ReviewCriterion | 'all';
     search?: string;
+    sort?: ToolSortKey;
+    page?: number;
+    pageSize?: number;
   }) => {
     try {
       console.log('DB: Getting tools with filters:', filters);
+
+      // Free-text queries go through the ranked search RPC (ordered by relevance)
+      if (filters?.search?.trim()) {
+        return await db.searchTools(filters.search, filters);
+      }
       
+      // RLS also exposes pending tools to their submitter and admins, so
+      // the public catalog filters on status explicitly
       let query = supabase
         .from('tools')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('*', { count: 'exact' })
+        .eq('status', 'approved');
 
       if (filters?.category && filters.category !== 'all') {
         query = query.eq('category', filters.category);
@@ -372,255 +722,2590 @@ export const db = {
         query = query.eq('featured', true);
       }
 
-      if (filters?.search) {
-        // Use the custom search function we created
-        query = query.or(`name.ilike.%${filters.search}%,description.ilike.%${filters.search}%`);
+      if (filters?.criterion && filters.criterion !== 'all') {
+        query = query.gte(criterionColumn(filters.criterion), MIN_CRITERION_RATING);
+      }
+
+      // Sort on the server; id is the tie-breaker so pages never overlap
+      for (const { column, ascending } of TOOL_SORT_COLUMNS[filters?.sort || 'newest']) {
+        query = query.order(column, { ascending });
+      }
+      query = query.order('id', { ascending: true });
+
+      // Only paginate when asked to, so existing callers still get everything
+      if (filters?.pageSize) {
+        const page = Math.max(1, filters.page || 1);
+        const from = (page - 1) * filters.pageSize;
+        query = query.range(from, from + filters.pageSize - 1);
+      }
+
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tools query timeout')), 10000)
+      );
+      
+      // Race between the query and timeout
+      const result = await Promise.race([query, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('DB: Tools query error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tools query exception:', err);
+      return { 
+        data: null, 
+        count: null,
+        error: { message: 'Failed to fetch tools from database' }
+      };
+    }
+  },
+
+  // Ranked full-text search: name > tags > description, prefix matches and
+  // trigram typo tolerance. Rows carry <mark>-delimited highlight snippets.
+  searchTools: async (searchQuery: string, options?: {
+    category?: string;
+    pricing?: string;
+    rating?: number;
+    featured?: boolean;
+    criterion?: ReviewCriterion | 'all';
+    page?: number;
+    pageSize?: number;
+  }) => {
+    try {
+      console.log('DB: Searching tools:', searchQuery, options);
+
+      const pageSize = options?.pageSize || 20;
+      const page = Math.max(1, options?.page || 1);
+
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool search timeout')), 10000)
+      );
+
+      // Create the actual query promise
+      const queryPromise = supabase
+        .rpc('search_tools', {
+          search_query: searchQuery.trim(),
+          category_filter: options?.category || null,
+          pricing_filter: options?.pricing || null,
+          min_rating: options?.rating || 0,
+          featured_only: options?.featured || false,
+          criterion_filter: options?.criterion || null,
+          min_criterion_rating: MIN_CRITERION_RATING,
+          result_limit: pageSize,
+          result_offset: (page - 1) * pageSize
+        });
+
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+
+      if (result.error) {
+        console.error('DB: Tool search RPC error:', result.error);
+        throw result.error;
+      }
+
+      const rows = result.data || [];
+      return {
+        data: rows,
+        count: rows.length > 0 ? Number(rows[0].total_count) : 0,
+        error: null
+      };
+    } catch (err) {
+      console.error('DB: Tool search exception:', err);
+      return { 
+        data: null, 
+        count: null,
+        error: { message: 'Failed to search tools in database' }
+      };
+    }
+  },
+
+  // Candidates for "alternatives"; ranked and explained by utils/recommendations
+  getSimilarTools: async (toolId: string, limit: number = 30) => {
+    try {
+      console.log('DB: Getting similar tools:', toolId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for tool ID:', toolId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Similar tools timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .rpc('get_similar_tools', {
+          tool_uuid: toolId,
+          result_limit: limit
+        });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Similar tools RPC error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Similar tools exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch similar tools from database' }
+      };
+    }
+  },
+
+  getTool: async (id: string) => {
+    try {
+      console.log('DB: Getting tool:', id);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(id)) {
+        console.warn('DB: Invalid UUID format for tool ID:', id);
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool query timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      // Features live in their own table and are only needed on the detail view
+      const queryPromise = supabase
+        .from('tools')
+        .select('*, tool_features(feature, position)')
+        .eq('id', id)
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('DB: Tool query error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool query exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch tool from database' }
+      };
+    }
+  },
+
+  createTool: async (tool: Database['public']['Tables']['tools']['Insert']) => {
+    try {
+      console.log('DB: Creating tool with data:', tool);
+
+      // Submissions are attributed to the signed-in user and wait for moderation
+      const { data: { session } } = await supabase.auth.getSession();
+      const submission = {
+        ...tool,
+        status: 'pending' as const,
+        submitted_by: tool.submitted_by ?? session?.user.id ?? null
+      };
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool creation timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('tools')
+        .insert([submission])
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('DB: Detailed error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool creation exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to create tool in database' }
+      };
+    }
+  },
+
+  updateTool: async (id: string, updates: Database['public']['Tables']['tools']['Update']) => {
+    try {
+      console.log('DB: Updating tool:', id);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(id)) {
+        console.warn('DB: Invalid UUID format for tool ID:', id);
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool update timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('tools')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('DB: Tool update error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool update exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to update tool in database' }
+      };
+    }
+  },
+
+  // Submission details (features are public with the tool; the contact is private)
+  setToolFeatures: async (toolId: string, features: string[]) => {
+    try {
+      console.log('DB: Setting tool features:', toolId, features.length);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for tool ID:', toolId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool features timeout')), 10000)
+      );
+      
+      // Replace the whole list so order and removals are kept
+      const deletePromise = supabase
+        .from('tool_features')
+        .delete()
+        .eq('tool_id', toolId);
+      
+      const deleteResult = await Promise.race([deletePromise, timeoutPromise]) as Awaited<typeof deletePromise>;
+      
+      if (deleteResult.error) {
+        console.error('DB: Tool features delete error:', deleteResult.error);
+        throw deleteResult.error;
+      }
+      
+      if (features.length === 0) {
+        return { data: [], error: null };
+      }
+      
+      const queryPromise = supabase
+        .from('tool_features')
+        .insert(features.map((feature, position) => ({ tool_id: toolId, feature, position })))
+        .select();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Tool features insert error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool features exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to save tool features to database' }
+      };
+    }
+  },
+
+  getToolContact: async (toolId: string) => {
+    try {
+      console.log('DB: Getting tool contact:', toolId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for tool ID:', toolId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool contact timeout')), 10000)
+      );
+      
+      // RLS returns no row unless the caller is the submitter or an admin
+      const queryPromise = supabase
+        .from('tool_submission_contacts')
+        .select('*')
+        .eq('tool_id', toolId)
+        .maybeSingle();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Tool contact query error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool contact exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch tool contact from database' }
+      };
+    }
+  },
+
+  setToolContact: async (toolId: string, contactEmail: string) => {
+    try {
+      console.log('DB: Setting tool contact:', toolId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for tool ID:', toolId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool contact timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('tool_submission_contacts')
+        .upsert(
+          { tool_id: toolId, contact_email: contactEmail.trim(), updated_at: new Date().toISOString() },
+          { onConflict: 'tool_id' }
+        )
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Tool contact upsert error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool contact exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to save tool contact to database' }
+      };
+    }
+  },
+
+  // Ownership and claims
+  isToolOwner: async (toolId: string, userId: string) => {
+    try {
+      console.log('DB: Checking tool ownership:', toolId, userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId) || !isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for ownership check:', { toolId, userId });
+        return { 
+          data: false, 
+          error: { message: 'Invalid tool or user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool ownership timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('tool_owners')
+        .select('tool_id')
+        .eq('tool_id', toolId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Tool ownership query error:', result.error);
+        throw result.error;
+      }
+      
+      return { data: result.data !== null, error: null };
+    } catch (err) {
+      console.error('DB: Tool ownership exception:', err);
+      return { 
+        data: false, 
+        error: { message: 'Failed to check tool ownership' }
+      };
+    }
+  },
+
+  getToolClaim: async (toolId: string, userId: string) => {
+    try {
+      console.log('DB: Getting tool claim:', toolId, userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId) || !isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for tool claim:', { toolId, userId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool or user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool claim timeout')), 10000)
+      );
+      
+      // Latest claim only; older failed ones are history
+      const queryPromise = supabase
+        .from('tool_claims')
+        .select('*')
+        .eq('tool_id', toolId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Tool claim query error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool claim exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch tool claim from database' }
+      };
+    }
+  },
+
+  createToolClaim: async (toolId: string, userId: string, method: ToolClaimMethod) => {
+    try {
+      console.log('DB: Creating tool claim:', toolId, method);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId) || !isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for tool claim:', { toolId, userId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool or user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool claim timeout')), 10000)
+      );
+      
+      // The token is generated by the database
+      const queryPromise = supabase
+        .from('tool_claims')
+        .insert({ tool_id: toolId, user_id: userId, method })
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Tool claim insert error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool claim exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to start tool claim' }
+      };
+    }
+  },
+
+  // Checked by the verify-tool-claim edge function, which also grants ownership
+  verifyToolClaim: async (claimId: string) => {
+    try {
+      console.log('DB: Verifying tool claim:', claimId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(claimId)) {
+        console.warn('DB: Invalid UUID format for claim ID:', claimId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid claim ID format' }
+        };
+      }
+      
+      const { data, error } = await supabase.functions.invoke<{ verified: boolean; reason?: string }>(
+        'verify-tool-claim',
+        { body: { claimId } }
+      );
+      
+      if (error || !data) {
+        console.error('DB: Tool claim verification error:', error);
+        throw error;
+      }
+      
+      return { data, error: null };
+    } catch (err) {
+      console.error('DB: Tool claim verification exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to verify tool claim' }
+      };
+    }
+  },
+
+  // Moderation (admin only; enforced by RLS)
+  getModerationQueue: async (status: ToolStatus = 'pending') => {
+    try {
+      console.log('DB: Getting moderation queue:', status);
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Moderation queue timeout')), 10000)
+      );
+      
+      // Oldest first so submissions are handled in order
+      const queryPromise = supabase
+        .from('tools')
+        .select('*, submitter:profiles!tools_submitted_by_fkey(id, name, email), contact:tool_submission_contacts(contact_email)')
+        .eq('status', status)
+        .order('created_at', { ascending: true });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Moderation queue error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Moderation queue exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch moderation queue from database' }
+      };
+    }
+  },
+
+  moderateTool: async (
+    toolId: string,
+    adminId: string,
+    decision: Exclude<ToolStatus, 'pending'>,
+    note?: string
+  ) => {
+    try {
+      console.log('DB: Moderating tool:', toolId, decision);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId) || !isValidUUID(adminId)) {
+        console.warn('DB: Invalid UUID format for moderation:', { toolId, adminId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool or user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool moderation timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('tools')
+        .update({
+          status: decision,
+          moderation_note: note?.trim() || null,
+          reviewed_by: adminId,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', toolId)
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Tool moderation error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool moderation exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to update tool status in database' }
+      };
+    }
+  },
+
+  // Reported reviews: 'open' have unresolved reports, 'hidden' are out of public view
+  getReportedReviews: async (view: 'open' | 'hidden' = 'open') => {
+    try {
+      console.log('DB: Getting reported reviews:', view);
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Reported reviews timeout')), 10000)
+      );
+      
+      // The inner join keeps only reviews with open reports, and only those reports
+      const queryPromise = view === 'open'
+        ? supabase
+            .from('reviews')
+            .select('*, author:profiles(id, name, email), tool:tools(id, name), review_reports!inner(id, reason, details, status, created_at)')
+            .eq('review_reports.status', 'open')
+            .order('created_at', { ascending: true })
+        : supabase
+            .from('reviews')
+            .select('*, author:profiles(id, name, email), tool:tools(id, name), review_reports(id, reason, details, status, created_at)')
+            .eq('status', 'hidden')
+            .order('hidden_at', { ascending: true });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Reported reviews error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Reported reviews exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch reported reviews from database' }
+      };
+    }
+  },
+
+  // Applies the decision and writes the audit log in one transaction
+  moderateReview: async (reviewId: string, action: ReviewModerationAction, note?: string) => {
+    try {
+      console.log('DB: Moderating review:', reviewId, action);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(reviewId)) {
+        console.warn('DB: Invalid UUID format for review ID:', reviewId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid review ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Review moderation timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase.rpc('moderate_review', {
+        review_uuid: reviewId,
+        moderation_action: action,
+        moderation_note: note?.trim() || null
+      });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Review moderation error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Review moderation exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to moderate review in database' }
+      };
+    }
+  },
+
+  getModerationAuditLog: async (limit: number = 50) => {
+    try {
+      console.log('DB: Getting moderation audit log');
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Audit log timeout')), 10000)
+      );
+      
+      // Newest decisions first
+      const queryPromise = supabase
+        .from('moderation_audit_log')
+        .select('*, actor:profiles!moderation_audit_log_actor_id_fkey(name), subject:profiles!moderation_audit_log_subject_user_id_fkey(name, email)')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Audit log error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Audit log exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch moderation audit log from database' }
+      };
+    }
+  },
+
+  // Categories
+  getCategories: async () => {
+    try {
+      console.log('DB: Getting categories');
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Categories query timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('categories')
+        .select('*')
+        .order('name');
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('DB: Categories query error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Categories query exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch categories from database' }
+      };
+    }
+  },
+
+  // User profiles
+  getProfile: async (userId: string) => {
+    try {
+      console.log('DB: Getting profile for user:', userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Profile query timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', userId)
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('DB: Profile query error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Profile query exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch profile from database' }
+      };
+    }
+  },
+
+  createProfile: async (profile: Database['public']['Tables']['profiles']['Insert']) => {
+    try {
+      console.log('DB: Creating profile for user:', profile.id);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(profile.id)) {
+        console.warn('DB: Invalid UUID format for user ID:', profile.id);
+        return { 
+          data: null, 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Profile creation timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('profiles')
+        .insert([profile])
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('DB: Profile creation error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Profile creation exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to create profile in database' }
+      };
+    }
+  },
+
+  updateProfile: async (userId: string, updates: Database['public']['Tables']['profiles']['Update']) => {
+    try {
+      console.log('DB: Updating profile for user:', userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Profile update timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('profiles')
+        .update(updates)
+        .eq('id', userId)
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('DB: Profile update error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Profile update exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to update profile in database' }
+      };
+    }
+  },
+
+  // Bookmarks
+  getBookmarks: async (userId: string) => {
+    try {
+      console.log('🔍 DB: Fetching bookmarks for user:', userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
+        return { 
+          data: [], 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Bookmarks fetch timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('bookmarks')
+        .select(`
+          id,
+          user_id,
+          tool_id,
+          created_at,
+          tools (
+            id,
+            name,
+            description,
+            category,
+            pricing,
+            rating,
+            reviews_count,
+            tags,
+            website_url,
+            logo_url,
+            cover_image_url,
+            screenshot_urls,
+            featured,
+            verified,
+            created_at,
+            updated_at
+          )
+        `)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      
+      if (result.error) {
+        console.error('❌ DB: Supabase query error:', result.error);
+        throw result.error;
+      }
+      
+      console.log('✅ DB: Bookmarks fetched successfully:', result.data?.length || 0);
+      return result;
+      
+    } catch (err) {
+      console.error('💥 DB: Bookmarks query exception:', err);
+      return { 
+        data: [], 
+        error: err instanceof Error ? err : new Error('Failed to fetch bookmarks from database')
+      };
+    }
+  },
+
+  addBookmark: async (userId: string, toolId: string) => {
+    try {
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId) || !isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for user ID or tool ID:', { userId, toolId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid ID format' }
+        };
+      }
+      
+      // First check if bookmark already exists
+      const existingBookmark = await supabase
+        .from('bookmarks')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('tool_id', toolId)
+        .single();
+      
+      if (existingBookmark.data) {
+        console.log('✅ DB: Bookmark already exists');
+        return {
+          data: [existingBookmark.data],
+          error: null,
+          alreadyExists: true
+        };
+      }
+      
+      // Use upsert to handle race conditions
+      const result = await supabase
+        .from('bookmarks')
+        .upsert([{ user_id: userId, tool_id: toolId }], {
+          onConflict: 'user_id,tool_id',
+          ignoreDuplicates: false
+        })
+        .select();
+      
+      // Check for silent failures
+      if (!result.error && (!result.data || result.data.length === 0)) {
+        console.warn('⚠️ DB: Silent failure detected - no rows inserted despite no error');
+        return {
+          data: null,
+          error: { message: 'Silent failure: Bookmark not inserted (likely RLS policy violation)' }
+        };
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('💥 DB: Bookmark add exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to add bookmark to database' }
+      };
+    }
+  },
+
+  removeBookmark: async (userId: string, toolId: string) => {
+    try {
+      console.log('🗑️ DB: Removing bookmark for user:', userId, 'tool:', toolId);
+
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId) || !isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for user ID or tool ID:', { userId, toolId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid ID format' }
+        };
+      }
+
+      const result = await supabase
+        .from('bookmarks')
+        .delete()
+        .eq('user_id', userId)
+        .eq('tool_id', toolId);
+        
+      if (result.error) {
+        console.error('❌ DB: Remove bookmark error:', result.error);
+        throw result.error;
+      }
+      
+      console.log('✅ DB: Bookmark removed successfully');
+      return result;
+    } catch (err) {
+      console.error('💥 DB: Bookmark remove exception:', err);
+      return { 
+        data: null, 
+        error: err instanceof Error ? err : new Error('Failed to remove bookmark from database')
+      };
+    }
+  },
+
+  isBookmarked: async (userId: string, toolId: string) => {
+    try {
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId) || !isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for user ID or tool ID:', { userId, toolId });
+        return false;
+      }
+      
+      const { data } = await supabase
+        .from('bookmarks')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('tool_id', toolId)
+        .single();
+      
+      return !!data;
+    } catch (err) {
+      console.error('DB: Bookmark check exception:', err);
+      return false;
+    }
+  },
+
+  getBookmarkDetails: async (userId: string) => {
+    try {
+      console.log('DB: Getting bookmark notes for user:', userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Bookmark notes fetch timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('bookmarks')
+        .select('tool_id, notes, tags, status, created_at, updated_at')
+        .eq('user_id', userId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Bookmark notes fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Bookmark notes fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch bookmark notes from database' }
+      };
+    }
+  },
+
+  updateBookmarkDetails: async (userId: string, toolId: string, updates: Pick<Database['public']['Tables']['bookmarks']['Update'], 'notes' | 'tags' | 'status'>) => {
+    try {
+      console.log('DB: Updating bookmark notes:', { userId, toolId });
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId) || !isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for bookmark:', { userId, toolId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid user or tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Bookmark notes update timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('bookmarks')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('tool_id', toolId)
+        .select('tool_id, notes, tags, status, created_at, updated_at')
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Bookmark notes update error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Bookmark notes update exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to update bookmark notes in database' }
+      };
+    }
+  },
+
+  // Collections
+  getUserCollections: async (userId: string, organizationIds: string[] = []) => {
+    try {
+      console.log('DB: Getting collections for user:', userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Collections fetch timeout')), 10000)
+      );
+      
+      // Own collections plus those shared with the user's teams;
+      // the default "Saved" collection comes first
+      const teamIds = organizationIds.filter(isValidUUID);
+      const queryPromise = supabase
+        .from('collections')
+        .select('*, collection_items(tool_id, position)')
+        .or(teamIds.length > 0
+          ? `user_id.eq.${userId},organization_id.in.(${teamIds.join(',')})`
+          : `user_id.eq.${userId}`)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: true });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Collections fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Collections fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch collections from database' }
+      };
+    }
+  },
+
+  getCollection: async (collectionId: string) => {
+    try {
+      console.log('DB: Getting collection:', collectionId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(collectionId)) {
+        console.warn('DB: Invalid UUID format for collection ID:', collectionId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid collection ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Collection fetch timeout')), 10000)
+      );
+      
+      // RLS returns private collections to their owner only
+      const queryPromise = supabase
+        .from('collections')
+        .select('*, owner:profiles(name), collection_items(tool_id, position, tools(*))')
+        .eq('id', collectionId)
+        .maybeSingle();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Collection fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Collection fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch collection from database' }
+      };
+    }
+  },
+
+  getPublicCollections: async (userId: string) => {
+    try {
+      console.log('DB: Getting public collections for user:', userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Public collections fetch timeout')), 10000)
+      );
+      
+      // Unlisted collections are reachable by link only, never listed
+      const queryPromise = supabase
+        .from('collections')
+        .select('*, collection_items(tool_id, position)')
+        .eq('user_id', userId)
+        .eq('visibility', 'public')
+        .order('updated_at', { ascending: false });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Public collections fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Public collections fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch public collections from database' }
+      };
+    }
+  },
+
+  createCollection: async (collection: Database['public']['Tables']['collections']['Insert']) => {
+    try {
+      console.log('DB: Creating collection:', collection.name);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(collection.user_id)) {
+        console.warn('DB: Invalid UUID format for user ID:', collection.user_id);
+        return { 
+          data: null, 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Collection create timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('collections')
+        .insert(collection)
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Collection create error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Collection create exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to create collection in database' }
+      };
+    }
+  },
+
+  updateCollection: async (collectionId: string, updates: Database['public']['Tables']['collections']['Update']) => {
+    try {
+      console.log('DB: Updating collection:', collectionId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(collectionId)) {
+        console.warn('DB: Invalid UUID format for collection ID:', collectionId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid collection ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Collection update timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('collections')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', collectionId)
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Collection update error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Collection update exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to update collection in database' }
+      };
+    }
+  },
+
+  deleteCollection: async (collectionId: string) => {
+    try {
+      console.log('DB: Deleting collection:', collectionId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(collectionId)) {
+        console.warn('DB: Invalid UUID format for collection ID:', collectionId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid collection ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Collection delete timeout')), 10000)
+      );
+      
+      // RLS refuses to delete the default collection
+      const queryPromise = supabase
+        .from('collections')
+        .delete()
+        .eq('id', collectionId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Collection delete error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Collection delete exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to delete collection from database' }
+      };
+    }
+  },
+
+  addToCollection: async (collectionId: string, toolId: string) => {
+    try {
+      console.log('DB: Adding tool to collection:', collectionId, toolId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(collectionId) || !isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for collection item:', { collectionId, toolId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid collection or tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Collection add timeout')), 10000)
+      );
+      
+      // Adding a tool twice is a no-op; the trigger appends it to the end
+      const queryPromise = supabase
+        .from('collection_items')
+        .upsert(
+          { collection_id: collectionId, tool_id: toolId },
+          { onConflict: 'collection_id,tool_id', ignoreDuplicates: true }
+        );
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Collection add error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Collection add exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to add tool to collection in database' }
+      };
+    }
+  },
+
+  removeFromCollection: async (collectionId: string, toolId: string) => {
+    try {
+      console.log('DB: Removing tool from collection:', collectionId, toolId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(collectionId) || !isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for collection item:', { collectionId, toolId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid collection or tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Collection remove timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('collection_items')
+        .delete()
+        .eq('collection_id', collectionId)
+        .eq('tool_id', toolId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Collection remove error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Collection remove exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to remove tool from collection in database' }
+      };
+    }
+  },
+
+  reorderCollection: async (collectionId: string, toolIds: string[]) => {
+    try {
+      console.log('DB: Reordering collection:', collectionId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(collectionId) || !toolIds.every(isValidUUID)) {
+        console.warn('DB: Invalid UUID format for collection order:', { collectionId, toolIds });
+        return { 
+          data: null, 
+          error: { message: 'Invalid collection or tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Collection reorder timeout')), 10000)
+      );
+      
+      const queryPromise = supabase.rpc('reorder_collection_items', {
+        collection_uuid: collectionId,
+        tool_ids: toolIds
+      });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Collection reorder error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Collection reorder exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to reorder collection in database' }
+      };
+    }
+  },
+
+  // Teams
+  getUserOrganizations: async (userId: string) => {
+    try {
+      console.log('DB: Getting organizations for user:', userId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organizations fetch timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_members')
+        .select('role, organizations(*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organizations fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organizations fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch organizations from database' }
+      };
+    }
+  },
+
+  createOrganization: async (name: string, description?: string) => {
+    try {
+      console.log('DB: Creating organization:', name);
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization create timeout')), 10000)
+      );
+      
+      // Creates the team and its owner membership in one call
+      const queryPromise = supabase.rpc('create_organization', {
+        org_name: name,
+        org_description: description || null
+      });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization create error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization create exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to create organization in database' }
+      };
+    }
+  },
+
+  updateOrganization: async (organizationId: string, updates: Database['public']['Tables']['organizations']['Update']) => {
+    try {
+      console.log('DB: Updating organization:', organizationId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId)) {
+        console.warn('DB: Invalid UUID format for organization ID:', organizationId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization update timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organizations')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', organizationId)
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization update error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization update exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to update organization in database' }
+      };
+    }
+  },
+
+  deleteOrganization: async (organizationId: string) => {
+    try {
+      console.log('DB: Deleting organization:', organizationId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId)) {
+        console.warn('DB: Invalid UUID format for organization ID:', organizationId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization delete timeout')), 10000)
+      );
+      
+      // RLS limits this to owners
+      const queryPromise = supabase
+        .from('organizations')
+        .delete()
+        .eq('id', organizationId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization delete error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization delete exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to delete organization from database' }
+      };
+    }
+  },
+
+  getOrganizationMembers: async (organizationId: string) => {
+    try {
+      console.log('DB: Getting members for organization:', organizationId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId)) {
+        console.warn('DB: Invalid UUID format for organization ID:', organizationId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization members fetch timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_members')
+        .select('*, profiles(name, email, avatar_url)')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: true });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization members fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization members fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch organization members from database' }
+      };
+    }
+  },
+
+  updateOrganizationMemberRole: async (memberId: string, role: OrganizationRole) => {
+    try {
+      console.log('DB: Changing organization member role:', { memberId, role });
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(memberId)) {
+        console.warn('DB: Invalid UUID format for member ID:', memberId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid member ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization member update timeout')), 10000)
+      );
+      
+      // The database refuses owner changes by non-owners and demoting the last owner
+      const queryPromise = supabase
+        .from('organization_members')
+        .update({ role })
+        .eq('id', memberId)
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization member update error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization member update exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to update organization member in database' }
+      };
+    }
+  },
+
+  removeOrganizationMember: async (memberId: string) => {
+    try {
+      console.log('DB: Removing organization member:', memberId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(memberId)) {
+        console.warn('DB: Invalid UUID format for member ID:', memberId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid member ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization member remove timeout')), 10000)
+      );
+      
+      // Also used to leave a team; the last owner cannot leave
+      const queryPromise = supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', memberId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization member remove error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization member remove exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to remove organization member from database' }
+      };
+    }
+  },
+
+  getOrganizationInvites: async (organizationId: string) => {
+    try {
+      console.log('DB: Getting invites for organization:', organizationId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId)) {
+        console.warn('DB: Invalid UUID format for organization ID:', organizationId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization invites fetch timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_invites')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization invites fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization invites fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch organization invites from database' }
+      };
+    }
+  },
+
+  createOrganizationInvite: async (invite: Database['public']['Tables']['organization_invites']['Insert']) => {
+    try {
+      console.log('DB: Inviting to organization:', invite.organization_id, invite.email);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(invite.organization_id) || !isValidUUID(invite.invited_by || '')) {
+        console.warn('DB: Invalid UUID format for invite:', invite);
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization or user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization invite create timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_invites')
+        .insert({ ...invite, email: invite.email.trim().toLowerCase() })
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization invite create error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization invite create exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to create organization invite in database' }
+      };
+    }
+  },
+
+  revokeOrganizationInvite: async (inviteId: string) => {
+    try {
+      console.log('DB: Revoking organization invite:', inviteId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(inviteId)) {
+        console.warn('DB: Invalid UUID format for invite ID:', inviteId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid invite ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization invite revoke timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_invites')
+        .update({ status: 'revoked' as const })
+        .eq('id', inviteId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization invite revoke error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization invite revoke exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to revoke organization invite in database' }
+      };
+    }
+  },
+
+  getOrganizationInvite: async (token: string) => {
+    try {
+      console.log('DB: Looking up organization invite');
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(token)) {
+        console.warn('DB: Invalid UUID format for invite token:', token);
+        return { 
+          data: null, 
+          error: { message: 'Invalid invite ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization invite lookup timeout')), 10000)
+      );
+      
+      // Invitees are not members yet, so this goes through a function keyed by the token
+      const queryPromise = supabase.rpc('get_organization_invite', { invite_token: token });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization invite lookup error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization invite lookup exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to look up organization invite in database' }
+      };
+    }
+  },
+
+  acceptOrganizationInvite: async (token: string) => {
+    try {
+      console.log('DB: Accepting organization invite');
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(token)) {
+        console.warn('DB: Invalid UUID format for invite token:', token);
+        return { 
+          data: null, 
+          error: { message: 'Invalid invite ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization invite accept timeout')), 10000)
+      );
+      
+      // Returns the organization id
+      const queryPromise = supabase.rpc('accept_organization_invite', { invite_token: token });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization invite accept error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization invite accept exception:', err);
+      return { 
+        data: null, 
+        error: { message: (err as { message?: string })?.message || 'Failed to accept organization invite' }
+      };
+    }
+  },
+
+  getOrganizationToolStatuses: async (organizationId: string) => {
+    try {
+      console.log('DB: Getting tool statuses for organization:', organizationId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId)) {
+        console.warn('DB: Invalid UUID format for organization ID:', organizationId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization tool statuses fetch timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_tool_statuses')
+        .select('*')
+        .eq('organization_id', organizationId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization tool statuses fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization tool statuses fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch organization tool statuses from database' }
+      };
+    }
+  },
+
+  setOrganizationToolStatus: async (organizationId: string, toolId: string, status: ToolApprovalStatus, userId: string) => {
+    try {
+      console.log('DB: Setting organization tool status:', { organizationId, toolId, status });
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId) || !isValidUUID(toolId) || !isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for tool status:', { organizationId, toolId, userId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization, tool or user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization tool status update timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_tool_statuses')
+        .upsert({
+          organization_id: organizationId,
+          tool_id: toolId,
+          status,
+          updated_by: userId,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'organization_id,tool_id' })
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization tool status update error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization tool status update exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to update organization tool status in database' }
+      };
+    }
+  },
+
+  clearOrganizationToolStatus: async (organizationId: string, toolId: string) => {
+    try {
+      console.log('DB: Clearing organization tool status:', { organizationId, toolId });
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId) || !isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for tool status:', { organizationId, toolId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization or tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization tool status clear timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_tool_statuses')
+        .delete()
+        .eq('organization_id', organizationId)
+        .eq('tool_id', toolId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization tool status clear error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization tool status clear exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to clear organization tool status in database' }
+      };
+    }
+  },
+
+  getOrganizationToolNotes: async (organizationId: string, toolId: string) => {
+    try {
+      console.log('DB: Getting organization notes for tool:', { organizationId, toolId });
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId) || !isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for tool notes:', { organizationId, toolId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization or tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Organization tool notes fetch timeout')), 10000)
+      );
+      
+      const queryPromise = supabase
+        .from('organization_tool_notes')
+        .select('*, profiles(name)')
+        .eq('organization_id', organizationId)
+        .eq('tool_id', toolId)
+        .order('created_at', { ascending: true });
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Organization tool notes fetch error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Organization tool notes fetch exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch organization tool notes from database' }
+      };
+    }
+  },
+
+  createOrganizationToolNote: async (note: Database['public']['Tables']['organization_tool_notes']['Insert']) => {
+    try {
+      console.log('DB: Adding organization note for tool:', note.tool_id);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(note.organization_id) || !isValidUUID(note.tool_id) || !isValidUUID(note.user_id)) {
+        console.warn('DB: Invalid UUID format for tool note:', note);
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization, tool or user ID format' }
+        };
       }
-
+      
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Tools query timeout')), 10000)
+        setTimeout(() => reject(new Error('Organization tool note create timeout')), 10000)
       );
       
+      const queryPromise = supabase
+        .from('organization_tool_notes')
+        .insert(note)
+        .select('*, profiles(name)')
+        .single();
+      
       // Race between the query and timeout
-      const result = await Promise.race([query, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('DB: Tools query error:', result.error);
+        console.error('DB: Organization tool note create error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Tools query exception:', err);
+      console.error('DB: Organization tool note create exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to fetch tools from database' }
+        error: { message: 'Failed to create organization tool note in database' }
       };
     }
   },
 
-  getTool: async (id: string) => {
+  deleteOrganizationToolNote: async (noteId: string) => {
     try {
-      console.log('DB: Getting tool:', id);
+      console.log('DB: Deleting organization tool note:', noteId);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(id)) {
-        console.warn('DB: Invalid UUID format for tool ID:', id);
+      if (!isValidUUID(noteId)) {
+        console.warn('DB: Invalid UUID format for note ID:', noteId);
         return { 
           data: null, 
-          error: { message: 'Invalid tool ID format' }
+          error: { message: 'Invalid note ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Tool query timeout')), 10000)
+        setTimeout(() => reject(new Error('Organization tool note delete timeout')), 10000)
       );
       
-      // Create the actual query promise
+      // RLS limits this to the author and team admins
       const queryPromise = supabase
-        .from('tools')
-        .select('*')
-        .eq('id', id)
-        .single();
+        .from('organization_tool_notes')
+        .delete()
+        .eq('id', noteId);
       
       // Race between the query and timeout
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('DB: Tool query error:', result.error);
+        console.error('DB: Organization tool note delete error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Tool query exception:', err);
+      console.error('DB: Organization tool note delete exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to fetch tool from database' }
+        error: { message: 'Failed to delete organization tool note from database' }
       };
     }
   },
 
-  createTool: async (tool: Database['public']['Tables']['tools']['Insert']) => {
+  getOrganizationToolStack: async (organizationId: string) => {
     try {
-      console.log('DB: Creating tool with data:', tool);
+      console.log('DB: Getting tool stack for organization:', organizationId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(organizationId)) {
+        console.warn('DB: Invalid UUID format for organization ID:', organizationId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid organization ID format' }
+        };
+      }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Tool creation timeout')), 10000)
+        setTimeout(() => reject(new Error('Organization tool stack fetch timeout')), 10000)
       );
       
-      // Create the actual query promise
       const queryPromise = supabase
-        .from('tools')
-        .insert([tool])
-        .select()
-        .single();
+        .from('organization_tool_statuses')
+        .select('*, tools(*)')
+        .eq('organization_id', organizationId)
+        .order('updated_at', { ascending: false });
       
       // Race between the query and timeout
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('DB: Detailed error:', result.error);
+        console.error('DB: Organization tool stack fetch error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Tool creation exception:', err);
+      console.error('DB: Organization tool stack fetch exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to create tool in database' }
+        error: { message: 'Failed to fetch organization tool stack from database' }
       };
     }
   },
 
-  updateTool: async (id: string, updates: Database['public']['Tables']['tools']['Update']) => {
+
+  // Reviews
+  getReviews: async (toolId: string) => {
     try {
-      console.log('DB: Updating tool:', id);
+      console.log('DB: Getting reviews for tool:', toolId);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(id)) {
-        console.warn('DB: Invalid UUID format for tool ID:', id);
+      if (!isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for tool ID:', toolId);
         return { 
-          data: null, 
+          data: [], 
           error: { message: 'Invalid tool ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Tool update timeout')), 10000)
+        setTimeout(() => reject(new Error('Reviews query timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('tools')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
+        .from('reviews')
+        .select(`
+          *,
+          profiles (name, avatar_url),
+          review_responses (
+            id, body, responder_id, created_at, updated_at,
+            responder:profiles (name),
+            review_response_revisions (id, body, created_at)
+          )
+        `)
+        .eq('tool_id', toolId)
+        .order('created_at', { ascending: false });
       
       // Race between the query and timeout
       const result = await Promise.race([queryPromise, timeoutPromise]) as any;
       
       if (result.error) {
-        console.error('DB: Tool update error:', result.error);
+        console.error('DB: Reviews query error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Tool update exception:', err);
+      console.error('DB: Reviews query exception:', err);
       return { 
-        data: null, 
-        error: { message: 'Failed to update tool in database' }
+        data: [], 
+        error: { message: 'Failed to fetch reviews from database' }
       };
     }
   },
 
-  // Categories
-  getCategories: async () => {
+  createReview: async (review: Database['public']['Tables']['reviews']['Insert']) => {
     try {
-      console.log('DB: Getting categories');
+      console.log('DB: Creating review');
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(review.user_id) || !isValidUUID(review.tool_id)) {
+        console.warn('DB: Invalid UUID format for user ID or tool ID:', { userId: review.user_id, toolId: review.tool_id });
+        return { 
+          data: null, 
+          error: { message: 'Invalid ID format' }
+        };
+      }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Categories query timeout')), 10000)
+        setTimeout(() => reject(new Error('Review creation timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('categories')
-        .select('*')
-        .order('name');
+        .from('reviews')
+        .insert([review])
+        .select()
+        .single();
       
       // Race between the query and timeout
       const result = await Promise.race([queryPromise, timeoutPromise]) as any;
       
       if (result.error) {
-        console.error('DB: Categories query error:', result.error);
+        console.error('DB: Review creation error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Categories query exception:', err);
+      console.error('DB: Review creation exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to fetch categories from database' }
+        error: { message: 'Failed to create review in database' }
       };
     }
   },
 
-  // User profiles
-  getProfile: async (userId: string) => {
+  getUserReviews: async (userId: string) => {
     try {
-      console.log('DB: Getting profile for user:', userId);
+      console.log('DB: Getting reviews for user:', userId);
       
       // Validate UUID format for Supabase queries
       if (!isValidUUID(userId)) {
         console.warn('DB: Invalid UUID format for user ID:', userId);
         return { 
-          data: null, 
+          data: [], 
           error: { message: 'Invalid user ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Profile query timeout')), 10000)
+        setTimeout(() => reject(new Error('User reviews query timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
+        .from('reviews')
+        .select(`
+          *,
+          tools (id, name, logo_url, cover_image_url),
+          review_responses (
+            id, body, responder_id, created_at, updated_at,
+            responder:profiles (name),
+            review_response_revisions (id, body, created_at)
+          )
+        `)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
       
       // Race between the query and timeout
       const result = await Promise.race([queryPromise, timeoutPromise]) as any;
       
       if (result.error) {
-        console.error('DB: Profile query error:', result.error);
+        console.error('DB: User reviews query error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Profile query exception:', err);
+      console.error('DB: User reviews query exception:', err);
       return { 
-        data: null, 
-        error: { message: 'Failed to fetch profile from database' }
+        data: [], 
+        error: { message: 'Failed to fetch user reviews from database' }
       };
     }
   },
 
-  createProfile: async (profile: Database['public']['Tables']['profiles']['Insert']) => {
+  updateReview: async (reviewId: string, updates: Database['public']['Tables']['reviews']['Update']) => {
     try {
-      console.log('DB: Creating profile for user:', profile.id);
+      console.log('DB: Updating review:', reviewId);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(profile.id)) {
-        console.warn('DB: Invalid UUID format for user ID:', profile.id);
+      if (!isValidUUID(reviewId)) {
+        console.warn('DB: Invalid UUID format for review ID:', reviewId);
         return { 
           data: null, 
-          error: { message: 'Invalid user ID format' }
+          error: { message: 'Invalid review ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Profile creation timeout')), 10000)
+        setTimeout(() => reject(new Error('Review update timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('profiles')
-        .insert([profile])
+        .from('reviews')
+        .update(updates)
+        .eq('id', reviewId)
         .select()
         .single();
       
@@ -628,461 +3313,528 @@ export const db = {
       const result = await Promise.race([queryPromise, timeoutPromise]) as any;
       
       if (result.error) {
-        console.error('DB: Profile creation error:', result.error);
+        console.error('DB: Review update error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Profile creation exception:', err);
+      console.error('DB: Review update exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to create profile in database' }
+        error: { message: 'Failed to update review in database' }
       };
     }
   },
 
-  updateProfile: async (userId: string, updates: Database['public']['Tables']['profiles']['Update']) => {
+  deleteReview: async (reviewId: string) => {
     try {
-      console.log('DB: Updating profile for user:', userId);
+      console.log('DB: Deleting review:', reviewId);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(userId)) {
-        console.warn('DB: Invalid UUID format for user ID:', userId);
+      if (!isValidUUID(reviewId)) {
+        console.warn('DB: Invalid UUID format for review ID:', reviewId);
         return { 
           data: null, 
-          error: { message: 'Invalid user ID format' }
+          error: { message: 'Invalid review ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Profile update timeout')), 10000)
+        setTimeout(() => reject(new Error('Review delete timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('profiles')
-        .update(updates)
-        .eq('id', userId)
-        .select()
-        .single();
+        .from('reviews')
+        .delete()
+        .eq('id', reviewId);
       
       // Race between the query and timeout
       const result = await Promise.race([queryPromise, timeoutPromise]) as any;
       
       if (result.error) {
-        console.error('DB: Profile update error:', result.error);
+        console.error('DB: Review delete error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Profile update exception:', err);
+      console.error('DB: Review delete exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to update profile in database' }
+        error: { message: 'Failed to delete review from database' }
       };
     }
   },
 
-  // Bookmarks
-  getBookmarks: async (userId: string) => {
+  // Helpful votes (counts on reviews are kept up to date by a trigger)
+  getReviewVotes: async (userId: string, reviewIds: string[]) => {
     try {
-      console.log('🔍 DB: Fetching bookmarks for user:', userId);
+      console.log('DB: Getting review votes for user:', userId);
       
       // Validate UUID format for Supabase queries
       if (!isValidUUID(userId)) {
         console.warn('DB: Invalid UUID format for user ID:', userId);
         return { 
-          data: [], 
+          data: null, 
           error: { message: 'Invalid user ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Bookmarks fetch timeout')), 10000)
+        setTimeout(() => reject(new Error('Review votes timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('bookmarks')
-        .select(`
-          id,
-          user_id,
-          tool_id,
-          created_at,
-          tools (
-            id,
-            name,
-            description,
-            category,
-            pricing,
-            rating,
-            reviews_count,
-            tags,
-            website_url,
-            featured,
-            verified,
-            created_at,
-            updated_at
-          )
-        `)
+        .from('review_votes')
+        .select('review_id, is_helpful')
         .eq('user_id', userId)
-        .order('created_at', { ascending: false });
+        .in('review_id', reviewIds.filter(isValidUUID));
       
       // Race between the query and timeout
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('❌ DB: Supabase query error:', result.error);
+        console.error('DB: Review votes query error:', result.error);
         throw result.error;
       }
       
-      console.log('✅ DB: Bookmarks fetched successfully:', result.data?.length || 0);
       return result;
+    } catch (err) {
+      console.error('DB: Review votes exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch review votes from database' }
+      };
+    }
+  },
+
+  voteOnReview: async (reviewId: string, userId: string, isHelpful: boolean) => {
+    try {
+      console.log('DB: Voting on review:', reviewId, isHelpful ? 'helpful' : 'not helpful');
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(reviewId) || !isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for review vote:', { reviewId, userId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid review or user ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Review vote timeout')), 10000)
+      );
+      
+      // One vote per user and review; voting again changes it
+      const queryPromise = supabase
+        .from('review_votes')
+        .upsert(
+          { review_id: reviewId, user_id: userId, is_helpful: isHelpful, updated_at: new Date().toISOString() },
+          { onConflict: 'user_id,review_id' }
+        )
+        .select()
+        .single();
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Review vote error:', result.error);
+        throw result.error;
+      }
       
+      return result;
     } catch (err) {
-      console.error('💥 DB: Bookmarks query exception:', err);
+      console.error('DB: Review vote exception:', err);
       return { 
-        data: [], 
-        error: err instanceof Error ? err : new Error('Failed to fetch bookmarks from database')
+        data: null, 
+        error: { message: 'Failed to save review vote to database' }
       };
     }
   },
 
-  addBookmark: async (userId: string, toolId: string) => {
+  removeReviewVote: async (reviewId: string, userId: string) => {
     try {
+      console.log('DB: Removing review vote:', reviewId);
+      
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(userId) || !isValidUUID(toolId)) {
-        console.warn('DB: Invalid UUID format for user ID or tool ID:', { userId, toolId });
+      if (!isValidUUID(reviewId) || !isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for review vote:', { reviewId, userId });
         return { 
           data: null, 
-          error: { message: 'Invalid ID format' }
+          error: { message: 'Invalid review or user ID format' }
         };
       }
       
-      // First check if bookmark already exists
-      const existingBookmark = await supabase
-        .from('bookmarks')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('tool_id', toolId)
-        .single();
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Review vote removal timeout')), 10000)
+      );
       
-      if (existingBookmark.data) {
-        console.log('✅ DB: Bookmark already exists');
-        return {
-          data: [existingBookmark.data],
-          error: null,
-          alreadyExists: true
-        };
-      }
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('review_votes')
+        .delete()
+        .eq('review_id', reviewId)
+        .eq('user_id', userId);
       
-      // Use upsert to handle race conditions
-      const result = await supabase
-        .from('bookmarks')
-        .upsert([{ user_id: userId, tool_id: toolId }], {
-          onConflict: 'user_id,tool_id',
-          ignoreDuplicates: false
-        })
-        .select();
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
-      // Check for silent failures
-      if (!result.error && (!result.data || result.data.length === 0)) {
-        console.warn('⚠️ DB: Silent failure detected - no rows inserted despite no error');
-        return {
-          data: null,
-          error: { message: 'Silent failure: Bookmark not inserted (likely RLS policy violation)' }
-        };
+      if (result.error) {
+        console.error('DB: Review vote removal error:', result.error);
+        throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('💥 DB: Bookmark add exception:', err);
+      console.error('DB: Review vote removal exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to add bookmark to database' }
+        error: { message: 'Failed to remove review vote from database' }
       };
     }
   },
 
-  removeBookmark: async (userId: string, toolId: string) => {
+  // Review reports (a review is hidden automatically past REVIEW_HIDE_THRESHOLD)
+  getReviewReports: async (userId: string, reviewIds: string[]) => {
     try {
-      console.log('🗑️ DB: Removing bookmark for user:', userId, 'tool:', toolId);
-
+      console.log('DB: Getting review reports for user:', userId);
+      
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(userId) || !isValidUUID(toolId)) {
-        console.warn('DB: Invalid UUID format for user ID or tool ID:', { userId, toolId });
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
         return { 
           data: null, 
-          error: { message: 'Invalid ID format' }
+          error: { message: 'Invalid user ID format' }
         };
       }
-
-      const result = await supabase
-        .from('bookmarks')
-        .delete()
-        .eq('user_id', userId)
-        .eq('tool_id', toolId);
-        
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Review reports timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('review_reports')
+        .select('review_id')
+        .eq('reporter_id', userId)
+        .in('review_id', reviewIds.filter(isValidUUID));
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
       if (result.error) {
-        console.error('❌ DB: Remove bookmark error:', result.error);
+        console.error('DB: Review reports query error:', result.error);
         throw result.error;
       }
       
-      console.log('✅ DB: Bookmark removed successfully');
       return result;
     } catch (err) {
-      console.error('💥 DB: Bookmark remove exception:', err);
+      console.error('DB: Review reports exception:', err);
       return { 
         data: null, 
-        error: err instanceof Error ? err : new Error('Failed to remove bookmark from database')
+        error: { message: 'Failed to fetch review reports from database' }
       };
     }
   },
 
-  isBookmarked: async (userId: string, toolId: string) => {
+  reportReview: async (reviewId: string, userId: string, reason: ReviewReportReason, details?: string) => {
     try {
+      console.log('DB: Reporting review:', reviewId, reason);
+      
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(userId) || !isValidUUID(toolId)) {
-        console.warn('DB: Invalid UUID format for user ID or tool ID:', { userId, toolId });
-        return false;
+      if (!isValidUUID(reviewId) || !isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for review report:', { reviewId, userId });
+        return { 
+          data: null, 
+          error: { message: 'Invalid review or user ID format' }
+        };
       }
       
-      const { data } = await supabase
-        .from('bookmarks')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('tool_id', toolId)
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Review report timeout')), 10000)
+      );
+      
+      // Create the actual query promise
+      const queryPromise = supabase
+        .from('review_reports')
+        .insert({
+          review_id: reviewId,
+          reporter_id: userId,
+          reason,
+          details: details?.trim() || null
+        })
+        .select()
         .single();
       
-      return !!data;
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Review report error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
     } catch (err) {
-      console.error('DB: Bookmark check exception:', err);
-      return false;
+      console.error('DB: Review report exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to save review report to database' }
+      };
     }
   },
 
-  // Reviews
-  getReviews: async (toolId: string) => {
+  // Maker responses (one per review; edits are kept as revisions by a trigger)
+  createReviewResponse: async (reviewId: string, userId: string, body: string) => {
     try {
-      console.log('DB: Getting reviews for tool:', toolId);
+      console.log('DB: Responding to review:', reviewId);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(toolId)) {
-        console.warn('DB: Invalid UUID format for tool ID:', toolId);
+      if (!isValidUUID(reviewId) || !isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for review response:', { reviewId, userId });
         return { 
-          data: [], 
-          error: { message: 'Invalid tool ID format' }
+          data: null, 
+          error: { message: 'Invalid review or user ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Reviews query timeout')), 10000)
+        setTimeout(() => reject(new Error('Review response timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('reviews')
-        .select(`
-          *,
-          profiles (name, avatar_url)
-        `)
-        .eq('tool_id', toolId)
-        .order('created_at', { ascending: false });
+        .from('review_responses')
+        .insert({ review_id: reviewId, responder_id: userId, body: body.trim() })
+        .select()
+        .single();
       
       // Race between the query and timeout
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('DB: Reviews query error:', result.error);
+        console.error('DB: Review response error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Reviews query exception:', err);
+      console.error('DB: Review response exception:', err);
       return { 
-        data: [], 
-        error: { message: 'Failed to fetch reviews from database' }
+        data: null, 
+        error: { message: 'Failed to save review response to database' }
       };
     }
   },
 
-  createReview: async (review: Database['public']['Tables']['reviews']['Insert']) => {
+  updateReviewResponse: async (responseId: string, body: string) => {
     try {
-      console.log('DB: Creating review');
+      console.log('DB: Updating review response:', responseId);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(review.user_id) || !isValidUUID(review.tool_id)) {
-        console.warn('DB: Invalid UUID format for user ID or tool ID:', { userId: review.user_id, toolId: review.tool_id });
+      if (!isValidUUID(responseId)) {
+        console.warn('DB: Invalid UUID format for response ID:', responseId);
         return { 
           data: null, 
-          error: { message: 'Invalid ID format' }
+          error: { message: 'Invalid response ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Review creation timeout')), 10000)
+        setTimeout(() => reject(new Error('Review response update timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('reviews')
-        .insert([review])
+        .from('review_responses')
+        .update({ body: body.trim() })
+        .eq('id', responseId)
         .select()
         .single();
       
       // Race between the query and timeout
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('DB: Review creation error:', result.error);
+        console.error('DB: Review response update error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Review creation exception:', err);
+      console.error('DB: Review response update exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to create review in database' }
+        error: { message: 'Failed to update review response in database' }
       };
     }
   },
 
-  getUserReviews: async (userId: string) => {
+  deleteReviewResponse: async (responseId: string) => {
     try {
-      console.log('DB: Getting reviews for user:', userId);
+      console.log('DB: Deleting review response:', responseId);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(userId)) {
-        console.warn('DB: Invalid UUID format for user ID:', userId);
+      if (!isValidUUID(responseId)) {
+        console.warn('DB: Invalid UUID format for response ID:', responseId);
         return { 
-          data: [], 
-          error: { message: 'Invalid user ID format' }
+          data: null, 
+          error: { message: 'Invalid response ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('User reviews query timeout')), 10000)
+        setTimeout(() => reject(new Error('Review response delete timeout')), 10000)
       );
       
       // Create the actual query promise
       const queryPromise = supabase
-        .from('reviews')
-        .select(`
-          *,
-          tools (name)
-        `)
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
+        .from('review_responses')
+        .delete()
+        .eq('id', responseId);
       
       // Race between the query and timeout
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('DB: User reviews query error:', result.error);
+        console.error('DB: Review response delete error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: User reviews query exception:', err);
+      console.error('DB: Review response delete exception:', err);
       return { 
-        data: [], 
-        error: { message: 'Failed to fetch user reviews from database' }
+        data: null, 
+        error: { message: 'Failed to delete review response from database' }
       };
     }
   },
 
-  updateReview: async (reviewId: string, updates: Database['public']['Tables']['reviews']['Update']) => {
+  // Activity log (written by triggers on bookmarks, likes and reviews)
+  getUserActivity: async (userId: string, options?: {
+    page?: number;
+    pageSize?: number;
+    since?: string;
+    until?: string;
+    types?: ActivityEventType[];
+  }) => {
     try {
-      console.log('DB: Updating review:', reviewId);
+      console.log('DB: Getting activity for user:', userId, options);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(reviewId)) {
-        console.warn('DB: Invalid UUID format for review ID:', reviewId);
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
         return { 
           data: null, 
-          error: { message: 'Invalid review ID format' }
+          count: null,
+          error: { message: 'Invalid user ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Review update timeout')), 10000)
+        setTimeout(() => reject(new Error('Activity fetch timeout')), 10000)
       );
       
-      // Create the actual query promise
-      const queryPromise = supabase
-        .from('reviews')
-        .update(updates)
-        .eq('id', reviewId)
-        .select()
-        .single();
+      const pageSize = options?.pageSize || 20;
+      const page = Math.max(1, options?.page || 1);
+      const from = (page - 1) * pageSize;
+      
+      let query = supabase
+        .from('activity_events')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+      
+      if (options?.since) {
+        query = query.gte('created_at', options.since);
+      }
+      
+      if (options?.until) {
+        query = query.lt('created_at', options.until);
+      }
+      
+      if (options?.types?.length) {
+        query = query.in('event_type', options.types);
+      }
+      
+      // Newest first; id is the tie-breaker so pages never overlap
+      const queryPromise = query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1);
       
       // Race between the query and timeout
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('DB: Review update error:', result.error);
+        console.error('DB: Activity fetch error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Review update exception:', err);
+      console.error('DB: Activity fetch exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to update review in database' }
+        count: null,
+        error: { message: 'Failed to fetch activity from database' }
       };
     }
   },
 
-  deleteReview: async (reviewId: string) => {
+  getUserActivityStats: async (userId: string, range?: { since?: string; until?: string }) => {
     try {
-      console.log('DB: Deleting review:', reviewId);
+      console.log('DB: Getting activity stats for user:', userId, range);
       
       // Validate UUID format for Supabase queries
-      if (!isValidUUID(reviewId)) {
-        console.warn('DB: Invalid UUID format for review ID:', reviewId);
+      if (!isValidUUID(userId)) {
+        console.warn('DB: Invalid UUID format for user ID:', userId);
         return { 
           data: null, 
-          error: { message: 'Invalid review ID format' }
+          error: { message: 'Invalid user ID format' }
         };
       }
       
       // Set a timeout for the request
       const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Review delete timeout')), 10000)
+        setTimeout(() => reject(new Error('Activity stats timeout')), 10000)
       );
       
-      // Create the actual query promise
       const queryPromise = supabase
-        .from('reviews')
-        .delete()
-        .eq('id', reviewId);
+        .rpc('get_user_activity_stats', {
+          user_uuid: userId,
+          since: range?.since || null,
+          until: range?.until || null
+        });
       
       // Race between the query and timeout
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
       
       if (result.error) {
-        console.error('DB: Review delete error:', result.error);
+        console.error('DB: Activity stats error:', result.error);
         throw result.error;
       }
       
       return result;
     } catch (err) {
-      console.error('DB: Review delete exception:', err);
+      console.error('DB: Activity stats exception:', err);
       return { 
         data: null, 
-        error: { message: 'Failed to delete review from database' }
+        error: { message: 'Failed to fetch activity stats from database' }
       };
     }
   },
@@ -1130,6 +3882,48 @@ export const db = {
     }
   },
 
+  getToolLikeIds: async (toolId: string) => {
+    try {
+      console.log('DB: Getting tool like ids:', toolId);
+      
+      // Validate UUID format for Supabase queries
+      if (!isValidUUID(toolId)) {
+        console.warn('DB: Invalid UUID format for tool ID:', toolId);
+        return { 
+          data: null, 
+          error: { message: 'Invalid tool ID format' }
+        };
+      }
+      
+      // Set a timeout for the request
+      const timeoutPromise = new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Tool like ids timeout')), 10000)
+      );
+      
+      // Realtime deletes only carry the like id; callers match them against these
+      const queryPromise = supabase
+        .from('likes')
+        .select('id')
+        .eq('tool_id', toolId);
+      
+      // Race between the query and timeout
+      const result = await Promise.race([queryPromise, timeoutPromise]) as Awaited<typeof queryPromise>;
+      
+      if (result.error) {
+        console.error('DB: Tool like ids error:', result.error);
+        throw result.error;
+      }
+      
+      return result;
+    } catch (err) {
+      console.error('DB: Tool like ids exception:', err);
+      return { 
+        data: null, 
+        error: { message: 'Failed to fetch tool likes from database' }
+      };
+    }
+  },
+
   getToolLikes: async (toolId: string, userId?: string) => {
     try {
       console.log('DB: Getting tool likes count and user status:', toolId, userId);
@@ -11,6 +11,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '../types/database';
+import { PlatformStats } from '../types';
 import { performanceDiagnostics } from '../utils/performanceDiagnostics';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -215,6 +216,9 @@ export const optimizedBookmarkOps = {
                 reviews_count,
                 tags,
                 website_url,
+                logo_url,
+                cover_image_url,
+                screenshot_urls,
                 featured,
                 verified,
                 created_at,
@@ -554,6 +558,49 @@ export const optimizedUserOps = {
   },
 };
 
+// Platform-wide aggregates
+export const optimizedStatsOps = {
+  /**
+   * Get the home page headline numbers (short TTL, they change constantly)
+   */
+  getPlatformStats: async () => {
+    const cacheKey = 'platform-stats';
+    const cached = queryCache.get<PlatformStats>(cacheKey);
+
+    if (cached) {
+      console.log('📦 Cache hit for platform stats');
+      return { data: cached, error: null, fromCache: true };
+    }
+
+    return performanceDiagnostics.measureDatabaseQuery(
+      'getPlatformStats',
+      async () => {
+        const result = await withRetry(async () => {
+          const { data, error } = await supabaseOptimized.rpc('get_platform_stats');
+
+          if (error) throw error;
+          if (!data?.[0]) throw new Error('Platform stats unavailable');
+          return data[0];
+        });
+
+        const stats: PlatformStats = {
+          toolCount: Number(result.tool_count),
+          activeUsers: Number(result.active_users),
+          reviewCount: Number(result.review_count),
+          newToolsThisWeek: Number(result.new_tools_this_week),
+          likeCount: Number(result.like_count),
+        };
+
+        // Cache the result
+        queryCache.set(cacheKey, stats, 60 * 1000); // 1 minute
+
+        return { data: stats, error: null, fromCache: false };
+      },
+      'tools'
+    );
+  },
+};
+
 // Batch operations for better performance
 export const batchOps = {
   /**
@@ -591,6 +638,10 @@ export const cacheUtils = {
   invalidateUser: (userId: string) => {
     queryCache.invalidate(userId);
   },
+
+  invalidate: (pattern: string) => {
+    queryCache.invalidate(pattern);
+  },
   
   invalidateAll: () => {
     queryCache.clear();
@@ -616,6 +667,7 @@ export default {
   bookmarks: optimizedBookmarkOps,
   tools: optimizedToolOps,
   users: optimizedUserOps,
+  stats: optimizedStatsOps,
   batch: batchOps,
   cache: cacheUtils,
   performance: performanceUtils,
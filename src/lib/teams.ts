@@ -0,0 +1,87 @@
+import { Database } from '../types/database';
+import {
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  OrganizationRole,
+  TeamToolNote,
+  ToolApprovalStatus
+} from '../types';
+
+type Tables = Database['public']['Tables'];
+type ProfileSummary = { name: string | null; email?: string | null; avatar_url?: string | null } | null;
+
+// Mirrors the CHECK constraints in the team workspaces migration
+export const MAX_ORGANIZATION_NAME_LENGTH = 80;
+export const MAX_ORGANIZATION_DESCRIPTION_LENGTH = 500;
+export const MAX_TEAM_NOTE_LENGTH = 2000;
+
+export const ORGANIZATION_ROLE_OPTIONS: { value: OrganizationRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Manages the team, its owners and can delete it' },
+  { value: 'admin', label: 'Admin', description: 'Invites people and sets tool statuses' },
+  { value: 'member', label: 'Member', description: 'Sees the team stack, adds notes and edits team collections' }
+];
+
+export const TOOL_APPROVAL_STATUS_OPTIONS: {
+  value: ToolApprovalStatus;
+  label: string;
+  badgeClass: string;
+}[] = [
+  { value: 'approved', label: 'Approved for use', badgeClass: 'bg-emerald-100 text-emerald-800 border-emerald-200' },
+  { value: 'evaluating', label: 'Under evaluation', badgeClass: 'bg-amber-100 text-amber-800 border-amber-200' },
+  { value: 'banned', label: 'Banned', badgeClass: 'bg-red-100 text-red-800 border-red-200' }
+];
+
+export const getRoleLabel = (role: OrganizationRole) =>
+  ORGANIZATION_ROLE_OPTIONS.find(option => option.value === role)?.label ?? role;
+
+export const getToolStatusOption = (status: ToolApprovalStatus) =>
+  TOOL_APPROVAL_STATUS_OPTIONS.find(option => option.value === status) ?? TOOL_APPROVAL_STATUS_OPTIONS[1];
+
+export const isOrganizationAdmin = (role?: OrganizationRole | null) =>
+  role === 'owner' || role === 'admin';
+
+export const toOrganization = (
+  row: Tables['organizations']['Row'],
+  role: OrganizationRole
+): Organization => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  role,
+  createdAt: row.created_at
+});
+
+export const toOrganizationMember = (
+  row: Tables['organization_members']['Row'] & { profiles?: ProfileSummary }
+): OrganizationMember => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  userId: row.user_id,
+  role: row.role,
+  name: row.profiles?.name || row.profiles?.email || 'Unknown member',
+  email: row.profiles?.email ?? undefined,
+  avatar: row.profiles?.avatar_url ?? undefined,
+  joinedAt: row.created_at
+});
+
+export const toOrganizationInvite = (row: Tables['organization_invites']['Row']): OrganizationInvite => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  email: row.email,
+  role: row.role,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at
+});
+
+export const toTeamToolNote = (
+  row: Tables['organization_tool_notes']['Row'] & { profiles?: ProfileSummary }
+): TeamToolNote => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  toolId: row.tool_id,
+  userId: row.user_id,
+  authorName: row.profiles?.name ?? undefined,
+  content: row.content,
+  createdAt: row.created_at
+});
@@ -0,0 +1,181 @@
+import { Tool, ToolMedia, ToolStatus } from '../types';
+import { Database } from '../types/database';
+import { toCriteriaRatings } from './reviewCriteria';
+
+type ToolRow = Database['public']['Tables']['tools']['Row'];
+type ToolInsert = Database['public']['Tables']['tools']['Insert'];
+type ToolUpdate = Database['public']['Tables']['tools']['Update'];
+type FeatureRow = Database['public']['Tables']['tool_features']['Row'];
+
+// Matches the tools_screenshot_urls_max constraint
+export const MAX_TOOL_SCREENSHOTS = 8;
+
+// SubmitTool limits; the feature length matches the tool_features check constraint
+export const MAX_TOOL_FEATURES = 10;
+export const MAX_TOOL_FEATURE_LENGTH = 100;
+
+// Shown until a tool has its own image
+export const DEFAULT_TOOL_IMAGE = 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg?auto=compress&cs=tinysrgb&w=400';
+
+const PRICING_VALUES: Tool['pricing'][] = ['free', 'freemium', 'paid'];
+const STATUS_VALUES: ToolStatus[] = ['pending', 'approved', 'rejected', 'changes_requested'];
+
+// Joined selects return a subset of columns; search results add highlight snippets
+type ToolRowInput = Partial<ToolRow> & {
+  name_highlight?: string;
+  description_highlight?: string;
+  tool_features?: Pick<FeatureRow, 'feature' | 'position'>[];
+};
+
+// Fields a caller provides when creating a tool
+export interface ToolInsertInput {
+  name: string;
+  description: string;
+  category: string;
+  pricing: Tool['pricing'];
+  url: string;
+  tags?: string[];
+  media?: Partial<ToolMedia>;
+}
+
+const isPricing = (value: unknown): value is Tool['pricing'] =>
+  PRICING_VALUES.includes(value as Tool['pricing']);
+
+/**
+ * Check that a `tools` row has what the UI relies on.
+ * Returns the reason it is malformed, or null when it is usable.
+ */
+export const validateToolRow = (row: unknown): string | null => {
+  if (!row || typeof row !== 'object') {
+    return 'row is not an object';
+  }
+
+  const r = row as Record<string, unknown>;
+
+  if (typeof r.id !== 'string' || !r.id) return 'missing id';
+  if (typeof r.name !== 'string' || !r.name.trim()) return 'missing name';
+  if (typeof r.website_url !== 'string' || !r.website_url) return 'missing website_url';
+  if (r.pricing != null && !isPricing(r.pricing)) return `unknown pricing "${String(r.pricing)}"`;
+  if (r.tags != null && !Array.isArray(r.tags)) return 'tags is not an array';
+  if (r.rating != null && Number.isNaN(Number(r.rating))) return 'rating is not a number';
+  if (r.status != null && !STATUS_VALUES.includes(r.status as ToolStatus)) return `unknown status "${String(r.status)}"`;
+  if (r.screenshot_urls != null && !Array.isArray(r.screenshot_urls)) return 'screenshot_urls is not an array';
+  if (r.tool_features != null && !Array.isArray(r.tool_features)) return 'tool_features is not an array';
+
+  return null;
+};
+
+/**
+ * Map a `tools` row to the Tool domain type.
+ * Malformed rows are logged and rejected (null) instead of reaching components.
+ */
+export const toTool = (row: unknown): Tool | null => {
+  const reason = validateToolRow(row);
+  if (reason) {
+    console.warn(`ToolMapper: Rejected tool row (${reason}):`, row);
+    return null;
+  }
+
+  const tool = row as ToolRowInput & Pick<ToolRow, 'id' | 'name' | 'website_url'>;
+  const now = new Date().toISOString();
+  const media: ToolMedia = {
+    logo: tool.logo_url || null,
+    cover: tool.cover_image_url || null,
+    screenshots: tool.screenshot_urls || []
+  };
+
+  return {
+    id: tool.id,
+    name: tool.name,
+    description: tool.description || '',
+    category: tool.category || '',
+    pricing: tool.pricing || 'free',
+    rating: Number(tool.rating) || 0,
+    reviews: tool.reviews_count || 0,
+    tags: tool.tags || [],
+    image: media.cover || media.logo || DEFAULT_TOOL_IMAGE,
+    media,
+    url: tool.website_url,
+    featured: tool.featured || false,
+    verified: tool.verified || false,
+    addedDate: tool.created_at || now,
+    lastUpdated: tool.updated_at || now,
+    status: tool.status || 'approved',
+    submittedBy: tool.submitted_by ?? null,
+    criteriaRatings: toCriteriaRatings(tool),
+    ...(tool.ranking_score !== undefined && {
+      rankingScore: Number(tool.ranking_score),
+      trendingScore: Number(tool.trending_score) || 0
+    }),
+    ...(tool.tool_features && {
+      features: [...tool.tool_features]
+        .sort((a, b) => a.position - b.position)
+        .map(f => f.feature)
+    }),
+    ...(tool.name_highlight && {
+      highlight: {
+        name: tool.name_highlight,
+        description: tool.description_highlight || tool.description || ''
+      }
+    })
+  };
+};
+
+// Map a list of rows, dropping any that fail validation
+export const toTools = (rows: unknown[] | null | undefined): Tool[] =>
+  (rows || []).map(toTool).filter((tool): tool is Tool => tool !== null);
+
+// Validate and normalize the columns a submitter controls
+const toEditableColumns = (input: ToolInsertInput) => {
+  if (!input.name?.trim() || !input.description?.trim() || !input.category) {
+    throw new Error('Missing required fields: name, description, or category');
+  }
+
+  if (!input.url?.trim()) {
+    throw new Error('Website URL is required');
+  }
+
+  if (!isPricing(input.pricing)) {
+    throw new Error(`Unknown pricing model: ${input.pricing}`);
+  }
+
+  return {
+    name: input.name.trim(),
+    description: input.description.trim(),
+    category: input.category,
+    pricing: input.pricing,
+    website_url: input.url.trim(),
+    tags: (input.tags || []).map(tag => tag.trim()).filter(Boolean),
+    logo_url: input.media?.logo || null,
+    cover_image_url: input.media?.cover || null,
+    screenshot_urls: (input.media?.screenshots || []).slice(0, MAX_TOOL_SCREENSHOTS)
+  };
+};
+
+/**
+ * Build a `tools` insert payload from submitted tool data.
+ * Throws with a user-facing message when required fields are missing.
+ */
+export const fromToolInsert = (input: ToolInsertInput): ToolInsert => ({
+  ...toEditableColumns(input),
+  rating: 0,
+  reviews_count: 0,
+  featured: false,
+  verified: false,
+  status: 'pending'
+});
+
+/**
+ * Build a `tools` update payload for an owner editing their listing.
+ * Only touches submitter-controlled columns; throws like fromToolInsert.
+ */
+export const fromToolUpdate = (input: ToolInsertInput): ToolUpdate => ({
+  ...toEditableColumns(input),
+  updated_at: new Date().toISOString()
+});
+
+// Clean a submitted feature list: trimmed, non-empty, unique, within limits
+export const normalizeToolFeatures = (features: string[]): string[] =>
+  Array.from(new Set(features.map(f => f.trim()).filter(Boolean)))
+    .map(f => f.slice(0, MAX_TOOL_FEATURE_LENGTH))
+    .slice(0, MAX_TOOL_FEATURES);
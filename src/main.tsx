@@ -1,5 +1,6 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import { BrowserRouter } from 'react-router-dom';
 import App from './App.tsx';
 import { AuthLoader } from './components/AuthLoader.tsx';
 import { BookmarkProvider } from './contexts/BookmarkContext.tsx';
@@ -8,12 +9,14 @@ import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <AuthProvider>
-      <AuthLoader>
-        <BookmarkProvider>
-          <App />
-        </BookmarkProvider>
-      </AuthLoader>
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <AuthLoader>
+          <BookmarkProvider>
+            <App />
+          </BookmarkProvider>
+        </AuthLoader>
+      </AuthProvider>
+    </BrowserRouter>
   </StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  ShieldCheck,
+  Check,
+  X,
+  MessageSquare,
+  ExternalLink,
+  Clock,
+  Loader2,
+  Inbox,
+  Mail
+} from 'lucide-react';
+import { Tool, ToolStatus } from '../types';
+import { db } from '../lib/supabase';
+import { toTool } from '../lib/toolMapper';
+import { sendModerationEmail } from '../lib/email';
+
+interface AdminModerationProps {
+  adminId: string;
+  onToolClick: (toolId: string) => void;
+}
+
+interface Submission {
+  tool: Tool;
+  submitter: { id: string; name: string; email: string } | null;
+  contactEmail: string | null;
+  note: string | null;
+}
+
+type Decision = Exclude<ToolStatus, 'pending'>;
+
+const QUEUE_TABS: { id: ToolStatus; label: string }[] = [
+  { id: 'pending', label: 'Pending' },
+  { id: 'changes_requested', label: 'Changes Requested' },
+  { id: 'rejected', label: 'Rejected' }
+];
+
+const AdminModeration: React.FC<AdminModerationProps> = ({ adminId, onToolClick }) => {
+  const [activeTab, setActiveTab] = useState<ToolStatus>('pending');
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Tool whose reject / request-changes form is open
+  const [reasonFor, setReasonFor] = useState<{ toolId: string; decision: Decision } | null>(null);
+  const [reason, setReason] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await db.getModerationQueue(activeTab);
+    if (fetchError || !data) {
+      setError(fetchError?.message || 'Failed to load submissions');
+      setSubmissions([]);
+    } else {
+      setSubmissions(
+        data.flatMap((row) => {
+          const tool = toTool(row);
+          // One-to-one embeds may come back as an object or a single-item array
+          const contact = Array.isArray(row.contact) ? row.contact[0] : row.contact;
+          return tool ? [{
+            tool,
+            submitter: row.submitter || null,
+            contactEmail: contact?.contact_email || null,
+            note: row.moderation_note
+          }] : [];
+        })
+      );
+    }
+
+    setLoading(false);
+  }, [activeTab]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const openReasonForm = (toolId: string, decision: Decision) => {
+    setReasonFor({ toolId, decision });
+    setReason('');
+  };
+
+  const handleDecision = async (submission: Submission, decision: Decision, note?: string) => {
+    if (decision !== 'approved' && !note?.trim()) {
+      toast.error('Please give the submitter a reason');
+      return;
+    }
+
+    setSavingId(submission.tool.id);
+    const { error: moderationError } = await db.moderateTool(submission.tool.id, adminId, decision, note);
+
+    if (moderationError) {
+      toast.error(moderationError.message);
+      setSavingId(null);
+      return;
+    }
+
+    // The decision is saved even if the email fails; just let the admin know.
+    // The contact given on the form takes precedence over the account email.
+    const recipient = submission.contactEmail || submission.submitter?.email;
+    if (decision !== 'approved' && note && recipient) {
+      const { error: emailError } = await sendModerationEmail({
+        to: recipient,
+        submitterName: submission.submitter?.name,
+        toolName: submission.tool.name,
+        decision,
+        reason: note
+      });
+      if (emailError) {
+        toast.error('Decision saved, but the email to the submitter failed');
+      }
+    }
+
+    const messages: Record<Decision, string> = {
+      approved: `${submission.tool.name} is now live`,
+      rejected: `${submission.tool.name} was rejected`,
+      changes_requested: `Changes requested for ${submission.tool.name}`
+    };
+    toast.success(messages[decision]);
+
+    setSubmissions(prev => prev.filter(s => s.tool.id !== submission.tool.id));
+    setReasonFor(null);
+    setSavingId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center space-x-4 mb-8"
+        >
+          <div className="w-12 h-12 bg-primary-100 text-primary-600 rounded-xl flex items-center justify-center">
+            <ShieldCheck className="h-6 w-6" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Moderation Queue</h1>
+            <p className="text-gray-600">Review submitted tools before they appear in the catalog</p>
+          </div>
+        </motion.div>
+
+        <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+          {/* Tabs */}
+          <div className="border-b border-gray-200">
+            <nav className="flex">
+              {QUEUE_TABS.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-6 py-4 font-medium text-sm transition-colors ${
+                    activeTab === tab.id
+                      ? 'border-b-2 border-primary-500 text-primary-600 bg-primary-50'
+                      : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          <div className="p-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-16 text-gray-500">
+                <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                <span>Loading submissions...</span>
+              </div>
+            ) : error ? (
+              <div className="text-center py-16">
+                <p className="text-red-600 mb-4">{error}</p>
+                <button
+                  onClick={loadQueue}
+                  className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+                >
+                  Try Again
+                </button>
+              </div>
+            ) : submissions.length === 0 ? (
+              <div className="text-center py-16">
+                <Inbox className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-600">Nothing here right now.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <AnimatePresence>
+                  {submissions.map((submission) => {
+                    const { tool, submitter, contactEmail, note } = submission;
+                    const isSaving = savingId === tool.id;
+                    const formOpen = reasonFor?.toolId === tool.id;
+
+                    return (
+                      <motion.div
+                        key={tool.id}
+                        layout
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, x: -20 }}
+                        className="border border-gray-200 rounded-xl p-5"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="flex items-start space-x-4 min-w-0">
+                            <img
+                              src={tool.media?.logo || tool.image}
+                              alt=""
+                              className="w-14 h-14 rounded-lg object-cover border border-gray-200 flex-shrink-0"
+                            />
+                            <div className="min-w-0">
+                              <button
+                                onClick={() => onToolClick(tool.id)}
+                                className="text-lg font-semibold text-gray-900 hover:text-primary-600 transition-colors text-left"
+                              >
+                                {tool.name}
+                              </button>
+                              <p className="text-gray-600 text-sm mb-2">{tool.description}</p>
+                              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                                <span className="px-2 py-1 bg-primary-100 text-primary-700 rounded">{tool.category}</span>
+                                <span className="px-2 py-1 bg-gray-100 rounded capitalize">{tool.pricing}</span>
+                                <span className="flex items-center">
+                                  <Clock className="h-3 w-3 mr-1" />
+                                  {new Date(tool.addedDate).toLocaleDateString()}
+                                </span>
+                                <span>
+                                  by {submitter ? `${submitter.name} (${submitter.email})` : 'unknown submitter'}
+                                </span>
+                                {contactEmail && contactEmail !== submitter?.email && (
+                                  <a
+                                    href={`mailto:${contactEmail}`}
+                                    className="flex items-center text-primary-600 hover:text-primary-700"
+                                  >
+                                    <Mail className="h-3 w-3 mr-1" />
+                                    {contactEmail}
+                                  </a>
+                                )}
+                                <a
+                                  href={tool.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center text-primary-600 hover:text-primary-700"
+                                >
+                                  Website
+                                  <ExternalLink className="h-3 w-3 ml-1" />
+                                </a>
+                              </div>
+                              {note && (
+                                <p className="mt-3 text-sm text-gray-700 bg-gray-50 border-l-4 border-gray-300 px-3 py-2">
+                                  {note}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+
+                          <div className="flex flex-col space-y-2 flex-shrink-0">
+                            <button
+                              onClick={() => handleDecision(submission, 'approved')}
+                              disabled={isSaving}
+                              className="flex items-center justify-center space-x-1 px-3 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                            >
+                              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                              <span>Approve</span>
+                            </button>
+                            {activeTab !== 'changes_requested' && (
+                              <button
+                                onClick={() => openReasonForm(tool.id, 'changes_requested')}
+                                disabled={isSaving}
+                                className="flex items-center justify-center space-x-1 px-3 py-2 border border-yellow-300 text-yellow-800 text-sm rounded-lg hover:bg-yellow-50 transition-colors disabled:opacity-50"
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                                <span>Request Changes</span>
+                              </button>
+                            )}
+                            {activeTab !== 'rejected' && (
+                              <button
+                                onClick={() => openReasonForm(tool.id, 'rejected')}
+                                disabled={isSaving}
+                                className="flex items-center justify-center space-x-1 px-3 py-2 border border-red-300 text-red-700 text-sm rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                              >
+                                <X className="h-4 w-4" />
+                                <span>Reject</span>
+                              </button>
+                            )}
+                          </div>
+                        </div>
+
+                        {formOpen && reasonFor && (
+                          <div className="mt-4 pt-4 border-t border-gray-100">
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              {reasonFor.decision === 'rejected' ? 'Reason for rejection' : 'What needs to change?'}
+                              <span className="text-gray-500 font-normal"> (emailed to the submitter)</span>
+                            </label>
+                            <textarea
+                              value={reason}
+                              onChange={(e) => setReason(e.target.value)}
+                              rows={3}
+                              maxLength={1000}
+                              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                              autoFocus
+                            />
+                            <div className="flex justify-end space-x-2 mt-2">
+                              <button
+                                onClick={() => setReasonFor(null)}
+                                disabled={isSaving}
+                                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => handleDecision(submission, reasonFor.decision, reason)}
+                                disabled={isSaving || !reason.trim()}
+                                className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+                              >
+                                {reasonFor.decision === 'rejected' ? 'Reject & Notify' : 'Request Changes & Notify'}
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </motion.div>
+                    );
+                  })}
+                </AnimatePresence>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminModeration;
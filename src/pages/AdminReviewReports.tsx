@@ -0,0 +1,397 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  Flag,
+  RotateCcw,
+  Trash2,
+  AlertTriangle,
+  Loader2,
+  Inbox,
+  EyeOff,
+  History
+} from 'lucide-react';
+import { ReviewModerationAction, ReviewReportReason } from '../types';
+import { db } from '../lib/supabase';
+import { describeModerationAction, getReportReasonLabel } from '../lib/reviewReports';
+import { sendReviewWarningEmail } from '../lib/email';
+import { StarRating } from '../components/StarRating';
+
+interface AdminReviewReportsProps {
+  onToolClick: (toolId: string) => void;
+}
+
+interface ReportedReview {
+  id: string;
+  rating: number;
+  comment: string;
+  status: 'published' | 'hidden';
+  createdAt: string;
+  author: { id: string; name: string; email: string } | null;
+  tool: { id: string; name: string } | null;
+  reports: { id: string; reason: ReviewReportReason; details: string | null; status: string }[];
+}
+
+interface AuditEntry {
+  id: string;
+  action: ReviewModerationAction;
+  note: string | null;
+  createdAt: string;
+  actorName: string | null;
+  subjectName: string | null;
+  comment: string | null;
+}
+
+type QueueTab = 'open' | 'hidden' | 'log';
+
+const QUEUE_TABS: { id: QueueTab; label: string }[] = [
+  { id: 'open', label: 'Open Reports' },
+  { id: 'hidden', label: 'Hidden Reviews' },
+  { id: 'log', label: 'Audit Log' }
+];
+
+// One-to-one embeds may come back as an object or a single-item array
+const single = <T,>(value: T | T[] | null | undefined): T | null =>
+  (Array.isArray(value) ? value[0] : value) ?? null;
+
+const AdminReviewReports: React.FC<AdminReviewReportsProps> = ({ onToolClick }) => {
+  const [activeTab, setActiveTab] = useState<QueueTab>('open');
+  const [reviews, setReviews] = useState<ReportedReview[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Review whose warn / delete form is open
+  const [noteFor, setNoteFor] = useState<{ reviewId: string; action: Exclude<ReviewModerationAction, 'restore'> } | null>(null);
+  const [note, setNote] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    if (activeTab === 'log') {
+      const { data, error: fetchError } = await db.getModerationAuditLog();
+      if (fetchError || !data) {
+        setError(fetchError?.message || 'Failed to load the audit log');
+        setAuditLog([]);
+      } else {
+        setAuditLog(data.map((row) => ({
+          id: row.id,
+          action: row.action,
+          note: row.note,
+          createdAt: row.created_at,
+          actorName: single(row.actor)?.name || null,
+          subjectName: single(row.subject)?.name || null,
+          comment: typeof row.snapshot?.comment === 'string' ? row.snapshot.comment : null
+        })));
+      }
+    } else {
+      const { data, error: fetchError } = await db.getReportedReviews(activeTab);
+      if (fetchError || !data) {
+        setError(fetchError?.message || 'Failed to load reported reviews');
+        setReviews([]);
+      } else {
+        const mapped = data.map((row) => ({
+          id: row.id,
+          rating: row.rating,
+          comment: row.comment,
+          status: row.status,
+          createdAt: row.created_at,
+          author: single(row.author),
+          tool: single(row.tool),
+          reports: row.review_reports || []
+        }));
+        // Most reported first
+        setReviews(mapped.sort((a, b) => b.reports.length - a.reports.length));
+      }
+    }
+
+    setLoading(false);
+  }, [activeTab]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const openNoteForm = (reviewId: string, action: Exclude<ReviewModerationAction, 'restore'>) => {
+    setNoteFor({ reviewId, action });
+    setNote('');
+  };
+
+  const handleDecision = async (review: ReportedReview, action: ReviewModerationAction, decisionNote?: string) => {
+    if (action === 'warn' && !decisionNote?.trim()) {
+      toast.error('Please tell the author what was wrong');
+      return;
+    }
+
+    setSavingId(review.id);
+    const { error: moderationError } = await db.moderateReview(review.id, action, decisionNote);
+
+    if (moderationError) {
+      toast.error(moderationError.message);
+      setSavingId(null);
+      return;
+    }
+
+    // The decision is logged even if the email fails; just let the admin know
+    if (action === 'warn' && decisionNote && review.author?.email) {
+      const { error: emailError } = await sendReviewWarningEmail({
+        to: review.author.email,
+        authorName: review.author.name,
+        toolName: review.tool?.name || 'a tool',
+        reason: decisionNote
+      });
+      if (emailError) {
+        toast.error('Warning logged, but the email to the author failed');
+      }
+    }
+
+    const messages: Record<ReviewModerationAction, string> = {
+      restore: 'Review restored',
+      delete: 'Review deleted',
+      warn: `${review.author?.name || 'The author'} was warned`
+    };
+    toast.success(messages[action]);
+
+    // A warned review that is still hidden stays in the hidden queue
+    if (!(action === 'warn' && activeTab === 'hidden')) {
+      setReviews(prev => prev.filter(r => r.id !== review.id));
+    }
+    setNoteFor(null);
+    setSavingId(null);
+  };
+
+  const renderAuditLog = () => (
+    <div className="divide-y divide-gray-100">
+      {auditLog.map((entry) => (
+        <div key={entry.id} className="py-4 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-sm text-gray-900">
+              <span className="font-medium">{entry.actorName || 'An admin'}</span>{' '}
+              {describeModerationAction(entry.action)}{' '}
+              <span className="font-medium">{entry.subjectName || 'a deleted user'}</span>
+            </p>
+            {entry.comment && (
+              <p className="text-sm text-gray-500 truncate">“{entry.comment}”</p>
+            )}
+            {entry.note && (
+              <p className="mt-1 text-sm text-gray-700 bg-gray-50 border-l-4 border-gray-300 px-3 py-1">{entry.note}</p>
+            )}
+          </div>
+          <span className="text-xs text-gray-500 flex-shrink-0">
+            {new Date(entry.createdAt).toLocaleString()}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const isEmpty = activeTab === 'log' ? auditLog.length === 0 : reviews.length === 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center space-x-4 mb-8"
+        >
+          <div className="w-12 h-12 bg-red-100 text-red-600 rounded-xl flex items-center justify-center">
+            <Flag className="h-6 w-6" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Reported Reviews</h1>
+            <p className="text-gray-600">Restore, delete or warn; every decision is recorded in the audit log</p>
+          </div>
+        </motion.div>
+
+        <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+          {/* Tabs */}
+          <div className="border-b border-gray-200">
+            <nav className="flex">
+              {QUEUE_TABS.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-6 py-4 font-medium text-sm transition-colors ${
+                    activeTab === tab.id
+                      ? 'border-b-2 border-primary-500 text-primary-600 bg-primary-50'
+                      : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          <div className="p-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-16 text-gray-500">
+                <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                <span>Loading...</span>
+              </div>
+            ) : error ? (
+              <div className="text-center py-16">
+                <p className="text-red-600 mb-4">{error}</p>
+                <button
+                  onClick={loadQueue}
+                  className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+                >
+                  Try Again
+                </button>
+              </div>
+            ) : isEmpty ? (
+              <div className="text-center py-16">
+                {activeTab === 'log' ? (
+                  <History className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                ) : (
+                  <Inbox className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                )}
+                <p className="text-gray-600">Nothing here right now.</p>
+              </div>
+            ) : activeTab === 'log' ? (
+              renderAuditLog()
+            ) : (
+              <div className="space-y-4">
+                <AnimatePresence>
+                  {reviews.map((review) => {
+                    const isSaving = savingId === review.id;
+                    const formOpen = noteFor?.reviewId === review.id;
+                    const openReports = review.reports.filter(report => report.status === 'open');
+
+                    return (
+                      <motion.div
+                        key={review.id}
+                        layout
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, x: -20 }}
+                        className="border border-gray-200 rounded-xl p-5"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <div className="flex flex-wrap items-center gap-2 mb-1">
+                              <span className="font-semibold text-gray-900">
+                                {review.author?.name || 'Unknown author'}
+                              </span>
+                              <StarRating rating={review.rating} readonly size="sm" />
+                              {review.status === 'hidden' && (
+                                <span className="flex items-center text-xs px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full">
+                                  <EyeOff className="h-3 w-3 mr-1" />
+                                  Hidden
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-500 mb-2">
+                              {review.author?.email}
+                              {review.tool && (
+                                <>
+                                  {' · on '}
+                                  <button
+                                    onClick={() => onToolClick(review.tool!.id)}
+                                    className="text-primary-600 hover:text-primary-700"
+                                  >
+                                    {review.tool.name}
+                                  </button>
+                                </>
+                              )}
+                              {' · '}
+                              {new Date(review.createdAt).toLocaleDateString()}
+                            </p>
+                            <p className="text-gray-700 whitespace-pre-wrap">{review.comment}</p>
+
+                            {openReports.length > 0 && (
+                              <div className="mt-3 space-y-1">
+                                <p className="text-sm font-medium text-red-700">
+                                  {openReports.length} open {openReports.length === 1 ? 'report' : 'reports'}
+                                </p>
+                                {openReports.map((report) => (
+                                  <p key={report.id} className="text-sm text-gray-600">
+                                    <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded text-xs mr-2">
+                                      {getReportReasonLabel(report.reason)}
+                                    </span>
+                                    {report.details}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+
+                          <div className="flex flex-col space-y-2 flex-shrink-0">
+                            <button
+                              onClick={() => handleDecision(review, 'restore')}
+                              disabled={isSaving}
+                              className="flex items-center justify-center space-x-1 px-3 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                            >
+                              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                              <span>{review.status === 'hidden' ? 'Restore' : 'Keep'}</span>
+                            </button>
+                            <button
+                              onClick={() => openNoteForm(review.id, 'warn')}
+                              disabled={isSaving}
+                              className="flex items-center justify-center space-x-1 px-3 py-2 border border-yellow-300 text-yellow-800 text-sm rounded-lg hover:bg-yellow-50 transition-colors disabled:opacity-50"
+                            >
+                              <AlertTriangle className="h-4 w-4" />
+                              <span>Warn Author</span>
+                            </button>
+                            <button
+                              onClick={() => openNoteForm(review.id, 'delete')}
+                              disabled={isSaving}
+                              className="flex items-center justify-center space-x-1 px-3 py-2 border border-red-300 text-red-700 text-sm rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span>Delete</span>
+                            </button>
+                          </div>
+                        </div>
+
+                        {formOpen && noteFor && (
+                          <div className="mt-4 pt-4 border-t border-gray-100">
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              {noteFor.action === 'warn' ? 'What was wrong with this review?' : 'Reason for deleting'}
+                              <span className="text-gray-500 font-normal">
+                                {noteFor.action === 'warn' ? ' (emailed to the author)' : ' (optional, kept in the audit log)'}
+                              </span>
+                            </label>
+                            <textarea
+                              value={note}
+                              onChange={(e) => setNote(e.target.value)}
+                              rows={3}
+                              maxLength={1000}
+                              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                              autoFocus
+                            />
+                            <div className="flex justify-end space-x-2 mt-2">
+                              <button
+                                onClick={() => setNoteFor(null)}
+                                disabled={isSaving}
+                                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => handleDecision(review, noteFor.action, note)}
+                                disabled={isSaving || (noteFor.action === 'warn' && !note.trim())}
+                                className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+                              >
+                                {noteFor.action === 'warn' ? 'Warn & Notify' : 'Delete Review'}
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </motion.div>
+                    );
+                  })}
+                </AnimatePresence>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminReviewReports;
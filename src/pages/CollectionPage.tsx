@@ -0,0 +1,410 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  FolderOpen,
+  Link2,
+  Lock,
+  Globe,
+  Pencil,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  X,
+  Loader2
+} from 'lucide-react';
+import { Collection, CollectionVisibility, Tool } from '../types';
+import { db } from '../lib/supabase';
+import { toTools } from '../lib/toolMapper';
+import {
+  toCollection,
+  getVisibilityLabel,
+  COLLECTION_VISIBILITY_OPTIONS,
+  MAX_COLLECTION_NAME_LENGTH,
+  MAX_COLLECTION_DESCRIPTION_LENGTH
+} from '../lib/collections';
+import { useAuth } from '../hooks/useAuth';
+import { useBookmarkContext } from '../contexts/BookmarkContext';
+import { useCollectionStore } from '../store/collectionStore';
+import { useTeamStore } from '../store/teamStore';
+import { isOrganizationAdmin } from '../lib/teams';
+import ToolCard from '../components/ToolCard';
+
+interface CollectionPageProps {
+  collectionId: string;
+  onToolClick: (toolId: string) => void;
+  onCollectionClick: (collectionId: string) => void;
+  onDeleted: () => void;
+}
+
+const VISIBILITY_ICONS: Record<CollectionVisibility, React.ElementType> = {
+  private: Lock,
+  unlisted: Link2,
+  public: Globe
+};
+
+const CollectionPage: React.FC<CollectionPageProps> = ({ collectionId, onToolClick, onCollectionClick, onDeleted }) => {
+  const { user } = useAuth();
+  const { toggleBookmark } = useBookmarkContext();
+  const { updateCollection, deleteCollection, toggleTool, reorder } = useCollectionStore();
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [moreCollections, setMoreCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState({ name: '', description: '', visibility: 'private' as CollectionVisibility });
+
+  const team = useTeamStore(state =>
+    state.organizations.find(org => !!collection?.organizationId && org.id === collection.organizationId)
+  );
+
+  const isOwner = !!user && !!collection && user.id === collection.userId;
+  // Every member of the team edits a team collection; the creator and team admins delete it
+  const canEdit = isOwner || !!team;
+  const canDelete = isOwner || isOrganizationAdmin(team?.role);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = await db.getCollection(collectionId);
+      if (cancelled) return;
+
+      if (error || !data) {
+        setCollection(null);
+        setTools([]);
+        setLoading(false);
+        return;
+      }
+
+      const loaded = toCollection(data);
+      const items = [...(data.collection_items || [])].sort((a, b) => a.position - b.position);
+      setCollection(loaded);
+      setTools(toTools(items.map(item => item.tools)));
+      setLoading(false);
+
+      const { data: publicCollections } = await db.getPublicCollections(loaded.userId);
+      if (!cancelled) {
+        setMoreCollections((publicCollections || []).map(toCollection).filter(c => c.id !== loaded.id));
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionId]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Collection link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const startEditing = () => {
+    if (!collection) return;
+    setDraft({
+      name: collection.name,
+      description: collection.description || '',
+      visibility: collection.visibility
+    });
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collection || !draft.name.trim()) return;
+
+    setSaving(true);
+    const { error } = await updateCollection(collection.id, draft);
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setCollection({
+      ...collection,
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      visibility: draft.visibility
+    });
+    setEditing(false);
+    toast.success('Collection updated');
+  };
+
+  const handleDelete = async () => {
+    if (!collection) return;
+    if (!window.confirm(`Delete "${collection.name}"? The tools stay in your other collections.`)) return;
+
+    const { error } = await deleteCollection(collection.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('Collection deleted');
+    onDeleted();
+  };
+
+  const handleRemove = async (toolId: string) => {
+    if (!collection) return;
+
+    // "Saved" is the bookmark list; the database keeps the two in sync
+    const { error } = collection.isDefault
+      ? await toggleBookmark(toolId)
+      : await toggleTool(collection.id, toolId);
+
+    if (error) {
+      toast.error(error.message || 'Failed to remove the tool');
+      return;
+    }
+    setTools(prev => prev.filter(tool => tool.id !== toolId));
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    if (!collection) return;
+
+    const reordered = [...tools];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    const previous = tools;
+    setTools(reordered);
+    const { error } = await reorder(collection.id, reordered.map(tool => tool.id));
+    if (error) {
+      setTools(previous);
+      toast.error(error.message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 text-primary-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-16 px-4">
+        <div className="max-w-xl mx-auto text-center">
+          <FolderOpen className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Collection not found</h1>
+          <p className="text-gray-600">This collection is private or no longer exists.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const VisibilityIcon = VISIBILITY_ICONS[collection.visibility];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-8"
+        >
+          {editing ? (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  maxLength={MAX_COLLECTION_NAME_LENGTH}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  maxLength={MAX_COLLECTION_DESCRIPTION_LENGTH}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Visibility</label>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  {COLLECTION_VISIBILITY_OPTIONS.map(option => (
+                    <label
+                      key={option.value}
+                      className={`flex flex-col p-3 border rounded-lg cursor-pointer transition-colors ${
+                        draft.visibility === option.value
+                          ? 'border-primary-500 bg-primary-50'
+                          : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="visibility"
+                        value={option.value}
+                        checked={draft.visibility === option.value}
+                        onChange={() => setDraft({ ...draft, visibility: option.value })}
+                        className="sr-only"
+                      />
+                      <span className="font-medium text-gray-900">{option.label}</span>
+                      <span className="text-xs text-gray-500">{option.description}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setEditing(false)}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || !draft.name.trim()}
+                  className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div>
+                <div className="flex items-center space-x-3 mb-2">
+                  <h1 className="text-3xl font-bold text-gray-900">{collection.name}</h1>
+                  <span className="flex items-center space-x-1 px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs font-medium">
+                    <VisibilityIcon className="h-3 w-3" />
+                    <span>{getVisibilityLabel(collection.visibility)}</span>
+                  </span>
+                </div>
+                {collection.description && (
+                  <p className="text-gray-600 mb-2 max-w-3xl">{collection.description}</p>
+                )}
+                <p className="text-sm text-gray-500">
+                  {tools.length} {tools.length === 1 ? 'tool' : 'tools'}
+                  {collection.ownerName && !isOwner && <> · by {collection.ownerName}</>}
+                  {team && <> · shared with {team.name}</>}
+                </p>
+              </div>
+
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                {collection.visibility !== 'private' && (
+                  <button
+                    onClick={handleCopyLink}
+                    className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+                  >
+                    <Link2 className="h-4 w-4" />
+                    <span>Copy link</span>
+                  </button>
+                )}
+                {canEdit && (
+                  <button
+                    onClick={startEditing}
+                    className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+                  >
+                    <Pencil className="h-4 w-4" />
+                    <span>Edit</span>
+                  </button>
+                )}
+                {canDelete && !collection.isDefault && (
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center space-x-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors text-sm font-medium"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span>Delete</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </motion.div>
+
+        {tools.length === 0 ? (
+          <div className="text-center py-12">
+            <FolderOpen className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Nothing here yet</h3>
+            <p className="text-gray-600">
+              {canEdit ? 'Add tools from any tool card or tool page.' : 'This collection is empty.'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {tools.map((tool, index) => (
+              <motion.div
+                key={tool.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <ToolCard tool={tool} onToolClick={onToolClick} />
+                {canEdit && (
+                  <div className="flex items-center justify-end space-x-1 mt-2">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                      aria-label={`Move ${tool.name} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === tools.length - 1}
+                      className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                      aria-label={`Move ${tool.name} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(tool.id)}
+                      className="flex items-center space-x-1 px-2 py-2 text-sm text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <X className="h-4 w-4" />
+                      <span>Remove</span>
+                    </button>
+                  </div>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        )}
+
+        {moreCollections.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">
+              More collections{collection.ownerName && !isOwner ? ` by ${collection.ownerName}` : ''}
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {moreCollections.map(other => (
+                <button
+                  key={other.id}
+                  onClick={() => onCollectionClick(other.id)}
+                  className="p-4 bg-white rounded-xl border border-gray-100 shadow-sm hover:shadow-md hover:border-primary-200 transition-all text-left"
+                >
+                  <h3 className="font-semibold text-gray-900 truncate">{other.name}</h3>
+                  <p className="text-sm text-gray-500">
+                    {other.toolIds.length} {other.toolIds.length === 1 ? 'tool' : 'tools'}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionPage;
@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Columns3, X, Link2, ExternalLink, Heart, Loader2, Check } from 'lucide-react';
+import { Tool } from '../types';
+import { db } from '../lib/supabase';
+import { toTool } from '../lib/toolMapper';
+import { mockTools } from '../data/mockData';
+import { useMultipleLikes } from '../hooks/useLikes';
+import { useCompareStore } from '../store/compareStore';
+import { ReviewSummary } from '../components/ReviewSummary';
+
+interface CompareToolsProps {
+  toolIds: string[];
+  onToolClick: (toolId: string) => void;
+  onChangeTools: (toolIds: string[]) => void;
+}
+
+// Values every compared tool has are shown muted; the rest stand out
+const sharedAcrossAll = (lists: string[][]) =>
+  new Set(lists.length > 1 ? lists[0].filter(value => lists.every(list => list.includes(value))) : []);
+
+const CompareTools: React.FC<CompareToolsProps> = ({ toolIds, onToolClick, onChangeTools }) => {
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [loading, setLoading] = useState(true);
+  const setCompareItems = useCompareStore(state => state.setItems);
+
+  // Stable key so a new array with the same ids does not refetch
+  const idsKey = toolIds.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const ids = idsKey ? idsKey.split(',') : [];
+      const results = await Promise.all(ids.map(id => db.getTool(id)));
+      if (cancelled) return;
+
+      // Mock tools have no database row
+      const loaded = ids.flatMap((id, index) => {
+        const { data } = results[index];
+        const tool = data ? toTool(data) : mockTools.find(t => t.id === id) || null;
+        return tool ? [tool] : [];
+      });
+
+      setTools(loaded);
+      setCompareItems(loaded);
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, setCompareItems]);
+
+  const loadedIds = useMemo(() => tools.map(tool => tool.id), [tools]);
+  const { likesData } = useMultipleLikes(loadedIds);
+
+  const sharedTags = useMemo(() => sharedAcrossAll(tools.map(tool => tool.tags)), [tools]);
+  const sharedFeatures = useMemo(() => sharedAcrossAll(tools.map(tool => tool.features || [])), [tools]);
+
+  const handleRemove = (toolId: string) => {
+    onChangeTools(loadedIds.filter(id => id !== toolId));
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Comparison link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const renderValues = (values: string[], shared: Set<string>, emptyLabel: string) =>
+    values.length === 0 ? (
+      <span className="text-sm text-gray-400">{emptyLabel}</span>
+    ) : (
+      <div className="flex flex-wrap gap-1">
+        {values.map(value => (
+          <span
+            key={value}
+            className={`px-2 py-1 rounded text-xs ${
+              shared.has(value) ? 'bg-gray-100 text-gray-600' : 'bg-primary-100 text-primary-700 font-medium'
+            }`}
+          >
+            {value}
+          </span>
+        ))}
+      </div>
+    );
+
+  const rows: { label: string; render: (tool: Tool) => React.ReactNode }[] = [
+    {
+      label: 'Pricing',
+      render: tool => <span className="font-medium capitalize">{tool.pricing}</span>
+    },
+    {
+      label: 'Rating',
+      render: tool => <ReviewSummary toolId={tool.id} variant="compact" showReviewCount={false} />
+    },
+    {
+      label: 'Reviews',
+      render: tool => <span className="font-medium">{tool.reviews}</span>
+    },
+    {
+      label: 'Likes',
+      render: tool => (
+        <span className="flex items-center font-medium">
+          <Heart className="h-4 w-4 text-red-500 mr-1" />
+          {likesData[tool.id]?.like_count ?? '–'}
+        </span>
+      )
+    },
+    {
+      label: 'Features',
+      render: tool => renderValues(tool.features || [], sharedFeatures, 'None listed')
+    },
+    {
+      label: 'Tags',
+      render: tool => renderValues(tool.tags, sharedTags, 'No tags')
+    },
+    {
+      label: 'Verified',
+      render: tool => tool.verified ? <Check className="h-5 w-5 text-green-600" /> : <span className="text-gray-400">–</span>
+    },
+    {
+      label: 'Rating distribution',
+      render: tool => <ReviewSummary toolId={tool.id} variant="distribution" />
+    }
+  ];
+
+  const gridStyle = { gridTemplateColumns: `10rem repeat(${Math.max(tools.length, 1)}, minmax(12rem, 1fr))` };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-8"
+        >
+          <div className="flex items-center space-x-4">
+            <div className="w-12 h-12 bg-primary-100 text-primary-600 rounded-xl flex items-center justify-center">
+              <Columns3 className="h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Compare Tools</h1>
+              <p className="text-gray-600">
+                Differences are highlighted; values every tool shares are muted
+              </p>
+            </div>
+          </div>
+          {tools.length > 0 && (
+            <button
+              onClick={handleCopyLink}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              <Link2 className="h-4 w-4" />
+              <span>Copy Link</span>
+            </button>
+          )}
+        </motion.div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16 text-gray-500">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading tools...</span>
+          </div>
+        ) : tools.length < 2 ? (
+          <div className="bg-white rounded-2xl shadow-lg text-center py-16 px-4">
+            <Columns3 className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Pick at least two tools</h2>
+            <p className="text-gray-600">Use the Compare button on any tool card to add it here.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl shadow-lg overflow-x-auto">
+            <div className="grid min-w-max" style={gridStyle}>
+              {/* Tool headers */}
+              <div className="p-4 border-b border-gray-200" />
+              {tools.map(tool => (
+                <div key={tool.id} className="p-4 border-b border-l border-gray-200">
+                  <div className="flex items-start justify-between gap-2">
+                    <button
+                      onClick={() => onToolClick(tool.id)}
+                      className="flex items-center space-x-3 text-left min-w-0"
+                    >
+                      <img
+                        src={tool.media?.logo || tool.image}
+                        alt=""
+                        className="w-10 h-10 rounded-lg object-cover border border-gray-200 flex-shrink-0"
+                      />
+                      <span className="font-semibold text-gray-900 hover:text-primary-600 transition-colors truncate">
+                        {tool.name}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => handleRemove(tool.id)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors flex-shrink-0"
+                      aria-label={`Remove ${tool.name} from comparison`}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <a
+                    href={tool.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center mt-2 text-sm text-primary-600 hover:text-primary-700"
+                  >
+                    Visit website
+                    <ExternalLink className="h-3 w-3 ml-1" />
+                  </a>
+                </div>
+              ))}
+
+              {/* Attribute rows */}
+              {rows.map(row => (
+                <React.Fragment key={row.label}>
+                  <div className="p-4 border-b border-gray-100 text-sm font-medium text-gray-500 bg-gray-50">
+                    {row.label}
+                  </div>
+                  {tools.map(tool => (
+                    <div key={tool.id} className="p-4 border-b border-l border-gray-100">
+                      {row.render(tool)}
+                    </div>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareTools;
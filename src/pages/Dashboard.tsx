@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Bookmark, 
@@ -13,12 +13,29 @@ import {
   Grid,
   List,
   ChevronDown,
-  X
+  X,
+  FolderOpen,
+  Download
 } from 'lucide-react';
-import { Tool } from '../types';
+import toast from 'react-hot-toast';
+import { BookmarkDetails, BookmarkStatus, Tool } from '../types';
 import ToolCard from '../components/ToolCard';
 import ErrorBoundary from '../components/ErrorBoundary';
+import CollectionsPanel from '../components/CollectionsPanel';
+import BookmarkEvaluation, { BookmarkDetailsUpdate } from '../components/BookmarkEvaluation';
+import ActivityLog from '../components/ActivityLog';
+import UserReviewsPanel from '../components/UserReviewsPanel';
+import { db } from '../lib/supabase';
+import {
+  BOOKMARK_STATUS_OPTIONS,
+  bookmarkLogToCsv,
+  downloadFile,
+  matchesBookmarkSearch,
+  toBookmarkDetails
+} from '../lib/bookmarkLog';
+import { ACTIVITY_RANGE_OPTIONS, ActivityRangeKey, getActivityRange } from '../lib/activity';
 import { useBookmarks } from '../hooks/useBookmarks';
+import { useActivity } from '../hooks/useActivity';
 import { useAuthStore } from '../store/authStore';
 import { useRequireAuth } from '../hooks/useRequireAuth';
 
@@ -26,28 +43,42 @@ interface DashboardProps {
   user: any;
   tools: Tool[];
   onToolClick: (toolId: string) => void;
+  onCollectionClick: (collectionId: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
+const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick, onCollectionClick }) => {
   // Require authentication for this page
   const { isAuthenticated } = useRequireAuth({ redirectTo: '/' });
   
-  const [activeTab, setActiveTab] = useState<'bookmarks' | 'reviews' | 'activity'>('bookmarks');
+  const [activeTab, setActiveTab] = useState<'bookmarks' | 'collections' | 'reviews' | 'activity'>('bookmarks');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [searchQuery, setSearchQuery] = useState('');
   const [bookmarkedTools, setBookmarkedTools] = useState<Tool[]>([]);
+  // Tool id -> the user's notes, tags and status for that bookmark
+  const [bookmarkDetails, setBookmarkDetails] = useState<Record<string, BookmarkDetails>>({});
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState({
     category: 'all',
     pricing: 'all',
     rating: 0,
-    featured: false
+    featured: false,
+    status: 'all' as BookmarkStatus | 'all' | 'none'
   });
 
+  const [activityRangeKey, setActivityRangeKey] = useState<ActivityRangeKey>('30d');
+  const [customRange, setCustomRange] = useState({ from: '', to: '' });
+
   const { bookmarkedTools: bookmarkedToolIds, loading: bookmarkHookLoading, getBookmarksWithTools } = useBookmarks();
 
+  // Stats and the activity tab share one date range
+  const activityRange = useMemo(
+    () => getActivityRange(activityRangeKey, customRange),
+    [activityRangeKey, customRange]
+  );
+  const activity = useActivity(user?.id, activityRange);
+
   // Check if any filters are active
-  const hasActiveFilters = filters.category !== 'all' || filters.pricing !== 'all' || filters.rating > 0 || filters.featured;
+  const hasActiveFilters = filters.category !== 'all' || filters.pricing !== 'all' || filters.rating > 0 || filters.featured || filters.status !== 'all';
 
   // Close filter dropdown when clicking outside
   useEffect(() => {
@@ -71,8 +102,14 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
       }
 
       try {
-        const toolsData = await getBookmarksWithTools();
+        const [toolsData, { data: detailsData }] = await Promise.all([
+          getBookmarksWithTools(),
+          db.getBookmarkDetails(user.id)
+        ]);
         setBookmarkedTools(toolsData);
+        setBookmarkDetails(Object.fromEntries(
+          (detailsData || []).map(row => [row.tool_id, toBookmarkDetails(row)])
+        ));
       } catch (error) {
         console.error('Error loading bookmarked tools:', error);
         setBookmarkedTools([]);
@@ -93,19 +130,27 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
     return () => {
       window.removeEventListener('bookmarksChanged', handleBookmarkChange);
     };
-  }, [isAuthenticated, bookmarkHookLoading, getBookmarksWithTools]);
+  }, [isAuthenticated, bookmarkHookLoading, getBookmarksWithTools, user?.id]);
 
-  const recentActivity = [
-    { type: 'bookmark', tool: 'ChatGPT', date: '2024-01-15' },
-    { type: 'review', tool: 'Midjourney', date: '2024-01-14' },
-    { type: 'like', tool: 'GitHub Copilot', date: '2024-01-13' },
-  ];
+  const handleSaveDetails = async (toolId: string, updates: BookmarkDetailsUpdate) => {
+    const { data, error } = await db.updateBookmarkDetails(user.id, toolId, updates);
+    if (error || !data) return { error: new Error(error?.message || 'Failed to save bookmark') };
+
+    setBookmarkDetails(prev => ({ ...prev, [toolId]: toBookmarkDetails(data) }));
+    return { error: null };
+  };
+
+  const handleExport = () => {
+    const csv = bookmarkLogToCsv(bookmarkedTools.map(tool => ({ tool, details: bookmarkDetails[tool.id] })));
+    downloadFile(`aiventory-bookmarks-${new Date().toISOString().split('T')[0]}.csv`, csv, 'text/csv;charset=utf-8');
+    toast.success(`Exported ${bookmarkedTools.length} ${bookmarkedTools.length === 1 ? 'bookmark' : 'bookmarks'}`);
+  };
 
   const stats = [
-    { label: 'Bookmarked Tools', value: bookmarkedTools.length.toString(), icon: Bookmark, color: 'text-blue-600' },
-    { label: 'Reviews Written', value: user?.reviews?.length.toString() || '0', icon: MessageCircle, color: 'text-green-600' },
-    { label: 'Tools Liked', value: '156', icon: Heart, color: 'text-red-600' },
-    { label: 'Days Active', value: '45', icon: Calendar, color: 'text-purple-600' },
+    { label: 'Tools Bookmarked', value: activity.stats.bookmarksAdded.toString(), icon: Bookmark, color: 'text-blue-600' },
+    { label: 'Reviews Written', value: activity.stats.reviewsWritten.toString(), icon: MessageCircle, color: 'text-green-600' },
+    { label: 'Tools Liked', value: activity.stats.toolsLiked.toString(), icon: Heart, color: 'text-red-600' },
+    { label: 'Days Active', value: activity.stats.daysActive.toString(), icon: Calendar, color: 'text-purple-600' },
   ];
 
   const isLoading = bookmarkHookLoading;
@@ -113,15 +158,15 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
     // Add null checks to prevent crashes during filtering
     if (!tool || !tool.name) return false;
     
-    // Search filter
-    if (searchQuery) {
-      const name = tool.name.toLowerCase();
-      const description = (tool.description || '').toLowerCase();
-      const query = searchQuery.toLowerCase();
-      
-      if (!name.includes(query) && !description.includes(query)) {
-        return false;
-      }
+    // Search filter (also covers the user's notes and tags)
+    if (searchQuery && !matchesBookmarkSearch(tool, bookmarkDetails[tool.id], searchQuery)) {
+      return false;
+    }
+    
+    // Status filter
+    const status = bookmarkDetails[tool.id]?.status;
+    if (filters.status === 'none' ? !!status : filters.status !== 'all' && status !== filters.status) {
+      return false;
     }
     
     // Category filter
@@ -169,6 +214,42 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
               </div>
             </div>
 
+            {/* Date range for the stats and activity tab */}
+            <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+              <Calendar className="h-4 w-4 text-gray-500" />
+              <select
+                value={activityRangeKey}
+                onChange={(e) => setActivityRangeKey(e.target.value as ActivityRangeKey)}
+                className="py-1.5 px-3 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                aria-label="Activity date range"
+              >
+                {ACTIVITY_RANGE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {activityRangeKey === 'custom' && (
+                <>
+                  <input
+                    type="date"
+                    value={customRange.from}
+                    max={customRange.to || undefined}
+                    onChange={(e) => setCustomRange({ ...customRange, from: e.target.value })}
+                    className="py-1.5 px-3 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    aria-label="From date"
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <input
+                    type="date"
+                    value={customRange.to}
+                    min={customRange.from || undefined}
+                    onChange={(e) => setCustomRange({ ...customRange, to: e.target.value })}
+                    className="py-1.5 px-3 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    aria-label="To date"
+                  />
+                </>
+              )}
+            </div>
+
             {/* Stats */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
               {stats.map((stat, index) => (
@@ -197,6 +278,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
               <nav className="flex">
                 {[
                   { id: 'bookmarks', label: 'Bookmarked Tools', icon: Bookmark },
+                  { id: 'collections', label: 'Collections', icon: FolderOpen },
                   { id: 'reviews', label: 'My Reviews', icon: MessageCircle },
                   { id: 'activity', label: 'Recent Activity', icon: TrendingUp },
                 ].map((tab) => (
@@ -225,7 +307,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
                       <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
                       <input
                         type="text"
-                        placeholder="Search bookmarked tools..."
+                        placeholder="Search tools, notes or #tags..."
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
                         className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
@@ -323,6 +405,22 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
                                 </select>
                               </div>
                               
+                              {/* Status Filter */}
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
+                                <select
+                                  value={filters.status}
+                                  onChange={(e) => setFilters({ ...filters, status: e.target.value as typeof filters.status })}
+                                  className="w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                                >
+                                  <option value="all">Any Status</option>
+                                  {BOOKMARK_STATUS_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                  ))}
+                                  <option value="none">No Status</option>
+                                </select>
+                              </div>
+                              
                               {/* Featured Filter */}
                               <div>
                                 <label className="flex items-center space-x-2 cursor-pointer">
@@ -344,7 +442,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
                                       category: 'all',
                                       pricing: 'all',
                                       rating: 0,
-                                      featured: false
+                                      featured: false,
+                                      status: 'all'
                                     });
                                   }}
                                   className="w-full py-2 px-3 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-50 rounded-md transition-colors"
@@ -357,6 +456,16 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
                         )}
                       </div>
                       
+                      <button
+                        onClick={handleExport}
+                        className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        disabled={isLoading || bookmarkedTools.length === 0}
+                        title="Download your bookmarks with notes, tags and status as CSV"
+                      >
+                        <Download className="h-4 w-4" />
+                        <span>Export</span>
+                      </button>
+
                       <div className="flex border border-gray-300 rounded-lg overflow-hidden">
                         <button
                           onClick={() => setViewMode('grid')}
@@ -427,6 +536,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
                               transition={{ delay: index * 0.1 }}
                             >
                               <ToolCard tool={tool} onToolClick={onToolClick} />
+                              <div className="mt-3 p-4 bg-white border border-gray-200 rounded-xl">
+                                <BookmarkEvaluation
+                                  details={bookmarkDetails[tool.id]}
+                                  onSave={(updates) => handleSaveDetails(tool.id, updates)}
+                                />
+                              </div>
                             </motion.div>
                           );
                         })}
@@ -446,7 +561,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
                               initial={{ opacity: 0, y: 20 }}
                               animate={{ opacity: 1, y: 0 }}
                               transition={{ delay: index * 0.1 }}
-                              className="flex items-center space-x-4 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer"
+                              className="flex items-start space-x-4 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer"
                               onClick={() => onToolClick(tool.id)}
                             >
                               <img
@@ -464,6 +579,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
                                   </div>
                                   <span className="capitalize">{tool.pricing || 'unknown'}</span>
                                 </div>
+                                <div className="mt-3">
+                                  <BookmarkEvaluation
+                                    details={bookmarkDetails[tool.id]}
+                                    onSave={(updates) => handleSaveDetails(tool.id, updates)}
+                                  />
+                                </div>
                               </div>
                               <Bookmark className="h-5 w-5 text-primary-600 fill-current" />
                             </motion.div>
@@ -475,42 +596,23 @@ const Dashboard: React.FC<DashboardProps> = ({ user, tools, onToolClick }) => {
                 </div>
               )}
 
+              {activeTab === 'collections' && (
+                <CollectionsPanel onCollectionClick={onCollectionClick} />
+              )}
+
               {activeTab === 'reviews' && (
-                <div className="text-center py-12">
-                  <MessageCircle className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-xl font-semibold text-gray-900 mb-2">Your Reviews</h3>
-                  <p className="text-gray-600">Reviews you've written will appear here.</p>
-                </div>
+                <UserReviewsPanel onToolClick={onToolClick} />
               )}
 
               {activeTab === 'activity' && (
-                <div className="space-y-4">
-                  {recentActivity.map((activity, index) => (
-                    <motion.div
-                      key={index}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: index * 0.1 }}
-                      className="flex items-center space-x-4 p-4 border border-gray-200 rounded-lg"
-                    >
-                      <div className={`p-2 rounded-full ${
-                        activity.type === 'bookmark' ? 'bg-blue-100 text-blue-600' :
-                        activity.type === 'review' ? 'bg-green-100 text-green-600' :
-                        'bg-red-100 text-red-600'
-                      }`}>
-                        {activity.type === 'bookmark' && <Bookmark className="h-4 w-4" />}
-                        {activity.type === 'review' && <MessageCircle className="h-4 w-4" />}
-                        {activity.type === 'like' && <Heart className="h-4 w-4" />}
-                      </div>
-                      <div className="flex-1">
-                        <p className="text-gray-900">
-                          You {activity.type === 'bookmark' ? 'bookmarked' : activity.type === 'review' ? 'reviewed' : 'liked'} <span className="font-semibold">{activity.tool}</span>
-                        </p>
-                        <p className="text-sm text-gray-500">{new Date(activity.date).toLocaleDateString()}</p>
-                      </div>
-                    </motion.div>
-                  ))}
-                </div>
+                <ActivityLog
+                  events={activity.events}
+                  loading={activity.loading}
+                  loadingMore={activity.loadingMore}
+                  hasMore={activity.hasMore}
+                  onLoadMore={activity.loadMore}
+                  onToolClick={onToolClick}
+                />
               )}
             </div>
           </div>
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import { SubmissionData, Tool, User } from '../types';
+import { db } from '../lib/supabase';
+import { fromToolUpdate, normalizeToolFeatures, toTool } from '../lib/toolMapper';
+import { useToolOwnership } from '../hooks/useToolOwnership';
+import SubmitTool from './SubmitTool';
+
+interface EditToolProps {
+  toolId: string;
+  user: User;
+  onSaved: (toolId: string) => void;
+}
+
+const toSubmissionData = (tool: Tool, contactEmail: string): SubmissionData => ({
+  name: tool.name,
+  description: tool.description,
+  category: tool.category,
+  pricing: tool.pricing,
+  url: tool.url,
+  tags: tool.tags,
+  media: tool.media || { logo: null, cover: null, screenshots: [] },
+  features: tool.features || [],
+  contactEmail
+});
+
+// Owner-only edit page; reuses the submission form in edit mode
+const EditTool: React.FC<EditToolProps> = ({ toolId, user, onSaved }) => {
+  const { isOwner, loading: ownershipLoading } = useToolOwnership(toolId);
+  const [initialData, setInitialData] = useState<SubmissionData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+
+      const [toolResult, contactResult] = await Promise.all([
+        db.getTool(toolId),
+        db.getToolContact(toolId)
+      ]);
+      if (cancelled) return;
+
+      const tool = toolResult.data ? toTool(toolResult.data) : null;
+      if (!tool) {
+        setError(toolResult.error?.message || 'Tool not found');
+      } else {
+        setInitialData(toSubmissionData(tool, contactResult.data?.contact_email || ''));
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [toolId]);
+
+  const handleSave = async (data: SubmissionData) => {
+    const { error: updateError } = await db.updateTool(toolId, fromToolUpdate(data));
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+
+    // Rewriting the features sends an approved listing back to moderation,
+    // so leave them alone unless they changed
+    const features = normalizeToolFeatures(data.features);
+    const featuresChanged = features.join('\n') !== normalizeToolFeatures(initialData?.features ?? []).join('\n');
+    const contactEmail = data.contactEmail.trim();
+    const [featuresResult, contactResult] = await Promise.all([
+      featuresChanged ? db.setToolFeatures(toolId, features) : null,
+      contactEmail ? db.setToolContact(toolId, contactEmail) : null
+    ]);
+    if (featuresResult?.error || contactResult?.error) {
+      throw new Error((featuresResult?.error || contactResult?.error)?.message);
+    }
+
+    onSaved(toolId);
+  };
+
+  if (loading || ownershipLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-500">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        <span>Loading listing...</span>
+      </div>
+    );
+  }
+
+  if (error || !initialData) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-red-600">{error || 'Tool not found'}</p>
+      </div>
+    );
+  }
+
+  if (!isOwner) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center px-4">
+        <Lock className="h-12 w-12 text-gray-300 mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Only owners can edit this listing</h2>
+        <p className="text-gray-600">Claim the tool from its page to verify you own it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <SubmitTool
+      mode="edit"
+      initialData={initialData}
+      onSubmit={handleSave}
+      user={user}
+    />
+  );
+};
+
+export default EditTool;
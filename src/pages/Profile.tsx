@@ -18,6 +18,11 @@ import { useRequireAuth } from '../hooks/useRequireAuth';
 import { useProfile } from '../hooks/useProfile';
 import { useAuthStore } from '../store/authStore';
 import ImageUpload from '../components/ImageUpload';
+import ChangePasswordForm from '../components/ChangePasswordForm';
+import ActiveSessions from '../components/ActiveSessions';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import DataExport from '../components/DataExport';
+import DeleteAccount from '../components/DeleteAccount';
 
 interface ProfileProps {
   user: any;
@@ -33,6 +38,7 @@ const Profile: React.FC<ProfileProps> = ({ onUpdateUser }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [activeTab, setActiveTab] = useState<'profile' | 'preferences' | 'security'>('profile');
   const [showAvatarUpload, setShowAvatarUpload] = useState(false);
+  const [showPasswordForm, setShowPasswordForm] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -393,35 +399,34 @@ const Profile: React.FC<ProfileProps> = ({ onUpdateUser }) => {
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 mb-4">Password & Security</h3>
                   <div className="space-y-4">
-                    <button className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
-                      <div className="font-medium text-gray-900">Change Password</div>
-                      <div className="text-sm text-gray-500">Update your account password</div>
-                    </button>
-                    
-                    <button className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
-                      <div className="font-medium text-gray-900">Two-Factor Authentication</div>
-                      <div className="text-sm text-gray-500">Add an extra layer of security</div>
-                    </button>
+                    {showPasswordForm ? (
+                      <ChangePasswordForm onDone={() => setShowPasswordForm(false)} />
+                    ) : (
+                      <button
+                        onClick={() => setShowPasswordForm(true)}
+                        className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        <div className="font-medium text-gray-900">Change Password</div>
+                        <div className="text-sm text-gray-500">Update your account password</div>
+                      </button>
+                    )}
                     
-                    <button className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
-                      <div className="font-medium text-gray-900">Login History</div>
-                      <div className="text-sm text-gray-500">View recent login activity</div>
-                    </button>
+                    <TwoFactorSettings />
                   </div>
                 </div>
 
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1">Active Sessions</h3>
+                  <p className="text-sm text-gray-500 mb-4">Browsers and devices signed in to your account</p>
+                  <ActiveSessions />
+                </div>
+
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 mb-4">Data & Privacy</h3>
                   <div className="space-y-4">
-                    <button className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
-                      <div className="font-medium text-gray-900">Download Data</div>
-                      <div className="text-sm text-gray-500">Export your account data</div>
-                    </button>
+                    <DataExport />
                     
-                    <button className="w-full text-left p-4 border border-red-200 rounded-lg hover:bg-red-50 transition-colors text-red-600">
-                      <div className="font-medium">Delete Account</div>
-                      <div className="text-sm text-red-500">Permanently delete your account and data</div>
-                    </button>
+                    <DeleteAccount />
                   </div>
                 </div>
               </motion.div>
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { KeyRound, Loader2, AlertCircle } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { MIN_PASSWORD_LENGTH } from '../lib/accountSecurity';
+
+interface ResetPasswordPageProps {
+  onComplete: () => void;
+  onSignIn: () => void;
+  onOpenProfile: () => void;
+}
+
+// Supabase reports a bad or expired link in the URL fragment (or the query
+// string for PKCE links)
+const readLinkError = () => {
+  if (typeof window === 'undefined') return null;
+  const params = new URLSearchParams(window.location.hash.slice(1) || window.location.search);
+  return params.get('error_description')?.replace(/\+/g, ' ') || null;
+};
+
+// Landing page for the link in a password reset email
+const ResetPasswordPage: React.FC<ResetPasswordPageProps> = ({ onComplete, onSignIn, onOpenProfile }) => {
+  const { user, initialized, passwordRecovery, completePasswordReset } = useAuthStore();
+  const [linkError] = useState(readLinkError);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const { error: updateError } = await completePasswordReset(password);
+    setSaving(false);
+
+    if (updateError) {
+      setError(updateError.message || 'Failed to update password');
+      return;
+    }
+
+    toast.success('Your password has been changed');
+    onComplete();
+  };
+
+  if (!initialized) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 text-primary-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const canReset = passwordRecovery && !!user;
+  // Signed in normally; the current password is asked for on the profile instead
+  const signedIn = !!user && !passwordRecovery;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-16 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-md mx-auto bg-white rounded-2xl shadow-sm border border-gray-100 p-8"
+      >
+        <div className="text-center mb-6">
+          <KeyRound className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {canReset ? 'Choose a new password' : signedIn ? 'Change your password' : 'Reset link unavailable'}
+          </h1>
+          <p className="text-gray-600">
+            {canReset
+              ? `Signed in as ${user.email}. Your other devices stay signed in until you sign them out from your profile.`
+              : signedIn
+              ? "You're already signed in. Change your password from the security tab of your profile."
+              : linkError || 'This password reset link is invalid or has expired. Request a new one from the sign in screen.'}
+          </p>
+        </div>
+
+        {canReset ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">New password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                minLength={MIN_PASSWORD_LENGTH}
+                required
+                autoFocus
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Confirm new password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-600 flex items-center">
+                <AlertCircle className="h-4 w-4 mr-1" />
+                {error}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-semibold disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Set New Password'}
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={signedIn ? onOpenProfile : onSignIn}
+            className="w-full bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-semibold"
+          >
+            {signedIn ? 'Go to Profile' : 'Go to Sign In'}
+          </button>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
@@ -11,12 +11,19 @@ import {
   AlertCircle,
   Loader2,
   ArrowLeft,
-  ArrowRight
+  ArrowRight,
+  X
 } from 'lucide-react';
+import { MAX_TOOL_FEATURES, MAX_TOOL_FEATURE_LENGTH, MAX_TOOL_SCREENSHOTS } from '../lib/toolMapper';
+import { SubmissionData } from '../types';
+import ImageUpload from '../components/ImageUpload';
 
 interface SubmitToolProps {
-  onSubmit: (data: any) => void;
+  onSubmit: (data: SubmissionData) => Promise<void> | void;
   user?: any;
+  // Edit mode pre-fills the form from an existing listing and keeps it after saving
+  mode?: 'create' | 'edit';
+  initialData?: SubmissionData;
 }
 
 interface FormData {
@@ -28,6 +35,9 @@ interface FormData {
   tags: string[];
   features: string[];
   contactEmail: string;
+  logo: string;
+  coverImage: string;
+  screenshots: string[];
 }
 
 interface ValidationErrors {
@@ -38,20 +48,42 @@ interface ValidationErrors {
   contactEmail?: string;
 }
 
-const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
+const EMPTY_FORM: FormData = {
+  name: '',
+  description: '',
+  category: '',
+  pricing: 'free',
+  url: '',
+  tags: [],
+  features: [],
+  contactEmail: '',
+  logo: '',
+  coverImage: '',
+  screenshots: []
+};
+
+const toFormData = (data: SubmissionData): FormData => ({
+  name: data.name,
+  description: data.description,
+  category: data.category,
+  pricing: data.pricing,
+  url: data.url,
+  tags: data.tags,
+  features: data.features,
+  contactEmail: data.contactEmail,
+  logo: data.media.logo || '',
+  coverImage: data.media.cover || '',
+  screenshots: data.media.screenshots
+});
+
+const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user, mode = 'create', initialData }) => {
+  const isEditing = mode === 'edit';
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<ValidationErrors>({});
-  const [formData, setFormData] = useState<FormData>({
-    name: '',
-    description: '',
-    category: '',
-    pricing: 'free',
-    url: '',
-    tags: [],
-    features: [],
-    contactEmail: ''
-  });
+  const [formData, setFormData] = useState<FormData>(() =>
+    initialData ? toFormData(initialData) : EMPTY_FORM
+  );
   const [tagInput, setTagInput] = useState('');
   const [featureInput, setFeatureInput] = useState('');
 
@@ -69,7 +101,7 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
   const steps = [
     { id: 1, title: 'Basic Information', description: 'Tell us about your tool', icon: FileText },
     { id: 2, title: 'Details & Features', description: 'Add more details', icon: Tag },
-    { id: 3, title: 'Review & Submit', description: 'Review your submission', icon: Check }
+    { id: 3, title: isEditing ? 'Review & Save' : 'Review & Submit', description: isEditing ? 'Review your changes' : 'Review your submission', icon: Check }
   ];
 
   // Validation functions
@@ -125,6 +157,21 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
     }
   };
 
+  const addScreenshot = (url: string) => {
+    if (!url) return;
+    setFormData(prev => ({
+      ...prev,
+      screenshots: [...prev.screenshots, url].slice(0, MAX_TOOL_SCREENSHOTS)
+    }));
+  };
+
+  const removeScreenshot = (url: string) => {
+    setFormData(prev => ({
+      ...prev,
+      screenshots: prev.screenshots.filter(s => s !== url)
+    }));
+  };
+
   const addTag = () => {
     if (tagInput.trim() && !formData.tags.includes(tagInput.trim())) {
       if (formData.tags.length >= 10) {
@@ -149,8 +196,8 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
 
   const addFeature = () => {
     if (featureInput.trim() && !formData.features.includes(featureInput.trim())) {
-      if (formData.features.length >= 10) {
-        toast.error('Maximum 10 features allowed');
+      if (formData.features.length >= MAX_TOOL_FEATURES) {
+        toast.error(`Maximum ${MAX_TOOL_FEATURES} features allowed`);
         return;
       }
       setFormData(prev => ({
@@ -217,46 +264,44 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
     setIsSubmitting(true);
     
     try {
-      // Transform form data to match database schema
-      const toolData = {
-        name: formData.name.trim(),
-        description: formData.description.trim(),
+      const submission: SubmissionData = {
+        name: formData.name,
+        description: formData.description,
         category: formData.category,
         pricing: formData.pricing,
-        website_url: formData.url.trim(),
-        tags: [...formData.tags, ...formData.features],
-        rating: 0,
-        reviews_count: 0,
-        featured: false,
-        verified: false
+        url: formData.url,
+        tags: formData.tags,
+        media: {
+          logo: formData.logo || null,
+          cover: formData.coverImage || null,
+          screenshots: formData.screenshots
+        },
+        features: formData.features,
+        contactEmail: formData.contactEmail
       };
       
-      console.log('Submitting tool data:', toolData);
+      console.log('Submitting tool data:', submission);
       
       // Call the onSubmit prop
-      await onSubmit(toolData);
+      await onSubmit(submission);
       
       // Show success message
+      if (isEditing) {
+        toast.success('Listing updated');
+        return;
+      }
+
       toast.success('🎉 Tool submitted successfully! We\'ll review it within 2-3 business days.', {
         duration: 5000,
       });
       
       // Reset form
-      setFormData({
-        name: '',
-        description: '',
-        category: '',
-        pricing: 'free',
-        url: '',
-        tags: [],
-        features: [],
-        contactEmail: ''
-      });
+      setFormData(EMPTY_FORM);
       setCurrentStep(1);
       
     } catch (error) {
       console.error('Submission error:', error);
-      toast.error('Failed to submit tool. Please try again.');
+      toast.error(isEditing ? 'Failed to save changes. Please try again.' : 'Failed to submit tool. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -288,9 +333,13 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
           animate={{ opacity: 1, y: 0 }}
           className="text-center mb-8"
         >
-          <h1 className="text-4xl font-bold text-gray-900 mb-4">Submit Your AI Tool</h1>
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">
+            {isEditing ? `Edit ${initialData?.name || 'Your Tool'}` : 'Submit Your AI Tool'}
+          </h1>
           <p className="text-xl text-gray-600 max-w-2xl mx-auto">
-            Share your AI tool with the community and help others discover innovative solutions
+            {isEditing
+              ? 'Update how your tool appears in the catalog'
+              : 'Share your AI tool with the community and help others discover innovative solutions'}
           </p>
         </motion.div>
 
@@ -360,7 +409,7 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
               user ? 'text-green-700' : 'text-red-700'
             }`}>
               {user ? (
-                <><Check className="h-5 w-5" /> <span>Signed in - Ready to submit</span></>
+                <><Check className="h-5 w-5" /> <span>Signed in - Ready to {isEditing ? 'save' : 'submit'}</span></>
               ) : (
                 <><AlertCircle className="h-5 w-5" /> <span>Please sign in to submit a tool</span></>
               )}
@@ -520,6 +569,73 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
               {/* Step 2: Details & Features */}
               {currentStep === 2 && (
                 <div className="space-y-6">
+                  {/* Media (stored in the tools bucket) */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Logo (Optional)
+                      </label>
+                      <ImageUpload
+                        bucket="tools"
+                        folder="logos"
+                        currentImage={formData.logo || undefined}
+                        onImageUpload={(url) => setFormData(prev => ({ ...prev, logo: url }))}
+                      />
+                      <p className="text-sm text-gray-500 mt-1">Square image works best</p>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Cover Image (Optional)
+                      </label>
+                      <ImageUpload
+                        bucket="tools"
+                        folder="covers"
+                        currentImage={formData.coverImage || undefined}
+                        onImageUpload={(url) => setFormData(prev => ({ ...prev, coverImage: url }))}
+                      />
+                      <p className="text-sm text-gray-500 mt-1">Shown on tool cards and the tool page (16:9)</p>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Screenshots (Optional)
+                    </label>
+                    {formData.screenshots.length > 0 && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+                        {formData.screenshots.map((url, index) => (
+                          <div key={url} className="relative group">
+                            <img
+                              src={url}
+                              alt={`Screenshot ${index + 1}`}
+                              className="w-full h-24 object-cover rounded-lg border border-gray-200"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeScreenshot(url)}
+                              className="absolute top-1 right-1 p-1 bg-red-600 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                              aria-label={`Remove screenshot ${index + 1}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {formData.screenshots.length < MAX_TOOL_SCREENSHOTS && (
+                      // Remount after each upload so the picker is empty for the next screenshot
+                      <ImageUpload
+                        key={formData.screenshots.length}
+                        bucket="tools"
+                        folder="screenshots"
+                        onImageUpload={addScreenshot}
+                      />
+                    )}
+                    <p className="text-sm text-gray-500 mt-1">
+                      {formData.screenshots.length}/{MAX_TOOL_SCREENSHOTS} screenshots
+                    </p>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Tags (Optional)
@@ -593,7 +709,7 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
                         }}
                         className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
                         placeholder="Add a feature and press Enter"
-                        maxLength={100}
+                        maxLength={MAX_TOOL_FEATURE_LENGTH}
                       />
                       <motion.button
                         type="button"
@@ -628,7 +744,7 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
                       </AnimatePresence>
                     </div>
                     <p className="text-sm text-gray-500 mt-1">
-                      {formData.features.length}/10 features
+                      {formData.features.length}/{MAX_TOOL_FEATURES} features
                     </p>
                   </div>
 
@@ -656,7 +772,7 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
                       </motion.p>
                     ) : (
                       <p className="text-sm text-gray-500 mt-1">
-                        We'll use this to contact you about your submission
+                        Only moderators will see this. We'll use it to contact you about your submission
                       </p>
                     )}
                   </div>
@@ -674,9 +790,11 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
                     <div className="flex items-start space-x-3">
                       <AlertCircle className="h-6 w-6 text-blue-600 mt-0.5" />
                       <div>
-                        <h3 className="font-semibold text-blue-900 mb-2">Review Your Submission</h3>
+                        <h3 className="font-semibold text-blue-900 mb-2">{isEditing ? 'Review Your Changes' : 'Review Your Submission'}</h3>
                         <p className="text-blue-800">
-                          Please review all the information below before submitting. Our team will review your submission and get back to you within 2-3 business days.
+                          {isEditing
+                            ? 'Please review all the information below before saving. Changes to the name, description, website, category, pricing, tags, images or features go back to the review queue, and the listing is hidden until a moderator approves them.'
+                            : 'Please review all the information below before submitting. Our team will review your submission and get back to you within 2-3 business days.'}
                         </p>
                       </div>
                     </div>
@@ -745,6 +863,23 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
                           </ul>
                         </div>
                       )}
+                      {(formData.logo || formData.coverImage || formData.screenshots.length > 0) && (
+                        <div>
+                          <label className="text-sm font-medium text-gray-500">Media</label>
+                          <div className="flex flex-wrap gap-2 mt-1">
+                            {[formData.logo, formData.coverImage, ...formData.screenshots]
+                              .filter(Boolean)
+                              .map((url) => (
+                                <img
+                                  key={url}
+                                  src={url}
+                                  alt=""
+                                  className="w-16 h-16 object-cover rounded-lg border border-gray-200"
+                                />
+                              ))}
+                          </div>
+                        </div>
+                      )}
                     </motion.div>
                   </div>
                 </div>
@@ -800,14 +935,14 @@ const SubmitTool: React.FC<SubmitToolProps> = ({ onSubmit, user }) => {
                 {isSubmitting ? (
                   <>
                     <Loader2 className="h-5 w-5 animate-spin" />
-                    <span>Submitting...</span>
+                    <span>{isEditing ? 'Saving...' : 'Submitting...'}</span>
                   </>
                 ) : !user ? (
                   <span>Sign In Required</span>
                 ) : (
                   <>
                     <Upload className="h-5 w-5" />
-                    <span>Submit Tool</span>
+                    <span>{isEditing ? 'Save Changes' : 'Submit Tool'}</span>
                   </>
                 )}
               </motion.button>
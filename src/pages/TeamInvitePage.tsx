@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Users, Loader2 } from 'lucide-react';
+import { User } from '../types';
+import { db } from '../lib/supabase';
+import { getRoleLabel } from '../lib/teams';
+import { useTeamStore } from '../store/teamStore';
+import { Database } from '../types/database';
+
+type InviteDetails = Database['public']['Functions']['get_organization_invite']['Returns'][number];
+
+interface TeamInvitePageProps {
+  token: string;
+  user: User | null;
+  onSignIn: () => void;
+  onAccepted: () => void;
+}
+
+// Landing page for the link in a team invite email
+const TeamInvitePage: React.FC<TeamInvitePageProps> = ({ token, user, onSignIn, onAccepted }) => {
+  const loadTeams = useTeamStore(state => state.load);
+  const setActiveOrganization = useTeamStore(state => state.setActiveOrganization);
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    db.getOrganizationInvite(token).then(({ data }) => {
+      if (cancelled) return;
+      setInvite(data?.[0] ?? null);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!user) return;
+
+    setAccepting(true);
+    const { data: organizationId, error } = await db.acceptOrganizationInvite(token);
+    if (error || !organizationId) {
+      setAccepting(false);
+      toast.error(error?.message || 'Failed to accept invite');
+      return;
+    }
+
+    await loadTeams(user.id);
+    await setActiveOrganization(organizationId);
+    setAccepting(false);
+    toast.success(`Welcome to ${invite?.organization_name || 'the team'}`);
+    onAccepted();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 text-primary-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const expired = !!invite && new Date(invite.expires_at) < new Date();
+  const unavailable = !invite || invite.status === 'revoked' || (invite.status === 'pending' && expired);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-16 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-md mx-auto bg-white rounded-2xl shadow-sm border border-gray-100 p-8 text-center"
+      >
+        <Users className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+        {unavailable ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Invite unavailable</h1>
+            <p className="text-gray-600">
+              {expired ? 'This invite has expired.' : 'This invite was revoked or does not exist.'} Ask a team admin to send a new one.
+            </p>
+          </>
+        ) : invite.status === 'accepted' ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Invite already used</h1>
+            <p className="text-gray-600 mb-6">This invite to {invite.organization_name} has already been accepted.</p>
+            {user && (
+              <button
+                onClick={onAccepted}
+                className="w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+              >
+                Go to Teams
+              </button>
+            )}
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Join {invite.organization_name}</h1>
+            <p className="text-gray-600 mb-6">
+              {invite.invited_by_name || 'A teammate'} invited <strong>{invite.email}</strong> to join as{' '}
+              {getRoleLabel(invite.role).toLowerCase()}.
+            </p>
+            {!user ? (
+              <button
+                onClick={onSignIn}
+                className="w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+              >
+                Sign in to accept
+              </button>
+            ) : user.email.toLowerCase() !== invite.email ? (
+              <p className="text-sm text-red-600">
+                You are signed in as {user.email}. Sign in with {invite.email} to accept this invite.
+              </p>
+            ) : (
+              <button
+                onClick={handleAccept}
+                disabled={accepting}
+                className="w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+              >
+                {accepting ? 'Joining...' : 'Accept Invite'}
+              </button>
+            )}
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default TeamInvitePage;
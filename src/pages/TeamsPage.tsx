@@ -0,0 +1,625 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  Users,
+  Plus,
+  Pencil,
+  Trash2,
+  LogOut,
+  Mail,
+  UserPlus,
+  FolderOpen,
+  X
+} from 'lucide-react';
+import { OrganizationInvite, OrganizationMember, OrganizationRole, Tool, ToolApprovalStatus, User } from '../types';
+import { db } from '../lib/supabase';
+import { sendTeamInviteEmail } from '../lib/email';
+import { routes } from '../lib/routes';
+import { toTool } from '../lib/toolMapper';
+import {
+  MAX_ORGANIZATION_DESCRIPTION_LENGTH,
+  MAX_ORGANIZATION_NAME_LENGTH,
+  ORGANIZATION_ROLE_OPTIONS,
+  TOOL_APPROVAL_STATUS_OPTIONS,
+  getRoleLabel,
+  isOrganizationAdmin,
+  toOrganizationInvite,
+  toOrganizationMember
+} from '../lib/teams';
+import { MAX_COLLECTION_NAME_LENGTH } from '../lib/collections';
+import { useTeamStore } from '../store/teamStore';
+import { useCollectionStore } from '../store/collectionStore';
+
+interface TeamsPageProps {
+  user: User;
+  onToolClick: (toolId: string) => void;
+  onCollectionClick: (collectionId: string) => void;
+}
+
+type StackEntry = { tool: Tool; status: ToolApprovalStatus };
+
+const TeamsPage: React.FC<TeamsPageProps> = ({ user, onToolClick, onCollectionClick }) => {
+  const {
+    organizations,
+    activeOrganizationId,
+    loading,
+    setActiveOrganization,
+    createOrganization,
+    renameOrganization,
+    forgetOrganization
+  } = useTeamStore();
+  const collections = useCollectionStore(state => state.collections);
+  const createCollection = useCollectionStore(state => state.createCollection);
+
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+  const [stack, setStack] = useState<StackEntry[]>([]);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [teamDraft, setTeamDraft] = useState({ name: '', description: '' });
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [inviteDraft, setInviteDraft] = useState({ email: '', role: 'member' as Exclude<OrganizationRole, 'owner'> });
+  const [inviting, setInviting] = useState(false);
+  const [collectionName, setCollectionName] = useState('');
+
+  const organization = organizations.find(org => org.id === activeOrganizationId) ?? null;
+  const organizationId = organization?.id;
+  const canManage = isOrganizationAdmin(organization?.role);
+  const isOwner = organization?.role === 'owner';
+  const teamCollections = collections.filter(collection => collection.organizationId === organization?.id);
+
+  // Members, invites and the tool stack of the active team
+  useEffect(() => {
+    setMembers([]);
+    setInvites([]);
+    setStack([]);
+    setEditing(false);
+    if (!organizationId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const [membersResult, stackResult, invitesResult] = await Promise.all([
+        db.getOrganizationMembers(organizationId),
+        db.getOrganizationToolStack(organizationId),
+        // Only admins can see invites
+        canManage ? db.getOrganizationInvites(organizationId) : Promise.resolve({ data: [], error: null })
+      ]);
+      if (cancelled) return;
+
+      setMembers((membersResult.data || []).map(toOrganizationMember));
+      setInvites((invitesResult.data || []).map(toOrganizationInvite));
+      setStack((stackResult.data || []).flatMap(row => {
+        const tool = toTool(row.tools);
+        return tool ? [{ tool, status: row.status }] : [];
+      }));
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [organizationId, canManage]);
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!teamDraft.name.trim()) return;
+
+    setSaving(true);
+    const { data, error } = await createOrganization(teamDraft.name, teamDraft.description);
+    setSaving(false);
+
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to create team');
+      return;
+    }
+    setTeamDraft({ name: '', description: '' });
+    setShowCreateForm(false);
+    toast.success(`Created ${data.name}`);
+  };
+
+  const startEditing = () => {
+    if (!organization) return;
+    setTeamDraft({ name: organization.name, description: organization.description || '' });
+    setEditing(true);
+  };
+
+  const handleSaveTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organization || !teamDraft.name.trim()) return;
+
+    setSaving(true);
+    const { error } = await renameOrganization(organization.id, teamDraft.name, teamDraft.description);
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setTeamDraft({ name: '', description: '' });
+    setEditing(false);
+    toast.success('Team updated');
+  };
+
+  const handleDeleteTeam = async () => {
+    if (!organization) return;
+    if (!window.confirm(`Delete "${organization.name}"? Its collections, notes and tool statuses are deleted for everyone.`)) return;
+
+    const { error } = await db.deleteOrganization(organization.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    forgetOrganization(organization.id);
+    toast.success('Team deleted');
+  };
+
+  const handleLeaveTeam = async () => {
+    const membership = members.find(member => member.userId === user.id);
+    if (!organization || !membership) return;
+    if (!window.confirm(`Leave "${organization.name}"?`)) return;
+
+    const { error } = await db.removeOrganizationMember(membership.id);
+    if (error) {
+      toast.error(isOwner ? 'Make someone else an owner before you leave' : error.message);
+      return;
+    }
+    forgetOrganization(organization.id);
+    toast.success(`You left ${organization.name}`);
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrganizationRole) => {
+    const { error } = await db.updateOrganizationMemberRole(member.id, role);
+    if (error) {
+      toast.error(member.role === 'owner' ? 'A team needs at least one owner' : error.message);
+      return;
+    }
+    setMembers(members.map(m => (m.id === member.id ? { ...m, role } : m)));
+    toast.success(`${member.name} is now ${getRoleLabel(role).toLowerCase()}`);
+  };
+
+  const handleRemoveMember = async (member: OrganizationMember) => {
+    if (!window.confirm(`Remove ${member.name} from the team?`)) return;
+
+    const { error } = await db.removeOrganizationMember(member.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setMembers(members.filter(m => m.id !== member.id));
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteDraft.email.trim().toLowerCase();
+    if (!organization || !email) return;
+
+    if (members.some(member => member.email?.toLowerCase() === email)) {
+      toast.error('That person is already on the team');
+      return;
+    }
+
+    setInviting(true);
+    const { data, error } = await db.createOrganizationInvite({
+      organization_id: organization.id,
+      email,
+      role: inviteDraft.role,
+      invited_by: user.id
+    });
+
+    if (error || !data) {
+      setInviting(false);
+      toast.error(error?.message || 'Failed to create invite');
+      return;
+    }
+
+    const { error: emailError } = await sendTeamInviteEmail({
+      to: email,
+      inviterName: user.name,
+      organizationName: organization.name,
+      role: data.role,
+      acceptUrl: `${window.location.origin}${routes.teamInvite(data.token)}`
+    });
+    setInviting(false);
+
+    setInvites([toOrganizationInvite(data), ...invites]);
+    setInviteDraft({ email: '', role: 'member' });
+    if (emailError) {
+      toast.error('Invite saved, but the email could not be sent');
+    } else {
+      toast.success(`Invited ${email}`);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: OrganizationInvite) => {
+    const { error } = await db.revokeOrganizationInvite(invite.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setInvites(invites.filter(i => i.id !== invite.id));
+  };
+
+  const handleCreateCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organization || !collectionName.trim()) return;
+
+    const { data, error } = await createCollection({
+      name: collectionName,
+      visibility: 'private',
+      organizationId: organization.id
+    });
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to create collection');
+      return;
+    }
+    setCollectionName('');
+    toast.success(`Created ${data.name}`);
+  };
+
+  const teamForm = (onSubmit: (e: React.FormEvent) => void, submitLabel: string, onCancel: () => void) => (
+    <form onSubmit={onSubmit} className="space-y-3">
+      <input
+        type="text"
+        value={teamDraft.name}
+        onChange={(e) => setTeamDraft({ ...teamDraft, name: e.target.value })}
+        maxLength={MAX_ORGANIZATION_NAME_LENGTH}
+        placeholder="Team name"
+        required
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+      />
+      <textarea
+        value={teamDraft.description}
+        onChange={(e) => setTeamDraft({ ...teamDraft, description: e.target.value })}
+        maxLength={MAX_ORGANIZATION_DESCRIPTION_LENGTH}
+        placeholder="What does this team work on? (optional)"
+        rows={2}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+      />
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !teamDraft.name.trim()}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Teams</h1>
+            <p className="text-gray-600">Share a tool stack, collections and notes with the people you work with.</p>
+          </div>
+          <button
+            onClick={() => {
+              setTeamDraft({ name: '', description: '' });
+              setEditing(false);
+              setShowCreateForm(!showCreateForm);
+            }}
+            className="flex items-center justify-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Team</span>
+          </button>
+        </div>
+
+        {showCreateForm && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-6"
+          >
+            {teamForm(handleCreateTeam, 'Create Team', () => setShowCreateForm(false))}
+          </motion.div>
+        )}
+
+        {loading && organizations.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-3 text-gray-600">Loading your teams...</span>
+          </div>
+        ) : !organization ? (
+          <div className="text-center py-16">
+            <Users className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">You are not in a team yet</h3>
+            <p className="text-gray-600">Create a team, or ask a teammate to invite you by email.</p>
+          </div>
+        ) : (
+          <>
+            {organizations.length > 1 && (
+              <div className="flex flex-wrap gap-2 mb-6">
+                {organizations.map(org => (
+                  <button
+                    key={org.id}
+                    onClick={() => setActiveOrganization(org.id)}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      org.id === organization.id
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {org.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-8"
+            >
+              {editing ? (
+                teamForm(handleSaveTeam, 'Save', () => setEditing(false))
+              ) : (
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center space-x-3 mb-2">
+                      <h2 className="text-2xl font-bold text-gray-900">{organization.name}</h2>
+                      <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs font-medium">
+                        {getRoleLabel(organization.role)}
+                      </span>
+                    </div>
+                    {organization.description && (
+                      <p className="text-gray-600 mb-2 max-w-3xl">{organization.description}</p>
+                    )}
+                    <p className="text-sm text-gray-500">
+                      {members.length} {members.length === 1 ? 'member' : 'members'}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {canManage && (
+                      <button
+                        onClick={startEditing}
+                        className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span>Edit</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={handleLeaveTeam}
+                      className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+                    >
+                      <LogOut className="h-4 w-4" />
+                      <span>Leave</span>
+                    </button>
+                    {isOwner && (
+                      <button
+                        onClick={handleDeleteTeam}
+                        className="flex items-center space-x-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors text-sm font-medium"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span>Delete</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </motion.div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-2 space-y-8">
+                {/* Tool stack */}
+                <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1">Tool stack</h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {canManage
+                      ? 'Set a status from any tool page. Members see it as a badge on every tool card.'
+                      : 'Your team admins set these from tool pages.'}
+                  </p>
+                  {stack.length === 0 ? (
+                    <p className="text-sm text-gray-500">No tools have a status yet.</p>
+                  ) : (
+                    <div className="space-y-6">
+                      {TOOL_APPROVAL_STATUS_OPTIONS.map(option => {
+                        const entries = stack.filter(entry => entry.status === option.value);
+                        if (entries.length === 0) return null;
+
+                        return (
+                          <div key={option.value}>
+                            <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium border mb-3 ${option.badgeClass}`}>
+                              {option.label} · {entries.length}
+                            </span>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                              {entries.map(({ tool }) => (
+                                <button
+                                  key={tool.id}
+                                  onClick={() => onToolClick(tool.id)}
+                                  className="flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-50 transition-colors text-left"
+                                >
+                                  <img
+                                    src={tool.media?.logo || tool.image}
+                                    alt=""
+                                    className="w-10 h-10 rounded-lg object-cover bg-gray-200 flex-shrink-0"
+                                  />
+                                  <div className="min-w-0">
+                                    <div className="font-medium text-gray-900 truncate">{tool.name}</div>
+                                    <div className="text-sm text-gray-500 truncate">{tool.category}</div>
+                                  </div>
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </section>
+
+                {/* Team collections */}
+                <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1">Team collections</h3>
+                  <p className="text-sm text-gray-600 mb-4">Every member can add, remove and reorder tools in these.</p>
+                  {teamCollections.length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+                      {teamCollections.map(collection => (
+                        <button
+                          key={collection.id}
+                          onClick={() => onCollectionClick(collection.id)}
+                          className="flex items-center space-x-3 p-4 border border-gray-200 rounded-xl hover:border-primary-300 hover:shadow-md transition-all text-left"
+                        >
+                          <FolderOpen className="h-5 w-5 text-primary-600 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <div className="font-medium text-gray-900 truncate">{collection.name}</div>
+                            <div className="text-sm text-gray-500">
+                              {collection.toolIds.length} {collection.toolIds.length === 1 ? 'tool' : 'tools'}
+                            </div>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <form onSubmit={handleCreateCollection} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={collectionName}
+                      onChange={(e) => setCollectionName(e.target.value)}
+                      maxLength={MAX_COLLECTION_NAME_LENGTH}
+                      placeholder="New team collection"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!collectionName.trim()}
+                      className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                    >
+                      Create
+                    </button>
+                  </form>
+                </section>
+              </div>
+
+              <div className="space-y-8">
+                {/* Members */}
+                <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Members</h3>
+                  <ul className="space-y-3">
+                    {members.map(member => {
+                      // Only owners touch owners; everyone else manages admins and members
+                      const canEditMember = canManage && member.userId !== user.id && (isOwner || member.role !== 'owner');
+
+                      return (
+                        <li key={member.id} className="flex items-center space-x-3">
+                          {member.avatar ? (
+                            <img src={member.avatar} alt="" className="w-8 h-8 rounded-full object-cover flex-shrink-0" />
+                          ) : (
+                            <div className="w-8 h-8 rounded-full bg-primary-100 text-primary-700 flex items-center justify-center text-sm font-medium flex-shrink-0">
+                              {member.name.charAt(0).toUpperCase()}
+                            </div>
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm font-medium text-gray-900 truncate">
+                              {member.name}{member.userId === user.id && ' (you)'}
+                            </div>
+                            {member.email && <div className="text-xs text-gray-500 truncate">{member.email}</div>}
+                          </div>
+                          {canEditMember ? (
+                            <>
+                              <select
+                                value={member.role}
+                                onChange={(e) => handleRoleChange(member, e.target.value as OrganizationRole)}
+                                className="py-1 px-2 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                                aria-label={`Role for ${member.name}`}
+                              >
+                                {ORGANIZATION_ROLE_OPTIONS
+                                  .filter(option => isOwner || option.value !== 'owner')
+                                  .map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                  ))}
+                              </select>
+                              <button
+                                onClick={() => handleRemoveMember(member)}
+                                className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                                aria-label={`Remove ${member.name}`}
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                            </>
+                          ) : (
+                            <span className="text-xs text-gray-500">{getRoleLabel(member.role)}</span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+
+                {/* Invites */}
+                {canManage && (
+                  <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">Invite people</h3>
+                    <form onSubmit={handleInvite} className="space-y-2 mb-4">
+                      <input
+                        type="email"
+                        value={inviteDraft.email}
+                        onChange={(e) => setInviteDraft({ ...inviteDraft, email: e.target.value })}
+                        placeholder="teammate@company.com"
+                        required
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <div className="flex space-x-2">
+                        <select
+                          value={inviteDraft.role}
+                          onChange={(e) => setInviteDraft({ ...inviteDraft, role: e.target.value as Exclude<OrganizationRole, 'owner'> })}
+                          className="flex-1 py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        >
+                          {ORGANIZATION_ROLE_OPTIONS.filter(option => option.value !== 'owner').map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="submit"
+                          disabled={inviting || !inviteDraft.email.trim()}
+                          className="flex items-center space-x-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                        >
+                          <UserPlus className="h-4 w-4" />
+                          <span>{inviting ? 'Sending...' : 'Invite'}</span>
+                        </button>
+                      </div>
+                    </form>
+
+                    {invites.length > 0 && (
+                      <ul className="space-y-2 border-t border-gray-100 pt-4">
+                        {invites.map(invite => (
+                          <li key={invite.id} className="flex items-center space-x-2 text-sm">
+                            <Mail className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                            <span className="flex-1 min-w-0 truncate text-gray-700">{invite.email}</span>
+                            <span className="text-xs text-gray-500">{getRoleLabel(invite.role)}</span>
+                            <button
+                              onClick={() => handleRevokeInvite(invite)}
+                              className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                              aria-label={`Revoke invite for ${invite.email}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </section>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamsPage;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { 
   ArrowLeft, 
@@ -14,30 +14,65 @@ import {
   Users,
   MessageCircle,
   ThumbsUp,
-  Flag
+  Flag,
+  Mail,
+  BadgeCheck,
+  Pencil
 } from 'lucide-react';
 import { Tool, User } from '../types';
 import { useAuth } from '../hooks/useAuth';
 import { useBookmarkContext } from '../contexts/BookmarkContext';
+import { useIsAdmin } from '../hooks/useAdmin';
+import { useToolOwnership } from '../hooks/useToolOwnership';
+import { useAlternatives } from '../hooks/useAlternatives';
+import { db } from '../lib/supabase';
 import { ReviewForm } from '../components/ReviewForm';
 import { ReviewList } from '../components/ReviewList';
 import { ReviewSummary } from '../components/ReviewSummary';
 import { LikeButton, LikeCount } from '../components/LikeButton';
+import ScreenshotCarousel from '../components/ScreenshotCarousel';
+import ClaimToolModal from '../components/ClaimToolModal';
+import AlternativeTools from '../components/AlternativeTools';
+import AddToCollectionMenu from '../components/AddToCollectionMenu';
+import TeamStatusBadge from '../components/TeamStatusBadge';
+import TeamToolPanel from '../components/TeamToolPanel';
 
 
 interface ToolDetailProps {
   tool: Tool;
   onBack: () => void;
   currentUser: User | null;
+  onEditTool?: (toolId: string) => void;
+  onToolClick?: (toolId: string) => void;
 }
 
-const ToolDetail: React.FC<ToolDetailProps> = ({ tool, onBack, currentUser }) => {
+const ToolDetail: React.FC<ToolDetailProps> = ({ tool, onBack, currentUser, onEditTool, onToolClick }) => {
   const { user } = useAuth();
   const { isBookmarked, toggleBookmark } = useBookmarkContext();
   const [activeTab, setActiveTab] = useState<'overview' | 'reviews' | 'alternatives'>('overview');
   const [bookmarkLoading, setBookmarkLoading] = useState(false);
+  const { isAdmin } = useIsAdmin();
+  const [contactEmail, setContactEmail] = useState<string | null>(null);
+  const ownership = useToolOwnership(tool.id);
+  const [isClaimModalOpen, setIsClaimModalOpen] = useState(false);
+  const { alternatives, loading: alternativesLoading } = useAlternatives(tool);
 
   const toolIsBookmarked = isBookmarked(tool.id);
+  const canSeeContact = !!user && (isAdmin || user.id === tool.submittedBy);
+
+  // The submission contact is private; RLS only returns it to the submitter and admins
+  useEffect(() => {
+    setContactEmail(null);
+    if (!canSeeContact) return;
+
+    let cancelled = false;
+    db.getToolContact(tool.id).then(({ data }) => {
+      if (!cancelled) setContactEmail(data?.contact_email ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tool.id, canSeeContact]);
 
   const getPricingBadge = (pricing: string) => {
     const styles = {
@@ -101,6 +136,7 @@ const ToolDetail: React.FC<ToolDetailProps> = ({ tool, onBack, currentUser }) =>
                       <span>Verified</span>
                     </div>
                   )}
+                  {user && <TeamStatusBadge toolId={tool.id} size="md" />}
                 </div>
 
                 {/* Actions */}
@@ -124,6 +160,7 @@ const ToolDetail: React.FC<ToolDetailProps> = ({ tool, onBack, currentUser }) =>
                       <Bookmark className="h-5 w-5" fill={toolIsBookmarked ? 'currentColor' : 'none'} />
                     </motion.button>
                   )}
+                  {user && <AddToCollectionMenu toolId={tool.id} variant="overlay" />}
                   <LikeButton 
                     toolId={tool.id}
                     size="md"
@@ -144,7 +181,16 @@ const ToolDetail: React.FC<ToolDetailProps> = ({ tool, onBack, currentUser }) =>
               <div className="p-8">
                 <div className="flex items-start justify-between mb-6">
                   <div>
-                    <h1 className="text-4xl font-bold text-gray-900 mb-2">{tool.name}</h1>
+                    <div className="flex items-center space-x-4 mb-2">
+                      {tool.media?.logo && (
+                        <img
+                          src={tool.media.logo}
+                          alt={`${tool.name} logo`}
+                          className="w-14 h-14 rounded-xl object-cover border border-gray-200 bg-white"
+                        />
+                      )}
+                      <h1 className="text-4xl font-bold text-gray-900">{tool.name}</h1>
+                    </div>
                     <div className="flex items-center space-x-4 text-gray-600">
                       <ReviewSummary 
                         toolId={tool.id} 
@@ -216,36 +262,31 @@ const ToolDetail: React.FC<ToolDetailProps> = ({ tool, onBack, currentUser }) =>
                 <div className="min-h-[400px]">
                   {activeTab === 'overview' && (
                     <div className="space-y-6">
+                      {tool.media && tool.media.screenshots.length > 0 && (
+                        <div>
+                          <h3 className="text-xl font-semibold text-gray-900 mb-4">Screenshots</h3>
+                          <ScreenshotCarousel screenshots={tool.media.screenshots} toolName={tool.name} />
+                        </div>
+                      )}
+
                       <div>
                         <h3 className="text-xl font-semibold text-gray-900 mb-4">About {tool.name}</h3>
-                        <p className="text-gray-700 leading-relaxed">
-                          This is a comprehensive AI tool that provides advanced capabilities for various use cases. 
-                          It offers a user-friendly interface combined with powerful features that make it suitable 
-                          for both beginners and professionals.
-                        </p>
+                        <p className="text-gray-700 leading-relaxed">{tool.description}</p>
                       </div>
                       
-                      <div>
-                        <h3 className="text-xl font-semibold text-gray-900 mb-4">Key Features</h3>
-                        <ul className="space-y-2 text-gray-700">
-                          <li className="flex items-start space-x-2">
-                            <span className="w-2 h-2 bg-primary-600 rounded-full mt-2 flex-shrink-0"></span>
-                            <span>Advanced AI-powered functionality</span>
-                          </li>
-                          <li className="flex items-start space-x-2">
-                            <span className="w-2 h-2 bg-primary-600 rounded-full mt-2 flex-shrink-0"></span>
-                            <span>Intuitive user interface</span>
-                          </li>
-                          <li className="flex items-start space-x-2">
-                            <span className="w-2 h-2 bg-primary-600 rounded-full mt-2 flex-shrink-0"></span>
-                            <span>Integration capabilities</span>
-                          </li>
-                          <li className="flex items-start space-x-2">
-                            <span className="w-2 h-2 bg-primary-600 rounded-full mt-2 flex-shrink-0"></span>
-                            <span>Regular updates and improvements</span>
-                          </li>
-                        </ul>
-                      </div>
+                      {tool.features && tool.features.length > 0 && (
+                        <div>
+                          <h3 className="text-xl font-semibold text-gray-900 mb-4">Key Features</h3>
+                          <ul className="space-y-2 text-gray-700">
+                            {tool.features.map((feature) => (
+                              <li key={feature} className="flex items-start space-x-2">
+                                <span className="w-2 h-2 bg-primary-600 rounded-full mt-2 flex-shrink-0"></span>
+                                <span>{feature}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -269,17 +310,18 @@ const ToolDetail: React.FC<ToolDetailProps> = ({ tool, onBack, currentUser }) =>
                       {/* Reviews List */}
                       <ReviewList 
                         toolId={tool.id}
+                        toolName={tool.name}
                         showTitle={false}
                       />
                     </div>
                   )}
 
                   {activeTab === 'alternatives' && (
-                    <div className="text-center py-12">
-                      <div className="text-6xl mb-4">🔄</div>
-                      <h3 className="text-xl font-semibold text-gray-900 mb-2">Alternative Tools</h3>
-                      <p className="text-gray-600">Similar tools and alternatives will be displayed here.</p>
-                    </div>
+                    <AlternativeTools
+                      alternatives={alternatives}
+                      loading={alternativesLoading}
+                      onToolClick={onToolClick}
+                    />
                   )}
                 </div>
               </div>
@@ -334,32 +376,107 @@ const ToolDetail: React.FC<ToolDetailProps> = ({ tool, onBack, currentUser }) =>
                     </div>
                   </div>
                 </div>
+                {contactEmail && (
+                  <div className="flex items-center space-x-3">
+                    <Mail className="h-5 w-5 text-gray-400" />
+                    <div>
+                      <div className="text-sm text-gray-500">Submission contact (private)</div>
+                      <a href={`mailto:${contactEmail}`} className="font-medium text-primary-600 hover:text-primary-700 break-all">
+                        {contactEmail}
+                      </a>
+                    </div>
+                  </div>
+                )}
               </div>
             </motion.div>
 
+            {/* Ownership (only published listings can be claimed) */}
+            {user && !ownership.loading && (ownership.isOwner || !tool.status || tool.status === 'approved') && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.25 }}
+                className="bg-white rounded-2xl shadow-lg p-6"
+              >
+                {ownership.isOwner ? (
+                  <>
+                    <div className="flex items-center space-x-2 mb-2">
+                      <BadgeCheck className="h-5 w-5 text-primary-600" />
+                      <h3 className="text-lg font-semibold text-gray-900">You manage this tool</h3>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-4">Keep the description, media and features up to date.</p>
+                    {onEditTool && (
+                      <button
+                        onClick={() => onEditTool(tool.id)}
+                        className="w-full flex items-center justify-center space-x-2 bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span>Edit Listing</span>
+                      </button>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Is this your tool?</h3>
+                    <p className="text-sm text-gray-600 mb-4">Verify your domain to update this listing.</p>
+                    <button
+                      onClick={() => setIsClaimModalOpen(true)}
+                      className="w-full border border-primary-600 text-primary-600 py-2 rounded-lg hover:bg-primary-50 transition-colors font-medium"
+                    >
+                      {ownership.claim?.status === 'pending' ? 'Continue Claim' : 'Claim This Tool'}
+                    </button>
+                  </>
+                )}
+              </motion.div>
+            )}
+
+            {/* Team */}
+            {user && <TeamToolPanel toolId={tool.id} userId={user.id} />}
+
             {/* Related Tools */}
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.3 }}
-              className="bg-white rounded-2xl shadow-lg p-6"
-            >
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Related Tools</h3>
-              <div className="space-y-3">
-                {[1, 2, 3].map((i) => (
-                  <div key={i} className="flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer">
-                    <div className="w-10 h-10 bg-gray-200 rounded-lg"></div>
-                    <div className="flex-1">
-                      <div className="font-medium text-gray-900">Related Tool {i}</div>
-                      <div className="text-sm text-gray-500">Similar functionality</div>
+            {alternatives.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-white rounded-2xl shadow-lg p-6"
+              >
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Related Tools</h3>
+                <div className="space-y-3">
+                  {alternatives.slice(0, 3).map(({ tool: related, reasons }) => (
+                    <div
+                      key={related.id}
+                      onClick={() => onToolClick?.(related.id)}
+                      className="flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer"
+                    >
+                      <img
+                        src={related.media?.logo || related.image}
+                        alt=""
+                        className="w-10 h-10 rounded-lg object-cover bg-gray-200"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-gray-900 truncate">{related.name}</div>
+                        <div className="text-sm text-gray-500 truncate">{reasons[0]}</div>
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            </motion.div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
           </div>
         </div>
       </div>
+
+      <ClaimToolModal
+        isOpen={isClaimModalOpen}
+        onClose={() => setIsClaimModalOpen(false)}
+        toolName={tool.name}
+        websiteUrl={tool.url}
+        claim={ownership.claim}
+        working={ownership.working}
+        onStartClaim={ownership.startClaim}
+        onVerify={ownership.verifyClaim}
+      />
     </div>
   );
 };
@@ -1,6 +1,13 @@
 import { create } from 'zustand';
 import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
+import { supabase, auth } from '../lib/supabase';
+import { routes } from '../lib/routes';
+import { getPendingMfaFactorId, normalizeRecoveryCode } from '../lib/mfa';
+
+// Supabase removes the token from the URL once it has read it, so note
+// whether the page was opened from a password reset link straight away
+const openedFromRecoveryLink =
+  typeof window !== 'undefined' && window.location.hash.includes('type=recovery');
 
 interface AuthState {
   user: User | null;
@@ -8,6 +15,10 @@ interface AuthState {
   loading: boolean;
   initialized: boolean;
   error: string | null;
+  // Signed in from a password reset link and yet to choose a new password
+  passwordRecovery: boolean;
+  // Password accepted but the account's second factor is still to be verified
+  mfaChallenge: { factorId: string } | null;
   
   // Actions
   setUser: (user: User | null) => void;
@@ -15,12 +26,21 @@ interface AuthState {
   setLoading: (loading: boolean) => void;
   setInitialized: (initialized: boolean) => void;
   setError: (error: string | null) => void;
+  setPasswordRecovery: (passwordRecovery: boolean) => void;
+  applySession: (session: Session) => void;
   
   // Auth operations
-  signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
+  signIn: (email: string, password: string) => Promise<{ error: Error | null; mfaRequired?: boolean }>;
   signUp: (email: string, password: string, metadata?: { name: string }) => Promise<{ error: Error | null }>;
   signOut: () => Promise<{ error: Error | null }>;
   refreshSession: () => Promise<boolean>;
+  requestPasswordReset: (email: string) => Promise<{ error: Error | null }>;
+  completePasswordReset: (password: string) => Promise<{ error: Error | null }>;
+  requestPasswordChange: (currentPassword: string) => Promise<{ error: Error | null }>;
+  changePassword: (newPassword: string, code: string) => Promise<{ error: Error | null }>;
+  verifyMfa: (code: string) => Promise<{ error: Error | null }>;
+  redeemRecoveryCode: (code: string) => Promise<{ error: Error | null }>;
+  cancelMfaChallenge: () => Promise<void>;
   
   // Utility functions
   isAuthenticated: () => boolean;
@@ -33,6 +53,8 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   loading: true,
   initialized: false,
   error: null,
+  passwordRecovery: openedFromRecoveryLink,
+  mfaChallenge: null,
   
   // State setters
   setUser: (user) => set({ user }),
@@ -40,6 +62,17 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   setLoading: (loading) => set({ loading }),
   setInitialized: (initialized) => set({ initialized }),
   setError: (error) => set({ error }),
+  setPasswordRecovery: (passwordRecovery) => set({ passwordRecovery }),
+  
+  // Holds the user back until a session that still needs its second factor is verified
+  applySession: (session) => {
+    const factorId = getPendingMfaFactorId(session);
+    if (factorId) {
+      set({ user: null, session: null, mfaChallenge: { factorId } });
+    } else {
+      set({ user: session.user, session, mfaChallenge: null });
+    }
+  },
   
   // Auth operations
   signIn: async (email, password) => {
@@ -53,7 +86,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       if (error) throw error;
       
       // Auth state will be updated via onAuthStateChange listener
-      return { error: null };
+      return { error: null, mfaRequired: !!getPendingMfaFactorId(data.session) };
     } catch (error) {
       console.error('Sign in error:', error);
       set({ error: (error as Error).message });
@@ -113,10 +146,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         return false;
       }
       
-      set({ 
-        session: data.session,
-        user: data.user,
-      });
+      get().applySession(data.session);
       
       return true;
     } catch (error) {
@@ -125,6 +155,63 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
   
+  requestPasswordReset: async (email) => {
+    const { error } = await auth.requestPasswordReset(email, `${window.location.origin}${routes.resetPassword}`);
+    return { error: error ? new Error(error.message) : null };
+  },
+  
+  completePasswordReset: async (password) => {
+    const { error } = await auth.updatePassword(password);
+    if (error) return { error: new Error(error.message) };
+    
+    set({ passwordRecovery: false });
+    return { error: null };
+  },
+  
+  // Checks the current password, then emails the code changePassword needs.
+  // With secure_password_change on, Supabase Auth itself refuses a change
+  // without the code once the session is more than a day old.
+  requestPasswordChange: async (currentPassword) => {
+    const { data: verified, error: verifyError } = await auth.verifyPassword(currentPassword);
+    if (verifyError) return { error: new Error(verifyError.message) };
+    if (!verified) return { error: new Error('Your current password is incorrect') };
+    
+    const { error } = await auth.reauthenticate();
+    return { error: error ? new Error(error.message) : null };
+  },
+  
+  changePassword: async (newPassword, code) => {
+    const { error } = await auth.updatePassword(newPassword, code);
+    return { error: error ? new Error(error.message) : null };
+  },
+  
+  verifyMfa: async (code) => {
+    const { mfaChallenge } = get();
+    if (!mfaChallenge) return { error: new Error('No two-factor check is in progress') };
+    
+    const { error } = await auth.verifyTotp(mfaChallenge.factorId, code);
+    if (error) return { error: new Error(error.message) };
+    
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session) get().applySession(session);
+    return { error: null };
+  },
+  
+  // A valid recovery code turns two-factor off, after which the password-only session is enough
+  redeemRecoveryCode: async (code) => {
+    const { data, error } = await auth.redeemRecoveryCode(normalizeRecoveryCode(code));
+    if (error || !data) return { error: new Error(error?.message || 'Failed to check your recovery code') };
+    if (!data.recovered) return { error: new Error(data.reason || 'That recovery code is not valid') };
+    
+    const refreshed = await get().refreshSession();
+    return { error: refreshed ? null : new Error('Recovery code accepted, but signing in failed. Please sign in again.') };
+  },
+  
+  cancelMfaChallenge: async () => {
+    await supabase.auth.signOut({ scope: 'local' });
+    get().clearState();
+  },
+  
   // Utility functions
   isAuthenticated: () => {
     const state = get();
@@ -137,6 +224,8 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       session: null,
       error: null,
       loading: false,
+      passwordRecovery: false,
+      mfaChallenge: null,
     });
   },
 }));
@@ -158,8 +247,7 @@ export const initAuth = async (): Promise<void> => {
     
     if (session) {
       console.log('✅ Session found, setting user');
-      store.setUser(session.user);
-      store.setSession(session);
+      store.applySession(session);
     } else {
       console.log('ℹ️ No session found');
       store.clearState();
@@ -170,18 +258,22 @@ export const initAuth = async (): Promise<void> => {
       async (event, session) => {
         console.log('🔄 Auth state changed:', event);
         
-        if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED') {
+        if (
+          event === 'SIGNED_IN' ||
+          event === 'TOKEN_REFRESHED' ||
+          event === 'USER_UPDATED' ||
+          event === 'MFA_CHALLENGE_VERIFIED'
+        ) {
           if (session) {
-            store.setUser(session.user);
-            store.setSession(session);
+            store.applySession(session);
           }
-        } else if (event === 'SIGNED_OUT') {
-          store.clearState();
-        } else if (event === 'USER_UPDATED') {
+        } else if (event === 'PASSWORD_RECOVERY') {
           if (session) {
-            store.setUser(session.user);
-            store.setSession(session);
+            store.applySession(session);
           }
+          store.setPasswordRecovery(true);
+        } else if (event === 'SIGNED_OUT') {
+          store.clearState();
         }
       }
     );
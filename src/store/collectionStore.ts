@@ -0,0 +1,159 @@
+import { create } from 'zustand';
+import { db } from '../lib/supabase';
+import { toCollection } from '../lib/collections';
+import { Collection, CollectionVisibility } from '../types';
+
+export interface CollectionInput {
+  name: string;
+  description?: string;
+  visibility: CollectionVisibility;
+  // Shares the collection with this team
+  organizationId?: string;
+}
+
+interface CollectionState {
+  userId: string | null;
+  // Teams whose collections are loaded alongside the user's own
+  organizationIds: string[];
+  collections: Collection[];
+  loading: boolean;
+
+  // Actions
+  load: (userId: string, organizationIds?: string[]) => Promise<void>;
+  reset: () => void;
+  createCollection: (input: CollectionInput) => Promise<{ data: Collection | null; error: Error | null }>;
+  updateCollection: (collectionId: string, updates: Partial<CollectionInput>) => Promise<{ error: Error | null }>;
+  deleteCollection: (collectionId: string) => Promise<{ error: Error | null }>;
+  toggleTool: (collectionId: string, toolId: string) => Promise<{ error: Error | null }>;
+  reorder: (collectionId: string, toolIds: string[]) => Promise<{ error: Error | null }>;
+  syncDefaultCollection: (bookmarkedToolIds: string[]) => void;
+}
+
+const toError = (error: { message: string }) => new Error(error.message);
+
+// The signed-in user's collections and their teams' collections, shared by
+// every "add to collection" menu
+export const useCollectionStore = create<CollectionState>((set, get) => {
+  const replace = (collectionId: string, update: (collection: Collection) => Collection) =>
+    set({
+      collections: get().collections.map(collection =>
+        collection.id === collectionId ? update(collection) : collection
+      )
+    });
+
+  return {
+    userId: null,
+    organizationIds: [],
+    collections: [],
+    loading: false,
+
+    load: async (userId, organizationIds = []) => {
+      set({ userId, organizationIds, loading: true });
+      const { data, error } = await db.getUserCollections(userId, organizationIds);
+
+      // Ignore results for a user who has since signed out
+      if (get().userId !== userId) return;
+
+      if (error) {
+        console.error('Failed to load collections:', error);
+        set({ loading: false });
+        return;
+      }
+      set({ collections: (data || []).map(toCollection), loading: false });
+    },
+
+    reset: () => set({ userId: null, organizationIds: [], collections: [], loading: false }),
+
+    createCollection: async ({ name, description, visibility, organizationId }) => {
+      const { userId } = get();
+      if (!userId) return { data: null, error: new Error('Please sign in to create collections') };
+
+      const { data, error } = await db.createCollection({
+        user_id: userId,
+        name: name.trim(),
+        description: description?.trim() || null,
+        visibility,
+        organization_id: organizationId || null
+      });
+      if (error || !data) return { data: null, error: toError(error || { message: 'Failed to create collection' }) };
+
+      const collection = toCollection(data);
+      set({ collections: [...get().collections, collection] });
+      return { data: collection, error: null };
+    },
+
+    updateCollection: async (collectionId, updates) => {
+      const { data, error } = await db.updateCollection(collectionId, {
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.description !== undefined && { description: updates.description.trim() || null }),
+        ...(updates.visibility && { visibility: updates.visibility })
+      });
+      if (error || !data) return { error: toError(error || { message: 'Failed to update collection' }) };
+
+      replace(collectionId, collection => ({ ...toCollection(data), toolIds: collection.toolIds }));
+      return { error: null };
+    },
+
+    deleteCollection: async (collectionId) => {
+      const { error } = await db.deleteCollection(collectionId);
+      if (error) return { error: toError(error) };
+
+      set({ collections: get().collections.filter(collection => collection.id !== collectionId) });
+      return { error: null };
+    },
+
+    // Optimistic; the default collection goes through bookmarks instead
+    toggleTool: async (collectionId, toolId) => {
+      const collection = get().collections.find(c => c.id === collectionId);
+      if (!collection) return { error: new Error('Collection not found') };
+
+      const wasIncluded = collection.toolIds.includes(toolId);
+      const previousToolIds = collection.toolIds;
+      replace(collectionId, c => ({
+        ...c,
+        toolIds: wasIncluded ? c.toolIds.filter(id => id !== toolId) : [...c.toolIds, toolId]
+      }));
+
+      const { error } = wasIncluded
+        ? await db.removeFromCollection(collectionId, toolId)
+        : await db.addToCollection(collectionId, toolId);
+
+      if (error) {
+        replace(collectionId, c => ({ ...c, toolIds: previousToolIds }));
+        return { error: toError(error) };
+      }
+      return { error: null };
+    },
+
+    reorder: async (collectionId, toolIds) => {
+      const previousToolIds = get().collections.find(c => c.id === collectionId)?.toolIds;
+      replace(collectionId, c => ({ ...c, toolIds }));
+
+      const { error } = await db.reorderCollection(collectionId, toolIds);
+      if (error) {
+        if (previousToolIds) replace(collectionId, c => ({ ...c, toolIds: previousToolIds }));
+        return { error: toError(error) };
+      }
+      return { error: null };
+    },
+
+    // "Saved" mirrors bookmarks in the database; mirror them here too so
+    // bookmarking from anywhere shows up without a reload
+    syncDefaultCollection: (bookmarkedToolIds) => {
+      const { userId, organizationIds, loading, collections, load } = get();
+      const saved = collections.find(collection => collection.isDefault);
+      if (!saved) {
+        // The database creates "Saved" with the first bookmark
+        if (userId && !loading && bookmarkedToolIds.length > 0) load(userId, organizationIds);
+        return;
+      }
+
+      const bookmarked = new Set(bookmarkedToolIds);
+      const kept = saved.toolIds.filter(id => bookmarked.has(id));
+      const added = bookmarkedToolIds.filter(id => !saved.toolIds.includes(id));
+      if (added.length === 0 && kept.length === saved.toolIds.length) return;
+
+      replace(saved.id, collection => ({ ...collection, toolIds: [...kept, ...added] }));
+    }
+  };
+});
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Tool } from '../types';
+
+export const MAX_COMPARE_TOOLS = 4;
+
+// Just enough to render the tray; the comparison page loads fresh data
+export interface CompareItem {
+  id: string;
+  name: string;
+  image: string;
+}
+
+interface CompareState {
+  items: CompareItem[];
+
+  // Actions
+  add: (tool: Tool) => boolean;
+  remove: (toolId: string) => void;
+  toggle: (tool: Tool) => boolean;
+  setItems: (tools: Tool[]) => void;
+  clear: () => void;
+
+  // Utility functions
+  isComparing: (toolId: string) => boolean;
+}
+
+const toItem = (tool: Tool): CompareItem => ({
+  id: tool.id,
+  name: tool.name,
+  image: tool.media?.logo || tool.image
+});
+
+// Kept in localStorage so the tray survives reloads and navigation
+export const useCompareStore = create<CompareState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+
+      // Returns false when the tray is already full
+      add: (tool) => {
+        const { items } = get();
+        if (items.some(item => item.id === tool.id)) return true;
+        if (items.length >= MAX_COMPARE_TOOLS) return false;
+
+        set({ items: [...items, toItem(tool)] });
+        return true;
+      },
+
+      remove: (toolId) => set({ items: get().items.filter(item => item.id !== toolId) }),
+
+      toggle: (tool) => {
+        if (get().isComparing(tool.id)) {
+          get().remove(tool.id);
+          return true;
+        }
+        return get().add(tool);
+      },
+
+      setItems: (tools) => set({ items: tools.slice(0, MAX_COMPARE_TOOLS).map(toItem) }),
+
+      clear: () => set({ items: [] }),
+
+      isComparing: (toolId) => get().items.some(item => item.id === toolId)
+    }),
+    {
+      name: 'aiventory-compare',
+      partialize: (state) => ({ items: state.items })
+    }
+  )
+);
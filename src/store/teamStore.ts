@@ -0,0 +1,186 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { db } from '../lib/supabase';
+import { toOrganization } from '../lib/teams';
+import { Organization, ToolApprovalStatus } from '../types';
+import { Database } from '../types/database';
+
+type OrganizationRow = Database['public']['Tables']['organizations']['Row'];
+
+interface TeamState {
+  userId: string | null;
+  organizations: Organization[];
+  // The team whose statuses and notes are shown; kept across reloads
+  activeOrganizationId: string | null;
+  // Tool id -> the active team's status for it
+  toolStatuses: Record<string, ToolApprovalStatus>;
+  loading: boolean;
+
+  // Actions
+  load: (userId: string) => Promise<void>;
+  reset: () => void;
+  setActiveOrganization: (organizationId: string) => Promise<void>;
+  createOrganization: (name: string, description?: string) => Promise<{ data: Organization | null; error: Error | null }>;
+  renameOrganization: (organizationId: string, name: string, description?: string) => Promise<{ error: Error | null }>;
+  forgetOrganization: (organizationId: string) => void;
+  setToolStatus: (toolId: string, status: ToolApprovalStatus | null) => Promise<{ error: Error | null }>;
+
+  // Utility functions
+  getActiveOrganization: () => Organization | null;
+}
+
+const toError = (error: { message: string }) => new Error(error.message);
+
+// One-to-one embeds may come back as an object or a single-item array
+const single = <T,>(value: T | T[] | null | undefined): T | null =>
+  (Array.isArray(value) ? value[0] : value) ?? null;
+
+// The signed-in user's teams and the active team's tool statuses, shared by
+// every tool card badge
+export const useTeamStore = create<TeamState>()(
+  persist(
+    (set, get) => {
+      const loadToolStatuses = async (organizationId: string | null) => {
+        if (!organizationId) {
+          set({ toolStatuses: {} });
+          return;
+        }
+
+        const { data, error } = await db.getOrganizationToolStatuses(organizationId);
+        // Ignore results for a team that is no longer active
+        if (get().activeOrganizationId !== organizationId) return;
+
+        if (error) {
+          console.error('Failed to load team tool statuses:', error);
+          return;
+        }
+        set({
+          toolStatuses: Object.fromEntries((data || []).map(row => [row.tool_id, row.status]))
+        });
+      };
+
+      return {
+        userId: null,
+        organizations: [],
+        activeOrganizationId: null,
+        toolStatuses: {},
+        loading: false,
+
+        load: async (userId) => {
+          set({ userId, loading: true });
+          const { data, error } = await db.getUserOrganizations(userId);
+
+          // Ignore results for a user who has since signed out
+          if (get().userId !== userId) return;
+
+          if (error) {
+            console.error('Failed to load teams:', error);
+            set({ loading: false });
+            return;
+          }
+
+          // Each membership embeds its one organization
+          const organizations = (data || []).flatMap(row => {
+            const organization = single<OrganizationRow>(row.organizations);
+            return organization ? [toOrganization(organization, row.role)] : [];
+          });
+          const { activeOrganizationId } = get();
+          const active = organizations.some(org => org.id === activeOrganizationId)
+            ? activeOrganizationId
+            : organizations[0]?.id ?? null;
+
+          set({ organizations, activeOrganizationId: active, loading: false });
+          await loadToolStatuses(active);
+        },
+
+        reset: () => set({ userId: null, organizations: [], toolStatuses: {}, loading: false }),
+
+        setActiveOrganization: async (organizationId) => {
+          if (organizationId === get().activeOrganizationId) return;
+          set({ activeOrganizationId: organizationId, toolStatuses: {} });
+          await loadToolStatuses(organizationId);
+        },
+
+        createOrganization: async (name, description) => {
+          const { data, error } = await db.createOrganization(name.trim(), description?.trim());
+          if (error || !data) return { data: null, error: toError(error || { message: 'Failed to create team' }) };
+
+          const organization = toOrganization(data, 'owner');
+          set({
+            organizations: [...get().organizations, organization],
+            activeOrganizationId: organization.id,
+            toolStatuses: {}
+          });
+          return { data: organization, error: null };
+        },
+
+        renameOrganization: async (organizationId, name, description) => {
+          const { data, error } = await db.updateOrganization(organizationId, {
+            name: name.trim(),
+            description: description?.trim() || null
+          });
+          if (error || !data) return { error: toError(error || { message: 'Failed to update team' }) };
+
+          set({
+            organizations: get().organizations.map(org =>
+              org.id === organizationId ? toOrganization(data, org.role) : org
+            )
+          });
+          return { error: null };
+        },
+
+        // After leaving or deleting a team
+        forgetOrganization: (organizationId) => {
+          const organizations = get().organizations.filter(org => org.id !== organizationId);
+          set({ organizations });
+
+          if (get().activeOrganizationId === organizationId) {
+            const next = organizations[0]?.id ?? null;
+            set({ activeOrganizationId: next, toolStatuses: {} });
+            loadToolStatuses(next);
+          }
+        },
+
+        // Optimistic; null clears the status
+        setToolStatus: async (toolId, status) => {
+          const { userId, activeOrganizationId, toolStatuses } = get();
+          if (!userId || !activeOrganizationId) return { error: new Error('Join a team to set tool statuses') };
+
+          const previous = toolStatuses[toolId];
+          const next = { ...toolStatuses };
+          if (status) {
+            next[toolId] = status;
+          } else {
+            delete next[toolId];
+          }
+          set({ toolStatuses: next });
+
+          const { error } = status
+            ? await db.setOrganizationToolStatus(activeOrganizationId, toolId, status, userId)
+            : await db.clearOrganizationToolStatus(activeOrganizationId, toolId);
+
+          if (error) {
+            const restored = { ...get().toolStatuses };
+            if (previous) {
+              restored[toolId] = previous;
+            } else {
+              delete restored[toolId];
+            }
+            set({ toolStatuses: restored });
+            return { error: toError(error) };
+          }
+          return { error: null };
+        },
+
+        getActiveOrganization: () => {
+          const { organizations, activeOrganizationId } = get();
+          return organizations.find(org => org.id === activeOrganizationId) ?? null;
+        }
+      };
+    },
+    {
+      name: 'aiventory-active-team',
+      partialize: (state) => ({ activeOrganizationId: state.activeOrganizationId })
+    }
+  )
+);
@@ -10,10 +10,27 @@ export interface Database {
           pricing: 'free' | 'freemium' | 'paid';
           rating: number;
           reviews_count: number;
+          likes_count: number;
+          ease_of_use_rating: number | null;
+          output_quality_rating: number | null;
+          value_rating: number | null;
+          support_rating: number | null;
+          documentation_rating: number | null;
+          ranking_score: number;
+          trending_score: number;
+          ranking_updated_at: string | null;
           tags: string[];
           website_url: string;
+          logo_url: string | null;
+          cover_image_url: string | null;
+          screenshot_urls: string[];
           featured: boolean;
           verified: boolean;
+          status: 'pending' | 'approved' | 'rejected' | 'changes_requested';
+          submitted_by: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          moderation_note: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -25,10 +42,27 @@ export interface Database {
           pricing: 'free' | 'freemium' | 'paid';
           rating?: number;
           reviews_count?: number;
+          likes_count?: number;
+          ease_of_use_rating?: number | null;
+          output_quality_rating?: number | null;
+          value_rating?: number | null;
+          support_rating?: number | null;
+          documentation_rating?: number | null;
+          ranking_score?: number;
+          trending_score?: number;
+          ranking_updated_at?: string | null;
           tags: string[];
           website_url: string;
+          logo_url?: string | null;
+          cover_image_url?: string | null;
+          screenshot_urls?: string[];
           featured?: boolean;
           verified?: boolean;
+          status?: 'pending' | 'approved' | 'rejected' | 'changes_requested';
+          submitted_by?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          moderation_note?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -40,10 +74,27 @@ export interface Database {
           pricing?: 'free' | 'freemium' | 'paid';
           rating?: number;
           reviews_count?: number;
+          likes_count?: number;
+          ease_of_use_rating?: number | null;
+          output_quality_rating?: number | null;
+          value_rating?: number | null;
+          support_rating?: number | null;
+          documentation_rating?: number | null;
+          ranking_score?: number;
+          trending_score?: number;
+          ranking_updated_at?: string | null;
           tags?: string[];
           website_url?: string;
+          logo_url?: string | null;
+          cover_image_url?: string | null;
+          screenshot_urls?: string[];
           featured?: boolean;
           verified?: boolean;
+          status?: 'pending' | 'approved' | 'rejected' | 'changes_requested';
+          submitted_by?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          moderation_note?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -83,6 +134,7 @@ export interface Database {
           bio: string | null;
           location: string | null;
           website: string | null;
+          role: 'user' | 'admin';
           created_at: string;
           updated_at: string;
         };
@@ -94,6 +146,7 @@ export interface Database {
           bio?: string | null;
           location?: string | null;
           website?: string | null;
+          role?: 'user' | 'admin';
           created_at?: string;
           updated_at?: string;
         };
@@ -105,6 +158,7 @@ export interface Database {
           bio?: string | null;
           location?: string | null;
           website?: string | null;
+          role?: 'user' | 'admin';
           created_at?: string;
           updated_at?: string;
         };
@@ -114,29 +168,276 @@ export interface Database {
           id: string;
           user_id: string;
           tool_id: string;
+          notes: string | null;
+          tags: string[];
+          status: 'trying' | 'using' | 'abandoned' | null;
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
           tool_id: string;
+          notes?: string | null;
+          tags?: string[];
+          status?: 'trying' | 'using' | 'abandoned' | null;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: string;
           user_id?: string;
           tool_id?: string;
+          notes?: string | null;
+          tags?: string[];
+          status?: 'trying' | 'using' | 'abandoned' | null;
           created_at?: string;
+          updated_at?: string;
         };
       };
-      reviews: {
+      collections: {
         Row: {
           id: string;
           user_id: string;
+          name: string;
+          description: string | null;
+          visibility: 'private' | 'unlisted' | 'public';
+          is_default: boolean;
+          organization_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          description?: string | null;
+          visibility?: 'private' | 'unlisted' | 'public';
+          is_default?: boolean;
+          organization_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          description?: string | null;
+          visibility?: 'private' | 'unlisted' | 'public';
+          is_default?: boolean;
+          organization_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      collection_items: {
+        Row: {
+          id: string;
+          collection_id: string;
+          tool_id: string;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          collection_id: string;
+          tool_id: string;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          collection_id?: string;
+          tool_id?: string;
+          position?: number;
+          created_at?: string;
+        };
+      };
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      organization_members: {
+        Row: {
+          id: string;
+          organization_id: string;
+          user_id: string;
+          role: 'owner' | 'admin' | 'member';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          user_id: string;
+          role?: 'owner' | 'admin' | 'member';
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          user_id?: string;
+          role?: 'owner' | 'admin' | 'member';
+          created_at?: string;
+        };
+      };
+      organization_invites: {
+        Row: {
+          id: string;
+          organization_id: string;
+          email: string;
+          role: 'admin' | 'member';
+          token: string;
+          invited_by: string | null;
+          status: 'pending' | 'accepted' | 'revoked';
+          created_at: string;
+          expires_at: string;
+          accepted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          email: string;
+          role?: 'admin' | 'member';
+          token?: string;
+          invited_by?: string | null;
+          status?: 'pending' | 'accepted' | 'revoked';
+          created_at?: string;
+          expires_at?: string;
+          accepted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          email?: string;
+          role?: 'admin' | 'member';
+          token?: string;
+          invited_by?: string | null;
+          status?: 'pending' | 'accepted' | 'revoked';
+          created_at?: string;
+          expires_at?: string;
+          accepted_at?: string | null;
+        };
+      };
+      organization_tool_statuses: {
+        Row: {
+          id: string;
+          organization_id: string;
+          tool_id: string;
+          status: 'approved' | 'evaluating' | 'banned';
+          updated_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          tool_id: string;
+          status: 'approved' | 'evaluating' | 'banned';
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          tool_id?: string;
+          status?: 'approved' | 'evaluating' | 'banned';
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      organization_tool_notes: {
+        Row: {
+          id: string;
+          organization_id: string;
+          tool_id: string;
+          user_id: string;
+          content: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          tool_id: string;
+          user_id: string;
+          content: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          tool_id?: string;
+          user_id?: string;
+          content?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      likes: {
+        Row: {
+          id: string;
+          user_id: string;
+          tool_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          tool_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          tool_id?: string;
+          created_at?: string;
+        };
+      };
+      reviews: {
+        Row: {
+          id: string;
+          // NULL once the author's account is deleted
+          user_id: string | null;
           tool_id: string;
           rating: number;
           comment: string;
           helpful_count: number;
+          not_helpful_count: number;
+          status: 'published' | 'hidden';
+          hidden_at: string | null;
+          ease_of_use_rating: number | null;
+          output_quality_rating: number | null;
+          value_rating: number | null;
+          support_rating: number | null;
+          documentation_rating: number | null;
+          pros: string[];
+          cons: string[];
+          use_case: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -147,6 +448,17 @@ export interface Database {
           rating: number;
           comment: string;
           helpful_count?: number;
+          not_helpful_count?: number;
+          status?: 'published' | 'hidden';
+          hidden_at?: string | null;
+          ease_of_use_rating?: number | null;
+          output_quality_rating?: number | null;
+          value_rating?: number | null;
+          support_rating?: number | null;
+          documentation_rating?: number | null;
+          pros?: string[];
+          cons?: string[];
+          use_case?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -157,16 +469,482 @@ export interface Database {
           rating?: number;
           comment?: string;
           helpful_count?: number;
+          not_helpful_count?: number;
+          status?: 'published' | 'hidden';
+          hidden_at?: string | null;
+          ease_of_use_rating?: number | null;
+          output_quality_rating?: number | null;
+          value_rating?: number | null;
+          support_rating?: number | null;
+          documentation_rating?: number | null;
+          pros?: string[];
+          cons?: string[];
+          use_case?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      review_reports: {
+        Row: {
+          id: string;
+          review_id: string;
+          reporter_id: string;
+          reason: 'spam' | 'abuse' | 'off_topic' | 'conflict_of_interest' | 'misinformation' | 'other';
+          details: string | null;
+          status: 'open' | 'dismissed' | 'actioned';
+          resolved_by: string | null;
+          resolved_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          review_id: string;
+          reporter_id: string;
+          reason: 'spam' | 'abuse' | 'off_topic' | 'conflict_of_interest' | 'misinformation' | 'other';
+          details?: string | null;
+          status?: 'open' | 'dismissed' | 'actioned';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          review_id?: string;
+          reporter_id?: string;
+          reason?: 'spam' | 'abuse' | 'off_topic' | 'conflict_of_interest' | 'misinformation' | 'other';
+          details?: string | null;
+          status?: 'open' | 'dismissed' | 'actioned';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+      };
+      review_responses: {
+        Row: {
+          id: string;
+          review_id: string;
+          responder_id: string | null;
+          body: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          review_id: string;
+          responder_id?: string | null;
+          body: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          review_id?: string;
+          responder_id?: string | null;
+          body?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      review_response_revisions: {
+        Row: {
+          id: string;
+          response_id: string;
+          body: string;
+          edited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          response_id: string;
+          body: string;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          response_id?: string;
+          body?: string;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+      };
+      review_votes: {
+        Row: {
+          id: string;
+          review_id: string;
+          user_id: string;
+          is_helpful: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          review_id: string;
+          user_id: string;
+          is_helpful: boolean;
           created_at?: string;
           updated_at?: string;
         };
+        Update: {
+          id?: string;
+          review_id?: string;
+          user_id?: string;
+          is_helpful?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      moderation_audit_log: {
+        Row: {
+          id: string;
+          actor_id: string | null;
+          action: 'restore' | 'delete' | 'warn';
+          target_type: string;
+          target_id: string;
+          subject_user_id: string | null;
+          note: string | null;
+          snapshot: Record<string, unknown> | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          actor_id?: string | null;
+          action: 'restore' | 'delete' | 'warn';
+          target_type?: string;
+          target_id: string;
+          subject_user_id?: string | null;
+          note?: string | null;
+          snapshot?: Record<string, unknown> | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          actor_id?: string | null;
+          action?: 'restore' | 'delete' | 'warn';
+          target_type?: string;
+          target_id?: string;
+          subject_user_id?: string | null;
+          note?: string | null;
+          snapshot?: Record<string, unknown> | null;
+          created_at?: string;
+        };
+      };
+      activity_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          tool_id: string | null;
+          tool_name: string;
+          event_type: 'bookmark_added' | 'bookmark_removed' | 'like_added' | 'like_removed' | 'review_created' | 'review_updated' | 'review_deleted';
+          details: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          tool_id?: string | null;
+          tool_name: string;
+          event_type: 'bookmark_added' | 'bookmark_removed' | 'like_added' | 'like_removed' | 'review_created' | 'review_updated' | 'review_deleted';
+          details?: Record<string, unknown>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          tool_id?: string | null;
+          tool_name?: string;
+          event_type?: 'bookmark_added' | 'bookmark_removed' | 'like_added' | 'like_removed' | 'review_created' | 'review_updated' | 'review_deleted';
+          details?: Record<string, unknown>;
+          created_at?: string;
+        };
+      };
+      account_deletion_requests: {
+        Row: {
+          user_id: string;
+          requested_at: string;
+          scheduled_for: string;
+        };
+        Insert: {
+          user_id: string;
+          requested_at?: string;
+          scheduled_for: string;
+        };
+        Update: {
+          user_id?: string;
+          requested_at?: string;
+          scheduled_for?: string;
+        };
+      };
+      tool_features: {
+        Row: {
+          id: string;
+          tool_id: string;
+          feature: string;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tool_id: string;
+          feature: string;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          tool_id?: string;
+          feature?: string;
+          position?: number;
+          created_at?: string;
+        };
+      };
+      tool_submission_contacts: {
+        Row: {
+          tool_id: string;
+          contact_email: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          tool_id: string;
+          contact_email: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          tool_id?: string;
+          contact_email?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      tool_owners: {
+        Row: {
+          tool_id: string;
+          user_id: string;
+          verification_method: 'submission' | 'dns' | 'meta' | 'admin';
+          created_at: string;
+        };
+        Insert: {
+          tool_id: string;
+          user_id: string;
+          verification_method?: 'submission' | 'dns' | 'meta' | 'admin';
+          created_at?: string;
+        };
+        Update: {
+          tool_id?: string;
+          user_id?: string;
+          verification_method?: 'submission' | 'dns' | 'meta' | 'admin';
+          created_at?: string;
+        };
+      };
+      tool_claims: {
+        Row: {
+          id: string;
+          tool_id: string;
+          user_id: string;
+          method: 'dns' | 'meta';
+          token: string;
+          status: 'pending' | 'verified' | 'failed';
+          failure_reason: string | null;
+          last_checked_at: string | null;
+          verified_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tool_id: string;
+          user_id: string;
+          method: 'dns' | 'meta';
+          status?: 'pending' | 'verified' | 'failed';
+          failure_reason?: string | null;
+          last_checked_at?: string | null;
+          verified_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          tool_id?: string;
+          user_id?: string;
+          method?: 'dns' | 'meta';
+          token?: string;
+          status?: 'pending' | 'verified' | 'failed';
+          failure_reason?: string | null;
+          last_checked_at?: string | null;
+          verified_at?: string | null;
+          created_at?: string;
+        };
       };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      get_tool_likes: {
+        Args: {
+          tool_uuid: string;
+          user_uuid?: string | null;
+        };
+        Returns: {
+          like_count: number;
+          user_liked: boolean;
+        }[];
+      };
+      toggle_like: {
+        Args: {
+          tool_uuid: string;
+          user_uuid: string;
+        };
+        Returns: {
+          like_count: number;
+          user_liked: boolean;
+        }[];
+      };
+      search_tools: {
+        Args: {
+          search_query: string;
+          category_filter?: string | null;
+          pricing_filter?: string | null;
+          min_rating?: number;
+          featured_only?: boolean;
+          criterion_filter?: string | null;
+          min_criterion_rating?: number;
+          result_limit?: number;
+          result_offset?: number;
+        };
+        Returns: (Database['public']['Tables']['tools']['Row'] & {
+          search_rank: number;
+          name_highlight: string;
+          description_highlight: string;
+          total_count: number;
+        })[];
+      };
+      get_similar_tools: {
+        Args: {
+          tool_uuid: string;
+          result_limit?: number;
+        };
+        Returns: Database['public']['Tables']['tools']['Row'][];
+      };
+      moderate_review: {
+        Args: {
+          review_uuid: string;
+          moderation_action: 'restore' | 'delete' | 'warn';
+          moderation_note?: string | null;
+        };
+        Returns: Database['public']['Tables']['moderation_audit_log']['Row'];
+      };
+      reorder_collection_items: {
+        Args: {
+          collection_uuid: string;
+          tool_ids: string[];
+        };
+        Returns: undefined;
+      };
+      create_organization: {
+        Args: {
+          org_name: string;
+          org_description?: string | null;
+        };
+        Returns: Database['public']['Tables']['organizations']['Row'];
+      };
+      get_organization_invite: {
+        Args: {
+          invite_token: string;
+        };
+        Returns: {
+          organization_id: string;
+          organization_name: string;
+          email: string;
+          role: 'admin' | 'member';
+          status: 'pending' | 'accepted' | 'revoked';
+          expires_at: string;
+          invited_by_name: string | null;
+        }[];
+      };
+      accept_organization_invite: {
+        Args: {
+          invite_token: string;
+        };
+        Returns: string;
+      };
+      get_platform_stats: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          tool_count: number;
+          active_users: number;
+          review_count: number;
+          new_tools_this_week: number;
+          like_count: number;
+        }[];
+      };
+      verify_user_password: {
+        Args: {
+          password: string;
+        };
+        Returns: boolean;
+      };
+      get_user_sessions: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          id: string;
+          created_at: string;
+          refreshed_at: string;
+          user_agent: string | null;
+          ip: string | null;
+          is_current: boolean;
+        }[];
+      };
+      revoke_user_session: {
+        Args: {
+          session_id: string;
+        };
+        Returns: undefined;
+      };
+      set_mfa_recovery_codes: {
+        Args: {
+          codes: string[];
+        };
+        Returns: undefined;
+      };
+      get_mfa_recovery_code_count: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      consume_mfa_recovery_code: {
+        Args: {
+          user_uuid: string;
+          code: string;
+        };
+        Returns: boolean;
+      };
+      export_user_data: {
+        Args: Record<PropertyKey, never>;
+        Returns: Record<string, unknown>;
+      };
+      request_account_deletion: {
+        Args: {
+          password: string;
+        };
+        Returns: string | null;
+      };
+      cancel_account_deletion: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      get_user_activity_stats: {
+        Args: {
+          user_uuid: string;
+          since?: string | null;
+          until?: string | null;
+        };
+        Returns: {
+          bookmarks_added: number;
+          reviews_written: number;
+          tools_liked: number;
+          days_active: number;
+        }[];
+      };
     };
     Enums: {
       pricing_type: 'free' | 'freemium' | 'paid';
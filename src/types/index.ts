@@ -7,13 +7,75 @@ export interface Tool {
   rating: number;
   reviews: number;
   tags: string[];
-  image: string;
+  image: string; // Card image: cover, else logo, else a placeholder
+  media?: ToolMedia;
+  features?: string[]; // Only loaded on the detail view
   url: string;
   featured: boolean;
   verified: boolean;
   addedDate: string;
   lastUpdated: string;
   created_at?: string; // Optional for compatibility
+  highlight?: ToolSearchHighlight; // Only set on search results
+  status?: ToolStatus;
+  submittedBy?: string | null;
+  criteriaRatings?: CriteriaRatings; // Averages over published reviews
+  rankingScore?: number; // Bayesian rating plus recent activity (see tool_ranking migration)
+  trendingScore?: number; // Activity over the last 7 days
+}
+
+// Moderation state; only approved tools are public
+export type ToolStatus = 'pending' | 'approved' | 'rejected' | 'changes_requested';
+
+// How a claimant proves control of a tool's domain
+export type ToolClaimMethod = 'dns' | 'meta';
+
+export interface ToolClaim {
+  id: string;
+  toolId: string;
+  method: ToolClaimMethod;
+  token: string;
+  status: 'pending' | 'verified' | 'failed';
+  failureReason: string | null;
+  lastCheckedAt: string | null;
+}
+
+// Why a user reported a review; matches the review_reports check constraint
+export type ReviewReportReason =
+  | 'spam'
+  | 'abuse'
+  | 'off_topic'
+  | 'conflict_of_interest'
+  | 'misinformation'
+  | 'other';
+
+// Aspects a reviewer can rate separately from the overall rating
+export type ReviewCriterion = 'ease_of_use' | 'output_quality' | 'value' | 'support' | 'documentation';
+
+export type CriteriaRatings = Partial<Record<ReviewCriterion, number>>;
+
+// Optional structured part of a review
+export interface ReviewDetails {
+  criteria: CriteriaRatings;
+  pros: string[];
+  cons: string[];
+  useCase: string;
+}
+
+// Admin decisions on a reported review, recorded in the moderation audit log
+export type ReviewModerationAction = 'restore' | 'delete' | 'warn';
+
+// Uploaded images, stored in the `tools` storage bucket
+export interface ToolMedia {
+  logo: string | null;
+  cover: string | null;
+  screenshots: string[];
+}
+
+// Search snippets with matches wrapped in <mark>…</mark>
+export interface ToolSearchHighlight {
+  name: string;
+  description: string;
 }
 
 export interface Category {
@@ -29,6 +91,131 @@ export interface FilterState {
   pricing: string;
   rating: number;
   featured: boolean;
+  // Only tools rated highly on this criterion
+  criterion?: ReviewCriterion | 'all';
+}
+
+export type ToolSortKey = 'ranking' | 'trending' | 'newest' | 'rating' | 'reviews_count' | 'most-liked' | 'name';
+
+export type CollectionVisibility = 'private' | 'unlisted' | 'public';
+
+export interface Collection {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  visibility: CollectionVisibility;
+  // The "Saved" collection mirrors the user's bookmarks
+  isDefault: boolean;
+  // Tool ids in display order
+  toolIds: string[];
+  ownerName?: string;
+  // Set for team collections, which every member of the team can edit
+  organizationId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where a bookmarked tool stands in the user's own evaluation
+export type BookmarkStatus = 'trying' | 'using' | 'abandoned';
+
+// The private notes, tags and status kept on a bookmark
+export interface BookmarkDetails {
+  toolId: string;
+  notes?: string;
+  tags: string[];
+  status?: BookmarkStatus;
+  bookmarkedAt: string;
+  updatedAt: string;
+}
+
+export type ActivityEventType =
+  | 'bookmark_added'
+  | 'bookmark_removed'
+  | 'like_added'
+  | 'like_removed'
+  | 'review_created'
+  | 'review_updated'
+  | 'review_deleted';
+
+// An entry in a user's activity log
+export interface ActivityEvent {
+  id: string;
+  type: ActivityEventType;
+  toolId?: string;
+  toolName: string;
+  rating?: number;
+  createdAt: string;
+}
+
+export interface ActivityStats {
+  bookmarksAdded: number;
+  reviewsWritten: number;
+  toolsLiked: number;
+  daysActive: number;
+}
+
+// A signed-in browser or device, listed on the profile's security tab
+export interface UserSession {
+  id: string;
+  device: string;
+  ip?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  isCurrent: boolean;
+}
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+// A team's verdict on a tool, shown to its members as a badge
+export type ToolApprovalStatus = 'approved' | 'evaluating' | 'banned';
+
+// A team the signed-in user belongs to, with their role in it
+export interface Organization {
+  id: string;
+  name: string;
+  description?: string;
+  role: OrganizationRole;
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  id: string;
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+  name: string;
+  email?: string;
+  avatar?: string;
+  joinedAt: string;
+}
+
+export interface OrganizationInvite {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface TeamToolNote {
+  id: string;
+  organizationId: string;
+  toolId: string;
+  userId: string;
+  authorName?: string;
+  content: string;
+  createdAt: string;
+}
+
+// Headline numbers from get_platform_stats()
+export interface PlatformStats {
+  toolCount: number;
+  activeUsers: number;
+  reviewCount: number;
+  newToolsThisWeek: number;
+  likeCount: number;
 }
 
 export interface User {
@@ -50,14 +237,15 @@ export interface Review {
   helpful: number;
 }
 
+// What SubmitTool collects; features and contact email are stored outside `tools`
 export interface SubmissionData {
   name: string;
   description: string;
   category: string;
   pricing: 'free' | 'freemium' | 'paid';
   url: string;
-  image: string;
   tags: string[];
+  media: ToolMedia;
   features: string[];
   contactEmail: string;
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { Tool, User, Review } from '../types';
 import { Database } from '../types/database';
+import { calculateToolSimilarity } from './recommendations';
+import { isToolTrending } from '../lib/ranking';
 
 type DatabaseReview = Database['public']['Tables']['reviews']['Row'];
 
@@ -86,43 +88,6 @@ export function analyzeUserInterests(bookmarkedTools: Tool[], reviewedTools: Too
   };
 }
 
-/**
- * Calculates similarity score between two tools based on tags and category
- */
-function calculateToolSimilarity(tool1: Tool, tool2: Tool): number {
-  let score = 0;
-  
-  // Category match (high weight)
-  if (tool1.category === tool2.category) {
-    score += 0.4;
-  }
-  
-  // Tag overlap (medium weight)
-  const commonTags = tool1.tags.filter(tag => tool2.tags.includes(tag));
-  const tagSimilarity = commonTags.length / Math.max(tool1.tags.length, tool2.tags.length);
-  score += tagSimilarity * 0.3;
-  
-  // Pricing similarity (low weight)
-  if (tool1.pricing === tool2.pricing) {
-    score += 0.1;
-  }
-  
-  // Rating similarity (low weight)
-  const ratingDiff = Math.abs(tool1.rating - tool2.rating);
-  const ratingSimilarity = Math.max(0, 1 - ratingDiff / 5);
-  score += ratingSimilarity * 0.2;
-  
-  return Math.min(score, 1);
-}
-
-/**
- * Checks if a tool is trending based on recent activity
- */
-function isToolTrending(tool: Tool): boolean {
-  // Simple heuristic: high rating with good review count
-  return tool.rating >= 4.2 && tool.reviews >= 100;
-}
-
 /**
  * Main function to suggest whether user should bookmark a tool
  */
@@ -224,7 +189,8 @@ export function suggestBookmark(
 const convertDatabaseReview = (dbReview: DatabaseReview): Review => ({
   id: dbReview.id,
   toolId: dbReview.tool_id,
-  userId: dbReview.user_id,
+  // Reviews from deleted accounts have no author
+  userId: dbReview.user_id ?? '',
   rating: dbReview.rating,
   comment: dbReview.comment,
   date: dbReview.created_at,
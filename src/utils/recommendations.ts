@@ -0,0 +1,107 @@
+import { Tool } from '../types';
+
+export interface ToolSimilarity {
+  score: number; // 0-1 scale
+  reasons: string[];
+  sameCategory: boolean;
+  sharedTags: string[];
+}
+
+export interface ToolRecommendation {
+  tool: Tool;
+  score: number;
+  reasons: string[];
+}
+
+export interface RecommendationOptions {
+  limit?: number;
+  excludeIds?: string[];
+}
+
+const WEIGHTS = {
+  category: 0.4,
+  tags: 0.3,
+  pricing: 0.1,
+  rating: 0.2
+};
+
+// Ratings closer than this are called out as "similar"
+const CLOSE_RATING_DIFF = 0.5;
+
+/**
+ * Scores how similar two tools are by category, tag overlap, pricing and
+ * rating, and explains the match in user-facing reasons
+ */
+export function scoreToolSimilarity(tool1: Tool, tool2: Tool): ToolSimilarity {
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Category match (high weight)
+  const sameCategory = tool1.category === tool2.category;
+  if (sameCategory) {
+    score += WEIGHTS.category;
+    reasons.push('Same category');
+  }
+
+  // Tag overlap (medium weight)
+  const sharedTags = tool1.tags.filter(tag => tool2.tags.includes(tag));
+  const maxTags = Math.max(tool1.tags.length, tool2.tags.length);
+  if (maxTags > 0) {
+    score += (sharedTags.length / maxTags) * WEIGHTS.tags;
+  }
+  if (sharedTags.length > 0) {
+    reasons.push(`Shares ${sharedTags.slice(0, 3).join(', ')}`);
+  }
+
+  // Pricing similarity (low weight)
+  if (tool1.pricing === tool2.pricing) {
+    score += WEIGHTS.pricing;
+    reasons.push(`Also ${tool2.pricing}`);
+  }
+
+  // Rating similarity (low weight)
+  const ratingDiff = Math.abs(tool1.rating - tool2.rating);
+  score += Math.max(0, 1 - ratingDiff / 5) * WEIGHTS.rating;
+  if (tool2.rating > 0 && ratingDiff <= CLOSE_RATING_DIFF) {
+    reasons.push(`Similarly rated (${tool2.rating.toFixed(1)}/5)`);
+  }
+
+  return {
+    score: Math.min(score, 1),
+    reasons,
+    sameCategory,
+    sharedTags
+  };
+}
+
+/**
+ * Calculates similarity score between two tools based on tags and category
+ */
+export function calculateToolSimilarity(tool1: Tool, tool2: Tool): number {
+  return scoreToolSimilarity(tool1, tool2).score;
+}
+
+/**
+ * Ranks candidates by similarity to a tool and returns the top matches.
+ * Only tools sharing the category or at least one tag count as alternatives.
+ */
+export function recommendSimilarTools(
+  target: Tool,
+  candidates: Tool[],
+  options: RecommendationOptions = {}
+): ToolRecommendation[] {
+  const { limit = 5, excludeIds = [] } = options;
+  const excluded = new Set([target.id, ...excludeIds]);
+
+  return candidates
+    .filter(tool => !excluded.has(tool.id))
+    .map(tool => ({ tool, similarity: scoreToolSimilarity(target, tool) }))
+    .filter(({ similarity }) => similarity.sameCategory || similarity.sharedTags.length > 0)
+    .sort((a, b) => b.similarity.score - a.similarity.score || b.tool.rating - a.tool.rating)
+    .slice(0, limit)
+    .map(({ tool, similarity }) => ({
+      tool,
+      score: similarity.score,
+      reasons: similarity.reasons
+    }));
+}
@@ -0,0 +1,114 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Uploads live under "<user id>/" or "<user id>/<folder>/" in these buckets.
+// Not `tools`: tool images are uploaded there too, and a deleted account's
+// tools stay listed.
+const USER_BUCKETS = ['avatars']
+
+const LIST_LIMIT = 1000
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Folders come back from list() without an id; each is read a page at a time
+const listUserPaths = async (admin: SupabaseClient, bucket: string, userId: string) => {
+  const paths: string[] = []
+  const folders = [userId]
+
+  while (folders.length > 0) {
+    const folder = folders.pop()!
+    for (let offset = 0; ; offset += LIST_LIMIT) {
+      const { data, error } = await admin.storage.from(bucket).list(folder, { limit: LIST_LIMIT, offset })
+      if (error) {
+        throw new Error(`Could not list ${bucket}/${folder}: ${error.message}`)
+      }
+      for (const entry of data ?? []) {
+        if (entry.id) {
+          paths.push(`${folder}/${entry.name}`)
+        } else {
+          folders.push(`${folder}/${entry.name}`)
+        }
+      }
+      if ((data ?? []).length < LIST_LIMIT) break
+    }
+  }
+
+  return paths
+}
+
+const purgeUserFiles = async (admin: SupabaseClient, userId: string) => {
+  let removed = 0
+  for (const bucket of USER_BUCKETS) {
+    const paths = await listUserPaths(admin, bucket, userId)
+    for (let i = 0; i < paths.length; i += LIST_LIMIT) {
+      const { error } = await admin.storage.from(bucket).remove(paths.slice(i, i + LIST_LIMIT))
+      if (error) {
+        throw new Error(`Could not remove files from ${bucket}: ${error.message}`)
+      }
+    }
+    removed += paths.length
+  }
+  return removed
+}
+
+// Deletes accounts whose grace period is over. Meant to be called on a
+// schedule with the service role key; files go first so a failure leaves
+// the request in place to be retried on the next run.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceKey) {
+      throw new Error('Supabase environment not configured')
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+      return json({ error: 'Not allowed' }, 401)
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey)
+
+    const { data: due, error: dueError } = await admin
+      .from('account_deletion_requests')
+      .select('user_id')
+      .lte('scheduled_for', new Date().toISOString())
+    if (dueError) {
+      throw new Error(`Could not load deletion requests: ${dueError.message}`)
+    }
+
+    const deleted: string[] = []
+    const failed: { userId: string; reason: string }[] = []
+
+    for (const { user_id: userId } of due ?? []) {
+      try {
+        await purgeUserFiles(admin, userId)
+
+        // Cascades to the profile; reviews are kept without an author
+        const { error: deleteError } = await admin.auth.admin.deleteUser(userId)
+        if (deleteError) {
+          throw new Error(deleteError.message)
+        }
+        deleted.push(userId)
+      } catch (error) {
+        failed.push({ userId, reason: error.message })
+      }
+    }
+
+    return json({ deleted: deleted.length, failed })
+  } catch (error) {
+    return json({ error: error.message }, 400)
+  }
+})
@@ -0,0 +1,79 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface RedeemRequest {
+  code: string
+}
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Signs a user in who lost their authenticator: a valid recovery code turns
+// two-factor off, so their password-only session becomes enough. The client
+// refreshes its session afterwards and asks them to set two-factor up again.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !anonKey || !serviceKey) {
+      throw new Error('Supabase environment not configured')
+    }
+
+    // The caller has passed the password step, so they hold an aal1 session
+    const userClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+    const { data: { user } } = await userClient.auth.getUser()
+    if (!user) {
+      return json({ error: 'Not signed in' }, 401)
+    }
+
+    const { code }: RedeemRequest = await req.json()
+    const normalized = (code ?? '').trim().toLowerCase()
+    if (!normalized) {
+      return json({ error: 'code is required' }, 400)
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey)
+
+    const { data: valid, error: consumeError } = await admin.rpc('consume_mfa_recovery_code', {
+      user_uuid: user.id,
+      code: normalized,
+    })
+    if (consumeError) {
+      throw new Error(`Could not check recovery code: ${consumeError.message}`)
+    }
+    if (!valid) {
+      return json({ recovered: false, reason: 'That recovery code is not valid' })
+    }
+
+    const { data: factors, error: listError } = await admin.auth.admin.mfa.listFactors({ userId: user.id })
+    if (listError) {
+      throw new Error(`Could not load two-factor settings: ${listError.message}`)
+    }
+
+    for (const factor of factors?.factors ?? []) {
+      const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id })
+      if (deleteError) {
+        throw new Error(`Could not turn off two-factor: ${deleteError.message}`)
+      }
+    }
+
+    return json({ recovered: true })
+  } catch (error) {
+    return json({ error: error.message }, 400)
+  }
+})
@@ -0,0 +1,170 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createLookup, DomainLookup } from './lookup.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Published by the claimant as a TXT record value or a meta tag name
+const TOKEN_PREFIX = 'aiventory-verification'
+
+// Unverified claims expire so stale tokens cannot be used later
+const CLAIM_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+interface VerifyRequest {
+  claimId: string
+}
+
+interface Claim {
+  id: string
+  tool_id: string
+  user_id: string
+  method: 'dns' | 'meta'
+  token: string
+  status: 'pending' | 'verified' | 'failed'
+  created_at: string
+  tools: { website_url: string; status: string } | null
+}
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// The apex domain counts too, so "www.example.com" can be proven on "example.com"
+const candidateHosts = (hostname: string) =>
+  hostname.startsWith('www.') ? [hostname, hostname.slice(4)] : [hostname]
+
+const checkDns = async (lookup: DomainLookup, websiteUrl: string, token: string) => {
+  const expected = `${TOKEN_PREFIX}=${token}`
+  for (const host of candidateHosts(new URL(websiteUrl).hostname)) {
+    const records = await lookup.txtRecords(host)
+    if (records.some((record) => record.trim() === expected)) {
+      return null
+    }
+  }
+  return `No TXT record "${expected}" found`
+}
+
+const checkMeta = async (lookup: DomainLookup, websiteUrl: string, token: string) => {
+  let html: string
+  try {
+    html = await lookup.homepage(websiteUrl)
+  } catch (error) {
+    return `Could not load ${websiteUrl}: ${error.message}`
+  }
+
+  // Attribute order varies, so accept name/content in either order
+  const name = `name=["']${escapeRegExp(TOKEN_PREFIX)}["']`
+  const content = `content=["']${escapeRegExp(token)}["']`
+  const pattern = new RegExp(`<meta\\s[^>]*(${name}[^>]*${content}|${content}[^>]*${name})[^>]*>`, 'i')
+
+  return pattern.test(html) ? null : `No <meta name="${TOKEN_PREFIX}"> tag with your token found on the homepage`
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !anonKey || !serviceKey) {
+      throw new Error('Supabase environment not configured')
+    }
+
+    // Identify the caller from their own JWT
+    const userClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+    const { data: { user } } = await userClient.auth.getUser()
+    if (!user) {
+      return json({ error: 'Not signed in' }, 401)
+    }
+
+    const { claimId }: VerifyRequest = await req.json()
+    if (!claimId) {
+      return json({ error: 'claimId is required' }, 400)
+    }
+
+    // Claims and ownership are only written with the service role
+    const admin = createClient(supabaseUrl, serviceKey)
+
+    const { data: claim, error: claimError } = await admin
+      .from('tool_claims')
+      .select('*, tools(website_url, status)')
+      .eq('id', claimId)
+      .single<Claim>()
+
+    if (claimError || !claim || claim.user_id !== user.id) {
+      return json({ error: 'Claim not found' }, 404)
+    }
+    if (claim.status === 'verified') {
+      return json({ verified: true })
+    }
+    if (claim.status === 'failed') {
+      return json({ verified: false, reason: 'This claim has expired. Start a new one.' })
+    }
+    if (claim.tools?.status !== 'approved') {
+      return json({ verified: false, reason: 'Only published listings can be claimed' })
+    }
+    if (!claim.tools.website_url) {
+      return json({ error: 'Tool has no website to verify against' }, 400)
+    }
+
+    const now = new Date()
+
+    if (now.getTime() - new Date(claim.created_at).getTime() > CLAIM_TTL_MS) {
+      await admin
+        .from('tool_claims')
+        .update({ status: 'failed', failure_reason: 'Claim expired', last_checked_at: now.toISOString() })
+        .eq('id', claim.id)
+      return json({ verified: false, reason: 'This claim has expired. Start a new one.' })
+    }
+
+    const lookup = createLookup()
+    const reason = claim.method === 'dns'
+      ? await checkDns(lookup, claim.tools.website_url, claim.token)
+      : await checkMeta(lookup, claim.tools.website_url, claim.token)
+
+    if (reason) {
+      // Stay pending: DNS changes can take a while to propagate
+      await admin
+        .from('tool_claims')
+        .update({ failure_reason: reason, last_checked_at: now.toISOString() })
+        .eq('id', claim.id)
+      return json({ verified: false, reason })
+    }
+
+    const { error: ownerError } = await admin
+      .from('tool_owners')
+      .upsert(
+        { tool_id: claim.tool_id, user_id: claim.user_id, verification_method: claim.method },
+        { onConflict: 'tool_id,user_id' }
+      )
+    if (ownerError) {
+      throw new Error(`Could not record ownership: ${ownerError.message}`)
+    }
+
+    await admin
+      .from('tool_claims')
+      .update({
+        status: 'verified',
+        failure_reason: null,
+        last_checked_at: now.toISOString(),
+        verified_at: now.toISOString(),
+      })
+      .eq('id', claim.id)
+
+    return json({ verified: true })
+  } catch (error) {
+    return json({ error: error.message }, 400)
+  }
+})
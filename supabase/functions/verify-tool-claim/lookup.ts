@@ -0,0 +1,156 @@
+// Where the claim token is looked up. The live lookup uses real DNS and HTTP;
+// the stub reads fixed records so claims can be verified in local development.
+
+export interface DomainLookup {
+  txtRecords(hostname: string): Promise<string[]>
+  homepage(url: string): Promise<string>
+}
+
+type StubRecords = Record<string, { txt?: string[]; html?: string }>
+
+// Redirects are followed by hand so every hop gets the same checks
+const MAX_REDIRECTS = 5
+
+const parseIPv4 = (address: string) => {
+  const parts = address.split('.')
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null
+  }
+  return parts.map(Number)
+}
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast
+// and reserved ranges, plus their IPv4-mapped IPv6 forms
+const isPrivateAddress = (address: string) => {
+  const ipv4 = parseIPv4(address)
+  if (ipv4) {
+    const [a, b] = ipv4
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0 && ipv4[2] === 0) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+  }
+
+  const ipv6 = address.toLowerCase().replace(/^\[|\]$/g, '')
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) {
+    return isPrivateAddress(mapped[1])
+  }
+  return ipv6 === '::' || ipv6 === '::1' || ipv6.startsWith('::ffff:') ||
+    /^f[cd]/.test(ipv6) || /^fe[89ab]/.test(ipv6) || ipv6.startsWith('ff')
+}
+
+const resolveAddresses = async (hostname: string) => {
+  const [ipv4, ipv6] = await Promise.all([
+    Deno.resolveDns(hostname, 'A').catch((): string[] => []),
+    Deno.resolveDns(hostname, 'AAAA').catch((): string[] => []),
+  ])
+  return [...ipv4, ...ipv6]
+}
+
+// Only public http(s) hosts on the default port are fetched. The addresses
+// are checked when the request is made; a host that re-resolves to a private
+// address between the check and the fetch is not caught here.
+const assertPublicUrl = async (url: URL) => {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Only http and https websites can be verified')
+  }
+  if (url.port !== '' || url.username || url.password) {
+    throw new Error('Websites on a custom port or with credentials cannot be verified')
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = parseIPv4(hostname) || hostname.includes(':') ? [hostname] : await resolveAddresses(hostname)
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`)
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${hostname} is not a public address`)
+  }
+}
+
+// A redirect may switch between http and https or add or drop "www.", but
+// must stay on the site being claimed
+const sameSite = (a: URL, b: URL) =>
+  a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '')
+
+const liveLookup: DomainLookup = {
+  async txtRecords(hostname) {
+    try {
+      const records = await Deno.resolveDns(hostname, 'TXT')
+      return records.map((chunks) => chunks.join(''))
+    } catch {
+      // NXDOMAIN and "no TXT records" both mean the token is not there
+      return []
+    }
+  },
+
+  async homepage(url) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), 8000)
+    try {
+      const start = new URL(url)
+      let target = start
+      let response: Response
+      for (let redirects = 0; ; redirects++) {
+        await assertPublicUrl(target)
+        response = await fetch(target, {
+          redirect: 'manual',
+          signal: controller.signal,
+          headers: { 'User-Agent': 'AIventory-Verification/1.0' },
+        })
+
+        const location = response.headers.get('Location')
+        if (response.status < 300 || response.status >= 400 || !location) {
+          break
+        }
+        await response.body?.cancel()
+
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error('Too many redirects')
+        }
+        target = new URL(location, target)
+        if (!sameSite(start, target)) {
+          throw new Error(`Homepage redirects to another site (${target.hostname})`)
+        }
+      }
+
+      if (!response.ok) {
+        throw new Error(`Homepage returned ${response.status}`)
+      }
+      // The meta tag belongs in <head>, so the first 256 KB is plenty
+      const html = await response.text()
+      return html.slice(0, 256 * 1024)
+    } finally {
+      clearTimeout(timer)
+    }
+  },
+}
+
+// Records come from CLAIM_VERIFICATION_STUB_RECORDS, e.g.
+// {"example.com": {"txt": ["aiventory-verification=abc"], "html": "<meta ...>"}}
+const stubLookup = (records: StubRecords): DomainLookup => ({
+  txtRecords(hostname) {
+    return Promise.resolve(records[hostname]?.txt ?? [])
+  },
+
+  homepage(url) {
+    const hostname = new URL(url).hostname
+    const html = records[hostname]?.html
+    return html === undefined
+      ? Promise.reject(new Error(`No stub homepage for ${hostname}`))
+      : Promise.resolve(html)
+  },
+})
+
+export const createLookup = (): DomainLookup => {
+  if (Deno.env.get('CLAIM_VERIFICATION_STUB') !== 'true') {
+    return liveLookup
+  }
+
+  const raw = Deno.env.get('CLAIM_VERIFICATION_STUB_RECORDS') || '{}'
+  return stubLookup(JSON.parse(raw) as StubRecords)
+}
@@ -0,0 +1,56 @@
+/*
+  # Server-side catalog pagination and sorting
+
+  1. Schema
+    - `tools.likes_count` - denormalized like counter so "most liked" can be
+      sorted and paginated in SQL instead of in the browser
+
+  2. Automation
+    - Keep `likes_count` in sync when likes are added or removed
+    - Backfill existing counts
+
+  3. Performance
+    - Indexes backing each catalog sort key (id is the tie-breaker so pages are stable)
+*/
+
+-- Denormalized like counter
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS likes_count integer DEFAULT 0;
+
+-- Backfill from existing likes
+UPDATE tools
+SET likes_count = counts.like_count
+FROM (
+  SELECT tool_id, COUNT(*)::integer AS like_count
+  FROM likes
+  GROUP BY tool_id
+) AS counts
+WHERE tools.id = counts.tool_id;
+
+-- Function to update tools like count when likes change
+CREATE OR REPLACE FUNCTION update_tool_likes_count()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE tools
+  SET likes_count = (
+    SELECT COUNT(*)
+    FROM likes
+    WHERE tool_id = COALESCE(NEW.tool_id, OLD.tool_id)
+  )
+  WHERE id = COALESCE(NEW.tool_id, OLD.tool_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to update tool like count
+DROP TRIGGER IF EXISTS on_like_change ON likes;
+CREATE TRIGGER on_like_change
+  AFTER INSERT OR DELETE ON likes
+  FOR EACH ROW EXECUTE FUNCTION update_tool_likes_count();
+
+-- Indexes for each catalog sort key
+CREATE INDEX IF NOT EXISTS idx_tools_created_at_id ON tools(created_at DESC, id);
+CREATE INDEX IF NOT EXISTS idx_tools_rating_id ON tools(rating DESC, reviews_count DESC, id);
+CREATE INDEX IF NOT EXISTS idx_tools_reviews_count_id ON tools(reviews_count DESC, id);
+CREATE INDEX IF NOT EXISTS idx_tools_likes_count_id ON tools(likes_count DESC, id);
+CREATE INDEX IF NOT EXISTS idx_tools_name_id ON tools(name, id);
@@ -0,0 +1,141 @@
+/*
+  # Ranked full-text search for tools
+
+  1. Search vector
+    - `tools_search_vector` now weights fields: name (A) > tags (B) > description (C)
+    - `idx_tools_search` is rebuilt against the weighted vector
+    - Trigram index on `tools.name` for typo tolerance
+
+  2. Functions
+    - `tools_prefix_tsquery(search_query)` - turns free text into a prefix tsquery
+      ("chat gp" -> 'chat':* & 'gp':*); punctuation is stripped so user input can
+      never inject tsquery operators
+    - `search_tools(...)` - ranked, filterable, paginated search returning
+      highlighted snippets and the total match count
+
+  3. Security
+    - `search_tools` runs as the caller so tools RLS still applies
+*/
+
+-- Trigram similarity for typo tolerance
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Weighted search vector (same signature, so existing callers keep working)
+CREATE OR REPLACE FUNCTION tools_search_vector(name text, description text, tags text[])
+RETURNS tsvector AS $$
+BEGIN
+  RETURN setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+         setweight(to_tsvector('english', COALESCE(array_to_string(tags, ' '), '')), 'B') ||
+         setweight(to_tsvector('english', COALESCE(description, '')), 'C');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Rebuild the full-text index for the new vector definition
+DROP INDEX IF EXISTS idx_tools_search;
+CREATE INDEX IF NOT EXISTS idx_tools_search ON tools USING gin(tools_search_vector(name, description, tags));
+
+-- Trigram index backing fuzzy name matches
+CREATE INDEX IF NOT EXISTS idx_tools_name_trgm ON tools USING gin(name gin_trgm_ops);
+
+-- Build a prefix-matching tsquery from free text
+CREATE OR REPLACE FUNCTION tools_prefix_tsquery(search_query text)
+RETURNS tsquery AS $$
+DECLARE
+  terms text;
+BEGIN
+  SELECT string_agg(quote_literal(term) || ':*', ' & ')
+  INTO terms
+  FROM unnest(regexp_split_to_array(lower(COALESCE(search_query, '')), '[^[:alnum:]]+')) AS term
+  WHERE term <> '';
+
+  IF terms IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN to_tsquery('english', terms);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Ranked tool search with filters, pagination and highlighted snippets
+CREATE OR REPLACE FUNCTION search_tools(
+  search_query text,
+  category_filter text DEFAULT NULL,
+  pricing_filter text DEFAULT NULL,
+  min_rating numeric DEFAULT 0,
+  featured_only boolean DEFAULT false,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE(
+  id uuid,
+  name text,
+  description text,
+  category text,
+  pricing pricing_type,
+  rating numeric,
+  reviews_count integer,
+  likes_count integer,
+  tags text[],
+  website_url text,
+  featured boolean,
+  verified boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  search_rank real,
+  name_highlight text,
+  description_highlight text,
+  total_count bigint
+) AS $$
+  WITH query AS (
+    SELECT
+      tools_prefix_tsquery(search_query) AS ts_query,
+      trim(search_query) AS raw_query
+  ),
+  matches AS (
+    SELECT
+      t.*,
+      q.ts_query,
+      COALESCE(ts_rank(tools_search_vector(t.name, t.description, t.tags), q.ts_query), 0)
+        + similarity(t.name, q.raw_query) AS rank
+    FROM tools t, query q
+    WHERE q.raw_query <> ''
+      AND (
+        (q.ts_query IS NOT NULL AND tools_search_vector(t.name, t.description, t.tags) @@ q.ts_query)
+        OR t.name % q.raw_query
+        OR q.raw_query <% t.name
+      )
+      AND (category_filter IS NULL OR category_filter = 'all' OR t.category = category_filter)
+      AND (pricing_filter IS NULL OR pricing_filter = 'all' OR t.pricing::text = pricing_filter)
+      AND (COALESCE(min_rating, 0) = 0 OR t.rating >= min_rating)
+      AND (NOT featured_only OR t.featured)
+  )
+  SELECT
+    m.id,
+    m.name,
+    m.description,
+    m.category,
+    m.pricing,
+    m.rating,
+    m.reviews_count,
+    m.likes_count,
+    m.tags,
+    m.website_url,
+    m.featured,
+    m.verified,
+    m.created_at,
+    m.updated_at,
+    m.rank::real AS search_rank,
+    COALESCE(
+      ts_headline('english', m.name, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      m.name
+    ) AS name_highlight,
+    COALESCE(
+      ts_headline('english', m.description, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30'),
+      m.description
+    ) AS description_highlight,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.rank DESC, m.rating DESC, m.id
+  LIMIT GREATEST(result_limit, 1)
+  OFFSET GREATEST(result_offset, 0);
+$$ LANGUAGE sql STABLE;
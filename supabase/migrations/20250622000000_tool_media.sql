@@ -0,0 +1,124 @@
+/*
+  # Tool media
+
+  1. Schema
+    - `tools.logo_url` - square logo shown next to the tool name
+    - `tools.cover_image_url` - wide image used on cards and the detail hero
+    - `tools.screenshot_urls` - ordered screenshot gallery (max 8)
+    - Files live in the public `tools` storage bucket under
+      `<uploader id>/logos`, `/covers` and `/screenshots`
+
+  2. Functions
+    - `search_tools` is recreated so search results carry the media columns
+*/
+
+-- Media columns (replace the dropped image_url)
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS logo_url text;
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS cover_image_url text;
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS screenshot_urls text[] DEFAULT '{}';
+
+-- Keep the gallery to a sensible size
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints 
+    WHERE constraint_name = 'tools_screenshot_urls_max' 
+    AND table_name = 'tools'
+  ) THEN
+    ALTER TABLE tools ADD CONSTRAINT tools_screenshot_urls_max
+      CHECK (COALESCE(array_length(screenshot_urls, 1), 0) <= 8);
+  END IF;
+END $$;
+
+-- Return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS search_tools(text, text, text, numeric, boolean, integer, integer);
+
+-- Ranked tool search with filters, pagination and highlighted snippets
+CREATE OR REPLACE FUNCTION search_tools(
+  search_query text,
+  category_filter text DEFAULT NULL,
+  pricing_filter text DEFAULT NULL,
+  min_rating numeric DEFAULT 0,
+  featured_only boolean DEFAULT false,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE(
+  id uuid,
+  name text,
+  description text,
+  category text,
+  pricing pricing_type,
+  rating numeric,
+  reviews_count integer,
+  likes_count integer,
+  tags text[],
+  website_url text,
+  logo_url text,
+  cover_image_url text,
+  screenshot_urls text[],
+  featured boolean,
+  verified boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  search_rank real,
+  name_highlight text,
+  description_highlight text,
+  total_count bigint
+) AS $$
+  WITH query AS (
+    SELECT
+      tools_prefix_tsquery(search_query) AS ts_query,
+      trim(search_query) AS raw_query
+  ),
+  matches AS (
+    SELECT
+      t.*,
+      q.ts_query,
+      COALESCE(ts_rank(tools_search_vector(t.name, t.description, t.tags), q.ts_query), 0)
+        + similarity(t.name, q.raw_query) AS rank
+    FROM tools t, query q
+    WHERE q.raw_query <> ''
+      AND (
+        (q.ts_query IS NOT NULL AND tools_search_vector(t.name, t.description, t.tags) @@ q.ts_query)
+        OR t.name % q.raw_query
+        OR q.raw_query <% t.name
+      )
+      AND (category_filter IS NULL OR category_filter = 'all' OR t.category = category_filter)
+      AND (pricing_filter IS NULL OR pricing_filter = 'all' OR t.pricing::text = pricing_filter)
+      AND (COALESCE(min_rating, 0) = 0 OR t.rating >= min_rating)
+      AND (NOT featured_only OR t.featured)
+  )
+  SELECT
+    m.id,
+    m.name,
+    m.description,
+    m.category,
+    m.pricing,
+    m.rating,
+    m.reviews_count,
+    m.likes_count,
+    m.tags,
+    m.website_url,
+    m.logo_url,
+    m.cover_image_url,
+    m.screenshot_urls,
+    m.featured,
+    m.verified,
+    m.created_at,
+    m.updated_at,
+    m.rank::real AS search_rank,
+    COALESCE(
+      ts_headline('english', m.name, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      m.name
+    ) AS name_highlight,
+    COALESCE(
+      ts_headline('english', m.description, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30'),
+      m.description
+    ) AS description_highlight,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.rank DESC, m.rating DESC, m.id
+  LIMIT GREATEST(result_limit, 1)
+  OFFSET GREATEST(result_offset, 0);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,260 @@
+/*
+  # Moderation queue for submitted tools
+
+  1. Schema
+    - `profiles.role` - 'user' or 'admin'; only admins can change it
+    - `tools.status` - pending / approved / rejected / changes_requested
+      (existing tools are approved, new submissions start as pending)
+    - `tools.submitted_by`, `reviewed_by`, `reviewed_at`, `moderation_note`
+
+  2. Security
+    - `is_admin()` helper for policies
+    - Everyone sees approved tools; submitters also see their own submissions
+      and admins see everything
+    - Submissions must be pending, unfeatured, unverified and owned by the caller
+    - Only admins can update or delete tools
+
+  3. Functions
+    - Category counts and `search_tools` only include approved tools
+*/
+
+-- Roles
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'user';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints 
+    WHERE constraint_name = 'profiles_role_check' 
+    AND table_name = 'profiles'
+  ) THEN
+    ALTER TABLE profiles ADD CONSTRAINT profiles_role_check
+      CHECK (role IN ('user', 'admin'));
+  END IF;
+END $$;
+
+-- Admin check usable from policies (definer rights avoid RLS recursion)
+CREATE OR REPLACE FUNCTION is_admin(user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = user_uuid AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Users can edit their own profile but not their own role
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger AS $$
+BEGIN
+  -- auth.uid() is null for the service role and the SQL console
+  IF auth.uid() IS NOT NULL AND NOT is_admin(auth.uid()) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role := 'user';
+    ELSE
+      NEW.role := OLD.role;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_profile_role_change ON profiles;
+CREATE TRIGGER on_profile_role_change
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_role();
+
+-- Moderation columns (existing tools were already public, so they start approved)
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved';
+ALTER TABLE tools ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS submitted_by uuid;
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS reviewed_by uuid;
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS moderation_note text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints 
+    WHERE constraint_name = 'tools_status_check' 
+    AND table_name = 'tools'
+  ) THEN
+    ALTER TABLE tools ADD CONSTRAINT tools_status_check
+      CHECK (status IN ('pending', 'approved', 'rejected', 'changes_requested'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints 
+    WHERE constraint_name = 'tools_submitted_by_fkey' 
+    AND table_name = 'tools'
+  ) THEN
+    ALTER TABLE tools ADD CONSTRAINT tools_submitted_by_fkey 
+    FOREIGN KEY (submitted_by) REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints 
+    WHERE constraint_name = 'tools_reviewed_by_fkey' 
+    AND table_name = 'tools'
+  ) THEN
+    ALTER TABLE tools ADD CONSTRAINT tools_reviewed_by_fkey 
+    FOREIGN KEY (reviewed_by) REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tools_status_created_at ON tools(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_tools_submitted_by ON tools(submitted_by);
+
+-- Tools policies
+DROP POLICY IF EXISTS "Tools are viewable by everyone" ON tools;
+DROP POLICY IF EXISTS "Approved tools are viewable by everyone" ON tools;
+CREATE POLICY "Approved tools are viewable by everyone"
+  ON tools
+  FOR SELECT
+  TO public
+  USING (status = 'approved' OR submitted_by = auth.uid() OR is_admin());
+
+DROP POLICY IF EXISTS "Authenticated users can insert tools" ON tools;
+DROP POLICY IF EXISTS "Authenticated users can submit tools for review" ON tools;
+CREATE POLICY "Authenticated users can submit tools for review"
+  ON tools
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    submitted_by = auth.uid() AND
+    status = 'pending' AND
+    NOT COALESCE(featured, false) AND
+    NOT COALESCE(verified, false)
+  );
+
+DROP POLICY IF EXISTS "Admins can update tools" ON tools;
+CREATE POLICY "Admins can update tools"
+  ON tools
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins can delete tools" ON tools;
+CREATE POLICY "Admins can delete tools"
+  ON tools
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Category counts only include approved tools
+CREATE OR REPLACE FUNCTION update_category_count()
+RETURNS trigger AS $$
+BEGIN
+  -- Update old category count
+  IF OLD.category IS NOT NULL THEN
+    UPDATE categories 
+    SET tools_count = (
+      SELECT COUNT(*) FROM tools WHERE category = OLD.category AND status = 'approved'
+    )
+    WHERE id = OLD.category;
+  END IF;
+  
+  -- Update new category count
+  IF NEW.category IS NOT NULL THEN
+    UPDATE categories 
+    SET tools_count = (
+      SELECT COUNT(*) FROM tools WHERE category = NEW.category AND status = 'approved'
+    )
+    WHERE id = NEW.category;
+  END IF;
+  
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Search only ever returns approved tools
+CREATE OR REPLACE FUNCTION search_tools(
+  search_query text,
+  category_filter text DEFAULT NULL,
+  pricing_filter text DEFAULT NULL,
+  min_rating numeric DEFAULT 0,
+  featured_only boolean DEFAULT false,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE(
+  id uuid,
+  name text,
+  description text,
+  category text,
+  pricing pricing_type,
+  rating numeric,
+  reviews_count integer,
+  likes_count integer,
+  tags text[],
+  website_url text,
+  logo_url text,
+  cover_image_url text,
+  screenshot_urls text[],
+  featured boolean,
+  verified boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  search_rank real,
+  name_highlight text,
+  description_highlight text,
+  total_count bigint
+) AS $$
+  WITH query AS (
+    SELECT
+      tools_prefix_tsquery(search_query) AS ts_query,
+      trim(search_query) AS raw_query
+  ),
+  matches AS (
+    SELECT
+      t.*,
+      q.ts_query,
+      COALESCE(ts_rank(tools_search_vector(t.name, t.description, t.tags), q.ts_query), 0)
+        + similarity(t.name, q.raw_query) AS rank
+    FROM tools t, query q
+    WHERE q.raw_query <> ''
+      AND (
+        (q.ts_query IS NOT NULL AND tools_search_vector(t.name, t.description, t.tags) @@ q.ts_query)
+        OR t.name % q.raw_query
+        OR q.raw_query <% t.name
+      )
+      AND (category_filter IS NULL OR category_filter = 'all' OR t.category = category_filter)
+      AND (pricing_filter IS NULL OR pricing_filter = 'all' OR t.pricing::text = pricing_filter)
+      AND (COALESCE(min_rating, 0) = 0 OR t.rating >= min_rating)
+      AND (NOT featured_only OR t.featured)
+      AND t.status = 'approved'
+  )
+  SELECT
+    m.id,
+    m.name,
+    m.description,
+    m.category,
+    m.pricing,
+    m.rating,
+    m.reviews_count,
+    m.likes_count,
+    m.tags,
+    m.website_url,
+    m.logo_url,
+    m.cover_image_url,
+    m.screenshot_urls,
+    m.featured,
+    m.verified,
+    m.created_at,
+    m.updated_at,
+    m.rank::real AS search_rank,
+    COALESCE(
+      ts_headline('english', m.name, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      m.name
+    ) AS name_highlight,
+    COALESCE(
+      ts_headline('english', m.description, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30'),
+      m.description
+    ) AS description_highlight,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.rank DESC, m.rating DESC, m.id
+  LIMIT GREATEST(result_limit, 1)
+  OFFSET GREATEST(result_offset, 0);
+$$ LANGUAGE sql STABLE;
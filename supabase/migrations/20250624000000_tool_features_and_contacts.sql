@@ -0,0 +1,103 @@
+/*
+  # Tool features and private submission contacts
+
+  1. New Tables
+    - `tool_features` - ordered "key features" list for a tool
+    - `tool_submission_contacts` - contact email given on submission; kept out of
+      `tools` because tools rows are public
+
+  2. Security
+    - Features are visible whenever the tool itself is visible
+    - Submitters manage features of their own pending submissions; admins manage all
+    - Contact emails are readable only by the submitter and admins
+*/
+
+-- Feature list
+CREATE TABLE IF NOT EXISTS tool_features (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tool_id uuid NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  feature text NOT NULL CHECK (char_length(feature) BETWEEN 1 AND 100),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_features_tool_id_position ON tool_features(tool_id, position);
+
+-- Private contact for a submission
+CREATE TABLE IF NOT EXISTS tool_submission_contacts (
+  tool_id uuid PRIMARY KEY REFERENCES tools(id) ON DELETE CASCADE,
+  contact_email text NOT NULL CHECK (contact_email ~* '^[^\s@]+@[^\s@]+\.[^\s@]+$'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE tool_features ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tool_submission_contacts ENABLE ROW LEVEL SECURITY;
+
+-- Helper: can the caller manage this submission's details?
+CREATE OR REPLACE FUNCTION can_manage_tool_submission(tool_uuid uuid)
+RETURNS boolean AS $$
+  SELECT is_admin() OR EXISTS (
+    SELECT 1 FROM tools
+    WHERE id = tool_uuid
+    AND submitted_by = auth.uid()
+    AND status IN ('pending', 'changes_requested')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Tool features policies (the tools subquery is itself filtered by tools RLS)
+DROP POLICY IF EXISTS "Features are viewable with their tool" ON tool_features;
+CREATE POLICY "Features are viewable with their tool"
+  ON tool_features
+  FOR SELECT
+  TO public
+  USING (EXISTS (SELECT 1 FROM tools WHERE tools.id = tool_features.tool_id));
+
+DROP POLICY IF EXISTS "Submitters and admins can add features" ON tool_features;
+CREATE POLICY "Submitters and admins can add features"
+  ON tool_features
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_tool_submission(tool_id));
+
+DROP POLICY IF EXISTS "Submitters and admins can delete features" ON tool_features;
+CREATE POLICY "Submitters and admins can delete features"
+  ON tool_features
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_tool_submission(tool_id));
+
+-- Submission contact policies
+DROP POLICY IF EXISTS "Submitters and admins can view contact" ON tool_submission_contacts;
+CREATE POLICY "Submitters and admins can view contact"
+  ON tool_submission_contacts
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_admin() OR EXISTS (
+      SELECT 1 FROM tools
+      WHERE tools.id = tool_submission_contacts.tool_id
+      AND tools.submitted_by = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Submitters and admins can add contact" ON tool_submission_contacts;
+CREATE POLICY "Submitters and admins can add contact"
+  ON tool_submission_contacts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_tool_submission(tool_id));
+
+DROP POLICY IF EXISTS "Submitters and admins can update contact" ON tool_submission_contacts;
+CREATE POLICY "Submitters and admins can update contact"
+  ON tool_submission_contacts
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_tool_submission(tool_id));
+
+DROP POLICY IF EXISTS "Submitters and admins can delete contact" ON tool_submission_contacts;
+CREATE POLICY "Submitters and admins can delete contact"
+  ON tool_submission_contacts
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_tool_submission(tool_id));
@@ -0,0 +1,253 @@
+/*
+  # Tool ownership and listing claims
+
+  1. New Tables
+    - `tool_owners` - users allowed to edit a tool listing. The submitter becomes
+      an owner on submission; others join by verifying a claim.
+    - `tool_claims` - pending/verified/failed domain-verification claims with
+      the token the claimant must publish (DNS TXT record or meta tag)
+
+  2. Security
+    - Owners can update their own tools. Moderation, ranking and counter columns
+      are kept as they were unless an admin makes the change.
+    - Editing a listing that was rejected or sent back returns it to the queue,
+      as does an owner changing the name, description, website, category,
+      pricing, tags, images or features of an approved listing. Owners can
+      still see their listing while it waits for review.
+    - Claims are created by the claimant, only for approved listings, and
+      only verified by the `verify-tool-claim` edge function (service role).
+      The function only fetches public http(s) hosts and does not follow
+      redirects to another site
+    - Claim tokens are generated by the database and bound to the claimant
+      and tool; a token supplied by the client is rejected, so a token read
+      off a site being verified cannot be reused for another claim
+
+  3. Functions
+    - `is_tool_owner()` helper for policies
+    - `can_manage_tool_submission()` now also lets owners manage features
+*/
+
+CREATE TABLE IF NOT EXISTS tool_owners (
+  tool_id uuid NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  verification_method text NOT NULL DEFAULT 'submission'
+    CHECK (verification_method IN ('submission', 'dns', 'meta', 'admin')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (tool_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_owners_user_id ON tool_owners(user_id);
+
+CREATE TABLE IF NOT EXISTS tool_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tool_id uuid NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  method text NOT NULL CHECK (method IN ('dns', 'meta')),
+  token text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'failed')),
+  failure_reason text,
+  last_checked_at timestamptz,
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One open claim per user and tool; failed claims can be retried with a new one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tool_claims_open
+  ON tool_claims(tool_id, user_id)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_tool_claims_user_id ON tool_claims(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tool_claims_token ON tool_claims(token);
+
+ALTER TABLE tool_owners ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tool_claims ENABLE ROW LEVEL SECURITY;
+
+-- Ownership check usable from policies (definer rights avoid RLS recursion)
+CREATE OR REPLACE FUNCTION is_tool_owner(tool_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tool_owners
+    WHERE tool_id = tool_uuid AND user_id = user_uuid
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Submitters own what they submit
+CREATE OR REPLACE FUNCTION add_submitter_as_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.submitted_by IS NOT NULL THEN
+    INSERT INTO tool_owners (tool_id, user_id, verification_method)
+    VALUES (NEW.id, NEW.submitted_by, 'submission')
+    ON CONFLICT (tool_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_tool_submitted_add_owner ON tools;
+CREATE TRIGGER on_tool_submitted_add_owner
+  AFTER INSERT ON tools
+  FOR EACH ROW EXECUTE FUNCTION add_submitter_as_owner();
+
+-- Backfill owners for tools submitted before this migration
+INSERT INTO tool_owners (tool_id, user_id, verification_method)
+SELECT t.id, t.submitted_by, 'submission'
+FROM tools t
+JOIN profiles p ON p.id = t.submitted_by
+ON CONFLICT (tool_id, user_id) DO NOTHING;
+
+-- Tokens are published in DNS or on the site, so anyone can read them. Only
+-- the database issues them, each one derived from the claimant, the tool and
+-- fresh randomness (NOT NULL is checked after this trigger fills it in).
+CREATE OR REPLACE FUNCTION assign_tool_claim_token()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.token IS NOT NULL THEN
+    RAISE EXCEPTION 'Claim tokens are generated by the server';
+  END IF;
+
+  NEW.token := encode(
+    extensions.digest(NEW.user_id::text || ':' || NEW.tool_id::text || ':' || gen_random_uuid()::text, 'sha256'),
+    'hex'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_tool_claim_insert_token ON tool_claims;
+CREATE TRIGGER on_tool_claim_insert_token
+  BEFORE INSERT ON tool_claims
+  FOR EACH ROW EXECUTE FUNCTION assign_tool_claim_token();
+
+-- Owners may edit the listing, but not its moderation state, ranking or counters.
+-- Only applied to API roles: counter triggers run as the table owner and must
+-- still be able to update rating, reviews_count and likes_count.
+CREATE OR REPLACE FUNCTION protect_tool_owner_edits()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND NOT is_admin(auth.uid()) THEN
+    NEW.featured := OLD.featured;
+    NEW.verified := OLD.verified;
+    NEW.rating := OLD.rating;
+    NEW.reviews_count := OLD.reviews_count;
+    NEW.likes_count := OLD.likes_count;
+    NEW.submitted_by := OLD.submitted_by;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.moderation_note := OLD.moderation_note;
+    NEW.created_at := OLD.created_at;
+
+    -- Fixing a rejected or sent-back listing puts it back in the queue, and
+    -- so does changing what the public sees on an approved one
+    IF OLD.status IN ('rejected', 'changes_requested') THEN
+      NEW.status := 'pending';
+    ELSIF OLD.status = 'approved' AND (
+      NEW.name IS DISTINCT FROM OLD.name
+      OR NEW.description IS DISTINCT FROM OLD.description
+      OR NEW.website_url IS DISTINCT FROM OLD.website_url
+      OR NEW.category IS DISTINCT FROM OLD.category
+      OR NEW.pricing IS DISTINCT FROM OLD.pricing
+      OR NEW.tags IS DISTINCT FROM OLD.tags
+      OR NEW.logo_url IS DISTINCT FROM OLD.logo_url
+      OR NEW.cover_image_url IS DISTINCT FROM OLD.cover_image_url
+      OR NEW.screenshot_urls IS DISTINCT FROM OLD.screenshot_urls
+    ) THEN
+      NEW.status := 'pending';
+    ELSE
+      NEW.status := OLD.status;
+    END IF;
+
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_tool_owner_edit ON tools;
+CREATE TRIGGER on_tool_owner_edit
+  BEFORE UPDATE ON tools
+  FOR EACH ROW EXECUTE FUNCTION protect_tool_owner_edits();
+
+-- Owners (and admins) manage features and the submission contact
+CREATE OR REPLACE FUNCTION can_manage_tool_submission(tool_uuid uuid)
+RETURNS boolean AS $$
+  SELECT is_admin() OR is_tool_owner(tool_uuid);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Features are public with the listing, so an owner changing them on an
+-- approved tool sends it back to the queue like any other substantive edit.
+-- Runs as the owner so protect_tool_owner_edits() lets the status change
+-- through; the caller's role therefore comes from the JWT.
+CREATE OR REPLACE FUNCTION moderate_tool_feature_edits()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.role() = 'authenticated' AND NOT is_admin(auth.uid()) THEN
+    UPDATE tools
+    SET status = 'pending', updated_at = now()
+    WHERE id = COALESCE(NEW.tool_id, OLD.tool_id)
+    AND status = 'approved';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_tool_feature_edit ON tool_features;
+CREATE TRIGGER on_tool_feature_edit
+  AFTER INSERT OR UPDATE OR DELETE ON tool_features
+  FOR EACH ROW EXECUTE FUNCTION moderate_tool_feature_edits();
+
+-- Tools policies
+DROP POLICY IF EXISTS "Owners can update their tools" ON tools;
+CREATE POLICY "Owners can update their tools"
+  ON tools
+  FOR UPDATE
+  TO authenticated
+  USING (is_tool_owner(id))
+  WITH CHECK (is_tool_owner(id));
+
+DROP POLICY IF EXISTS "Approved tools are viewable by everyone" ON tools;
+CREATE POLICY "Approved tools are viewable by everyone"
+  ON tools
+  FOR SELECT
+  TO public
+  USING (status = 'approved' OR submitted_by = auth.uid() OR is_tool_owner(id) OR is_admin());
+
+-- Tool owners policies
+DROP POLICY IF EXISTS "Users can view their own ownerships" ON tool_owners;
+CREATE POLICY "Users can view their own ownerships"
+  ON tool_owners
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_admin());
+
+DROP POLICY IF EXISTS "Admins can manage ownerships" ON tool_owners;
+CREATE POLICY "Admins can manage ownerships"
+  ON tool_owners
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Tool claims policies
+DROP POLICY IF EXISTS "Users can view their own claims" ON tool_claims;
+CREATE POLICY "Users can view their own claims"
+  ON tool_claims
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_admin());
+
+DROP POLICY IF EXISTS "Users can open claims" ON tool_claims;
+CREATE POLICY "Users can open claims"
+  ON tool_claims
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND verified_at IS NULL
+    AND NOT is_tool_owner(tool_id)
+    AND EXISTS (SELECT 1 FROM tools WHERE tools.id = tool_claims.tool_id AND tools.status = 'approved')
+  );
@@ -0,0 +1,33 @@
+/*
+  # Similar tools
+
+  1. Functions
+    - `get_similar_tools(tool_uuid, result_limit)` - approved tools that share the
+      target's category or at least one tag, most overlap first. The client ranks
+      these candidates and explains each match (see utils/recommendations.ts).
+
+  2. Performance
+    - GIN index on `tools.tags` for the tag overlap (&&) filter
+*/
+
+CREATE INDEX IF NOT EXISTS idx_tools_tags ON tools USING gin(tags);
+
+-- Invoker rights: tools RLS still applies to the candidates
+CREATE OR REPLACE FUNCTION get_similar_tools(
+  tool_uuid uuid,
+  result_limit integer DEFAULT 30
+)
+RETURNS SETOF tools AS $$
+  SELECT t.*
+  FROM tools t
+  JOIN tools target ON target.id = tool_uuid
+  WHERE t.id <> target.id
+    AND t.status = 'approved'
+    AND (t.category = target.category OR t.tags && target.tags)
+  ORDER BY
+    (t.category = target.category) DESC,
+    cardinality(ARRAY(SELECT unnest(t.tags) INTERSECT SELECT unnest(target.tags))) DESC,
+    t.rating DESC,
+    t.id
+  LIMIT LEAST(GREATEST(result_limit, 1), 100);
+$$ LANGUAGE sql STABLE;
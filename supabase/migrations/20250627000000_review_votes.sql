@@ -0,0 +1,121 @@
+/*
+  # Helpful votes on reviews
+
+  1. New Tables
+    - `review_votes` - one helpful / not-helpful vote per user and review
+
+  2. Changes
+    - `reviews.not_helpful_count` alongside the existing `helpful_count`.
+      Both are maintained by a trigger on `review_votes`.
+
+  3. Security
+    - Users see and manage only their own votes
+    - Authors cannot vote on their own reviews
+    - Vote counters on reviews cannot be changed through the API
+*/
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS not_helpful_count integer DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS review_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  is_helpful boolean NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, review_id)
+);
+
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_review_votes_review_id ON review_votes(review_id);
+
+-- True when the review was written by the given user
+CREATE OR REPLACE FUNCTION is_review_author(review_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM reviews
+    WHERE id = review_uuid AND user_id = user_uuid
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Review votes policies
+DROP POLICY IF EXISTS "Users can view own review votes" ON review_votes;
+CREATE POLICY "Users can view own review votes"
+  ON review_votes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can vote on others' reviews" ON review_votes;
+CREATE POLICY "Users can vote on others' reviews"
+  ON review_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND NOT is_review_author(review_id));
+
+DROP POLICY IF EXISTS "Users can change own review votes" ON review_votes;
+CREATE POLICY "Users can change own review votes"
+  ON review_votes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND NOT is_review_author(review_id));
+
+DROP POLICY IF EXISTS "Users can delete own review votes" ON review_votes;
+CREATE POLICY "Users can delete own review votes"
+  ON review_votes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Function to update review vote counts when votes change
+CREATE OR REPLACE FUNCTION update_review_helpful_count()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE reviews
+  SET
+    helpful_count = (
+      SELECT COUNT(*)
+      FROM review_votes
+      WHERE review_id = COALESCE(NEW.review_id, OLD.review_id) AND is_helpful
+    ),
+    not_helpful_count = (
+      SELECT COUNT(*)
+      FROM review_votes
+      WHERE review_id = COALESCE(NEW.review_id, OLD.review_id) AND NOT is_helpful
+    )
+  WHERE id = COALESCE(NEW.review_id, OLD.review_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_review_vote_change ON review_votes;
+CREATE TRIGGER on_review_vote_change
+  AFTER INSERT OR UPDATE OR DELETE ON review_votes
+  FOR EACH ROW EXECUTE FUNCTION update_review_helpful_count();
+
+-- Authors edit their review text and rating; the counters belong to the trigger
+CREATE OR REPLACE FUNCTION protect_review_vote_counts()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.helpful_count := 0;
+      NEW.not_helpful_count := 0;
+    ELSE
+      NEW.helpful_count := OLD.helpful_count;
+      NEW.not_helpful_count := OLD.not_helpful_count;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_review_vote_counts_write ON reviews;
+CREATE TRIGGER on_review_vote_counts_write
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION protect_review_vote_counts();
+
@@ -0,0 +1,245 @@
+/*
+  # Review reports and moderation
+
+  1. New Tables
+    - `review_reports` - one report per user and review, with a reason code and
+      optional details. Open until an admin restores the review (dismissed) or
+      acts on it (actioned).
+    - `moderation_audit_log` - every admin decision on reported content, with
+      the acting admin, the affected author and a snapshot of deleted reviews
+
+  2. Changes
+    - `reviews.status` - 'published' or 'hidden'. A review is hidden
+      automatically once it has 3 open reports.
+    - Tool ratings and review counts only include published reviews
+
+  3. Security
+    - Hidden reviews are only visible to their author and admins
+    - Users can report reviews other than their own and see their own reports
+    - Authors cannot change the status of their own reviews
+    - Admin decisions go through `moderate_review()`, which writes the audit log
+*/
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'published';
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'reviews_status_check'
+    AND table_name = 'reviews'
+  ) THEN
+    ALTER TABLE reviews ADD CONSTRAINT reviews_status_check
+      CHECK (status IN ('published', 'hidden'));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS review_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL
+    CHECK (reason IN ('spam', 'abuse', 'off_topic', 'conflict_of_interest', 'misinformation', 'other')),
+  details text CHECK (char_length(details) <= 500),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(reporter_id, review_id)
+);
+
+CREATE TABLE IF NOT EXISTS moderation_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('restore', 'delete', 'warn')),
+  target_type text NOT NULL DEFAULT 'review',
+  target_id uuid NOT NULL,
+  subject_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  note text,
+  snapshot jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE review_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_status ON reviews(status);
+CREATE INDEX IF NOT EXISTS idx_review_reports_review_id ON review_reports(review_id);
+CREATE INDEX IF NOT EXISTS idx_review_reports_status ON review_reports(status);
+CREATE INDEX IF NOT EXISTS idx_moderation_audit_log_created_at ON moderation_audit_log(created_at DESC);
+
+-- Reviews policies
+DROP POLICY IF EXISTS "Reviews are viewable by everyone" ON reviews;
+CREATE POLICY "Reviews are viewable by everyone"
+  ON reviews
+  FOR SELECT
+  TO public
+  USING (status = 'published' OR auth.uid() = user_id OR is_admin());
+
+-- Review reports policies
+DROP POLICY IF EXISTS "Users can view own reports" ON review_reports;
+CREATE POLICY "Users can view own reports"
+  ON review_reports
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id OR is_admin());
+
+DROP POLICY IF EXISTS "Users can report others' reviews" ON review_reports;
+CREATE POLICY "Users can report others' reviews"
+  ON review_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'open'
+    AND NOT is_review_author(review_id)
+  );
+
+-- Audit log policies (rows are only written by moderate_review)
+DROP POLICY IF EXISTS "Admins can view the audit log" ON moderation_audit_log;
+CREATE POLICY "Admins can view the audit log"
+  ON moderation_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Ratings and counts only reflect published reviews
+CREATE OR REPLACE FUNCTION update_tool_rating()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE tools
+  SET
+    rating = (
+      SELECT COALESCE(AVG(rating), 0)
+      FROM reviews
+      WHERE tool_id = COALESCE(NEW.tool_id, OLD.tool_id) AND status = 'published'
+    ),
+    reviews_count = (
+      SELECT COUNT(*)
+      FROM reviews
+      WHERE tool_id = COALESCE(NEW.tool_id, OLD.tool_id) AND status = 'published'
+    ),
+    updated_at = now()
+  WHERE id = COALESCE(NEW.tool_id, OLD.tool_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Authors edit their text and rating; visibility belongs to moderation
+CREATE OR REPLACE FUNCTION protect_review_status()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND NOT is_admin(auth.uid()) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'published';
+      NEW.hidden_at := NULL;
+    ELSE
+      NEW.status := OLD.status;
+      NEW.hidden_at := OLD.hidden_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_review_status_write ON reviews;
+CREATE TRIGGER on_review_status_write
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION protect_review_status();
+
+-- Hide a review once enough distinct users have reported it
+CREATE OR REPLACE FUNCTION hide_reported_review()
+RETURNS trigger AS $$
+BEGIN
+  IF (
+    SELECT COUNT(*)
+    FROM review_reports
+    WHERE review_id = NEW.review_id AND status = 'open'
+  ) >= 3 THEN
+    UPDATE reviews
+    SET status = 'hidden', hidden_at = now()
+    WHERE id = NEW.review_id AND status = 'published';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_review_reported ON review_reports;
+CREATE TRIGGER on_review_reported
+  AFTER INSERT ON review_reports
+  FOR EACH ROW EXECUTE FUNCTION hide_reported_review();
+
+-- Admin decision on a reported review, recorded in the audit log.
+--   restore - publish the review again and dismiss its open reports
+--   delete  - delete the review (a snapshot is kept in the log)
+--   warn    - warn the author and close the open reports; visibility is unchanged
+CREATE OR REPLACE FUNCTION moderate_review(
+  review_uuid uuid,
+  moderation_action text,
+  moderation_note text DEFAULT NULL
+)
+RETURNS moderation_audit_log AS $$
+DECLARE
+  target reviews%ROWTYPE;
+  entry moderation_audit_log%ROWTYPE;
+  open_reports jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can moderate reviews';
+  END IF;
+
+  IF moderation_action NOT IN ('restore', 'delete', 'warn') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', moderation_action;
+  END IF;
+
+  SELECT * INTO target FROM reviews WHERE id = review_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('reason', reason, 'details', details)), '[]'::jsonb)
+  INTO open_reports
+  FROM review_reports
+  WHERE review_id = review_uuid AND status = 'open';
+
+  INSERT INTO moderation_audit_log (actor_id, action, target_type, target_id, subject_user_id, note, snapshot)
+  VALUES (
+    auth.uid(),
+    moderation_action,
+    'review',
+    review_uuid,
+    target.user_id,
+    NULLIF(trim(moderation_note), ''),
+    jsonb_build_object(
+      'tool_id', target.tool_id,
+      'rating', target.rating,
+      'comment', target.comment,
+      'status', target.status,
+      'open_reports', open_reports
+    )
+  )
+  RETURNING * INTO entry;
+
+  IF moderation_action = 'restore' THEN
+    UPDATE reviews SET status = 'published', hidden_at = NULL WHERE id = review_uuid;
+    UPDATE review_reports
+    SET status = 'dismissed', resolved_by = auth.uid(), resolved_at = now()
+    WHERE review_id = review_uuid AND status = 'open';
+  ELSIF moderation_action = 'delete' THEN
+    -- Tells the activity log (see log_review_activity) the author did not do this
+    PERFORM set_config('app.review_moderation', 'on', true);
+    DELETE FROM reviews WHERE id = review_uuid;
+    PERFORM set_config('app.review_moderation', 'off', true);
+  ELSE
+    UPDATE review_reports
+    SET status = 'actioned', resolved_by = auth.uid(), resolved_at = now()
+    WHERE review_id = review_uuid AND status = 'open';
+  END IF;
+
+  RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
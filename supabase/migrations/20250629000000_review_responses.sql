@@ -0,0 +1,110 @@
+/*
+  # Maker responses to reviews
+
+  1. New Tables
+    - `review_responses` - one public response per review, written by an owner
+      of the reviewed tool
+    - `review_response_revisions` - earlier versions of a response, saved
+      automatically whenever its text changes
+
+  2. Security
+    - Responses and their history are public while the review is visible
+    - Only owners of the reviewed tool can respond, edit or delete a response;
+      admins can also delete
+    - Responder, review and creation time cannot be changed after posting
+
+  3. Functions
+    - `can_respond_to_review()` helper for policies
+*/
+
+CREATE TABLE IF NOT EXISTS review_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL UNIQUE REFERENCES reviews(id) ON DELETE CASCADE,
+  responder_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  body text NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 2000),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS review_response_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  response_id uuid NOT NULL REFERENCES review_responses(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  edited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE review_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_response_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_review_response_revisions_response_id ON review_response_revisions(response_id);
+
+-- Owners of the reviewed tool may respond
+CREATE OR REPLACE FUNCTION can_respond_to_review(review_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM reviews r
+    WHERE r.id = review_uuid AND is_tool_owner(r.tool_id, user_uuid)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Review responses policies (reviews RLS hides responses to hidden reviews)
+DROP POLICY IF EXISTS "Responses are viewable with their review" ON review_responses;
+CREATE POLICY "Responses are viewable with their review"
+  ON review_responses
+  FOR SELECT
+  TO public
+  USING (EXISTS (SELECT 1 FROM reviews WHERE reviews.id = review_responses.review_id));
+
+DROP POLICY IF EXISTS "Tool owners can respond to reviews" ON review_responses;
+CREATE POLICY "Tool owners can respond to reviews"
+  ON review_responses
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = responder_id AND can_respond_to_review(review_id));
+
+DROP POLICY IF EXISTS "Tool owners can edit responses" ON review_responses;
+CREATE POLICY "Tool owners can edit responses"
+  ON review_responses
+  FOR UPDATE
+  TO authenticated
+  USING (can_respond_to_review(review_id))
+  WITH CHECK (can_respond_to_review(review_id));
+
+DROP POLICY IF EXISTS "Tool owners and admins can delete responses" ON review_responses;
+CREATE POLICY "Tool owners and admins can delete responses"
+  ON review_responses
+  FOR DELETE
+  TO authenticated
+  USING (can_respond_to_review(review_id) OR is_admin());
+
+-- Response history policies (rows are only written by the trigger below)
+DROP POLICY IF EXISTS "Response history is viewable with the response" ON review_response_revisions;
+CREATE POLICY "Response history is viewable with the response"
+  ON review_response_revisions
+  FOR SELECT
+  TO public
+  USING (EXISTS (SELECT 1 FROM review_responses WHERE review_responses.id = review_response_revisions.response_id));
+
+-- Keep the previous text whenever a response is edited
+CREATE OR REPLACE FUNCTION record_review_response_revision()
+RETURNS trigger AS $$
+BEGIN
+  NEW.review_id := OLD.review_id;
+  NEW.responder_id := OLD.responder_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    INSERT INTO review_response_revisions (response_id, body, edited_by, created_at)
+    VALUES (OLD.id, OLD.body, auth.uid(), OLD.updated_at);
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_review_response_edit ON review_responses;
+CREATE TRIGGER on_review_response_edit
+  BEFORE UPDATE ON review_responses
+  FOR EACH ROW EXECUTE FUNCTION record_review_response_revision();
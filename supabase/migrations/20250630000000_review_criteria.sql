@@ -0,0 +1,244 @@
+/*
+  # Structured review criteria
+
+  1. Schema
+    - `reviews` gains optional 1-5 sub-ratings (`ease_of_use_rating`,
+      `output_quality_rating`, `value_rating`, `support_rating`,
+      `documentation_rating`), `pros` / `cons` lists and a `use_case`
+    - `tools` gains the per-criterion averages over its published reviews
+      (NULL until someone rates that criterion)
+
+  2. Functions
+    - `update_tool_rating()` also maintains the criterion averages
+    - `tool_criterion_rating()` looks up a tool's average for one criterion
+    - `search_tools` gains a criterion filter (e.g. value for money 4+)
+
+  3. Security
+    - Owners cannot edit the criterion averages of their tools
+*/
+
+-- Review sub-ratings and details
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS ease_of_use_rating smallint CHECK (ease_of_use_rating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS output_quality_rating smallint CHECK (output_quality_rating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS value_rating smallint CHECK (value_rating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS support_rating smallint CHECK (support_rating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS documentation_rating smallint CHECK (documentation_rating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS pros text[] NOT NULL DEFAULT '{}';
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS cons text[] NOT NULL DEFAULT '{}';
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS use_case text CHECK (char_length(use_case) <= 200);
+
+-- Keep pros and cons lists short
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'reviews_pros_cons_max'
+    AND table_name = 'reviews'
+  ) THEN
+    ALTER TABLE reviews ADD CONSTRAINT reviews_pros_cons_max
+      CHECK (COALESCE(array_length(pros, 1), 0) <= 5 AND COALESCE(array_length(cons, 1), 0) <= 5);
+  END IF;
+END $$;
+
+-- Per-tool criterion averages
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS ease_of_use_rating numeric(2,1);
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS output_quality_rating numeric(2,1);
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS value_rating numeric(2,1);
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS support_rating numeric(2,1);
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS documentation_rating numeric(2,1);
+
+-- Ratings, counts and criterion averages only reflect published reviews
+CREATE OR REPLACE FUNCTION update_tool_rating()
+RETURNS trigger AS $$
+DECLARE
+  target_tool uuid := COALESCE(NEW.tool_id, OLD.tool_id);
+BEGIN
+  UPDATE tools
+  SET
+    rating = stats.rating,
+    reviews_count = stats.reviews_count,
+    ease_of_use_rating = stats.ease_of_use_rating,
+    output_quality_rating = stats.output_quality_rating,
+    value_rating = stats.value_rating,
+    support_rating = stats.support_rating,
+    documentation_rating = stats.documentation_rating,
+    updated_at = now()
+  FROM (
+    SELECT
+      COALESCE(AVG(rating), 0) AS rating,
+      COUNT(*) AS reviews_count,
+      ROUND(AVG(ease_of_use_rating), 1) AS ease_of_use_rating,
+      ROUND(AVG(output_quality_rating), 1) AS output_quality_rating,
+      ROUND(AVG(value_rating), 1) AS value_rating,
+      ROUND(AVG(support_rating), 1) AS support_rating,
+      ROUND(AVG(documentation_rating), 1) AS documentation_rating
+    FROM reviews
+    WHERE tool_id = target_tool AND status = 'published'
+  ) stats
+  WHERE id = target_tool;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Owners may edit the listing, but not its moderation state, ranking or counters.
+-- Only applied to API roles: counter triggers run as the table owner and must
+-- still be able to update rating, reviews_count and likes_count.
+CREATE OR REPLACE FUNCTION protect_tool_owner_edits()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND NOT is_admin(auth.uid()) THEN
+    NEW.featured := OLD.featured;
+    NEW.verified := OLD.verified;
+    NEW.rating := OLD.rating;
+    NEW.reviews_count := OLD.reviews_count;
+    NEW.likes_count := OLD.likes_count;
+    NEW.ease_of_use_rating := OLD.ease_of_use_rating;
+    NEW.output_quality_rating := OLD.output_quality_rating;
+    NEW.value_rating := OLD.value_rating;
+    NEW.support_rating := OLD.support_rating;
+    NEW.documentation_rating := OLD.documentation_rating;
+    NEW.submitted_by := OLD.submitted_by;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.moderation_note := OLD.moderation_note;
+    NEW.created_at := OLD.created_at;
+
+    -- Fixing a rejected or sent-back listing puts it back in the queue, and
+    -- so does changing what the public sees on an approved one
+    IF OLD.status IN ('rejected', 'changes_requested') THEN
+      NEW.status := 'pending';
+    ELSIF OLD.status = 'approved' AND (
+      NEW.name IS DISTINCT FROM OLD.name
+      OR NEW.description IS DISTINCT FROM OLD.description
+      OR NEW.website_url IS DISTINCT FROM OLD.website_url
+      OR NEW.category IS DISTINCT FROM OLD.category
+      OR NEW.pricing IS DISTINCT FROM OLD.pricing
+      OR NEW.tags IS DISTINCT FROM OLD.tags
+      OR NEW.logo_url IS DISTINCT FROM OLD.logo_url
+      OR NEW.cover_image_url IS DISTINCT FROM OLD.cover_image_url
+      OR NEW.screenshot_urls IS DISTINCT FROM OLD.screenshot_urls
+    ) THEN
+      NEW.status := 'pending';
+    ELSE
+      NEW.status := OLD.status;
+    END IF;
+
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A tool's average for one criterion, by name
+CREATE OR REPLACE FUNCTION tool_criterion_rating(tool tools, criterion text)
+RETURNS numeric AS $$
+  SELECT CASE criterion
+    WHEN 'ease_of_use' THEN tool.ease_of_use_rating
+    WHEN 'output_quality' THEN tool.output_quality_rating
+    WHEN 'value' THEN tool.value_rating
+    WHEN 'support' THEN tool.support_rating
+    WHEN 'documentation' THEN tool.documentation_rating
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- New filter arguments change the signature, so the old function has to go
+DROP FUNCTION IF EXISTS search_tools(text, text, text, numeric, boolean, integer, integer);
+
+-- Search only ever returns approved tools
+CREATE OR REPLACE FUNCTION search_tools(
+  search_query text,
+  category_filter text DEFAULT NULL,
+  pricing_filter text DEFAULT NULL,
+  min_rating numeric DEFAULT 0,
+  featured_only boolean DEFAULT false,
+  criterion_filter text DEFAULT NULL,
+  min_criterion_rating numeric DEFAULT 4,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE(
+  id uuid,
+  name text,
+  description text,
+  category text,
+  pricing pricing_type,
+  rating numeric,
+  reviews_count integer,
+  likes_count integer,
+  tags text[],
+  website_url text,
+  logo_url text,
+  cover_image_url text,
+  screenshot_urls text[],
+  featured boolean,
+  verified boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  search_rank real,
+  name_highlight text,
+  description_highlight text,
+  total_count bigint
+) AS $$
+  WITH query AS (
+    SELECT
+      tools_prefix_tsquery(search_query) AS ts_query,
+      trim(search_query) AS raw_query
+  ),
+  matches AS (
+    SELECT
+      t.*,
+      q.ts_query,
+      COALESCE(ts_rank(tools_search_vector(t.name, t.description, t.tags), q.ts_query), 0)
+        + similarity(t.name, q.raw_query) AS rank
+    FROM tools t, query q
+    WHERE q.raw_query <> ''
+      AND (
+        (q.ts_query IS NOT NULL AND tools_search_vector(t.name, t.description, t.tags) @@ q.ts_query)
+        OR t.name % q.raw_query
+        OR q.raw_query <% t.name
+      )
+      AND (category_filter IS NULL OR category_filter = 'all' OR t.category = category_filter)
+      AND (pricing_filter IS NULL OR pricing_filter = 'all' OR t.pricing::text = pricing_filter)
+      AND (COALESCE(min_rating, 0) = 0 OR t.rating >= min_rating)
+      AND (NOT featured_only OR t.featured)
+      AND (
+        criterion_filter IS NULL OR criterion_filter = 'all'
+        OR tool_criterion_rating(t, criterion_filter) >= min_criterion_rating
+      )
+      AND t.status = 'approved'
+  )
+  SELECT
+    m.id,
+    m.name,
+    m.description,
+    m.category,
+    m.pricing,
+    m.rating,
+    m.reviews_count,
+    m.likes_count,
+    m.tags,
+    m.website_url,
+    m.logo_url,
+    m.cover_image_url,
+    m.screenshot_urls,
+    m.featured,
+    m.verified,
+    m.created_at,
+    m.updated_at,
+    m.rank::real AS search_rank,
+    COALESCE(
+      ts_headline('english', m.name, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      m.name
+    ) AS name_highlight,
+    COALESCE(
+      ts_headline('english', m.description, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30'),
+      m.description
+    ) AS description_highlight,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.rank DESC, m.rating DESC, m.id
+  LIMIT GREATEST(result_limit, 1)
+  OFFSET GREATEST(result_offset, 0);
+$$ LANGUAGE sql STABLE;
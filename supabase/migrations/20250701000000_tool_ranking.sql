@@ -0,0 +1,181 @@
+/*
+  # Tool ranking scores
+
+  1. Schema
+    - `tools.ranking_score` - Bayesian average rating plus a bonus for recent
+      activity. A tool with a handful of reviews is pulled towards the
+      catalog-wide average until it has enough reviews to stand on its own.
+    - `tools.trending_score` - likes, bookmarks and reviews from the last 7
+      days, newer activity counting more
+    - `tools.ranking_updated_at`
+
+  2. Functions
+    - `compute_tool_ranking()` / `refresh_tool_ranking()` for one tool
+    - `refresh_all_tool_rankings()` so scores keep decaying without new
+      activity; scheduled hourly when pg_cron is available
+    - Likes, bookmarks and reviews refresh their tool's scores
+
+  3. Security
+    - Owners cannot edit the scores of their tools
+    - The ranking functions run as the owner and are not callable through the
+      API; only triggers and the scheduled job recompute scores
+*/
+
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS ranking_score numeric NOT NULL DEFAULT 0;
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS trending_score numeric NOT NULL DEFAULT 0;
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS ranking_updated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_tools_ranking_score ON tools(ranking_score DESC);
+CREATE INDEX IF NOT EXISTS idx_tools_trending_score ON tools(trending_score DESC);
+
+-- Owners may edit the listing, but not its moderation state, ranking or counters.
+-- Only applied to API roles: counter triggers run as the table owner and must
+-- still be able to update rating, reviews_count and likes_count.
+CREATE OR REPLACE FUNCTION protect_tool_owner_edits()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND NOT is_admin(auth.uid()) THEN
+    NEW.featured := OLD.featured;
+    NEW.verified := OLD.verified;
+    NEW.rating := OLD.rating;
+    NEW.reviews_count := OLD.reviews_count;
+    NEW.likes_count := OLD.likes_count;
+    NEW.ease_of_use_rating := OLD.ease_of_use_rating;
+    NEW.output_quality_rating := OLD.output_quality_rating;
+    NEW.value_rating := OLD.value_rating;
+    NEW.support_rating := OLD.support_rating;
+    NEW.documentation_rating := OLD.documentation_rating;
+    NEW.ranking_score := OLD.ranking_score;
+    NEW.trending_score := OLD.trending_score;
+    NEW.ranking_updated_at := OLD.ranking_updated_at;
+    NEW.submitted_by := OLD.submitted_by;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.moderation_note := OLD.moderation_note;
+    NEW.created_at := OLD.created_at;
+
+    -- Fixing a rejected or sent-back listing puts it back in the queue, and
+    -- so does changing what the public sees on an approved one
+    IF OLD.status IN ('rejected', 'changes_requested') THEN
+      NEW.status := 'pending';
+    ELSIF OLD.status = 'approved' AND (
+      NEW.name IS DISTINCT FROM OLD.name
+      OR NEW.description IS DISTINCT FROM OLD.description
+      OR NEW.website_url IS DISTINCT FROM OLD.website_url
+      OR NEW.category IS DISTINCT FROM OLD.category
+      OR NEW.pricing IS DISTINCT FROM OLD.pricing
+      OR NEW.tags IS DISTINCT FROM OLD.tags
+      OR NEW.logo_url IS DISTINCT FROM OLD.logo_url
+      OR NEW.cover_image_url IS DISTINCT FROM OLD.cover_image_url
+      OR NEW.screenshot_urls IS DISTINCT FROM OLD.screenshot_urls
+    ) THEN
+      NEW.status := 'pending';
+    ELSE
+      NEW.status := OLD.status;
+    END IF;
+
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scores for one tool.
+--   ranking  = (C * m + rating * n) / (C + n) + 0.3 * ln(1 + activity over 30 days)
+--              m = mean rating of all published reviews, C = 10 reviews of prior weight,
+--              activity halves in weight every 14 days
+--   trending = activity over the last 7 days, halving in weight every 3 days
+-- Activity weights: like 1, bookmark 2, review 3
+CREATE OR REPLACE FUNCTION compute_tool_ranking(tool_uuid uuid)
+RETURNS TABLE(ranking_score numeric, trending_score numeric) AS $$
+  WITH prior AS (
+    SELECT COALESCE(AVG(rating), 3.5) AS mean_rating, 10 AS weight
+    FROM reviews
+    WHERE status = 'published'
+  ),
+  activity AS (
+    SELECT 1 AS points, created_at FROM likes WHERE tool_id = tool_uuid AND created_at > now() - interval '30 days'
+    UNION ALL
+    SELECT 2, created_at FROM bookmarks WHERE tool_id = tool_uuid AND created_at > now() - interval '30 days'
+    UNION ALL
+    SELECT 3, created_at FROM reviews
+    WHERE tool_id = tool_uuid AND status = 'published' AND created_at > now() - interval '30 days'
+  ),
+  decayed AS (
+    SELECT
+      COALESCE(SUM(points * power(0.5, EXTRACT(EPOCH FROM now() - created_at) / 86400 / 14)), 0) AS monthly,
+      COALESCE(SUM(points * power(0.5, EXTRACT(EPOCH FROM now() - created_at) / 86400 / 3))
+        FILTER (WHERE created_at > now() - interval '7 days'), 0) AS weekly
+    FROM activity
+  )
+  SELECT
+    ROUND(
+      ((p.weight * p.mean_rating + t.rating * t.reviews_count) / (p.weight + t.reviews_count))
+        + 0.3 * ln(1 + d.monthly),
+      4
+    ),
+    ROUND(d.weekly::numeric, 4)
+  FROM tools t, prior p, decayed d
+  WHERE t.id = tool_uuid;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION compute_tool_ranking(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_tool_ranking(tool_uuid uuid)
+RETURNS void AS $$
+  UPDATE tools t
+  SET
+    ranking_score = r.ranking_score,
+    trending_score = r.trending_score,
+    ranking_updated_at = now()
+  FROM compute_tool_ranking(tool_uuid) r
+  WHERE t.id = tool_uuid;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_tool_ranking(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_all_tool_rankings()
+RETURNS void AS $$
+BEGIN
+  PERFORM refresh_tool_ranking(id) FROM tools;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_all_tool_rankings() FROM PUBLIC, anon, authenticated;
+
+-- Refresh a tool's scores when it gains or loses activity
+CREATE OR REPLACE FUNCTION refresh_tool_ranking_on_activity()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM refresh_tool_ranking(COALESCE(NEW.tool_id, OLD.tool_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_like_ranking_change ON likes;
+CREATE TRIGGER on_like_ranking_change
+  AFTER INSERT OR DELETE ON likes
+  FOR EACH ROW EXECUTE FUNCTION refresh_tool_ranking_on_activity();
+
+DROP TRIGGER IF EXISTS on_bookmark_ranking_change ON bookmarks;
+CREATE TRIGGER on_bookmark_ranking_change
+  AFTER INSERT OR DELETE ON bookmarks
+  FOR EACH ROW EXECUTE FUNCTION refresh_tool_ranking_on_activity();
+
+-- Named to run after on_review_change, which updates the rating first
+DROP TRIGGER IF EXISTS on_review_ranking_change ON reviews;
+CREATE TRIGGER on_review_ranking_change
+  AFTER INSERT OR UPDATE OF rating, status OR DELETE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION refresh_tool_ranking_on_activity();
+
+-- Scores decay over time, so recompute them hourly where pg_cron is installed
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-tool-rankings', '0 * * * *', 'SELECT refresh_all_tool_rankings()');
+  END IF;
+END $$;
+
+-- Initial scores
+SELECT refresh_all_tool_rankings();
@@ -0,0 +1,50 @@
+/*
+  # Platform stats
+
+  1. Functions
+    - `get_platform_stats()` - headline numbers for the home page:
+      - `tool_count` - approved tools
+      - `active_users` - users who liked, bookmarked or reviewed a tool in the
+        last 30 days
+      - `review_count` - published reviews
+      - `new_tools_this_week` - tools approved in the last 7 days
+      - `like_count` - all likes
+
+  2. Security
+    - Returns aggregates only, so it is callable by anyone; it runs as the
+      owner so the counts are not limited by RLS on bookmarks
+*/
+
+CREATE INDEX IF NOT EXISTS idx_likes_created_at ON likes(created_at);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_created_at ON bookmarks(created_at);
+CREATE INDEX IF NOT EXISTS idx_reviews_created_at ON reviews(created_at);
+
+CREATE OR REPLACE FUNCTION get_platform_stats()
+RETURNS TABLE (
+  tool_count bigint,
+  active_users bigint,
+  review_count bigint,
+  new_tools_this_week bigint,
+  like_count bigint
+) AS $$
+  SELECT
+    (SELECT COUNT(*) FROM tools WHERE status = 'approved'),
+    (
+      SELECT COUNT(DISTINCT user_id) FROM (
+        SELECT user_id FROM likes WHERE created_at >= now() - interval '30 days'
+        UNION
+        SELECT user_id FROM bookmarks WHERE created_at >= now() - interval '30 days'
+        UNION
+        SELECT user_id FROM reviews WHERE created_at >= now() - interval '30 days'
+      ) recent
+    ),
+    (SELECT COUNT(*) FROM reviews WHERE status = 'published'),
+    (
+      SELECT COUNT(*) FROM tools
+      WHERE status = 'approved'
+      AND COALESCE(reviewed_at, created_at) >= now() - interval '7 days'
+    ),
+    (SELECT COUNT(*) FROM likes);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_platform_stats() TO anon, authenticated;
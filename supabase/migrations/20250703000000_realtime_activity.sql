@@ -0,0 +1,63 @@
+/*
+  # Realtime for likes, reviews and bookmarks
+
+  1. Changes
+    - `likes`, `reviews` and `bookmarks` are added to the `supabase_realtime`
+      publication so clients receive inserts, updates and deletes
+
+  2. Notes
+    - Realtime respects RLS: everyone receives like and published review
+      changes, users only receive their own bookmark changes
+    - Delete events on tables with RLS only carry the primary key, so clients
+      match deletes against rows they already hold
+    - A review that stops being published (hidden by reports or moderation)
+      no longer passes the reviews SELECT policy, so most clients never get
+      its update. The database broadcasts `review_hidden` with the review and
+      tool id on the public `review-moderation` topic instead
+*/
+
+DO $$
+DECLARE
+  realtime_table text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH realtime_table IN ARRAY ARRAY['likes', 'reviews', 'bookmarks'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = realtime_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+    END IF;
+  END LOOP;
+END $$;
+
+-- realtime.send() only exists on newer Supabase versions; without it clients
+-- pick the change up on their next reload
+CREATE OR REPLACE FUNCTION broadcast_review_hidden()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.status = 'published'
+    AND NEW.status <> 'published'
+    AND to_regprocedure('realtime.send(jsonb, text, text, boolean)') IS NOT NULL
+  THEN
+    PERFORM realtime.send(
+      jsonb_build_object('id', NEW.id, 'tool_id', NEW.tool_id),
+      'review_hidden',
+      'review-moderation',
+      false
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_review_hidden_broadcast ON reviews;
+CREATE TRIGGER on_review_hidden_broadcast
+  AFTER UPDATE OF status ON reviews
+  FOR EACH ROW EXECUTE FUNCTION broadcast_review_hidden();
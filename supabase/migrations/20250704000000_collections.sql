@@ -0,0 +1,271 @@
+/*
+  # Collections
+
+  1. New Tables
+    - `collections` - named, ordered lists of tools owned by a user, with a
+      description and a visibility:
+        - private  - only the owner
+        - unlisted - anyone with the link
+        - public   - anyone, and listed alongside the owner's other public
+                     collections
+    - `collection_items` - the tools in a collection, ordered by `position`
+
+  2. Default collection
+    - Every user with bookmarks gets a default "Saved" collection holding their
+      existing bookmarks (oldest first)
+    - Bookmarks and the default collection stay in sync both ways: bookmarking
+      a tool adds it to "Saved", removing it from "Saved" removes the bookmark
+    - The default collection cannot be deleted
+
+  3. Security
+    - Owners manage their collections and items
+    - Public and unlisted collections (and their items) are readable by anyone;
+      the app only lists public ones
+    - Only the database marks a collection as default
+
+  4. Functions
+    - `default_collection_id()` - the user's default collection, created on
+      demand; internal to the bookmark sync triggers
+    - `reorder_collection_items()` - saves a new item order in one call
+*/
+
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  description text CHECK (char_length(description) <= 500),
+  visibility text NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'unlisted', 'public')),
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id uuid NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  tool_id uuid NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(collection_id, tool_id)
+);
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_items ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_collections_user_id ON collections(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_one_default_per_user ON collections(user_id) WHERE is_default;
+CREATE INDEX IF NOT EXISTS idx_collection_items_collection_position ON collection_items(collection_id, position);
+
+-- True when the collection belongs to the given user
+CREATE OR REPLACE FUNCTION is_collection_owner(collection_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM collections
+    WHERE id = collection_uuid AND user_id = user_uuid
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Collections policies
+DROP POLICY IF EXISTS "Collections are viewable by owner or link" ON collections;
+CREATE POLICY "Collections are viewable by owner or link"
+  ON collections
+  FOR SELECT
+  TO public
+  USING (visibility IN ('public', 'unlisted') OR auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own collections" ON collections;
+CREATE POLICY "Users can create own collections"
+  ON collections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own collections" ON collections;
+CREATE POLICY "Users can update own collections"
+  ON collections
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own collections" ON collections;
+CREATE POLICY "Users can delete own collections"
+  ON collections
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id AND NOT is_default);
+
+-- Collection items policies
+DROP POLICY IF EXISTS "Collection items are viewable with their collection" ON collection_items;
+CREATE POLICY "Collection items are viewable with their collection"
+  ON collection_items
+  FOR SELECT
+  TO public
+  USING (EXISTS (SELECT 1 FROM collections WHERE collections.id = collection_items.collection_id));
+
+DROP POLICY IF EXISTS "Users can add to own collections" ON collection_items;
+CREATE POLICY "Users can add to own collections"
+  ON collection_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_collection_owner(collection_id));
+
+DROP POLICY IF EXISTS "Users can reorder own collections" ON collection_items;
+CREATE POLICY "Users can reorder own collections"
+  ON collection_items
+  FOR UPDATE
+  TO authenticated
+  USING (is_collection_owner(collection_id))
+  WITH CHECK (is_collection_owner(collection_id));
+
+DROP POLICY IF EXISTS "Users can remove from own collections" ON collection_items;
+CREATE POLICY "Users can remove from own collections"
+  ON collection_items
+  FOR DELETE
+  TO authenticated
+  USING (is_collection_owner(collection_id));
+
+-- Owners rename and share collections; ownership and the default flag are fixed
+CREATE OR REPLACE FUNCTION protect_collection_fields()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.is_default := false;
+    ELSE
+      NEW.user_id := OLD.user_id;
+      NEW.is_default := OLD.is_default;
+      NEW.created_at := OLD.created_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_collection_write ON collections;
+CREATE TRIGGER on_collection_write
+  BEFORE INSERT OR UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION protect_collection_fields();
+
+-- New items go to the end of the collection
+CREATE OR REPLACE FUNCTION set_collection_item_position()
+RETURNS trigger AS $$
+BEGIN
+  SELECT COALESCE(MAX(position) + 1, 0) INTO NEW.position
+  FROM collection_items
+  WHERE collection_id = NEW.collection_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_collection_item_insert ON collection_items;
+CREATE TRIGGER on_collection_item_insert
+  BEFORE INSERT ON collection_items
+  FOR EACH ROW EXECUTE FUNCTION set_collection_item_position();
+
+-- The user's default collection, created the first time it is needed
+CREATE OR REPLACE FUNCTION default_collection_id(user_uuid uuid)
+RETURNS uuid AS $$
+DECLARE
+  collection_uuid uuid;
+BEGIN
+  SELECT id INTO collection_uuid
+  FROM collections
+  WHERE user_id = user_uuid AND is_default;
+
+  IF collection_uuid IS NULL THEN
+    INSERT INTO collections (user_id, name, description, is_default)
+    VALUES (user_uuid, 'Saved', 'Everything you have bookmarked', true)
+    ON CONFLICT (user_id) WHERE is_default DO NOTHING
+    RETURNING id INTO collection_uuid;
+
+    IF collection_uuid IS NULL THEN
+      SELECT id INTO collection_uuid
+      FROM collections
+      WHERE user_id = user_uuid AND is_default;
+    END IF;
+  END IF;
+
+  RETURN collection_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Takes any user id, so it is only for the sync triggers (which run as the owner)
+REVOKE EXECUTE ON FUNCTION default_collection_id(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Bookmarks -> default collection
+CREATE OR REPLACE FUNCTION sync_bookmark_to_default_collection()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO collection_items (collection_id, tool_id)
+    VALUES (default_collection_id(NEW.user_id), NEW.tool_id)
+    ON CONFLICT (collection_id, tool_id) DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM collection_items ci
+  USING collections c
+  WHERE ci.collection_id = c.id
+  AND c.user_id = OLD.user_id
+  AND c.is_default
+  AND ci.tool_id = OLD.tool_id;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_bookmark_collection_sync ON bookmarks;
+CREATE TRIGGER on_bookmark_collection_sync
+  AFTER INSERT OR DELETE ON bookmarks
+  FOR EACH ROW EXECUTE FUNCTION sync_bookmark_to_default_collection();
+
+-- Default collection -> bookmarks (the ON CONFLICT / no-op delete ends the round trip)
+CREATE OR REPLACE FUNCTION sync_default_collection_to_bookmarks()
+RETURNS trigger AS $$
+DECLARE
+  owner_uuid uuid;
+BEGIN
+  SELECT user_id INTO owner_uuid
+  FROM collections
+  WHERE id = COALESCE(NEW.collection_id, OLD.collection_id) AND is_default;
+
+  IF owner_uuid IS NOT NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      INSERT INTO bookmarks (user_id, tool_id)
+      VALUES (owner_uuid, NEW.tool_id)
+      ON CONFLICT (user_id, tool_id) DO NOTHING;
+    ELSE
+      DELETE FROM bookmarks
+      WHERE user_id = owner_uuid AND tool_id = OLD.tool_id;
+    END IF;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_default_collection_item_change ON collection_items;
+CREATE TRIGGER on_default_collection_item_change
+  AFTER INSERT OR DELETE ON collection_items
+  FOR EACH ROW EXECUTE FUNCTION sync_default_collection_to_bookmarks();
+
+-- Save a new order: tool_ids lists the collection's tools first to last.
+-- Runs as the caller, so RLS limits it to the owner's collections.
+CREATE OR REPLACE FUNCTION reorder_collection_items(collection_uuid uuid, tool_ids uuid[])
+RETURNS void AS $$
+  UPDATE collection_items ci
+  SET position = ordered.ordinality - 1
+  FROM unnest(tool_ids) WITH ORDINALITY AS ordered(tool_id, ordinality)
+  WHERE ci.collection_id = collection_uuid
+  AND ci.tool_id = ordered.tool_id;
+$$ LANGUAGE sql;
+
+-- Move existing bookmarks into each user's default collection, oldest first
+INSERT INTO collection_items (collection_id, tool_id, created_at)
+SELECT default_collection_id(b.user_id), b.tool_id, b.created_at
+FROM bookmarks b
+ORDER BY b.user_id, b.created_at
+ON CONFLICT (collection_id, tool_id) DO NOTHING;
@@ -0,0 +1,516 @@
+/*
+  # Team workspaces
+
+  1. New Tables
+    - `organizations` - a team sharing one tool stack
+    - `organization_members` - who belongs to a team, with a role:
+        - owner  - everything, including deleting the team and managing owners
+        - admin  - invites people, manages members and sets tool statuses
+        - member - sees the team stack, adds notes and edits team collections
+    - `organization_invites` - pending email invites, accepted with their token
+    - `organization_tool_statuses` - the team's verdict on a tool:
+      approved (for use), evaluating (under evaluation) or banned
+    - `organization_tool_notes` - team-internal notes on a tool
+
+  2. Team collections
+    - `collections.organization_id` shares a collection with a team; every
+      member can see it and add, remove or reorder its tools
+    - Access to a team collection follows team membership: its creator loses
+      it on leaving the team, and only admins delete other people's
+    - Team collections are never a user's default collection
+
+  3. Security
+    - Teams and everything in them are visible to members only
+    - Members join through `accept_organization_invite()` with an invite sent
+      to their own email address
+    - A team always keeps at least one owner; only owners grant or remove
+      the owner role
+
+  4. Functions
+    - `create_organization()` - creates a team with the caller as owner
+    - `get_organization_invite()` - what an invite link is for, before accepting
+    - `accept_organization_invite()` - joins the team
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  description text CHECK (char_length(description) <= 500),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS organization_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email = lower(trim(email)) AND email LIKE '%_@_%'),
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '14 days',
+  accepted_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS organization_tool_statuses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  tool_id uuid NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('approved', 'evaluating', 'banned')),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(organization_id, tool_id)
+);
+
+CREATE TABLE IF NOT EXISTS organization_tool_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  tool_id uuid NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(trim(content)) BETWEEN 1 AND 2000),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE collections
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'collections_team_not_default'
+  ) THEN
+    ALTER TABLE collections
+      ADD CONSTRAINT collections_team_not_default CHECK (NOT (is_default AND organization_id IS NOT NULL));
+  END IF;
+END $$;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_tool_statuses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_tool_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invites_one_pending
+  ON organization_invites(organization_id, email) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_organization_tool_notes_tool ON organization_tool_notes(organization_id, tool_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_collections_organization_id ON collections(organization_id) WHERE organization_id IS NOT NULL;
+
+-- The user's role in the team, or NULL when they are not a member
+CREATE OR REPLACE FUNCTION organization_role(organization_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS text AS $$
+  SELECT role FROM organization_members
+  WHERE organization_id = organization_uuid AND user_id = user_uuid;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_organization_member(organization_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT organization_role(organization_uuid, user_uuid) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Owners count as admins
+CREATE OR REPLACE FUNCTION is_organization_admin(organization_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT COALESCE(organization_role(organization_uuid, user_uuid) IN ('owner', 'admin'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Owners edit their collections; every member edits their team's collections.
+-- Creating a team collection gives no access of its own once you leave the team.
+CREATE OR REPLACE FUNCTION can_edit_collection(collection_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM collections
+    WHERE id = collection_uuid
+    AND CASE
+      WHEN organization_id IS NULL THEN user_id = user_uuid
+      ELSE is_organization_member(organization_id, user_uuid)
+    END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Organizations policies (teams are created through create_organization())
+DROP POLICY IF EXISTS "Organizations are viewable by members" ON organizations;
+CREATE POLICY "Organizations are viewable by members"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(id));
+
+DROP POLICY IF EXISTS "Admins can update organizations" ON organizations;
+CREATE POLICY "Admins can update organizations"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_admin(id))
+  WITH CHECK (is_organization_admin(id));
+
+DROP POLICY IF EXISTS "Owners can delete organizations" ON organizations;
+CREATE POLICY "Owners can delete organizations"
+  ON organizations
+  FOR DELETE
+  TO authenticated
+  USING (organization_role(id) = 'owner');
+
+-- Members policies (people join through accept_organization_invite())
+DROP POLICY IF EXISTS "Members are viewable by members" ON organization_members;
+CREATE POLICY "Members are viewable by members"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Admins can change member roles" ON organization_members;
+CREATE POLICY "Admins can change member roles"
+  ON organization_members
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_admin(organization_id))
+  WITH CHECK (is_organization_admin(organization_id));
+
+DROP POLICY IF EXISTS "Admins remove members and members can leave" ON organization_members;
+CREATE POLICY "Admins remove members and members can leave"
+  ON organization_members
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id OR is_organization_admin(organization_id));
+
+-- Invites policies
+DROP POLICY IF EXISTS "Admins can view invites" ON organization_invites;
+CREATE POLICY "Admins can view invites"
+  ON organization_invites
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_admin(organization_id));
+
+DROP POLICY IF EXISTS "Admins can send invites" ON organization_invites;
+CREATE POLICY "Admins can send invites"
+  ON organization_invites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = invited_by AND status = 'pending' AND is_organization_admin(organization_id));
+
+DROP POLICY IF EXISTS "Admins can revoke invites" ON organization_invites;
+CREATE POLICY "Admins can revoke invites"
+  ON organization_invites
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_admin(organization_id))
+  WITH CHECK (is_organization_admin(organization_id) AND status IN ('pending', 'revoked'));
+
+-- Tool statuses policies
+DROP POLICY IF EXISTS "Tool statuses are viewable by members" ON organization_tool_statuses;
+CREATE POLICY "Tool statuses are viewable by members"
+  ON organization_tool_statuses
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Admins can set tool statuses" ON organization_tool_statuses;
+CREATE POLICY "Admins can set tool statuses"
+  ON organization_tool_statuses
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = updated_by AND is_organization_admin(organization_id));
+
+DROP POLICY IF EXISTS "Admins can change tool statuses" ON organization_tool_statuses;
+CREATE POLICY "Admins can change tool statuses"
+  ON organization_tool_statuses
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_admin(organization_id))
+  WITH CHECK (auth.uid() = updated_by AND is_organization_admin(organization_id));
+
+DROP POLICY IF EXISTS "Admins can clear tool statuses" ON organization_tool_statuses;
+CREATE POLICY "Admins can clear tool statuses"
+  ON organization_tool_statuses
+  FOR DELETE
+  TO authenticated
+  USING (is_organization_admin(organization_id));
+
+-- Tool notes policies
+DROP POLICY IF EXISTS "Tool notes are viewable by members" ON organization_tool_notes;
+CREATE POLICY "Tool notes are viewable by members"
+  ON organization_tool_notes
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Members can add tool notes" ON organization_tool_notes;
+CREATE POLICY "Members can add tool notes"
+  ON organization_tool_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Authors can edit tool notes" ON organization_tool_notes;
+CREATE POLICY "Authors can edit tool notes"
+  ON organization_tool_notes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND is_organization_member(organization_id))
+  WITH CHECK (auth.uid() = user_id AND is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Authors and admins can delete tool notes" ON organization_tool_notes;
+CREATE POLICY "Authors and admins can delete tool notes"
+  ON organization_tool_notes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id OR is_organization_admin(organization_id));
+
+-- Collections: add team visibility and editing to the owner-only policies
+DROP POLICY IF EXISTS "Collections are viewable by owner or link" ON collections;
+CREATE POLICY "Collections are viewable by owner or link"
+  ON collections
+  FOR SELECT
+  TO public
+  USING (
+    visibility IN ('public', 'unlisted')
+    OR (organization_id IS NULL AND auth.uid() = user_id)
+    OR (organization_id IS NOT NULL AND is_organization_member(organization_id))
+  );
+
+DROP POLICY IF EXISTS "Users can create own collections" ON collections;
+CREATE POLICY "Users can create own collections"
+  ON collections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (organization_id IS NULL OR is_organization_member(organization_id))
+  );
+
+DROP POLICY IF EXISTS "Users can update own collections" ON collections;
+CREATE POLICY "Users can update own collections"
+  ON collections
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_collection(id))
+  WITH CHECK (can_edit_collection(id));
+
+DROP POLICY IF EXISTS "Users can delete own collections" ON collections;
+CREATE POLICY "Users can delete own collections"
+  ON collections
+  FOR DELETE
+  TO authenticated
+  USING (
+    NOT is_default
+    AND CASE
+      WHEN organization_id IS NULL THEN auth.uid() = user_id
+      ELSE is_organization_admin(organization_id)
+        OR (auth.uid() = user_id AND is_organization_member(organization_id))
+    END
+  );
+
+DROP POLICY IF EXISTS "Users can add to own collections" ON collection_items;
+CREATE POLICY "Users can add to own collections"
+  ON collection_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_collection(collection_id));
+
+DROP POLICY IF EXISTS "Users can reorder own collections" ON collection_items;
+CREATE POLICY "Users can reorder own collections"
+  ON collection_items
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_collection(collection_id))
+  WITH CHECK (can_edit_collection(collection_id));
+
+DROP POLICY IF EXISTS "Users can remove from own collections" ON collection_items;
+CREATE POLICY "Users can remove from own collections"
+  ON collection_items
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_collection(collection_id));
+
+-- Same as before, plus a collection cannot move between teams
+CREATE OR REPLACE FUNCTION protect_collection_fields()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.is_default := false;
+    ELSE
+      NEW.user_id := OLD.user_id;
+      NEW.organization_id := OLD.organization_id;
+      NEW.is_default := OLD.is_default;
+      NEW.created_at := OLD.created_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admins change roles only; owners are the only ones who make or unmake
+-- owners, and the last owner can neither be demoted nor leave
+CREATE OR REPLACE FUNCTION protect_organization_members()
+RETURNS trigger AS $$
+DECLARE
+  caller_role text;
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  caller_role := organization_role(OLD.organization_id);
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.organization_id := OLD.organization_id;
+    NEW.user_id := OLD.user_id;
+    NEW.created_at := OLD.created_at;
+
+    IF (OLD.role = 'owner' OR NEW.role = 'owner') AND OLD.role <> NEW.role AND caller_role IS DISTINCT FROM 'owner' THEN
+      RAISE EXCEPTION 'Only owners can change who owns the team';
+    END IF;
+  ELSIF OLD.role = 'owner' AND OLD.user_id <> auth.uid() AND caller_role IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only owners can remove an owner';
+  END IF;
+
+  IF OLD.role = 'owner' AND (TG_OP = 'DELETE' OR NEW.role <> 'owner') AND NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = OLD.organization_id
+    AND role = 'owner'
+    AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'A team needs at least one owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_organization_member_change ON organization_members;
+CREATE TRIGGER on_organization_member_change
+  BEFORE UPDATE OR DELETE ON organization_members
+  FOR EACH ROW EXECUTE FUNCTION protect_organization_members();
+
+-- Clients only ever change an invite's status (to revoke it)
+CREATE OR REPLACE FUNCTION protect_organization_invite_fields()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.organization_id := OLD.organization_id;
+    NEW.email := OLD.email;
+    NEW.role := OLD.role;
+    NEW.token := OLD.token;
+    NEW.invited_by := OLD.invited_by;
+    NEW.created_at := OLD.created_at;
+    NEW.expires_at := OLD.expires_at;
+    NEW.accepted_at := OLD.accepted_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_organization_invite_update ON organization_invites;
+CREATE TRIGGER on_organization_invite_update
+  BEFORE UPDATE ON organization_invites
+  FOR EACH ROW EXECUTE FUNCTION protect_organization_invite_fields();
+
+-- Create a team with the caller as its first owner
+CREATE OR REPLACE FUNCTION create_organization(org_name text, org_description text DEFAULT NULL)
+RETURNS organizations AS $$
+DECLARE
+  created organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a team';
+  END IF;
+
+  INSERT INTO organizations (name, description, created_by)
+  VALUES (trim(org_name), NULLIF(trim(org_description), ''), auth.uid())
+  RETURNING * INTO created;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (created.id, auth.uid(), 'owner');
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- What an invite link is for. The token is the secret, so anyone holding it
+-- may see the team name and invited address.
+CREATE OR REPLACE FUNCTION get_organization_invite(invite_token uuid)
+RETURNS TABLE (
+  organization_id uuid,
+  organization_name text,
+  email text,
+  role text,
+  status text,
+  expires_at timestamptz,
+  invited_by_name text
+) AS $$
+  SELECT i.organization_id, o.name, i.email, i.role, i.status, i.expires_at, p.name
+  FROM organization_invites i
+  JOIN organizations o ON o.id = i.organization_id
+  LEFT JOIN profiles p ON p.id = i.invited_by
+  WHERE i.token = invite_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Join the team an invite is for. The invite must be pending, unexpired and
+-- addressed to the caller's email. Returns the organization id.
+CREATE OR REPLACE FUNCTION accept_organization_invite(invite_token uuid)
+RETURNS uuid AS $$
+DECLARE
+  invite organization_invites;
+  caller_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invite';
+  END IF;
+
+  SELECT * INTO invite
+  FROM organization_invites
+  WHERE token = invite_token
+  FOR UPDATE;
+
+  IF invite.id IS NULL OR invite.status = 'revoked' THEN
+    RAISE EXCEPTION 'This invite is no longer valid';
+  END IF;
+
+  IF invite.status = 'accepted' THEN
+    IF is_organization_member(invite.organization_id) THEN
+      RETURN invite.organization_id;
+    END IF;
+    RAISE EXCEPTION 'This invite has already been used';
+  END IF;
+
+  IF invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+
+  SELECT lower(email) INTO caller_email FROM auth.users WHERE id = auth.uid();
+  IF caller_email IS DISTINCT FROM invite.email THEN
+    RAISE EXCEPTION 'This invite was sent to a different email address';
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (invite.organization_id, auth.uid(), invite.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE organization_invites
+  SET status = 'accepted', accepted_at = now()
+  WHERE id = invite.id;
+
+  RETURN invite.organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_organization(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_invite(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_organization_invite(uuid) TO authenticated;
@@ -0,0 +1,71 @@
+/*
+  # Bookmark notes, tags and status
+
+  1. Schema
+    - `bookmarks` gains private `notes`, personal `tags` (up to 10, lowercase,
+      30 characters each) and an evaluation `status`:
+        - trying    - being tried out
+        - using     - in regular use
+        - abandoned - tried and dropped
+    - `bookmarks.updated_at` records the last edit
+
+  2. Security
+    - Users can update their own bookmarks; only the notes, tags and status
+      can change
+    - Bookmarks stay private to their owner, so notes and tags are too
+*/
+
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS notes text CHECK (char_length(notes) <= 2000);
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS status text CHECK (status IN ('trying', 'using', 'abandoned'));
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+-- Keep tag lists short and tidy
+CREATE OR REPLACE FUNCTION valid_bookmark_tags(tag_list text[])
+RETURNS boolean AS $$
+  SELECT COALESCE(array_length(tag_list, 1), 0) <= 10
+  AND NOT EXISTS (
+    SELECT 1 FROM unnest(tag_list) AS tag
+    WHERE tag <> lower(trim(tag)) OR char_length(tag) NOT BETWEEN 1 AND 30
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'bookmarks_tags_valid'
+    AND table_name = 'bookmarks'
+  ) THEN
+    ALTER TABLE bookmarks ADD CONSTRAINT bookmarks_tags_valid CHECK (valid_bookmark_tags(tags));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_bookmarks_tags ON bookmarks USING gin(tags);
+
+DROP POLICY IF EXISTS "Users can update own bookmarks" ON bookmarks;
+CREATE POLICY "Users can update own bookmarks"
+  ON bookmarks
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- A bookmark never moves to another user or tool
+CREATE OR REPLACE FUNCTION protect_bookmark_fields()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.user_id := OLD.user_id;
+    NEW.tool_id := OLD.tool_id;
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_bookmark_update ON bookmarks;
+CREATE TRIGGER on_bookmark_update
+  BEFORE UPDATE ON bookmarks
+  FOR EACH ROW EXECUTE FUNCTION protect_bookmark_fields();
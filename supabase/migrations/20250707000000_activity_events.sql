@@ -0,0 +1,192 @@
+/*
+  # Activity log
+
+  1. New Tables
+    - `activity_events` - one row per bookmark, like or review change a user
+      makes, written by triggers:
+        - bookmark_added / bookmark_removed
+        - like_added / like_removed
+        - review_created / review_updated / review_deleted
+      `tool_name` is copied at write time so the log still reads correctly
+      after a tool is renamed or deleted; `details` holds the review rating
+
+  2. Triggers
+    - `log_bookmark_activity`, `log_like_activity` and `log_review_activity`
+      run after inserts and deletes (and review edits to the rating or text)
+    - Rows removed because their user or tool was deleted are not logged,
+      nor are reviews deleted by a moderator through `moderate_review()`
+
+  3. Functions
+    - `get_user_activity_stats(user_uuid, since, until)` - counts for the
+      Dashboard: tools bookmarked, reviewed and liked and the number of
+      distinct days with any activity, optionally limited to a date range
+
+  4. Security
+    - Users can read their own events; nobody writes to the table directly
+
+  5. Notes
+    - Existing bookmarks, likes and reviews are backfilled as added/created
+      events with their original timestamps
+*/
+
+CREATE TABLE IF NOT EXISTS activity_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  tool_id uuid REFERENCES tools(id) ON DELETE SET NULL,
+  tool_name text NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN (
+    'bookmark_added', 'bookmark_removed',
+    'like_added', 'like_removed',
+    'review_created', 'review_updated', 'review_deleted'
+  )),
+  details jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_events_user_created_at ON activity_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_tool_id ON activity_events(tool_id);
+
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own activity" ON activity_events;
+CREATE POLICY "Users can read own activity"
+  ON activity_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Shared by the triggers below. Removals cascading from a deleted user or
+-- tool are skipped: they are not something the user did, and the insert
+-- would point at a row that no longer exists.
+CREATE OR REPLACE FUNCTION record_activity_event(
+  event_user_id uuid,
+  event_tool_id uuid,
+  event_type text,
+  event_details jsonb DEFAULT '{}'
+)
+RETURNS void AS $$
+DECLARE
+  event_tool_name text;
+BEGIN
+  SELECT name INTO event_tool_name FROM tools WHERE id = event_tool_id;
+
+  IF event_tool_name IS NULL OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = event_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO activity_events (user_id, tool_id, tool_name, event_type, details)
+  VALUES (event_user_id, event_tool_id, event_tool_name, event_type, event_details);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_activity_event(uuid, uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION log_bookmark_activity()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM record_activity_event(NEW.user_id, NEW.tool_id, 'bookmark_added');
+    RETURN NEW;
+  END IF;
+
+  PERFORM record_activity_event(OLD.user_id, OLD.tool_id, 'bookmark_removed');
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION log_like_activity()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM record_activity_event(NEW.user_id, NEW.tool_id, 'like_added');
+    RETURN NEW;
+  END IF;
+
+  PERFORM record_activity_event(OLD.user_id, OLD.tool_id, 'like_removed');
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Vote counts, moderation and status changes also update reviews; only
+-- the author's own edits to the rating or text count as activity. A delete
+-- made by moderate_review() is flagged for the transaction and skipped.
+CREATE OR REPLACE FUNCTION log_review_activity()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM record_activity_event(NEW.user_id, NEW.tool_id, 'review_created', jsonb_build_object('rating', NEW.rating));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.rating IS DISTINCT FROM OLD.rating OR NEW.comment IS DISTINCT FROM OLD.comment THEN
+      PERFORM record_activity_event(NEW.user_id, NEW.tool_id, 'review_updated', jsonb_build_object('rating', NEW.rating));
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('app.review_moderation', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+
+  PERFORM record_activity_event(OLD.user_id, OLD.tool_id, 'review_deleted', jsonb_build_object('rating', OLD.rating));
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_bookmark_activity ON bookmarks;
+CREATE TRIGGER on_bookmark_activity
+  AFTER INSERT OR DELETE ON bookmarks
+  FOR EACH ROW EXECUTE FUNCTION log_bookmark_activity();
+
+DROP TRIGGER IF EXISTS on_like_activity ON likes;
+CREATE TRIGGER on_like_activity
+  AFTER INSERT OR DELETE ON likes
+  FOR EACH ROW EXECUTE FUNCTION log_like_activity();
+
+DROP TRIGGER IF EXISTS on_review_activity ON reviews;
+CREATE TRIGGER on_review_activity
+  AFTER INSERT OR UPDATE OR DELETE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION log_review_activity();
+
+-- Backfill once, so existing users start with their history
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM activity_events) THEN
+    INSERT INTO activity_events (user_id, tool_id, tool_name, event_type, details, created_at)
+    SELECT b.user_id, b.tool_id, t.name, 'bookmark_added', '{}', COALESCE(b.created_at, now())
+    FROM bookmarks b JOIN tools t ON t.id = b.tool_id
+    UNION ALL
+    SELECT l.user_id, l.tool_id, t.name, 'like_added', '{}', COALESCE(l.created_at, now())
+    FROM likes l JOIN tools t ON t.id = l.tool_id
+    UNION ALL
+    SELECT r.user_id, r.tool_id, t.name, 'review_created', jsonb_build_object('rating', r.rating), COALESCE(r.created_at, now())
+    FROM reviews r JOIN tools t ON t.id = r.tool_id;
+  END IF;
+END $$;
+
+-- Runs as the caller, so RLS limits it to the caller's own events. Counts
+-- distinct tools, so unliking and liking a tool again is still one like.
+CREATE OR REPLACE FUNCTION get_user_activity_stats(
+  user_uuid uuid,
+  since timestamptz DEFAULT NULL,
+  until timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  bookmarks_added bigint,
+  reviews_written bigint,
+  tools_liked bigint,
+  days_active bigint
+) AS $$
+  SELECT
+    COUNT(DISTINCT tool_id) FILTER (WHERE event_type = 'bookmark_added'),
+    COUNT(DISTINCT tool_id) FILTER (WHERE event_type = 'review_created'),
+    COUNT(DISTINCT tool_id) FILTER (WHERE event_type = 'like_added'),
+    COUNT(DISTINCT (created_at AT TIME ZONE 'UTC')::date)
+  FROM activity_events
+  WHERE user_id = user_uuid
+  AND (since IS NULL OR created_at >= since)
+  AND (until IS NULL OR created_at < until);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_user_activity_stats(uuid, timestamptz, timestamptz) TO authenticated;
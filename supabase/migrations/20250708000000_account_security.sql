@@ -0,0 +1,142 @@
+/*
+  # Account security
+
+  1. New Tables
+    - `password_check_failures` - wrong passwords given to
+      `verify_user_password()`, kept to throttle guessing
+
+  2. Functions
+    - `verify_user_password(password)` - whether the password matches the
+      caller's current one; asked before a password change so an unattended
+      signed-in browser cannot be used to take over the account. After 5
+      wrong passwords in 15 minutes it refuses to check until the window
+      has passed
+    - `get_user_sessions()` - the caller's signed-in sessions (one per device
+      or browser) with when they started and were last refreshed, the browser
+      and IP they were last used from, and which one is the current session
+    - `revoke_user_session(session_id)` - signs out one of the caller's other
+      sessions
+    - `mfa_satisfied()` - false while a user who has two-factor
+      authentication on is using a password-only (aal1) session
+
+  3. Security
+    - All three run as the owner to reach the `auth` schema and only ever
+      touch the caller's own user and sessions
+    - Nobody reads or writes `password_check_failures` through the API
+    - Listing and revoking sessions need the second factor when it is on
+    - Changing the password also needs a code emailed by Supabase Auth;
+      with `secure_password_change` on, Auth enforces that itself for any
+      session more than a day old
+    - A revoked session can no longer refresh; its current access token
+      stays valid until it expires (one hour by default)
+*/
+
+-- Supabase Auth issues an aal1 token after the password and aal2 once a
+-- second factor is verified. Users without a verified factor only ever get aal1.
+CREATE OR REPLACE FUNCTION mfa_satisfied()
+RETURNS boolean AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', '') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+      WHERE user_id = auth.uid()
+      AND status = 'verified'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE TABLE IF NOT EXISTS password_check_failures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_check_failures_user_created_at
+  ON password_check_failures(user_id, created_at DESC);
+
+ALTER TABLE password_check_failures ENABLE ROW LEVEL SECURITY;
+
+-- Raises instead of answering once the caller is over the limit, so a stolen
+-- session cannot keep guessing; a correct password clears the failures
+CREATE OR REPLACE FUNCTION verify_user_password(password text)
+RETURNS boolean AS $$
+DECLARE
+  password_ok boolean;
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM password_check_failures
+    WHERE user_id = auth.uid()
+    AND created_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect passwords. Try again in 15 minutes';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND encrypted_password IS NOT NULL
+    AND encrypted_password = extensions.crypt(password, encrypted_password)
+  ) INTO password_ok;
+
+  IF password_ok THEN
+    DELETE FROM password_check_failures WHERE user_id = auth.uid();
+  ELSE
+    DELETE FROM password_check_failures
+    WHERE user_id = auth.uid()
+    AND created_at <= now() - interval '15 minutes';
+
+    INSERT INTO password_check_failures (user_id) VALUES (auth.uid());
+  END IF;
+
+  RETURN password_ok;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION verify_user_password(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION verify_user_password(text) TO authenticated;
+
+-- The current session's id is carried in the access token
+CREATE OR REPLACE FUNCTION get_user_sessions()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  refreshed_at timestamptz,
+  user_agent text,
+  ip text,
+  is_current boolean
+) AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at),
+    s.user_agent,
+    host(s.ip),
+    s.id::text = auth.jwt() ->> 'session_id'
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+  AND mfa_satisfied()
+  AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at) DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_user_sessions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_user_sessions() TO authenticated;
+
+-- Deleting the session also deletes its refresh tokens
+CREATE OR REPLACE FUNCTION revoke_user_session(session_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify a two-factor code before signing out other sessions';
+  END IF;
+
+  IF session_id::text = auth.jwt() ->> 'session_id' THEN
+    RAISE EXCEPTION 'Use sign out to end the current session';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE id = session_id
+  AND user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION revoke_user_session(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revoke_user_session(uuid) TO authenticated;
@@ -0,0 +1,160 @@
+/*
+  # Two-factor recovery codes
+
+  1. New Tables
+    - `mfa_recovery_codes` - bcrypt hashes of the one-time codes shown when a
+      user turns on two-factor authentication (TOTP factors themselves are
+      kept by Supabase Auth)
+
+  2. Functions
+    - `set_mfa_recovery_codes(codes)` - replaces the caller's codes; an empty
+      array removes them. Needs a session verified with a second factor (aal2)
+    - `get_mfa_recovery_code_count()` - how many codes the caller has
+    - `consume_mfa_recovery_code(user_uuid, code)` - service role only, used
+      by the `redeem-mfa-recovery-code` edge function. A matching code
+      removes all of the user's codes; the function then removes their TOTP
+      factors so they can sign in and set two-factor up again
+
+  3. Security
+    - RLS is enabled with no policies: codes are only reached through the
+      functions above and never leave the database
+    - Once a user has two-factor on, a password-only (aal1) session cannot
+      write to any table or storage bucket, nor read anything beyond the
+      public catalog (tools, categories, profiles, reviews and likes).
+      Restrictive policies, checked on top of the existing ones, require
+      `mfa_satisfied()`
+*/
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION set_mfa_recovery_codes(codes text[])
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF COALESCE(auth.jwt() ->> 'aal', '') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify a two-factor code before changing recovery codes';
+  END IF;
+
+  IF COALESCE(array_length(codes, 1), 0) > 20 THEN
+    RAISE EXCEPTION 'Too many recovery codes';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  INSERT INTO mfa_recovery_codes (user_id, code_hash)
+  SELECT auth.uid(), extensions.crypt(code, extensions.gen_salt('bf'))
+  FROM unnest(codes) AS code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION set_mfa_recovery_codes(text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_mfa_recovery_codes(text[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_mfa_recovery_code_count()
+RETURNS integer AS $$
+  SELECT COUNT(*)::integer FROM mfa_recovery_codes WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_mfa_recovery_code_count() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_mfa_recovery_code_count() TO authenticated;
+
+CREATE OR REPLACE FUNCTION consume_mfa_recovery_code(user_uuid uuid, code text)
+RETURNS boolean AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM mfa_recovery_codes
+    WHERE user_id = user_uuid
+    AND code_hash = extensions.crypt(code, code_hash)
+  ) THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = user_uuid;
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION consume_mfa_recovery_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_mfa_recovery_code(uuid, text) TO service_role;
+
+-- Restrictive policies narrow what the permissive ones allow. Tables the
+-- public catalog reads from stay readable, so a signed-in browser still
+-- waiting for its code can show the catalog; everything else needs aal2.
+-- The subselect runs mfa_satisfied() once per query rather than per row.
+DO $$
+DECLARE
+  gated_table text;
+BEGIN
+  FOREACH gated_table IN ARRAY ARRAY[
+    'profiles', 'categories', 'tools', 'tool_features', 'tool_submission_contacts',
+    'tool_owners', 'tool_claims', 'bookmarks', 'likes', 'reviews', 'review_votes',
+    'review_reports', 'moderation_audit_log', 'review_responses', 'review_response_revisions',
+    'collections', 'collection_items', 'organizations', 'organization_members',
+    'organization_invites', 'organization_tool_statuses', 'organization_tool_notes',
+    'activity_events', 'password_check_failures', 'mfa_recovery_codes'
+  ] LOOP
+    IF gated_table NOT IN ('profiles', 'categories', 'tools', 'tool_features', 'likes', 'reviews', 'review_responses', 'review_response_revisions') THEN
+      EXECUTE format('DROP POLICY IF EXISTS "Two-factor required to read" ON %I', gated_table);
+      EXECUTE format(
+        'CREATE POLICY "Two-factor required to read" ON %I AS RESTRICTIVE FOR SELECT TO authenticated USING ((SELECT mfa_satisfied()))',
+        gated_table
+      );
+    END IF;
+
+    EXECUTE format('DROP POLICY IF EXISTS "Two-factor required to add" ON %I', gated_table);
+    EXECUTE format(
+      'CREATE POLICY "Two-factor required to add" ON %I AS RESTRICTIVE FOR INSERT TO authenticated WITH CHECK ((SELECT mfa_satisfied()))',
+      gated_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Two-factor required to change" ON %I', gated_table);
+    EXECUTE format(
+      'CREATE POLICY "Two-factor required to change" ON %I AS RESTRICTIVE FOR UPDATE TO authenticated USING ((SELECT mfa_satisfied())) WITH CHECK ((SELECT mfa_satisfied()))',
+      gated_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Two-factor required to delete" ON %I', gated_table);
+    EXECUTE format(
+      'CREATE POLICY "Two-factor required to delete" ON %I AS RESTRICTIVE FOR DELETE TO authenticated USING ((SELECT mfa_satisfied()))',
+      gated_table
+    );
+  END LOOP;
+END $$;
+
+-- Uploads, replacements and deletions in every bucket
+DROP POLICY IF EXISTS "Two-factor required to upload" ON storage.objects;
+CREATE POLICY "Two-factor required to upload"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK ((SELECT mfa_satisfied()));
+
+DROP POLICY IF EXISTS "Two-factor required to replace uploads" ON storage.objects;
+CREATE POLICY "Two-factor required to replace uploads"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING ((SELECT mfa_satisfied()))
+  WITH CHECK ((SELECT mfa_satisfied()));
+
+DROP POLICY IF EXISTS "Two-factor required to delete uploads" ON storage.objects;
+CREATE POLICY "Two-factor required to delete uploads"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING ((SELECT mfa_satisfied()));
@@ -0,0 +1,248 @@
+/*
+  # Account data export and deletion
+
+  1. New Tables
+    - `account_deletion_requests` - accounts scheduled for deletion, one row
+      per user. The row is removed if the user cancels during the grace
+      period
+
+  2. Changes
+    - `reviews.user_id` is nullable and set to NULL when its profile is
+      deleted: a deleted account's reviews stay up without an author, and
+      their ratings keep counting towards the tool
+
+  3. Functions
+    - `export_user_data()` - the caller's profile, bookmarks, reviews, likes,
+      collections and activity as one JSON document
+    - `request_account_deletion(password)` - schedules the caller's account
+      for deletion after a 14-day grace period; the password is asked for
+      again so an unattended signed-in browser cannot do it. Returns when
+      the account will be deleted, or NULL when the password is wrong
+    - `cancel_account_deletion()` - keeps the account
+
+  4. Deletion
+    - The `purge-deleted-accounts` edge function, run on a schedule, deletes
+      accounts whose grace period is over: their files in the `avatars`
+      bucket first, then the auth user, which cascades to the profile and
+      everything that belongs to it. Tools they submitted stay listed with
+      their images
+    - Teams keep going: `hand_over_team_data()` runs first, passing the
+      team collections the user created to an owner of the team and making
+      someone else owner of any team the user was the only owner of. A team
+      with no other members is deleted
+
+  5. Security
+    - Users can read their own deletion request; changes go through the
+      functions above. Both need the second factor when it is on
+*/
+
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  scheduled_for timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deletion_requests_scheduled_for
+  ON account_deletion_requests(scheduled_for);
+
+ALTER TABLE account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own deletion request" ON account_deletion_requests;
+CREATE POLICY "Users can view own deletion request"
+  ON account_deletion_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- As for every table in the recovery codes migration
+DROP POLICY IF EXISTS "Two-factor required to read" ON account_deletion_requests;
+CREATE POLICY "Two-factor required to read"
+  ON account_deletion_requests
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING ((SELECT mfa_satisfied()));
+
+-- Reviews outlive their author's account
+ALTER TABLE reviews ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE reviews DROP CONSTRAINT IF EXISTS reviews_user_id_fkey;
+ALTER TABLE reviews ADD CONSTRAINT reviews_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Teams outlive a member's account. Runs before the profile's cascade: a
+-- team whose only owner is leaving gets a new owner (admins first, then the
+-- longest-standing member) or, with nobody left, is deleted; team
+-- collections the user created pass to the team's longest-standing owner.
+CREATE OR REPLACE FUNCTION hand_over_team_data()
+RETURNS trigger AS $$
+DECLARE
+  sole_owned uuid;
+  successor uuid;
+BEGIN
+  FOR sole_owned IN
+    SELECT m.organization_id
+    FROM organization_members m
+    WHERE m.user_id = OLD.id
+    AND m.role = 'owner'
+    AND NOT EXISTS (
+      SELECT 1 FROM organization_members other
+      WHERE other.organization_id = m.organization_id
+      AND other.role = 'owner'
+      AND other.user_id <> OLD.id
+    )
+  LOOP
+    SELECT user_id INTO successor
+    FROM organization_members
+    WHERE organization_id = sole_owned
+    AND user_id <> OLD.id
+    ORDER BY role = 'admin' DESC, created_at
+    LIMIT 1;
+
+    IF successor IS NULL THEN
+      DELETE FROM organizations WHERE id = sole_owned;
+    ELSE
+      UPDATE organization_members
+      SET role = 'owner'
+      WHERE organization_id = sole_owned
+      AND user_id = successor;
+    END IF;
+  END LOOP;
+
+  UPDATE collections c
+  SET user_id = (
+    SELECT m.user_id FROM organization_members m
+    WHERE m.organization_id = c.organization_id
+    AND m.role = 'owner'
+    AND m.user_id <> OLD.id
+    ORDER BY m.created_at
+    LIMIT 1
+  )
+  WHERE c.user_id = OLD.id
+  AND c.organization_id IS NOT NULL;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_profile_delete_hand_over_teams ON profiles;
+CREATE TRIGGER on_profile_delete_hand_over_teams
+  BEFORE DELETE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION hand_over_team_data();
+
+-- Runs as the caller, so row level security limits it to their own data
+CREATE OR REPLACE FUNCTION export_user_data()
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'profile', (SELECT to_jsonb(p) FROM profiles p WHERE p.id = auth.uid()),
+    'bookmarks', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'tool_id', b.tool_id,
+          'tool_name', t.name,
+          'tool_url', t.website_url,
+          'notes', b.notes,
+          'tags', b.tags,
+          'status', b.status,
+          'created_at', b.created_at,
+          'updated_at', b.updated_at
+        ) ORDER BY b.created_at
+      )
+      FROM bookmarks b
+      LEFT JOIN tools t ON t.id = b.tool_id
+      WHERE b.user_id = auth.uid()
+    ), '[]'::jsonb),
+    'reviews', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(r) - 'user_id') || jsonb_build_object('tool_name', t.name)
+        ORDER BY r.created_at
+      )
+      FROM reviews r
+      LEFT JOIN tools t ON t.id = r.tool_id
+      WHERE r.user_id = auth.uid()
+    ), '[]'::jsonb),
+    'likes', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('tool_id', l.tool_id, 'tool_name', t.name, 'created_at', l.created_at)
+        ORDER BY l.created_at
+      )
+      FROM likes l
+      LEFT JOIN tools t ON t.id = l.tool_id
+      WHERE l.user_id = auth.uid()
+    ), '[]'::jsonb),
+    'collections', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(c) - 'user_id') || jsonb_build_object(
+          'tool_ids', COALESCE((
+            SELECT jsonb_agg(ci.tool_id ORDER BY ci.position)
+            FROM collection_items ci
+            WHERE ci.collection_id = c.id
+          ), '[]'::jsonb)
+        )
+        ORDER BY c.created_at
+      )
+      FROM collections c
+      WHERE c.user_id = auth.uid()
+    ), '[]'::jsonb),
+    'activity', COALESCE((
+      SELECT jsonb_agg(to_jsonb(a) - 'user_id' ORDER BY a.created_at)
+      FROM activity_events a
+      WHERE a.user_id = auth.uid()
+    ), '[]'::jsonb),
+    'deletion_request', (
+      SELECT to_jsonb(d) - 'user_id'
+      FROM account_deletion_requests d
+      WHERE d.user_id = auth.uid()
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION export_user_data() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION export_user_data() TO authenticated;
+
+-- Asking again keeps the original date. A wrong password returns NULL rather
+-- than raising, so verify_user_password() still records the failure.
+CREATE OR REPLACE FUNCTION request_account_deletion(password text)
+RETURNS timestamptz AS $$
+DECLARE
+  deletion_date timestamptz;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF NOT mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify a two-factor code before deleting your account';
+  END IF;
+
+  IF NOT verify_user_password(password) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO account_deletion_requests (user_id, scheduled_for)
+  VALUES (auth.uid(), now() + interval '14 days')
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT scheduled_for INTO deletion_date
+  FROM account_deletion_requests
+  WHERE user_id = auth.uid();
+
+  RETURN deletion_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION request_account_deletion(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_account_deletion(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_account_deletion()
+RETURNS void AS $$
+BEGIN
+  IF NOT mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify a two-factor code before keeping your account';
+  END IF;
+
+  DELETE FROM account_deletion_requests WHERE user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cancel_account_deletion() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_account_deletion() TO authenticated;